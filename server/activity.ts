@@ -0,0 +1,138 @@
+import { Request } from 'express';
+import { ActivityAction, ActivityChange, ActivityEntity, ActivityLog } from '../src/types';
+import { can, PermissionCheck } from '../src/services/accessPolicy';
+import { Database, Row } from './db';
+import { toDate, toId, toJson, toOptionalId } from './db/values';
+import { AuthUser, authUser } from './middleware/auth';
+
+// Who may see an entity's history: the same people who may read the entity
+export const ACTIVITY_VISIBILITY: Record<ActivityEntity, PermissionCheck> = {
+  documents: { module: 'documents', action: 'read' },
+  payments: { module: 'payments', action: 'read' },
+  challans: { module: 'challans', action: 'read' },
+  customers: { module: 'customers', action: 'read' },
+  builders: { module: 'builders', action: 'read' },
+  tasks: { module: 'tasks', action: 'read_all' },
+  users: { module: 'users', action: 'read' },
+  salary_records: { module: 'salary', action: 'read' },
+  staff_configs: { module: 'salary', action: 'read' },
+  bank_statements: { module: 'payments', action: 'reconcile' },
+  task_templates: { module: 'tasks', action: 'manage_templates' },
+  task_pipeline_rules: { module: 'tasks', action: 'manage_templates' },
+};
+
+const ENTITY_NOUNS: Record<ActivityEntity, string> = {
+  documents: 'document',
+  payments: 'payment',
+  challans: 'challan',
+  customers: 'customer',
+  builders: 'builder',
+  tasks: 'task',
+  users: 'user',
+  salary_records: 'salary record',
+  staff_configs: 'salary configuration',
+  bank_statements: 'bank statement',
+  task_templates: 'task template',
+  task_pipeline_rules: 'task pipeline rule',
+};
+
+// Fields that change on every write or carry no meaning of their own
+const IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const STATUS_FIELDS = ['status', 'paymentStatus'];
+
+type Snapshot = object;
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const fieldName = (field: string) => field.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+// Field-level differences between two versions of a record. A missing side
+// means the record was created (no before) or deleted (no after).
+export function diffRecords(before: Snapshot | undefined, after: Snapshot | undefined): ActivityChange[] {
+  const previous = (before ?? {}) as Record<string, unknown>;
+  const next = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return [...fields]
+    .filter(field => !IGNORED_FIELDS.has(field) && !sameValue(previous[field], next[field]))
+    .map(field => ({ field, before: previous[field], after: next[field] }));
+}
+
+function describe(entity: ActivityEntity, label: string, action: ActivityAction, changes: ActivityChange[]): string {
+  const subject = `${ENTITY_NOUNS[entity]} ${label}`;
+  switch (action) {
+    case 'created':
+      return `Created ${subject}`;
+    case 'deleted':
+      return `Deleted ${subject}`;
+    case 'status_changed': {
+      const status = changes.find(change => STATUS_FIELDS.includes(change.field));
+      return `Changed ${subject} ${fieldName(status?.field ?? 'status')} from ${status?.before} to ${status?.after}`;
+    }
+    default:
+      return `Updated ${subject}: ${changes.map(change => fieldName(change.field)).join(', ')}`;
+  }
+}
+
+export interface ActivityInput {
+  entity: ActivityEntity;
+  recordId: string;
+  // Shown in the summary, e.g. the document or challan number
+  label: string;
+  documentId?: string;
+  before?: Snapshot;
+  after?: Snapshot;
+}
+
+// Records one create, update or delete with its diff. Updates that changed
+// nothing are not recorded; ones that moved a status are marked as such.
+export async function recordActivity(db: Database, req: Request, input: ActivityInput): Promise<void> {
+  const changes = diffRecords(input.before, input.after);
+  const action: ActivityAction = !input.before
+    ? 'created'
+    : !input.after
+      ? 'deleted'
+      : changes.some(change => STATUS_FIELDS.includes(change.field))
+        ? 'status_changed'
+        : 'updated';
+  if (action !== 'created' && action !== 'deleted' && changes.length === 0) return;
+
+  const user = authUser(req);
+  await db.query(
+    `INSERT INTO activity_logs (
+      user_id, user_name, action, module, record_id, document_id,
+      details, changes, ip_address, user_agent, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+    [
+      user.id,
+      user.name,
+      action,
+      input.entity,
+      input.recordId,
+      input.documentId ?? null,
+      describe(input.entity, input.label, action, changes),
+      JSON.stringify(changes),
+      req.ip ?? null,
+      req.get('User-Agent') ?? null,
+    ]
+  );
+}
+
+export const canSeeActivity = (user: AuthUser, entity: ActivityEntity): boolean => {
+  const { module, action } = ACTIVITY_VISIBILITY[entity];
+  return can(user, module, action);
+};
+
+export const toActivityLog = (row: Row): ActivityLog => ({
+  id: toId(row.id),
+  entity: row.module as ActivityEntity,
+  recordId: String(row.record_id),
+  documentId: toOptionalId(row.document_id),
+  userId: toOptionalId(row.user_id),
+  userName: String(row.user_name ?? 'System'),
+  action: row.action as ActivityAction,
+  details: String(row.details ?? ''),
+  changes: toJson(row.changes, []),
+  timestamp: toDate(row.created_at),
+});
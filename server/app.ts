@@ -0,0 +1,103 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { ServerConfig } from './config';
+import { Database } from './db';
+import { HttpError } from './http';
+import { currentUser } from './middleware/auth';
+import { activityRoutes } from './routes/activity';
+import { attendanceRoutes } from './routes/attendance';
+import { authRoutes } from './routes/auth';
+import { builderRoutes } from './routes/builders';
+import { challanRoutes } from './routes/challans';
+import { customerRoutes } from './routes/customers';
+import { databaseRoutes } from './routes/database';
+import { documentRoutes } from './routes/documents';
+import { migrationRoutes } from './routes/migrations';
+import { notificationRoutes } from './routes/notifications';
+import { paymentRoutes } from './routes/payments';
+import { reconciliationRoutes } from './routes/reconciliation';
+import { salaryRecordRoutes, staffConfigRoutes } from './routes/salary';
+import { sequenceRoutes } from './routes/sequences';
+import { settingsRoutes } from './routes/settings';
+import { taskRoutes } from './routes/tasks';
+import { taskPipelineRoutes } from './routes/taskPipeline';
+import { taskTemplateRoutes } from './routes/taskTemplates';
+import { userRoutes } from './routes/users';
+
+// Only origins listed in CORS_ORIGINS may call the API from a browser
+function cors(allowedOrigins: string[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const origin = req.headers.origin;
+    if (!origin) {
+      next();
+      return;
+    }
+
+    if (!allowedOrigins.includes(origin)) {
+      res.status(403).json({ success: false, error: 'Origin not allowed' });
+      return;
+    }
+
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-Unmodified-Since');
+    res.setHeader('Vary', 'Origin');
+
+    if (req.method === 'OPTIONS') {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  };
+}
+
+export function createApp(config: ServerConfig, db: Database) {
+  const app = express();
+
+  app.disable('x-powered-by');
+  app.use(cors(config.corsOrigins));
+  app.use(express.json({ limit: '1mb' }));
+
+  app.use('/api', databaseRoutes(db));
+  app.use('/api/migrations', migrationRoutes(db));
+  app.use('/api/auth', authRoutes(db, config.session));
+
+  app.use('/api', currentUser(db));
+  app.use('/api/users', userRoutes(db));
+  app.use('/api/customers', customerRoutes(db));
+  app.use('/api/builders', builderRoutes(db));
+  app.use('/api/documents', documentRoutes(db));
+  app.use('/api/payments', paymentRoutes(db));
+  app.use('/api/challans', challanRoutes(db));
+  app.use('/api/reconciliation', reconciliationRoutes(db));
+  app.use('/api/tasks', taskRoutes(db));
+  app.use('/api/task-templates', taskTemplateRoutes(db));
+  app.use('/api/task-pipeline', taskPipelineRoutes(db));
+  app.use('/api/attendance', attendanceRoutes(db));
+  app.use('/api/salary-records', salaryRecordRoutes(db));
+  app.use('/api/staff-configs', staffConfigRoutes(db));
+  app.use('/api/settings', settingsRoutes(db));
+  app.use('/api/sequences', sequenceRoutes(db));
+  app.use('/api/activity', activityRoutes(db));
+  app.use('/api/notifications', notificationRoutes(db));
+
+  app.use('/api', (_req, res) => {
+    res.status(404).json({ success: false, error: 'Not found' });
+  });
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  app.use((error: Error, _req: Request, res: Response, _next: NextFunction) => {
+    if (error instanceof HttpError) {
+      res.status(error.status).json({ success: false, error: error.message });
+      return;
+    }
+    if (error instanceof SyntaxError) {
+      res.status(400).json({ success: false, error: 'Invalid JSON input' });
+      return;
+    }
+    console.error('Unhandled API error:', error);
+    res.status(500).json({ success: false, error: 'Internal server error' });
+  });
+
+  return app;
+}
@@ -0,0 +1,62 @@
+import { config as loadEnv } from 'dotenv';
+
+loadEnv({ quiet: true });
+
+export type DatabaseDriver = 'mysql' | 'memory';
+
+export interface DatabaseConfig {
+  driver: DatabaseDriver;
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  password: string;
+  ssl: string;
+  // Apply pending migrations when the server starts
+  autoMigrate: boolean;
+}
+
+export interface SessionConfig {
+  ttlHours: number;
+  // Only send the session cookie over HTTPS
+  secureCookie: boolean;
+}
+
+export interface ServerConfig {
+  port: number;
+  corsOrigins: string[];
+  database: DatabaseConfig;
+  session: SessionConfig;
+}
+
+const readList = (value: string | undefined, fallback: string[]): string[] => {
+  if (!value) return fallback;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+};
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  // Fall back to the embedded stand-in when no MySQL host is configured
+  const driver: DatabaseDriver = env.DB_DRIVER === 'mysql' || (env.DB_DRIVER !== 'memory' && env.DB_HOST)
+    ? 'mysql'
+    : 'memory';
+
+  return {
+    port: parseInt(env.API_PORT || '3001', 10),
+    corsOrigins: readList(env.CORS_ORIGINS, ['http://localhost:5173']),
+    database: {
+      driver,
+      host: env.DB_HOST || 'localhost',
+      port: parseInt(env.DB_PORT || '3306', 10),
+      database: env.DB_NAME || 'om_services_db',
+      username: env.DB_USER || '',
+      password: env.DB_PASS || '',
+      ssl: env.DB_SSL_MODE || 'preferred',
+      // The in-memory stand-in starts empty every time, so it always needs the schema
+      autoMigrate: driver === 'memory' || env.DB_AUTO_MIGRATE === 'true',
+    },
+    session: {
+      ttlHours: parseInt(env.SESSION_TTL_HOURS || '12', 10),
+      secureCookie: env.COOKIE_SECURE ? env.COOKIE_SECURE === 'true' : env.NODE_ENV === 'production',
+    },
+  };
+}
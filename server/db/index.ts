@@ -0,0 +1,25 @@
+import { DatabaseConfig } from '../config';
+import { createMysqlDatabase } from './mysql';
+import { createMemoryDatabase } from './memory';
+
+export type Row = Record<string, unknown>;
+
+export interface QueryOutcome {
+  rows: Row[];
+  affectedRows: number;
+  insertId?: number;
+}
+
+export interface Database {
+  driver: DatabaseConfig['driver'];
+  query: (sql: string, params?: unknown[]) => Promise<QueryOutcome>;
+  ping: () => Promise<string>;
+  close: () => Promise<void>;
+}
+
+export async function createDatabase(config: DatabaseConfig): Promise<Database> {
+  if (config.driver === 'mysql') {
+    return createMysqlDatabase(config);
+  }
+  return createMemoryDatabase();
+}
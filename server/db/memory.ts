@@ -0,0 +1,68 @@
+import initSqlJs, { SqlValue } from 'sql.js';
+import { Database, Row } from './index';
+
+// Rewrites the MySQL-specific syntax the app uses into its SQLite equivalent
+// so the same statements run against the embedded stand-in.
+export function translateMysql(sql: string): string {
+  return sql
+    .replace(/\bINT\s+PRIMARY\s+KEY\s+AUTO_INCREMENT\b/gi, 'INTEGER PRIMARY KEY AUTOINCREMENT')
+    .replace(/\bENUM\s*\([^)]*\)/gi, 'TEXT')
+    .replace(/\s+ON\s+UPDATE\s+CURRENT_TIMESTAMP/gi, '')
+    .replace(/,\s*(?:INDEX|KEY)\s+\w+\s*\([^)]*\)/gi, '')
+    .replace(/\bUNIQUE\s+KEY\s+\w+\s*\(/gi, 'UNIQUE (')
+    .replace(/\)\s*ENGINE\s*=[^;]*/gi, ')')
+    .replace(/\bDROP\s+INDEX\s+(\w+)\s+ON\s+\w+/gi, 'DROP INDEX $1')
+    .replace(/\bINSERT\s+IGNORE\b/gi, 'INSERT OR IGNORE')
+    .replace(/\bON\s+DUPLICATE\s+KEY\s+UPDATE\b/gi, 'ON CONFLICT DO UPDATE SET')
+    .replace(/\bVALUES\((\w+)\)/g, 'excluded.$1')
+    .replace(/\bTIMESTAMPDIFF\s*\(\s*MINUTE\s*,\s*([^,]+?)\s*,\s*([^)]+?)\s*\)/gi, '((julianday($2) - julianday($1)) * 1440)')
+    .replace(/\bDATE_ADD\s*\(\s*NOW\(\)\s*,\s*INTERVAL\s+(\?|\d+)\s+(MINUTE|HOUR|DAY)\s*\)/gi, "datetime('now', '+' || $1 || ' $2s')")
+    .replace(/\bNOW\(\)/gi, 'CURRENT_TIMESTAMP')
+    .replace(/\bCURDATE\(\)/gi, "DATE('now')");
+}
+
+const toSqlValue = (value: unknown): SqlValue => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString().slice(0, 19).replace('T', ' ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return value as SqlValue;
+};
+
+export async function createMemoryDatabase(): Promise<Database> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+  db.run('PRAGMA foreign_keys = ON');
+
+  return {
+    driver: 'memory',
+
+    async query(sql, params = []) {
+      const statement = db.prepare(translateMysql(sql));
+      try {
+        statement.bind(params.map(toSqlValue));
+        const rows: Row[] = [];
+        while (statement.step()) {
+          rows.push(statement.getAsObject());
+        }
+        if (statement.getColumnNames().length > 0) {
+          return { rows, affectedRows: 0 };
+        }
+        const affectedRows = db.getRowsModified();
+        const [[insertId]] = db.exec('SELECT last_insert_rowid()')[0].values;
+        return { rows: [], affectedRows, insertId: Number(insertId) || undefined };
+      } finally {
+        statement.free();
+      }
+    },
+
+    async ping() {
+      const [[version]] = db.exec('SELECT sqlite_version()')[0].values;
+      return `SQLite ${version} (in-memory stand-in)`;
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
@@ -0,0 +1,381 @@
+import { Migration } from './types';
+
+// Baseline schema. Tables use IF NOT EXISTS so databases created from the old
+// downloadable schema can adopt the migration history without being rebuilt.
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+  up: [
+    // Users table
+    `CREATE TABLE IF NOT EXISTS users (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      email VARCHAR(255) UNIQUE NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      role ENUM('main_admin', 'staff_admin', 'challan_staff', 'field_collection_staff', 'data_entry_staff', 'document_delivery_staff') NOT NULL,
+      password_hash VARCHAR(255) NOT NULL,
+      is_active BOOLEAN DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      last_login TIMESTAMP NULL,
+      INDEX idx_email (email),
+      INDEX idx_role (role),
+      INDEX idx_active (is_active)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Documents table
+    `CREATE TABLE IF NOT EXISTS documents (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      document_number VARCHAR(100) UNIQUE NOT NULL,
+      customer_name VARCHAR(255) NOT NULL,
+      customer_phone VARCHAR(20) NOT NULL,
+      customer_email VARCHAR(255),
+      builder_name VARCHAR(255) NOT NULL,
+      property_details TEXT NOT NULL,
+      document_type ENUM('agreement', 'lease_deed', 'sale_deed', 'mutation', 'partition_deed', 'gift_deed') NOT NULL,
+      status ENUM('pending_collection', 'collected', 'data_entry_pending', 'data_entry_completed', 'registration_pending', 'registered', 'ready_for_delivery', 'delivered') DEFAULT 'pending_collection',
+      assigned_to VARCHAR(255),
+      collection_date TIMESTAMP NULL,
+      data_entry_date TIMESTAMP NULL,
+      registration_date TIMESTAMP NULL,
+      delivery_date TIMESTAMP NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_document_number (document_number),
+      INDEX idx_customer_phone (customer_phone),
+      INDEX idx_status (status),
+      INDEX idx_document_type (document_type),
+      INDEX idx_assigned_to (assigned_to),
+      INDEX idx_created_at (created_at),
+      INDEX idx_documents_customer_name (customer_name),
+      INDEX idx_documents_builder_name (builder_name)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Customers table
+    `CREATE TABLE IF NOT EXISTS customers (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      name VARCHAR(255) NOT NULL,
+      phone VARCHAR(20) UNIQUE NOT NULL,
+      email VARCHAR(255),
+      address TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_phone (phone),
+      INDEX idx_email (email),
+      INDEX idx_name (name)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Builders table
+    `CREATE TABLE IF NOT EXISTS builders (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      name VARCHAR(255) NOT NULL,
+      contact_person VARCHAR(255) NOT NULL,
+      phone VARCHAR(20) NOT NULL,
+      email VARCHAR(255),
+      address TEXT NOT NULL,
+      registration_number VARCHAR(100),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_name (name),
+      INDEX idx_phone (phone),
+      INDEX idx_registration_number (registration_number)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Payments table
+    `CREATE TABLE IF NOT EXISTS payments (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      document_id INT NOT NULL,
+      agreement_value DECIMAL(15,2) NOT NULL,
+      consideration_amount DECIMAL(15,2) NOT NULL,
+      dhc_amount DECIMAL(15,2) NOT NULL,
+      total_amount DECIMAL(15,2) NOT NULL,
+      paid_amount DECIMAL(15,2) DEFAULT 0,
+      pending_amount DECIMAL(15,2) NOT NULL,
+      payment_status ENUM('pending', 'partial', 'completed', 'refunded') DEFAULT 'pending',
+      payment_method ENUM('cash', 'cheque', 'online', 'dd'),
+      payment_date DATE,
+      challan_number VARCHAR(100),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_document_id (document_id),
+      INDEX idx_payment_status (payment_status),
+      INDEX idx_challan_number (challan_number),
+      INDEX idx_payments_total_amount (total_amount),
+      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Challans table
+    `CREATE TABLE IF NOT EXISTS challans (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      document_id INT NOT NULL,
+      challan_number VARCHAR(100) UNIQUE NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      filled_by VARCHAR(255) NOT NULL,
+      filled_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      status ENUM('draft', 'submitted', 'approved', 'rejected') DEFAULT 'draft',
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_challan_number (challan_number),
+      INDEX idx_document_id (document_id),
+      INDEX idx_status (status),
+      INDEX idx_challans_amount (amount),
+      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Tasks table
+    `CREATE TABLE IF NOT EXISTS tasks (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      title VARCHAR(255) NOT NULL,
+      description TEXT NOT NULL,
+      type ENUM('document_collection', 'data_entry', 'document_delivery', 'challan_creation', 'payment_processing', 'customer_follow_up', 'document_verification', 'registration_follow_up', 'quality_check', 'custom') NOT NULL,
+      priority ENUM('low', 'medium', 'high', 'urgent') DEFAULT 'medium',
+      status ENUM('pending', 'in_progress', 'on_hold', 'completed', 'cancelled', 'overdue') DEFAULT 'pending',
+      assigned_to VARCHAR(255) NOT NULL,
+      assigned_by VARCHAR(255) NOT NULL,
+      document_id INT,
+      customer_id INT,
+      builder_id INT,
+      due_date TIMESTAMP NULL,
+      completed_at TIMESTAMP NULL,
+      estimated_hours DECIMAL(4,2),
+      actual_hours DECIMAL(4,2),
+      tags JSON,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_assigned_to (assigned_to),
+      INDEX idx_status (status),
+      INDEX idx_type (type),
+      INDEX idx_priority (priority),
+      INDEX idx_tasks_due_date (due_date),
+      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE SET NULL,
+      FOREIGN KEY (customer_id) REFERENCES customers(id) ON DELETE SET NULL,
+      FOREIGN KEY (builder_id) REFERENCES builders(id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Task comments table
+    `CREATE TABLE IF NOT EXISTS task_comments (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      task_id INT NOT NULL,
+      content TEXT NOT NULL,
+      author_id VARCHAR(255) NOT NULL,
+      author_name VARCHAR(255) NOT NULL,
+      is_internal BOOLEAN DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_task_id (task_id),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Attendance records table
+    `CREATE TABLE IF NOT EXISTS attendance_records (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      date DATE NOT NULL,
+      clock_in_time TIMESTAMP NULL,
+      clock_out_time TIMESTAMP NULL,
+      status ENUM('present', 'absent', 'late', 'half_day', 'on_leave', 'holiday', 'work_from_home') DEFAULT 'present',
+      total_hours DECIMAL(4,2),
+      break_time INT DEFAULT 60,
+      overtime DECIMAL(4,2) DEFAULT 0,
+      location VARCHAR(255),
+      notes TEXT,
+      approved_by VARCHAR(255),
+      approved_at TIMESTAMP NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY unique_user_date (user_id, date),
+      INDEX idx_user_id (user_id),
+      INDEX idx_date (date),
+      INDEX idx_status (status),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Leave requests table
+    `CREATE TABLE IF NOT EXISTS leave_requests (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      leave_type ENUM('sick_leave', 'casual_leave', 'annual_leave', 'maternity_leave', 'paternity_leave', 'emergency_leave') NOT NULL,
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      total_days INT NOT NULL,
+      reason TEXT NOT NULL,
+      status ENUM('pending', 'approved', 'rejected', 'cancelled') DEFAULT 'pending',
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      reviewed_by VARCHAR(255),
+      reviewed_at TIMESTAMP NULL,
+      review_comments TEXT,
+      INDEX idx_user_id (user_id),
+      INDEX idx_status (status),
+      INDEX idx_start_date (start_date),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Salary records table
+    `CREATE TABLE IF NOT EXISTS salary_records (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      user_name VARCHAR(255) NOT NULL,
+      user_role VARCHAR(50) NOT NULL,
+      base_salary DECIMAL(10,2) NOT NULL,
+      allowances JSON,
+      deductions JSON,
+      overtime JSON,
+      bonus DECIMAL(10,2) DEFAULT 0,
+      gross_salary DECIMAL(10,2) NOT NULL,
+      net_salary DECIMAL(10,2) NOT NULL,
+      pay_period_month INT NOT NULL,
+      pay_period_year INT NOT NULL,
+      pay_date DATE NOT NULL,
+      status ENUM('draft', 'pending_approval', 'approved', 'paid', 'cancelled') DEFAULT 'draft',
+      payment_method ENUM('bank_transfer', 'cash', 'cheque', 'upi') DEFAULT 'bank_transfer',
+      bank_details JSON,
+      notes TEXT,
+      approved_by VARCHAR(255),
+      approved_at TIMESTAMP NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_user_id (user_id),
+      INDEX idx_pay_period (pay_period_month, pay_period_year),
+      INDEX idx_status (status),
+      INDEX idx_pay_date (pay_date),
+      INDEX idx_salary_records_net_salary (net_salary),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Staff salary configurations table
+    `CREATE TABLE IF NOT EXISTS staff_salary_configs (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      base_salary DECIMAL(10,2) NOT NULL,
+      allowances JSON,
+      deductions JSON,
+      overtime_rate DECIMAL(6,2) DEFAULT 0,
+      payment_method ENUM('bank_transfer', 'cash', 'cheque', 'upi') DEFAULT 'bank_transfer',
+      bank_details JSON,
+      is_active BOOLEAN DEFAULT TRUE,
+      effective_from DATE NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_user_id (user_id),
+      INDEX idx_active (is_active),
+      INDEX idx_effective_from (effective_from),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Document files table
+    `CREATE TABLE IF NOT EXISTS document_files (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      document_id INT NOT NULL,
+      file_name VARCHAR(255) NOT NULL,
+      file_type ENUM('scan', 'photo', 'document') NOT NULL,
+      file_url VARCHAR(500) NOT NULL,
+      uploaded_by VARCHAR(255) NOT NULL,
+      uploaded_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_document_id (document_id),
+      FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // User permissions table
+    `CREATE TABLE IF NOT EXISTS user_permissions (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      module VARCHAR(50) NOT NULL,
+      action VARCHAR(50) NOT NULL,
+      granted BOOLEAN DEFAULT FALSE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY unique_user_permission (user_id, module, action),
+      INDEX idx_user_id (user_id),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Task permissions table
+    `CREATE TABLE IF NOT EXISTS task_permissions (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      task_type ENUM('document_collection', 'data_entry', 'document_delivery', 'challan_creation', 'payment_processing', 'customer_follow_up', 'document_verification', 'registration_follow_up', 'quality_check', 'custom') NOT NULL,
+      permissions JSON NOT NULL,
+      restrictions JSON,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY unique_user_task_type (user_id, task_type),
+      INDEX idx_user_id (user_id),
+      INDEX idx_task_type (task_type),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // App settings table
+    `CREATE TABLE IF NOT EXISTS app_settings (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      setting_key VARCHAR(100) UNIQUE NOT NULL,
+      setting_value JSON NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_setting_key (setting_key)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Activity logs table
+    `CREATE TABLE IF NOT EXISTS activity_logs (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT,
+      user_name VARCHAR(255),
+      action VARCHAR(255) NOT NULL,
+      module VARCHAR(100) NOT NULL,
+      record_id VARCHAR(100),
+      details TEXT,
+      ip_address VARCHAR(45),
+      user_agent TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_user_id (user_id),
+      INDEX idx_module (module),
+      INDEX idx_action (action),
+      INDEX idx_created_at (created_at),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Notifications table
+    `CREATE TABLE IF NOT EXISTS notifications (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      user_id INT NOT NULL,
+      title VARCHAR(255) NOT NULL,
+      message TEXT NOT NULL,
+      type ENUM('info', 'success', 'warning', 'error') DEFAULT 'info',
+      is_read BOOLEAN DEFAULT FALSE,
+      action_url VARCHAR(500),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      read_at TIMESTAMP NULL,
+      INDEX idx_user_id (user_id),
+      INDEX idx_is_read (is_read),
+      INDEX idx_created_at (created_at),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // Insert default admin user
+    `INSERT IGNORE INTO users (email, name, role, password_hash, is_active)
+    VALUES ('admin@omservices.com', 'Main Admin', 'main_admin', '$2b$10$rGKqDvQKNGnwxirsQg8OUeEcDNbpTLdU7ErMkqm6wjvLOKqm6wjvL', TRUE)`,
+
+    // Insert default app settings
+    `INSERT IGNORE INTO app_settings (setting_key, setting_value) VALUES
+    ('gmail_config', '{"enabled": false, "clientId": "", "apiKey": ""}'),
+    ('appearance_config', '{"theme": "light", "colorScheme": "orange"}'),
+    ('notification_config', '{"email": true, "browser": true, "sound": false}'),
+    ('security_config', '{"passwordMinLength": 8, "requireUppercase": true, "requireSpecialChars": true}')`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS notifications',
+    'DROP TABLE IF EXISTS activity_logs',
+    'DROP TABLE IF EXISTS app_settings',
+    'DROP TABLE IF EXISTS task_permissions',
+    'DROP TABLE IF EXISTS user_permissions',
+    'DROP TABLE IF EXISTS document_files',
+    'DROP TABLE IF EXISTS staff_salary_configs',
+    'DROP TABLE IF EXISTS salary_records',
+    'DROP TABLE IF EXISTS leave_requests',
+    'DROP TABLE IF EXISTS attendance_records',
+    'DROP TABLE IF EXISTS task_comments',
+    'DROP TABLE IF EXISTS tasks',
+    'DROP TABLE IF EXISTS challans',
+    'DROP TABLE IF EXISTS payments',
+    'DROP TABLE IF EXISTS builders',
+    'DROP TABLE IF EXISTS customers',
+    'DROP TABLE IF EXISTS documents',
+    'DROP TABLE IF EXISTS users',
+  ],
+};
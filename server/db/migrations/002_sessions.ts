@@ -0,0 +1,33 @@
+import { Migration } from './types';
+
+// Server-side sessions for cookie authentication. The cookie carries a random
+// token; only its SHA-256 digest is stored, so a leaked table cannot be replayed.
+export const sessions: Migration = {
+  version: 2,
+  name: 'sessions',
+  up: [
+    `CREATE TABLE IF NOT EXISTS sessions (
+      id CHAR(64) PRIMARY KEY,
+      user_id INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_seen_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP NULL,
+      ip_address VARCHAR(45),
+      user_agent TEXT,
+      INDEX idx_user_id (user_id),
+      INDEX idx_expires_at (expires_at),
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+
+    // The seeded admin shipped with a placeholder hash; give it a real bcrypt
+    // hash of the documented default password (password123)
+    `UPDATE users
+    SET password_hash = '$2b$12$EftbfNbZE5Jno32C9qU4oemD2Yd9cn2WYZVHdJgEsJYEG.jGfc5Fm'
+    WHERE email = 'admin@omservices.com'
+      AND password_hash = '$2b$10$rGKqDvQKNGnwxirsQg8OUeEcDNbpTLdU7ErMkqm6wjvLOKqm6wjvL'`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS sessions',
+  ],
+};
@@ -0,0 +1,20 @@
+import { Migration } from './types';
+
+// The activity log records a field-level before/after diff for every change,
+// and which document a record belongs to so document timelines can find it
+export const activityChanges: Migration = {
+  version: 3,
+  name: 'activity_changes',
+  up: [
+    'ALTER TABLE activity_logs ADD COLUMN document_id INT NULL',
+    'ALTER TABLE activity_logs ADD COLUMN changes JSON NULL',
+    'CREATE INDEX idx_activity_logs_document_id ON activity_logs (document_id)',
+    'CREATE INDEX idx_activity_logs_record ON activity_logs (module, record_id)',
+  ],
+  down: [
+    'DROP INDEX idx_activity_logs_record ON activity_logs',
+    'DROP INDEX idx_activity_logs_document_id ON activity_logs',
+    'ALTER TABLE activity_logs DROP COLUMN changes',
+    'ALTER TABLE activity_logs DROP COLUMN document_id',
+  ],
+};
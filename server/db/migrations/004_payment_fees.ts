@@ -0,0 +1,18 @@
+import { Migration } from './types';
+
+// Payments keep the inputs and the itemised fees they were calculated with,
+// so later rate changes do not alter what a customer was quoted
+export const paymentFees: Migration = {
+  version: 4,
+  name: 'payment_fees',
+  up: [
+    'ALTER TABLE payments ADD COLUMN market_value DECIMAL(15,2) NULL',
+    'ALTER TABLE payments ADD COLUMN jurisdiction VARCHAR(100) NULL',
+    'ALTER TABLE payments ADD COLUMN fees JSON NULL',
+  ],
+  down: [
+    'ALTER TABLE payments DROP COLUMN fees',
+    'ALTER TABLE payments DROP COLUMN jurisdiction',
+    'ALTER TABLE payments DROP COLUMN market_value',
+  ],
+};
@@ -0,0 +1,39 @@
+import { Migration } from './types';
+
+// Each instalment is a row of its own; the payment's paid amount is derived
+// from them. Amounts already recorded become a single cleared transaction.
+export const paymentTransactions: Migration = {
+  version: 5,
+  name: 'payment_transactions',
+  up: [
+    `CREATE TABLE IF NOT EXISTS payment_transactions (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      payment_id INT NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      method ENUM('cash', 'cheque', 'online', 'dd') NOT NULL,
+      reference_number VARCHAR(100),
+      transaction_date DATE NOT NULL,
+      received_by VARCHAR(255),
+      received_by_name VARCHAR(255),
+      clearance_status ENUM('pending', 'cleared', 'bounced') DEFAULT 'cleared',
+      cleared_at TIMESTAMP NULL,
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_payment_transactions_payment_id (payment_id),
+      INDEX idx_payment_transactions_clearance (clearance_status),
+      INDEX idx_payment_transactions_date (transaction_date),
+      FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    `INSERT INTO payment_transactions (
+      payment_id, amount, method, transaction_date, clearance_status, notes, created_at, updated_at
+    )
+    SELECT id, paid_amount, COALESCE(payment_method, 'cash'), COALESCE(payment_date, DATE(created_at)),
+      'cleared', 'Recorded before the transaction ledger', created_at, updated_at
+    FROM payments
+    WHERE paid_amount > 0`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS payment_transactions',
+  ],
+};
@@ -0,0 +1,31 @@
+import { Migration } from './types';
+
+// Receipts and invoices handed to customers. Numbers run in sequence per kind
+// and are stored as printed, so a later format change leaves them untouched.
+export const paymentReceipts: Migration = {
+  version: 6,
+  name: 'payment_receipts',
+  up: [
+    `CREATE TABLE IF NOT EXISTS payment_receipts (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      payment_id INT NOT NULL,
+      kind ENUM('receipt', 'invoice') NOT NULL,
+      sequence INT NOT NULL,
+      receipt_number VARCHAR(50),
+      transaction_id INT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      line_items JSON NULL,
+      issued_by VARCHAR(255),
+      issued_by_name VARCHAR(255),
+      issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uq_payment_receipts_sequence (kind, sequence),
+      INDEX idx_payment_receipts_payment_id (payment_id),
+      INDEX idx_payment_receipts_transaction_id (transaction_id),
+      FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE CASCADE,
+      FOREIGN KEY (transaction_id) REFERENCES payment_transactions(id) ON DELETE SET NULL
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS payment_receipts',
+  ],
+};
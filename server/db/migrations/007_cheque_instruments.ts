@@ -0,0 +1,31 @@
+import { Migration } from './types';
+
+// Cheques and DDs are tracked from the date written on them through deposit
+// to clearance or return, and a document can be flagged for attention (a
+// returned cheque, for one). Existing instruments are taken as dated the day
+// they were received.
+export const chequeInstruments: Migration = {
+  version: 7,
+  name: 'cheque_instruments',
+  up: [
+    'ALTER TABLE payment_transactions ADD COLUMN bank_name VARCHAR(255) NULL',
+    'ALTER TABLE payment_transactions ADD COLUMN instrument_date DATE NULL',
+    'ALTER TABLE payment_transactions ADD COLUMN deposit_date DATE NULL',
+    'ALTER TABLE payment_transactions ADD COLUMN bounced_at TIMESTAMP NULL',
+    'ALTER TABLE payment_transactions ADD COLUMN bounce_reason VARCHAR(255) NULL',
+    'CREATE INDEX idx_payment_transactions_instrument_date ON payment_transactions (instrument_date)',
+    "UPDATE payment_transactions SET instrument_date = transaction_date WHERE method IN ('cheque', 'dd')",
+    'ALTER TABLE documents ADD COLUMN flag_reason VARCHAR(500) NULL',
+    'ALTER TABLE documents ADD COLUMN flagged_at TIMESTAMP NULL',
+  ],
+  down: [
+    'ALTER TABLE documents DROP COLUMN flagged_at',
+    'ALTER TABLE documents DROP COLUMN flag_reason',
+    'DROP INDEX idx_payment_transactions_instrument_date ON payment_transactions',
+    'ALTER TABLE payment_transactions DROP COLUMN bounce_reason',
+    'ALTER TABLE payment_transactions DROP COLUMN bounced_at',
+    'ALTER TABLE payment_transactions DROP COLUMN deposit_date',
+    'ALTER TABLE payment_transactions DROP COLUMN instrument_date',
+    'ALTER TABLE payment_transactions DROP COLUMN bank_name',
+  ],
+};
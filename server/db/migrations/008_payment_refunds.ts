@@ -0,0 +1,47 @@
+import { Migration } from './types';
+
+// Money handed back when a registration is cancelled: requested with a reason,
+// approved or rejected by an admin, then paid out. Payments already marked
+// refunded get a paid refund for what had been received, so the status can be
+// derived from refunds from now on.
+export const paymentRefunds: Migration = {
+  version: 8,
+  name: 'payment_refunds',
+  up: [
+    `CREATE TABLE IF NOT EXISTS payment_refunds (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      payment_id INT NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      reason TEXT NOT NULL,
+      transaction_ids JSON NULL,
+      status ENUM('requested', 'approved', 'rejected', 'paid') DEFAULT 'requested',
+      requested_by VARCHAR(255),
+      requested_by_name VARCHAR(255),
+      requested_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      decided_by VARCHAR(255),
+      decided_by_name VARCHAR(255),
+      decided_at TIMESTAMP NULL,
+      decision_note TEXT,
+      payout_method ENUM('cash', 'cheque', 'online', 'dd') NULL,
+      payout_reference VARCHAR(100),
+      paid_at TIMESTAMP NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_payment_refunds_payment_id (payment_id),
+      INDEX idx_payment_refunds_status (status),
+      FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    'ALTER TABLE payments ADD COLUMN refunded_amount DECIMAL(15,2) DEFAULT 0',
+    `INSERT INTO payment_refunds (
+      payment_id, amount, reason, transaction_ids, status, requested_at, decided_at, paid_at, updated_at
+    )
+    SELECT id, paid_amount, 'Marked refunded before the refund workflow', '[]', 'paid',
+      updated_at, updated_at, updated_at, updated_at
+    FROM payments
+    WHERE payment_status = 'refunded' AND paid_amount > 0`,
+    "UPDATE payments SET refunded_amount = paid_amount, pending_amount = 0 WHERE payment_status = 'refunded' AND paid_amount > 0",
+  ],
+  down: [
+    'ALTER TABLE payments DROP COLUMN refunded_amount',
+    'DROP TABLE IF EXISTS payment_refunds',
+  ],
+};
@@ -0,0 +1,10 @@
+import { Migration } from './types';
+
+// The e-challan form is kept as one structured value: the portal's fields
+// change more often than anything we query on
+export const challanGras: Migration = {
+  version: 9,
+  name: 'challan_gras',
+  up: ['ALTER TABLE challans ADD COLUMN gras JSON NULL'],
+  down: ['ALTER TABLE challans DROP COLUMN gras'],
+};
@@ -0,0 +1,44 @@
+import { Migration } from './types';
+
+// Bank statements imported for reconciliation. Each line may be matched to a
+// payment transaction (money in) or an approved challan (money out); the app
+// suggests matches and an admin confirms or overrides them.
+export const bankReconciliation: Migration = {
+  version: 10,
+  name: 'bank_reconciliation',
+  up: [
+    `CREATE TABLE IF NOT EXISTS bank_statements (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      file_name VARCHAR(255) NOT NULL,
+      format ENUM('csv', 'ofx', 'mt940') NOT NULL,
+      account_number VARCHAR(50),
+      imported_by VARCHAR(255),
+      imported_by_name VARCHAR(255),
+      imported_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    `CREATE TABLE IF NOT EXISTS bank_statement_lines (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      statement_id INT NOT NULL,
+      line_date DATE NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      direction ENUM('credit', 'debit') NOT NULL,
+      reference VARCHAR(255),
+      description TEXT NOT NULL,
+      match_kind ENUM('transaction', 'challan') NULL,
+      match_id INT NULL,
+      match_status ENUM('unmatched', 'suggested', 'confirmed', 'ignored') DEFAULT 'unmatched',
+      decided_by VARCHAR(255),
+      decided_by_name VARCHAR(255),
+      decided_at TIMESTAMP NULL,
+      INDEX idx_bank_statement_lines_statement_id (statement_id),
+      INDEX idx_bank_statement_lines_match (match_kind, match_id),
+      INDEX idx_bank_statement_lines_date (line_date),
+      FOREIGN KEY (statement_id) REFERENCES bank_statements(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS bank_statement_lines',
+    'DROP TABLE IF EXISTS bank_statements',
+  ],
+};
@@ -0,0 +1,61 @@
+import { Migration } from './types';
+
+// Challans go through review: every submission keeps a copy of what was
+// submitted, and every approval or rejection is recorded with the reviewer's
+// comment. Challans submitted before this keep their current content as
+// version 1. filled_by only held a name, so the user is looked up by it.
+export const challanReviews: Migration = {
+  version: 11,
+  name: 'challan_reviews',
+  up: [
+    'ALTER TABLE challans ADD COLUMN filled_by_id INT NULL',
+    'ALTER TABLE challans ADD COLUMN submitted_at TIMESTAMP NULL',
+    'ALTER TABLE challans ADD COLUMN approved_by VARCHAR(255) NULL',
+    'ALTER TABLE challans ADD COLUMN approved_by_name VARCHAR(255) NULL',
+    'ALTER TABLE challans ADD COLUMN approved_at TIMESTAMP NULL',
+    `UPDATE challans SET filled_by_id = (
+      SELECT MIN(users.id) FROM users WHERE users.name = challans.filled_by
+    )`,
+    `CREATE TABLE IF NOT EXISTS challan_versions (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      challan_id INT NOT NULL,
+      version INT NOT NULL,
+      challan_number VARCHAR(100) NOT NULL,
+      amount DECIMAL(15,2) NOT NULL,
+      notes TEXT,
+      gras JSON NULL,
+      submitted_by VARCHAR(255),
+      submitted_by_name VARCHAR(255),
+      submitted_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_challan_versions (challan_id, version),
+      FOREIGN KEY (challan_id) REFERENCES challans(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    `CREATE TABLE IF NOT EXISTS challan_reviews (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      challan_id INT NOT NULL,
+      version INT NOT NULL,
+      decision ENUM('approved', 'rejected') NOT NULL,
+      comment TEXT,
+      reviewed_by VARCHAR(255),
+      reviewed_by_name VARCHAR(255),
+      reviewed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_challan_reviews_challan_id (challan_id),
+      FOREIGN KEY (challan_id) REFERENCES challans(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    `INSERT INTO challan_versions (
+      challan_id, version, challan_number, amount, notes, gras, submitted_by_name, submitted_at
+    )
+    SELECT id, 1, challan_number, amount, notes, gras, filled_by, updated_at
+    FROM challans WHERE status <> 'draft'`,
+    `UPDATE challans SET submitted_at = updated_at WHERE status <> 'draft'`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS challan_reviews',
+    'DROP TABLE IF EXISTS challan_versions',
+    'ALTER TABLE challans DROP COLUMN approved_at',
+    'ALTER TABLE challans DROP COLUMN approved_by_name',
+    'ALTER TABLE challans DROP COLUMN approved_by',
+    'ALTER TABLE challans DROP COLUMN submitted_at',
+    'ALTER TABLE challans DROP COLUMN filled_by_id',
+  ],
+};
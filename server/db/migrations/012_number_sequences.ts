@@ -0,0 +1,32 @@
+import { Migration } from './types';
+
+// Counters for the numbers the server hands out to documents, challans, tasks
+// and salary slips. Each counter covers one rendered pattern, such as
+// SALEDEED/2026-27/###, so numbering restarts every financial year and a
+// changed format starts a counter of its own. Tasks and salary slips had no
+// number before; existing ones are left without.
+export const numberSequences: Migration = {
+  version: 12,
+  name: 'number_sequences',
+  up: [
+    `CREATE TABLE IF NOT EXISTS number_sequences (
+      scope VARCHAR(191) PRIMARY KEY,
+      series ENUM('document', 'challan', 'task', 'salary') NOT NULL,
+      financial_year VARCHAR(7) NOT NULL,
+      last_value INT NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_number_sequences_series (series, financial_year)
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    'ALTER TABLE tasks ADD COLUMN task_number VARCHAR(100) NULL',
+    'CREATE UNIQUE INDEX uniq_tasks_task_number ON tasks (task_number)',
+    'ALTER TABLE salary_records ADD COLUMN salary_number VARCHAR(100) NULL',
+    'CREATE UNIQUE INDEX uniq_salary_records_salary_number ON salary_records (salary_number)',
+  ],
+  down: [
+    'DROP INDEX uniq_salary_records_salary_number ON salary_records',
+    'ALTER TABLE salary_records DROP COLUMN salary_number',
+    'DROP INDEX uniq_tasks_task_number ON tasks',
+    'ALTER TABLE tasks DROP COLUMN task_number',
+    'DROP TABLE IF EXISTS number_sequences',
+  ],
+};
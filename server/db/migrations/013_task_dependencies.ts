@@ -0,0 +1,23 @@
+import { Migration } from './types';
+
+// A task can wait on other tasks; each row says task_id needs depends_on_id
+// completed first. Deleting either task drops the link.
+export const taskDependencies: Migration = {
+  version: 13,
+  name: 'task_dependencies',
+  up: [
+    `CREATE TABLE IF NOT EXISTS task_dependencies (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      task_id INT NOT NULL,
+      depends_on_id INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_task_dependencies (task_id, depends_on_id),
+      INDEX idx_task_dependencies_depends_on_id (depends_on_id),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE,
+      FOREIGN KEY (depends_on_id) REFERENCES tasks(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS task_dependencies',
+  ],
+};
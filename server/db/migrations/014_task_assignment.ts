@@ -0,0 +1,15 @@
+import { Migration } from './types';
+
+// Tasks handed out by the assignment engine keep the decision: who was
+// weighed up, who was passed over and why, and the reason for the pick.
+// Tasks assigned by hand leave it empty.
+export const taskAssignment: Migration = {
+  version: 14,
+  name: 'task_assignment',
+  up: [
+    'ALTER TABLE tasks ADD COLUMN assignment JSON NULL',
+  ],
+  down: [
+    'ALTER TABLE tasks DROP COLUMN assignment',
+  ],
+};
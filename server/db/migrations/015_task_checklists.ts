@@ -0,0 +1,27 @@
+import { Migration } from './types';
+
+// Tasks made from a template carry their own copy of its checklist. Items
+// keep their place in the list and who ticked them off, and when.
+export const taskChecklists: Migration = {
+  version: 15,
+  name: 'task_checklists',
+  up: [
+    `CREATE TABLE IF NOT EXISTS task_checklist_items (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      task_id INT NOT NULL,
+      position INT NOT NULL,
+      title VARCHAR(255) NOT NULL,
+      description TEXT,
+      is_required BOOLEAN DEFAULT FALSE,
+      is_completed BOOLEAN DEFAULT FALSE,
+      completed_by VARCHAR(255),
+      completed_by_name VARCHAR(255),
+      completed_at TIMESTAMP NULL,
+      UNIQUE KEY uniq_task_checklist_items (task_id, position),
+      FOREIGN KEY (task_id) REFERENCES tasks(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS task_checklist_items',
+  ],
+};
@@ -0,0 +1,77 @@
+import { Migration } from './types';
+
+// Task templates move from the app into the database so admins can manage
+// them. Every save is kept as a version; a template keeps its id across
+// versions and tasks record the version they were made from. Archived
+// templates stay for the tasks made from them but are no longer offered.
+// The Document Collection template the app shipped with becomes version 1.
+export const taskTemplates: Migration = {
+  version: 16,
+  name: 'task_templates',
+  up: [
+    `CREATE TABLE IF NOT EXISTS task_templates (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      type ENUM('document_collection', 'data_entry', 'document_delivery', 'challan_creation',
+        'payment_processing', 'customer_follow_up', 'document_verification',
+        'registration_follow_up', 'quality_check', 'custom') NOT NULL,
+      default_priority ENUM('low', 'medium', 'high', 'urgent') DEFAULT 'medium',
+      estimated_hours DECIMAL(5,2) NOT NULL DEFAULT 0,
+      checklist JSON,
+      required_fields JSON,
+      auto_assignment_rules JSON NULL,
+      version INT NOT NULL DEFAULT 1,
+      cloned_from INT NULL,
+      is_archived BOOLEAN DEFAULT FALSE,
+      created_by VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    `CREATE TABLE IF NOT EXISTS task_template_versions (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      template_id INT NOT NULL,
+      version INT NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      description TEXT,
+      type VARCHAR(50) NOT NULL,
+      default_priority VARCHAR(20) NOT NULL,
+      estimated_hours DECIMAL(5,2) NOT NULL DEFAULT 0,
+      checklist JSON,
+      required_fields JSON,
+      auto_assignment_rules JSON NULL,
+      saved_by VARCHAR(255),
+      saved_by_name VARCHAR(255),
+      saved_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_task_template_versions (template_id, version),
+      FOREIGN KEY (template_id) REFERENCES task_templates(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    `INSERT INTO task_templates (
+      name, description, type, default_priority, estimated_hours, checklist, required_fields, auto_assignment_rules
+    ) VALUES (
+      'Document Collection',
+      'Standard document collection task',
+      'document_collection',
+      'medium',
+      2,
+      '[{"title":"Verify customer identity","description":"Check ID proof and match with records","isRequired":true},{"title":"Collect all required documents","description":"Ensure all documents in the checklist are collected","isRequired":true},{"title":"Take photos of documents","description":"Photograph all collected documents","isRequired":true}]',
+      '["customerId","documentId","dueDate"]',
+      '{"role":"field_collection_staff","workload":"balanced"}'
+    )`,
+    `INSERT INTO task_template_versions (
+      template_id, version, name, description, type, default_priority, estimated_hours,
+      checklist, required_fields, auto_assignment_rules, saved_at
+    )
+    SELECT id, version, name, description, type, default_priority, estimated_hours,
+      checklist, required_fields, auto_assignment_rules, created_at
+    FROM task_templates`,
+    'ALTER TABLE tasks ADD COLUMN template_id INT NULL',
+    'ALTER TABLE tasks ADD COLUMN template_version INT NULL',
+  ],
+  down: [
+    'ALTER TABLE tasks DROP COLUMN template_version',
+    'ALTER TABLE tasks DROP COLUMN template_id',
+    'DROP TABLE IF EXISTS task_template_versions',
+    'DROP TABLE IF EXISTS task_templates',
+  ],
+};
@@ -0,0 +1,85 @@
+import { Migration } from './types';
+
+// Document stages open and close tasks by themselves. Each rule names the
+// stage that opens a task, the template it is made from and the stage that
+// completes it; tasks opened this way keep that closing stage. Templates for
+// data entry, challan creation and delivery are added so the standard
+// pipeline works from the start: collection, data entry, challan, delivery.
+export const taskPipeline: Migration = {
+  version: 17,
+  name: 'task_pipeline',
+  up: [
+    `CREATE TABLE IF NOT EXISTS task_pipeline_rules (
+      id INT PRIMARY KEY AUTO_INCREMENT,
+      document_status VARCHAR(50) NOT NULL,
+      template_id INT NOT NULL,
+      closes_on VARCHAR(50) NOT NULL,
+      is_active BOOLEAN DEFAULT TRUE,
+      created_by VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_task_pipeline_rules (document_status, template_id),
+      FOREIGN KEY (template_id) REFERENCES task_templates(id) ON DELETE CASCADE
+    ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci`,
+    'ALTER TABLE tasks ADD COLUMN closes_on_status VARCHAR(50) NULL',
+    `INSERT INTO task_templates (
+      name, description, type, default_priority, estimated_hours, checklist, required_fields, auto_assignment_rules
+    ) VALUES (
+      'Data Entry',
+      'Enter the collected document into the registration system',
+      'data_entry',
+      'medium',
+      1,
+      '[{"title":"Enter party and property details","isRequired":true},{"title":"Cross-check entries against the originals","isRequired":true}]',
+      '["documentId"]',
+      '{"role":"data_entry_staff","workload":"least_busy"}'
+    ), (
+      'Challan Creation',
+      'Prepare the government challan for the document',
+      'challan_creation',
+      'high',
+      1,
+      '[{"title":"Fill in the GRAS challan","isRequired":true},{"title":"Submit the challan for review","isRequired":true}]',
+      '["documentId"]',
+      '{"role":"challan_staff","workload":"balanced"}'
+    ), (
+      'Document Delivery',
+      'Hand the registered document over to the customer',
+      'document_delivery',
+      'medium',
+      2,
+      '[{"title":"Collect the customer''s signature on delivery","isRequired":true}]',
+      '["documentId"]',
+      '{"role":"document_delivery_staff","workload":"balanced"}'
+    )`,
+    `INSERT INTO task_template_versions (
+      template_id, version, name, description, type, default_priority, estimated_hours,
+      checklist, required_fields, auto_assignment_rules, saved_at
+    )
+    SELECT id, version, name, description, type, default_priority, estimated_hours,
+      checklist, required_fields, auto_assignment_rules, created_at
+    FROM task_templates
+    WHERE id NOT IN (SELECT template_id FROM task_template_versions)`,
+    // Each stage opens the newest template of its type; a database without one
+    // gets no rule for that stage
+    `INSERT INTO task_pipeline_rules (document_status, template_id, closes_on)
+    SELECT 'pending_collection', id, 'collected' FROM task_templates
+    WHERE id = (SELECT MAX(id) FROM task_templates WHERE type = 'document_collection')`,
+    `INSERT INTO task_pipeline_rules (document_status, template_id, closes_on)
+    SELECT 'collected', id, 'data_entry_completed' FROM task_templates
+    WHERE id = (SELECT MAX(id) FROM task_templates WHERE type = 'data_entry')`,
+    `INSERT INTO task_pipeline_rules (document_status, template_id, closes_on)
+    SELECT 'data_entry_completed', id, 'registered' FROM task_templates
+    WHERE id = (SELECT MAX(id) FROM task_templates WHERE type = 'challan_creation')`,
+    `INSERT INTO task_pipeline_rules (document_status, template_id, closes_on)
+    SELECT 'ready_for_delivery', id, 'delivered' FROM task_templates
+    WHERE id = (SELECT MAX(id) FROM task_templates WHERE type = 'document_delivery')`,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS task_pipeline_rules',
+    'ALTER TABLE tasks DROP COLUMN closes_on_status',
+    // The templates added above; their versions go with them
+    `DELETE FROM task_templates
+    WHERE created_by IS NULL AND name IN ('Data Entry', 'Challan Creation', 'Document Delivery')`,
+  ],
+};
@@ -0,0 +1,42 @@
+import { initialSchema } from './001_initial_schema';
+import { sessions } from './002_sessions';
+import { activityChanges } from './003_activity_changes';
+import { paymentFees } from './004_payment_fees';
+import { paymentTransactions } from './005_payment_transactions';
+import { paymentReceipts } from './006_payment_receipts';
+import { chequeInstruments } from './007_cheque_instruments';
+import { paymentRefunds } from './008_payment_refunds';
+import { challanGras } from './009_challan_gras';
+import { bankReconciliation } from './010_bank_reconciliation';
+import { challanReviews } from './011_challan_reviews';
+import { numberSequences } from './012_number_sequences';
+import { taskDependencies } from './013_task_dependencies';
+import { taskAssignment } from './014_task_assignment';
+import { taskChecklists } from './015_task_checklists';
+import { taskTemplates } from './016_task_templates';
+import { taskPipeline } from './017_task_pipeline';
+import { Migration } from './types';
+
+export type { Migration } from './types';
+
+// Append new migrations here with the next version number. Never edit one that
+// has already shipped; add a follow-up migration instead.
+export const migrations: Migration[] = [
+  initialSchema,
+  sessions,
+  activityChanges,
+  paymentFees,
+  paymentTransactions,
+  paymentReceipts,
+  chequeInstruments,
+  paymentRefunds,
+  challanGras,
+  bankReconciliation,
+  challanReviews,
+  numberSequences,
+  taskDependencies,
+  taskAssignment,
+  taskChecklists,
+  taskTemplates,
+  taskPipeline,
+];
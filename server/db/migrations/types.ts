@@ -0,0 +1,7 @@
+export interface Migration {
+  version: number;
+  name: string;
+  // MySQL statements, run in order; each entry is a single statement
+  up: string[];
+  down: string[];
+}
@@ -0,0 +1,97 @@
+import { Database } from '.';
+import { Migration, migrations as allMigrations } from './migrations';
+import { toDate, toNumber } from './values';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: Date;
+}
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INT PRIMARY KEY,
+    name VARCHAR(255) NOT NULL,
+    applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+  ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci
+`;
+
+async function appliedVersions(db: Database): Promise<Map<number, Date>> {
+  await db.query(CREATE_MIGRATIONS_TABLE);
+  const { rows } = await db.query('SELECT version, applied_at FROM schema_migrations ORDER BY version');
+  return new Map(rows.map(row => [toNumber(row.version), toDate(row.applied_at)]));
+}
+
+export async function migrationStatus(
+  db: Database,
+  migrations: Migration[] = allMigrations
+): Promise<MigrationStatus[]> {
+  const applied = await appliedVersions(db);
+  return migrations.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version),
+  }));
+}
+
+// Applies every pending migration up to `target` (default: latest) in version order.
+// MySQL commits DDL implicitly, so each migration is recorded as soon as it succeeds
+// and a failure leaves earlier migrations applied.
+export async function migrateUp(
+  db: Database,
+  target = Infinity,
+  migrations: Migration[] = allMigrations
+): Promise<MigrationStatus[]> {
+  const applied = await appliedVersions(db);
+  const pending = migrations
+    .filter(migration => !applied.has(migration.version) && migration.version <= target)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    for (const statement of migration.up) {
+      await db.query(statement);
+    }
+    await db.query('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+  }
+
+  return migrationStatus(db, migrations);
+}
+
+// Reverts the most recently applied migrations, newest first
+export async function migrateDown(
+  db: Database,
+  steps = 1,
+  migrations: Migration[] = allMigrations
+): Promise<MigrationStatus[]> {
+  const applied = await appliedVersions(db);
+  const toRevert = migrations
+    .filter(migration => applied.has(migration.version))
+    .sort((a, b) => b.version - a.version)
+    .slice(0, steps);
+
+  for (const migration of toRevert) {
+    for (const statement of migration.down) {
+      await db.query(statement);
+    }
+    await db.query('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+  }
+
+  return migrationStatus(db, migrations);
+}
+
+// The full schema as one MySQL script, for setting up a database by hand
+export function schemaSql(migrations: Migration[] = allMigrations): string {
+  const sections = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .map(migration => [
+      `-- Migration ${migration.version}: ${migration.name}`,
+      ...migration.up.map(statement => `${statement.trim().replace(/\n {4}/g, '\n')};`),
+      `INSERT IGNORE INTO schema_migrations (version, name) VALUES (${migration.version}, '${migration.name}');`,
+    ].join('\n\n'));
+
+  return [
+    `-- Om Services Complete Database Schema\n-- Generated on ${new Date().toISOString()} from the API server's migrations`,
+    CREATE_MIGRATIONS_TABLE.trim().replace(/\n {2}/g, '\n') + ';',
+    ...sections,
+  ].join('\n\n') + '\n';
+}
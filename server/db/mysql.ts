@@ -0,0 +1,38 @@
+import mysql, { ResultSetHeader } from 'mysql2/promise';
+import { DatabaseConfig } from '../config';
+import { Database, Row } from './index';
+
+export function createMysqlDatabase(config: DatabaseConfig): Database {
+  const pool = mysql.createPool({
+    host: config.host,
+    port: config.port,
+    database: config.database,
+    user: config.username,
+    password: config.password,
+    ssl: config.ssl === 'required' ? { rejectUnauthorized: false } : undefined,
+    charset: 'utf8mb4',
+    connectionLimit: 10,
+  });
+
+  return {
+    driver: 'mysql',
+
+    async query(sql, params = []) {
+      const [result] = await pool.query(sql, params);
+      if (Array.isArray(result)) {
+        return { rows: result as Row[], affectedRows: 0 };
+      }
+      const header = result as ResultSetHeader;
+      return { rows: [], affectedRows: header.affectedRows, insertId: header.insertId || undefined };
+    },
+
+    async ping() {
+      const [rows] = await pool.query('SELECT VERSION() as version');
+      return `MySQL ${(rows as Row[])[0].version}`;
+    },
+
+    async close() {
+      await pool.end();
+    },
+  };
+}
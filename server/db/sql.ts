@@ -0,0 +1,27 @@
+// Serializes a value the way both drivers expect it as a bound parameter
+export const toParam = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return value;
+};
+
+// Builds the SET clause for a partial update, only touching whitelisted columns
+export function buildUpdate(
+  data: Record<string, unknown>,
+  columns: Record<string, string>
+): { assignments: string[]; values: unknown[] } {
+  const assignments: string[] = [];
+  const values: unknown[] = [];
+
+  Object.keys(data).forEach(key => {
+    if (data[key] !== undefined && columns[key]) {
+      assignments.push(`${columns[key]} = ?`);
+      values.push(toParam(data[key]));
+    }
+  });
+
+  return { assignments, values };
+}
@@ -0,0 +1,42 @@
+// Helpers for reading column values that come back differently from
+// mysql2 (Date objects, DECIMAL strings) and the SQLite stand-in (text, numbers).
+
+const SQL_DATETIME = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/;
+
+export const toId = (value: unknown): string => String(value);
+
+export const toOptionalId = (value: unknown): string | undefined =>
+  value === null || value === undefined ? undefined : String(value);
+
+export const toNumber = (value: unknown): number => {
+  if (value === null || value === undefined || value === '') return 0;
+  return typeof value === 'number' ? value : parseFloat(String(value));
+};
+
+export const toOptionalNumber = (value: unknown): number | undefined =>
+  value === null || value === undefined ? undefined : toNumber(value);
+
+export const toBoolean = (value: unknown): boolean => Boolean(Number(value));
+
+export const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value;
+  const text = String(value);
+  // SQLite CURRENT_TIMESTAMP is UTC without a zone designator
+  return new Date(SQL_DATETIME.test(text) ? `${text.replace(' ', 'T')}Z` : text);
+};
+
+export const toOptionalDate = (value: unknown): Date | undefined =>
+  value === null || value === undefined ? undefined : toDate(value);
+
+export const toOptionalString = (value: unknown): string | undefined =>
+  value === null || value === undefined ? undefined : String(value);
+
+export function toJson<T>(value: unknown, fallback: T): T {
+  if (value === null || value === undefined) return fallback;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,35 @@
+import { Request } from 'express';
+import { z } from 'zod';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function validate<T extends z.ZodType>(schema: T, input: unknown): z.infer<T> {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.join('.');
+    throw new HttpError(400, field ? `Invalid ${field}: ${issue.message}` : issue.message);
+  }
+  return result.data;
+}
+
+// Changes queued by an offline client carry the updatedAt they were made
+// against as If-Unmodified-Since; refuse them if the record moved on since
+export function assertUnmodifiedSince(req: Request, updatedAt: Date) {
+  const since = Date.parse(req.get('If-Unmodified-Since') ?? '');
+  if (Number.isNaN(since)) return;
+
+  // HTTP dates have whole-second precision, as do the TIMESTAMP columns
+  if (Math.floor(updatedAt.getTime() / 1000) > Math.floor(since / 1000)) {
+    throw new HttpError(412, 'This record was changed by someone else after your offline edit');
+  }
+}
+
+export function notFound(entity: string): HttpError {
+  return new HttpError(404, `${entity} not found`);
+}
@@ -0,0 +1,32 @@
+import { loadConfig } from './config';
+import { createDatabase } from './db';
+import { migrateUp } from './db/migrator';
+import { createApp } from './app';
+
+async function main() {
+  const config = loadConfig();
+  const db = await createDatabase(config.database);
+  if (config.database.autoMigrate) {
+    const status = await migrateUp(db);
+    console.log(`Database schema at version ${Math.max(0, ...status.filter(m => m.appliedAt).map(m => m.version))}`);
+  }
+  const app = createApp(config, db);
+
+  const server = app.listen(config.port, () => {
+    console.log(`Om Services API listening on http://localhost:${config.port} (${db.driver} database)`);
+  });
+
+  const shutdown = () => {
+    server.close(() => {
+      db.close().finally(() => process.exit(0));
+    });
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Failed to start API server:', error);
+  process.exit(1);
+});
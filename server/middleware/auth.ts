@@ -0,0 +1,64 @@
+import { NextFunction, Request, Response } from 'express';
+import { Permission, UserRole } from '../../src/types';
+import { can, PermissionAction, PermissionModule } from '../../src/services/accessPolicy';
+import { Database } from '../db';
+import { toBoolean, toId } from '../db/values';
+import { HttpError } from '../http';
+import { findSessionUser, readSessionToken } from '../sessions';
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  role: UserRole;
+  permissions: Pick<Permission, 'module' | 'action' | 'granted'>[];
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: AuthUser;
+  }
+}
+
+// Resolves the caller from their session cookie. The role and permission
+// overrides are always read from the database, never taken from the request.
+export function currentUser(db: Database) {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    const token = readSessionToken(req);
+    const row = token ? await findSessionUser(db, token) : undefined;
+    if (!row) {
+      throw new HttpError(401, 'Not authenticated');
+    }
+
+    const { rows: permissionRows } = await db.query(
+      'SELECT module, action, granted FROM user_permissions WHERE user_id = ?',
+      [row.id]
+    );
+    req.user = {
+      id: toId(row.id),
+      name: String(row.name),
+      role: row.role as UserRole,
+      permissions: permissionRows.map(permission => ({
+        module: String(permission.module),
+        action: String(permission.action),
+        granted: toBoolean(permission.granted),
+      })),
+    };
+    next();
+  };
+}
+
+export function requirePermission(module: PermissionModule, action: PermissionAction) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    if (!can(req.user, module, action)) {
+      throw new HttpError(403, 'You do not have permission to perform this action');
+    }
+    next();
+  };
+}
+
+export function authUser(req: Request): AuthUser {
+  if (!req.user) {
+    throw new HttpError(401, 'Not authenticated');
+  }
+  return req.user;
+}
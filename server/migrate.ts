@@ -0,0 +1,51 @@
+import { loadConfig } from './config';
+import { createDatabase } from './db';
+import { MigrationStatus, migrateDown, migrateUp, migrationStatus, schemaSql } from './db/migrator';
+
+const USAGE = 'Usage: npm run migrate -- [status | up [version] | down [steps] | schema]';
+
+const printStatus = (status: MigrationStatus[]) => {
+  for (const migration of status) {
+    const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+    console.log(`${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(32)} ${state}`);
+  }
+};
+
+async function main() {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (command === 'schema') {
+    process.stdout.write(schemaSql());
+    return;
+  }
+
+  const config = loadConfig();
+  if (config.database.driver === 'memory') {
+    console.warn('No DB_HOST configured; running against the in-memory stand-in, changes will not persist.');
+  }
+
+  const db = await createDatabase(config.database);
+  try {
+    switch (command) {
+      case 'status':
+        printStatus(await migrationStatus(db));
+        break;
+      case 'up':
+        printStatus(await migrateUp(db, arg ? parseInt(arg, 10) : undefined));
+        break;
+      case 'down':
+        printStatus(await migrateDown(db, arg ? parseInt(arg, 10) : 1));
+        break;
+      default:
+        console.error(USAGE);
+        process.exitCode = 1;
+    }
+  } finally {
+    await db.close();
+  }
+}
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,30 @@
+import { AppNotification } from '../src/types';
+import { Database, Row } from './db';
+import { toBoolean, toDate, toId, toOptionalDate, toOptionalString } from './db/values';
+
+export interface NotificationInput {
+  title: string;
+  message: string;
+  type?: AppNotification['type'];
+  actionUrl?: string;
+}
+
+// Leaves a message for one user; it shows under the bell in the header
+export async function notify(db: Database, userId: string, input: NotificationInput): Promise<void> {
+  await db.query(
+    `INSERT INTO notifications (user_id, title, message, type, action_url, created_at)
+     VALUES (?, ?, ?, ?, ?, NOW())`,
+    [userId, input.title, input.message, input.type ?? 'info', input.actionUrl ?? null]
+  );
+}
+
+export const toNotification = (row: Row): AppNotification => ({
+  id: toId(row.id),
+  title: String(row.title),
+  message: String(row.message),
+  type: row.type as AppNotification['type'],
+  isRead: toBoolean(row.is_read),
+  actionUrl: toOptionalString(row.action_url),
+  createdAt: toDate(row.created_at),
+  readAt: toOptionalDate(row.read_at),
+});
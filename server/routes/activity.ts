@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { ActivityEntity } from '../../src/types';
+import { can } from '../../src/services/accessPolicy';
+import { ACTIVITY_VISIBILITY, canSeeActivity, toActivityLog } from '../activity';
+import { Database } from '../db';
+import { validate } from '../http';
+import { authUser } from '../middleware/auth';
+
+const ACTIVITY_ENTITIES = Object.keys(ACTIVITY_VISIBILITY) as [ActivityEntity, ...ActivityEntity[]];
+
+const activityFilters = z.object({
+  userId: z.string().optional(),
+  entity: z.enum(ACTIVITY_ENTITIES).optional(),
+  recordId: z.string().optional(),
+  documentId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export function activityRoutes(db: Database): Router {
+  const router = Router();
+
+  // Auditors see everything; everyone else only the history of what they may read
+  router.get('/', async (req, res) => {
+    const user = authUser(req);
+    const filters = validate(activityFilters, req.query);
+    let sql = 'SELECT * FROM activity_logs WHERE 1=1';
+    const params: unknown[] = [];
+
+    if (!can(user, 'audit', 'read')) {
+      const visible = ACTIVITY_ENTITIES.filter(entity => canSeeActivity(user, entity));
+      if (visible.length === 0) {
+        res.json({ success: true, data: [] });
+        return;
+      }
+      sql += ` AND module IN (${visible.map(() => '?').join(', ')})`;
+      params.push(...visible);
+    }
+
+    if (filters.userId) {
+      sql += ' AND user_id = ?';
+      params.push(filters.userId);
+    }
+
+    if (filters.entity) {
+      sql += ' AND module = ?';
+      params.push(filters.entity);
+    }
+
+    if (filters.recordId) {
+      sql += ' AND record_id = ?';
+      params.push(filters.recordId);
+    }
+
+    if (filters.documentId) {
+      sql += ' AND document_id = ?';
+      params.push(filters.documentId);
+    }
+
+    if (filters.from) {
+      sql += ' AND created_at >= ?';
+      params.push(filters.from);
+    }
+
+    if (filters.to) {
+      sql += ' AND created_at <= ?';
+      params.push(filters.to);
+    }
+
+    sql += ' ORDER BY created_at DESC, id DESC LIMIT ?';
+    params.push(filters.limit);
+    const { rows } = await db.query(sql, params);
+    res.json({ success: true, data: rows.map(toActivityLog) });
+  });
+
+  return router;
+}
@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { AttendanceRecord } from '../../src/types/attendance';
+import { can } from '../../src/services/accessPolicy';
+import { Database, Row } from '../db';
+import { toDate, toId, toNumber, toOptionalDate, toOptionalNumber, toOptionalString } from '../db/values';
+import { HttpError, validate } from '../http';
+import { authUser } from '../middleware/auth';
+
+// Clock-ins recorded while offline are replayed later with the time they
+// actually happened, within a bounded window
+const MAX_RECORDED_AGE_HOURS = 24;
+
+const recordedAt = z.coerce.date().optional();
+
+const clockInInput = z.object({
+  location: z.string().max(255).optional().nullable(),
+  notes: z.string().optional().nullable(),
+  recordedAt,
+});
+
+const clockOutInput = z.object({
+  notes: z.string().optional().nullable(),
+  recordedAt,
+});
+
+const attendanceFilters = z.object({
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const SELECT_ATTENDANCE = `
+  SELECT a.*, u.name AS user_name, u.role AS user_role
+  FROM attendance_records a
+  JOIN users u ON u.id = a.user_id
+`;
+
+export const toAttendanceRecord = (row: Row): AttendanceRecord => ({
+  id: toId(row.id),
+  userId: toId(row.user_id),
+  userName: String(row.user_name),
+  userRole: String(row.user_role),
+  date: toDate(row.date),
+  clockInTime: toOptionalDate(row.clock_in_time),
+  clockOutTime: toOptionalDate(row.clock_out_time),
+  status: row.status as AttendanceRecord['status'],
+  totalHours: toOptionalNumber(row.total_hours),
+  breakTime: toOptionalNumber(row.break_time),
+  overtime: row.overtime === null ? undefined : toNumber(row.overtime),
+  location: toOptionalString(row.location),
+  notes: toOptionalString(row.notes),
+  approvedBy: toOptionalString(row.approved_by),
+  approvedAt: toOptionalDate(row.approved_at),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+function clockTime(recordedAt?: Date): Date {
+  const now = Date.now();
+  if (!recordedAt) return new Date(now);
+
+  // Allow a little clock drift on the device, but nothing from the future
+  if (recordedAt.getTime() > now + 5 * 60 * 1000) {
+    throw new HttpError(400, 'Recorded time cannot be in the future');
+  }
+  if (recordedAt.getTime() < now - MAX_RECORDED_AGE_HOURS * 60 * 60 * 1000) {
+    throw new HttpError(400, `Recorded time must be within the last ${MAX_RECORDED_AGE_HOURS} hours`);
+  }
+  return recordedAt;
+}
+
+async function findRecordOn(db: Database, userId: string, at: Date): Promise<Row | undefined> {
+  const { rows } = await db.query(`${SELECT_ATTENDANCE} WHERE a.user_id = ? AND a.date = DATE(?)`, [userId, at]);
+  return rows[0];
+}
+
+export function attendanceRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', async (req, res) => {
+    const user = authUser(req);
+    const filters = validate(attendanceFilters, req.query);
+    let sql = `${SELECT_ATTENDANCE} WHERE 1=1`;
+    const params: unknown[] = [];
+
+    const userId = can(user, 'attendance', 'manage') ? filters.userId : user.id;
+    if (userId) {
+      sql += ' AND a.user_id = ?';
+      params.push(userId);
+    }
+
+    if (filters.from) {
+      sql += ' AND a.date >= ?';
+      params.push(filters.from.toISOString().slice(0, 10));
+    }
+
+    if (filters.to) {
+      sql += ' AND a.date <= ?';
+      params.push(filters.to.toISOString().slice(0, 10));
+    }
+
+    sql += ' ORDER BY a.date DESC';
+    const { rows } = await db.query(sql, params);
+    res.json({ success: true, data: rows.map(toAttendanceRecord) });
+  });
+
+  // Clock in/out always applies to the caller, never to a user id from the body
+  router.post('/clock-in', async (req, res) => {
+    const user = authUser(req);
+    const data = validate(clockInInput, req.body);
+    const at = clockTime(data.recordedAt);
+
+    const existing = await findRecordOn(db, user.id, at);
+    if (existing?.clock_in_time) {
+      throw new HttpError(409, 'Already clocked in today');
+    }
+
+    await db.query(
+      `INSERT INTO attendance_records (
+        user_id, date, clock_in_time, status, location, notes, created_at, updated_at
+      ) VALUES (?, DATE(?), ?, 'present', ?, ?, NOW(), NOW())`,
+      [user.id, at, at, data.location ?? null, data.notes ?? null]
+    );
+    res.status(201).json({ success: true, data: toAttendanceRecord((await findRecordOn(db, user.id, at))!) });
+  });
+
+  router.post('/clock-out', async (req, res) => {
+    const user = authUser(req);
+    const data = validate(clockOutInput, req.body);
+    const at = clockTime(data.recordedAt);
+
+    const { affectedRows } = await db.query(
+      `UPDATE attendance_records
+       SET clock_out_time = ?,
+           total_hours = TIMESTAMPDIFF(MINUTE, clock_in_time, ?) / 60,
+           notes = COALESCE(?, notes),
+           updated_at = NOW()
+       WHERE user_id = ? AND date = DATE(?) AND clock_in_time <= ? AND clock_out_time IS NULL`,
+      [at, at, data.notes ?? null, user.id, at, at]
+    );
+    if (affectedRows === 0) {
+      throw new HttpError(409, 'No active clock-in found for today');
+    }
+    res.json({ success: true, data: toAttendanceRecord((await findRecordOn(db, user.id, at))!) });
+  });
+
+  return router;
+}
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SessionConfig } from '../config';
+import { Database } from '../db';
+import { toBoolean, toId } from '../db/values';
+import { HttpError, validate } from '../http';
+import { authUser, currentUser } from '../middleware/auth';
+import {
+  clearSessionCookie,
+  createSession,
+  hashPassword,
+  readSessionToken,
+  revokeSession,
+  revokeUserSessions,
+  verifyPassword,
+} from '../sessions';
+import { findUser } from './users';
+
+const loginInput = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1).max(200),
+});
+
+const passwordInput = z.object({
+  currentPassword: z.string().min(1).max(200),
+  newPassword: z.string().min(8).max(200),
+});
+
+export function authRoutes(db: Database, config: SessionConfig): Router {
+  const router = Router();
+  const authenticate = currentUser(db);
+
+  router.post('/login', async (req, res) => {
+    const { email, password } = validate(loginInput, req.body);
+    const { rows } = await db.query('SELECT id, password_hash, is_active FROM users WHERE LOWER(email) = ?', [email]);
+    const row = rows[0];
+
+    const valid = await verifyPassword(password, row ? String(row.password_hash) : undefined);
+    if (!row || !valid || !toBoolean(row.is_active)) {
+      throw new HttpError(401, 'Invalid email or password');
+    }
+
+    const userId = toId(row.id);
+    await createSession(db, config, req, res, userId);
+    await db.query('UPDATE users SET last_login = NOW() WHERE id = ?', [userId]);
+    res.json({ success: true, data: await findUser(db, userId) });
+  });
+
+  router.post('/logout', async (req, res) => {
+    const token = readSessionToken(req);
+    if (token) {
+      await revokeSession(db, token);
+    }
+    clearSessionCookie(res, config);
+    res.json({ success: true });
+  });
+
+  // The app re-reads the signed-in user (and their permissions) from here on
+  // every load instead of trusting anything kept in the browser
+  router.get('/me', authenticate, async (req, res) => {
+    res.json({ success: true, data: await findUser(db, authUser(req).id) });
+  });
+
+  // Changing the password signs out every other session of the account
+  router.post('/password', authenticate, async (req, res) => {
+    const user = authUser(req);
+    const { currentPassword, newPassword } = validate(passwordInput, req.body);
+
+    const { rows } = await db.query('SELECT password_hash FROM users WHERE id = ?', [user.id]);
+    if (!(await verifyPassword(currentPassword, String(rows[0]?.password_hash)))) {
+      throw new HttpError(400, 'Current password is incorrect');
+    }
+
+    await db.query('UPDATE users SET password_hash = ?, updated_at = NOW() WHERE id = ?', [await hashPassword(newPassword), user.id]);
+    await revokeUserSessions(db, user.id);
+    await createSession(db, config, req, res, user.id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
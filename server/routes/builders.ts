@@ -0,0 +1,93 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Builder } from '../../src/types';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import { toDate, toId, toOptionalString } from '../db/values';
+import { HttpError, notFound, validate } from '../http';
+import { requirePermission } from '../middleware/auth';
+
+const builderInput = z.object({
+  name: z.string().trim().min(1).max(255),
+  contactPerson: z.string().trim().min(1).max(255),
+  phone: z.string().trim().min(1).max(20),
+  email: z.string().email().max(255).optional().nullable(),
+  address: z.string().trim().min(1),
+  registrationNumber: z.string().max(100).optional().nullable(),
+});
+
+const builderUpdate = builderInput.partial();
+
+const BUILDER_COLUMNS: Record<string, string> = {
+  name: 'name',
+  contactPerson: 'contact_person',
+  phone: 'phone',
+  email: 'email',
+  address: 'address',
+  registrationNumber: 'registration_number',
+};
+
+const SELECT_BUILDERS = `
+  SELECT b.*, GROUP_CONCAT(d.document_number) AS documents
+  FROM builders b
+  LEFT JOIN documents d ON d.builder_name = b.name
+`;
+
+export const toBuilder = (row: Row): Builder => ({
+  id: toId(row.id),
+  name: String(row.name),
+  contactPerson: String(row.contact_person),
+  phone: String(row.phone),
+  email: toOptionalString(row.email),
+  address: String(row.address),
+  registrationNumber: toOptionalString(row.registration_number),
+  documents: row.documents ? String(row.documents).split(',').filter(Boolean) : [],
+  createdAt: toDate(row.created_at),
+});
+
+async function findBuilder(db: Database, id: string): Promise<Builder> {
+  const { rows } = await db.query(`${SELECT_BUILDERS} WHERE b.id = ? GROUP BY b.id`, [id]);
+  if (rows.length === 0) {
+    throw notFound('Builder');
+  }
+  return toBuilder(rows[0]);
+}
+
+export function builderRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('builders', 'read'), async (_req, res) => {
+    const { rows } = await db.query(`${SELECT_BUILDERS} GROUP BY b.id ORDER BY b.created_at DESC`);
+    res.json({ success: true, data: rows.map(toBuilder) });
+  });
+
+  router.post('/', requirePermission('builders', 'create'), async (req, res) => {
+    const data = validate(builderInput, req.body);
+    const { insertId } = await db.query(
+      `INSERT INTO builders (name, contact_person, phone, email, address, registration_number, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, NOW())`,
+      [data.name, data.contactPerson, data.phone, data.email ?? null, data.address, data.registrationNumber ?? null]
+    );
+    const builder = await findBuilder(db, String(insertId));
+    await recordActivity(db, req, { entity: 'builders', recordId: builder.id, label: builder.name, after: builder });
+    res.status(201).json({ success: true, data: builder });
+  });
+
+  router.put('/:id', requirePermission('builders', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(builderUpdate, req.body);
+    const { assignments, values } = buildUpdate(data, BUILDER_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    const current = await findBuilder(db, id);
+    await db.query(`UPDATE builders SET ${assignments.join(', ')} WHERE id = ?`, [...values, id]);
+    const builder = await findBuilder(db, id);
+    await recordActivity(db, req, { entity: 'builders', recordId: id, label: builder.name, before: current, after: builder });
+    res.json({ success: true, data: builder });
+  });
+
+  return router;
+}
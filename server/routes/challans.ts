@@ -0,0 +1,364 @@
+import { Request, Router } from 'express';
+import { z } from 'zod';
+import { Challan, ChallanReview, ChallanReviewDecision, ChallanVersion } from '../../src/types';
+import {
+  grasTotal,
+  HEAD_CODE_PATTERN,
+  MOBILE_PATTERN,
+  PAN_PATTERN,
+  PINCODE_PATTERN,
+} from '../../src/services/grasChallan';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import { toDate, toId, toJson, toNumber, toOptionalDate, toOptionalId, toOptionalString } from '../db/values';
+import { assertUnmodifiedSince, HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+import { notify } from '../notifications';
+import { nextNumber } from '../sequences';
+
+export const CHALLAN_STATUSES = ['draft', 'submitted', 'approved', 'rejected'] as const;
+
+// PANs, mobile numbers and PIN codes may be left blank but must be well formed
+const optionalCode = (pattern: RegExp, message: string) =>
+  z.string().trim().toUpperCase()
+    .refine(value => value === '' || pattern.test(value), message)
+    .transform(value => value || undefined)
+    .optional();
+
+const grasForm = z.object({
+  department: z.string().trim().min(1).max(255),
+  paymentType: z.string().trim().min(1).max(100),
+  district: z.string().trim().min(1).max(100),
+  office: z.string().trim().min(1).max(255),
+  financialYear: z.string().regex(/^[0-9]{4}-[0-9]{2}$/, 'Financial year should look like 2026-27'),
+  partyName: z.string().trim().min(1).max(255),
+  partyPan: optionalCode(PAN_PATTERN, 'PAN should look like ABCDE1234F'),
+  partyMobile: optionalCode(MOBILE_PATTERN, 'Enter a 10-digit mobile number'),
+  partyAddress: z.string().trim().min(1).max(1000),
+  partyPincode: optionalCode(PINCODE_PATTERN, 'Enter a 6-digit PIN code'),
+  otherPartyName: z.string().trim().max(255).optional(),
+  otherPartyPan: optionalCode(PAN_PATTERN, 'PAN should look like ABCDE1234F'),
+  propertyDescription: z.string().trim().min(1).max(2000),
+  considerationAmount: z.number().min(0).optional(),
+  heads: z.array(z.object({
+    code: z.string().regex(HEAD_CODE_PATTERN, 'Heads of account have 10-digit codes'),
+    label: z.string().trim().min(1).max(255),
+    amount: z.number().min(0),
+  })).min(1).refine(heads => grasTotal(heads) > 0, 'The heads of account add up to nothing'),
+});
+
+const challanInput = z.object({
+  documentId: z.string().min(1),
+  // Given by the number sequence when left out
+  challanNumber: z.string().trim().min(1).max(100).optional(),
+  amount: z.number().min(0),
+  // A new challan can go straight to review; approval only comes from a review
+  status: z.enum(['draft', 'submitted']).default('draft'),
+  notes: z.string().optional().nullable(),
+  gras: grasForm.optional().nullable(),
+});
+
+// The status moves through submit and review, not by editing
+const challanUpdate = challanInput.omit({ documentId: true, status: true }).partial();
+
+// Rejections must tell the person who filled the challan what to fix
+const reviewInput = z.discriminatedUnion('decision', [
+  z.object({ decision: z.literal('approved'), comment: z.string().trim().max(2000).optional() }),
+  z.object({ decision: z.literal('rejected'), comment: z.string().trim().min(1, 'Say why the challan is rejected').max(2000) }),
+]);
+
+const CHALLAN_COLUMNS: Record<string, string> = {
+  challanNumber: 'challan_number',
+  amount: 'amount',
+  notes: 'notes',
+  gras: 'gras',
+};
+
+async function assertNumberFree(db: Database, challanNumber: string, exceptId?: string) {
+  const { rows } = await db.query(
+    'SELECT id FROM challans WHERE challan_number = ? AND id <> ?',
+    [challanNumber, exceptId ?? 0]
+  );
+  if (rows.length > 0) {
+    throw new HttpError(409, `Challan number ${challanNumber} is already in use`);
+  }
+}
+
+const toVersion = (row: Row): ChallanVersion => ({
+  version: toNumber(row.version),
+  challanNumber: String(row.challan_number),
+  amount: toNumber(row.amount),
+  notes: toOptionalString(row.notes),
+  gras: toJson(row.gras, undefined),
+  submittedBy: toOptionalString(row.submitted_by),
+  submittedByName: toOptionalString(row.submitted_by_name),
+  submittedAt: toDate(row.submitted_at),
+});
+
+const toReview = (row: Row): ChallanReview => ({
+  id: toId(row.id),
+  version: toNumber(row.version),
+  decision: row.decision as ChallanReviewDecision,
+  comment: toOptionalString(row.comment),
+  reviewedBy: toOptionalString(row.reviewed_by),
+  reviewedByName: toOptionalString(row.reviewed_by_name),
+  reviewedAt: toDate(row.reviewed_at),
+});
+
+export const toChallan = (row: Row, versions: ChallanVersion[] = [], reviews: ChallanReview[] = []): Challan => ({
+  id: toId(row.id),
+  documentId: toId(row.document_id),
+  challanNumber: String(row.challan_number),
+  amount: toNumber(row.amount),
+  filledBy: String(row.filled_by),
+  filledById: toOptionalId(row.filled_by_id),
+  filledAt: toDate(row.filled_at),
+  status: row.status as Challan['status'],
+  notes: toOptionalString(row.notes),
+  gras: toJson(row.gras, undefined),
+  submittedAt: toOptionalDate(row.submitted_at),
+  approvedBy: toOptionalString(row.approved_by),
+  approvedByName: toOptionalString(row.approved_by_name),
+  approvedAt: toOptionalDate(row.approved_at),
+  versions,
+  reviews,
+  updatedAt: toDate(row.updated_at),
+});
+
+async function loadChallans(db: Database, where: string, params: unknown[]): Promise<Challan[]> {
+  const { rows } = await db.query(`SELECT * FROM challans WHERE ${where} ORDER BY created_at DESC`, params);
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  const { rows: versionRows } = await db.query(
+    `SELECT * FROM challan_versions WHERE challan_id IN (${placeholders}) ORDER BY version`,
+    ids
+  );
+  const { rows: reviewRows } = await db.query(
+    `SELECT * FROM challan_reviews WHERE challan_id IN (${placeholders}) ORDER BY reviewed_at, id`,
+    ids
+  );
+  const belongsTo = (row: Row) => (child: Row) => toId(child.challan_id) === toId(row.id);
+
+  return rows.map(row => toChallan(
+    row,
+    versionRows.filter(belongsTo(row)).map(toVersion),
+    reviewRows.filter(belongsTo(row)).map(toReview)
+  ));
+}
+
+export async function findChallan(db: Database, id: string): Promise<Challan> {
+  const [challan] = await loadChallans(db, 'id = ?', [id]);
+  if (!challan) {
+    throw notFound('Challan');
+  }
+  return challan;
+}
+
+// Keeps what is being submitted as the next version and puts the challan up for review
+async function submitVersion(db: Database, req: Request, challan: Challan): Promise<void> {
+  const user = authUser(req);
+  await db.query(
+    `INSERT INTO challan_versions (
+      challan_id, version, challan_number, amount, notes, gras, submitted_by, submitted_by_name, submitted_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+    [
+      challan.id,
+      challan.versions.length + 1,
+      challan.challanNumber,
+      challan.amount,
+      challan.notes ?? null,
+      challan.gras ? JSON.stringify(challan.gras) : null,
+      user.id,
+      user.name,
+    ]
+  );
+  await db.query(
+    `UPDATE challans SET status = 'submitted', submitted_at = NOW(), updated_at = NOW() WHERE id = ?`,
+    [challan.id]
+  );
+}
+
+export function challanRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('challans', 'read'), async (_req, res) => {
+    res.json({ success: true, data: await loadChallans(db, '1 = 1', []) });
+  });
+
+  router.get('/:id', requirePermission('challans', 'read'), async (req, res) => {
+    res.json({ success: true, data: await findChallan(db, String(req.params.id)) });
+  });
+
+  router.post('/', requirePermission('challans', 'create'), async (req, res) => {
+    const data = validate(challanInput, req.body);
+    if (data.challanNumber) {
+      await assertNumberFree(db, data.challanNumber);
+    }
+    const challanNumber = data.challanNumber ?? await nextNumber(db, 'challan');
+    const user = authUser(req);
+    const { insertId } = await db.query(
+      `INSERT INTO challans (
+        document_id, challan_number, amount, filled_by, filled_by_id, filled_at,
+        status, notes, gras, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, NOW(), 'draft', ?, ?, NOW(), NOW())`,
+      [
+        data.documentId,
+        challanNumber,
+        data.gras ? grasTotal(data.gras.heads) : data.amount,
+        user.name,
+        user.id,
+        data.notes ?? null,
+        data.gras ? JSON.stringify(data.gras) : null,
+      ]
+    );
+    if (data.status === 'submitted') {
+      await submitVersion(db, req, await findChallan(db, String(insertId)));
+    }
+    const challan = await findChallan(db, String(insertId));
+    await recordActivity(db, req, {
+      entity: 'challans',
+      recordId: challan.id,
+      label: challan.challanNumber,
+      documentId: challan.documentId,
+      after: challan,
+    });
+    res.status(201).json({ success: true, data: challan });
+  });
+
+  router.patch('/:id', requirePermission('challans', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(challanUpdate, req.body);
+    const current = await findChallan(db, id);
+    assertUnmodifiedSince(req, current.updatedAt);
+    if (current.status === 'approved') {
+      throw new HttpError(409, 'Approved challans cannot be modified');
+    }
+    if (current.status === 'submitted') {
+      throw new HttpError(409, 'This challan is under review; it can be revised if it is rejected');
+    }
+    if (data.challanNumber) {
+      await assertNumberFree(db, data.challanNumber, id);
+    }
+    // The heads of account carry the amount; keep its column in step with them
+    if (data.gras) {
+      data.amount = grasTotal(data.gras.heads);
+    }
+
+    const { assignments, values } = buildUpdate(data, CHALLAN_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    await db.query(
+      `UPDATE challans SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, id]
+    );
+    const challan = await findChallan(db, id);
+    await recordActivity(db, req, {
+      entity: 'challans',
+      recordId: id,
+      label: challan.challanNumber,
+      documentId: challan.documentId,
+      before: current,
+      after: challan,
+    });
+    res.json({ success: true, data: challan });
+  });
+
+  // Sends a draft, or a rejected challan once revised, for review as a new version
+  router.post('/:id/submit', requirePermission('challans', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const current = await findChallan(db, id);
+    if (current.status !== 'draft' && current.status !== 'rejected') {
+      throw new HttpError(409, `A challan that is ${current.status} cannot be submitted`);
+    }
+    await submitVersion(db, req, current);
+
+    const challan = await findChallan(db, id);
+    await recordActivity(db, req, {
+      entity: 'challans',
+      recordId: id,
+      label: challan.challanNumber,
+      documentId: challan.documentId,
+      before: current,
+      after: challan,
+    });
+    res.json({ success: true, data: challan });
+  });
+
+  router.post('/:id/review', requirePermission('challans', 'approve'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(reviewInput, req.body);
+    const current = await findChallan(db, id);
+    if (current.status !== 'submitted') {
+      throw new HttpError(409, 'Only challans waiting for review can be approved or rejected');
+    }
+
+    const user = authUser(req);
+    // The review is a second pair of eyes on the filled-in challan and on
+    // whoever submitted the revision being reviewed
+    if (current.filledById === user.id || current.versions.at(-1)?.submittedBy === user.id) {
+      throw new HttpError(403, 'You cannot review a challan you filled yourself');
+    }
+    const version = current.versions.length;
+    await db.query(
+      `INSERT INTO challan_reviews (challan_id, version, decision, comment, reviewed_by, reviewed_by_name, reviewed_at)
+       VALUES (?, ?, ?, ?, ?, ?, NOW())`,
+      [id, version, data.decision, data.comment || null, user.id, user.name]
+    );
+    if (data.decision === 'approved') {
+      await db.query(
+        `UPDATE challans
+         SET status = 'approved', approved_by = ?, approved_by_name = ?, approved_at = NOW(), updated_at = NOW()
+         WHERE id = ?`,
+        [user.id, user.name, id]
+      );
+    } else {
+      await db.query(`UPDATE challans SET status = 'rejected', updated_at = NOW() WHERE id = ?`, [id]);
+    }
+
+    const challan = await findChallan(db, id);
+    await recordActivity(db, req, {
+      entity: 'challans',
+      recordId: id,
+      label: challan.challanNumber,
+      documentId: challan.documentId,
+      before: current,
+      after: challan,
+    });
+    if (challan.filledById && challan.filledById !== user.id) {
+      const approved = data.decision === 'approved';
+      await notify(db, challan.filledById, {
+        title: `Challan ${challan.challanNumber} ${approved ? 'approved' : 'rejected'}`,
+        message: approved
+          ? `${user.name} approved version ${version}${data.comment ? `: ${data.comment}` : '.'}`
+          : `${user.name} rejected version ${version}: ${data.comment}. Revise it and submit it again.`,
+        type: approved ? 'success' : 'warning',
+        actionUrl: '/challans',
+      });
+    }
+    res.json({ success: true, data: challan });
+  });
+
+  router.delete('/:id', requirePermission('challans', 'delete'), async (req, res) => {
+    const id = String(req.params.id);
+    const current = await findChallan(db, id);
+    if (current.status === 'approved') {
+      throw new HttpError(409, 'Approved challans cannot be deleted');
+    }
+    await db.query('DELETE FROM challans WHERE id = ?', [id]);
+    await recordActivity(db, req, {
+      entity: 'challans',
+      recordId: id,
+      label: current.challanNumber,
+      documentId: current.documentId,
+      before: current,
+    });
+    res.json({ success: true });
+  });
+
+  return router;
+}
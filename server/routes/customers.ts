@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Customer } from '../../src/types';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import { toDate, toId, toOptionalString } from '../db/values';
+import { HttpError, notFound, validate } from '../http';
+import { requirePermission } from '../middleware/auth';
+
+const customerInput = z.object({
+  name: z.string().trim().min(1).max(255),
+  phone: z.string().trim().min(1).max(20),
+  email: z.string().email().max(255).optional().nullable(),
+  address: z.string().trim().min(1),
+});
+
+const customerUpdate = customerInput.partial();
+
+const CUSTOMER_COLUMNS: Record<string, string> = {
+  name: 'name',
+  phone: 'phone',
+  email: 'email',
+  address: 'address',
+};
+
+const SELECT_CUSTOMERS = `
+  SELECT c.*, GROUP_CONCAT(d.document_number) AS documents
+  FROM customers c
+  LEFT JOIN documents d ON d.customer_phone = c.phone
+`;
+
+export const toCustomer = (row: Row): Customer => ({
+  id: toId(row.id),
+  name: String(row.name),
+  phone: String(row.phone),
+  email: toOptionalString(row.email),
+  address: String(row.address),
+  documents: row.documents ? String(row.documents).split(',').filter(Boolean) : [],
+  createdAt: toDate(row.created_at),
+});
+
+async function findCustomer(db: Database, id: string): Promise<Customer> {
+  const { rows } = await db.query(`${SELECT_CUSTOMERS} WHERE c.id = ? GROUP BY c.id`, [id]);
+  if (rows.length === 0) {
+    throw notFound('Customer');
+  }
+  return toCustomer(rows[0]);
+}
+
+export function customerRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('customers', 'read'), async (_req, res) => {
+    const { rows } = await db.query(`${SELECT_CUSTOMERS} GROUP BY c.id ORDER BY c.created_at DESC`);
+    res.json({ success: true, data: rows.map(toCustomer) });
+  });
+
+  router.post('/', requirePermission('customers', 'create'), async (req, res) => {
+    const data = validate(customerInput, req.body);
+    const { insertId } = await db.query(
+      `INSERT INTO customers (name, phone, email, address, created_at)
+       VALUES (?, ?, ?, ?, NOW())`,
+      [data.name, data.phone, data.email ?? null, data.address]
+    );
+    const customer = await findCustomer(db, String(insertId));
+    await recordActivity(db, req, { entity: 'customers', recordId: customer.id, label: customer.name, after: customer });
+    res.status(201).json({ success: true, data: customer });
+  });
+
+  router.put('/:id', requirePermission('customers', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(customerUpdate, req.body);
+    const { assignments, values } = buildUpdate(data, CUSTOMER_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    const current = await findCustomer(db, id);
+    await db.query(`UPDATE customers SET ${assignments.join(', ')} WHERE id = ?`, [...values, id]);
+    const customer = await findCustomer(db, id);
+    await recordActivity(db, req, { entity: 'customers', recordId: id, label: customer.name, before: current, after: customer });
+    res.json({ success: true, data: customer });
+  });
+
+  return router;
+}
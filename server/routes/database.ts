@@ -0,0 +1,25 @@
+import { Router } from 'express';
+import { Database } from '../db';
+
+export function databaseRoutes(db: Database): Router {
+  const router = Router();
+
+  router.all('/test-db-connection', async (_req, res) => {
+    try {
+      const serverInfo = await db.ping();
+      res.json({
+        success: true,
+        message: 'Database connection successful',
+        driver: db.driver,
+        serverInfo,
+      });
+    } catch (error) {
+      res.status(503).json({
+        success: false,
+        error: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  });
+
+  return router;
+}
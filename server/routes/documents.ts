@@ -0,0 +1,225 @@
+import { Request, Router } from 'express';
+import { z } from 'zod';
+import { Document } from '../../src/types';
+import { checkTransition, INITIAL_DOCUMENT_STATUS, stageDateField, WorkflowContext } from '../../src/services/documentWorkflow';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import { toDate, toId, toNumber, toOptionalDate, toOptionalString } from '../db/values';
+import { assertUnmodifiedSince, HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+import { nextNumber } from '../sequences';
+import { runTaskPipeline } from '../taskPipeline';
+
+export const DOCUMENT_TYPES = ['agreement', 'lease_deed', 'sale_deed', 'mutation', 'partition_deed', 'gift_deed'] as const;
+
+export const DOCUMENT_STATUSES = [
+  'pending_collection',
+  'collected',
+  'data_entry_pending',
+  'data_entry_completed',
+  'registration_pending',
+  'registered',
+  'ready_for_delivery',
+  'delivered',
+] as const;
+
+const documentInput = z.object({
+  // Given by the number sequence when left out
+  documentNumber: z.string().trim().min(1).max(100).optional(),
+  customerName: z.string().trim().min(1).max(255),
+  customerPhone: z.string().trim().min(1).max(20),
+  customerEmail: z.string().email().max(255).optional().nullable(),
+  builderName: z.string().trim().min(1).max(255),
+  propertyDetails: z.string().trim().min(1),
+  documentType: z.enum(DOCUMENT_TYPES),
+  assignedTo: z.string().max(255).optional().nullable(),
+});
+
+const documentUpdate = documentInput.partial().extend({
+  status: z.enum(DOCUMENT_STATUSES).optional(),
+  collectionDate: z.coerce.date().optional().nullable(),
+  dataEntryDate: z.coerce.date().optional().nullable(),
+  registrationDate: z.coerce.date().optional().nullable(),
+  deliveryDate: z.coerce.date().optional().nullable(),
+  // Something needing attention before the work goes on; null clears it
+  flagReason: z.string().trim().min(1).max(500).optional().nullable(),
+});
+
+const documentFilters = z.object({
+  status: z.enum(DOCUMENT_STATUSES).optional(),
+  assignedTo: z.string().optional(),
+});
+
+const DOCUMENT_COLUMNS: Record<string, string> = {
+  documentNumber: 'document_number',
+  customerName: 'customer_name',
+  customerPhone: 'customer_phone',
+  customerEmail: 'customer_email',
+  builderName: 'builder_name',
+  propertyDetails: 'property_details',
+  documentType: 'document_type',
+  status: 'status',
+  assignedTo: 'assigned_to',
+  collectionDate: 'collection_date',
+  dataEntryDate: 'data_entry_date',
+  registrationDate: 'registration_date',
+  deliveryDate: 'delivery_date',
+  flagReason: 'flag_reason',
+};
+
+export const toDocument = (row: Row): Document => ({
+  id: toId(row.id),
+  documentNumber: String(row.document_number),
+  customerName: String(row.customer_name),
+  customerPhone: String(row.customer_phone),
+  customerEmail: toOptionalString(row.customer_email),
+  builderName: String(row.builder_name),
+  propertyDetails: String(row.property_details),
+  documentType: row.document_type as Document['documentType'],
+  status: row.status as Document['status'],
+  collectionDate: toOptionalDate(row.collection_date),
+  dataEntryDate: toOptionalDate(row.data_entry_date),
+  registrationDate: toOptionalDate(row.registration_date),
+  deliveryDate: toOptionalDate(row.delivery_date),
+  assignedTo: toOptionalString(row.assigned_to),
+  flagReason: toOptionalString(row.flag_reason),
+  flaggedAt: toOptionalDate(row.flagged_at),
+  notes: [],
+  files: [],
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+async function loadWorkflowContext(db: Database, documentId: string): Promise<WorkflowContext> {
+  const challans = await db.query('SELECT status FROM challans WHERE document_id = ?', [documentId]);
+  const payments = await db.query('SELECT pending_amount FROM payments WHERE document_id = ?', [documentId]);
+  return {
+    challans: challans.rows.map(row => ({ status: row.status as WorkflowContext['challans'][number]['status'] })),
+    payments: payments.rows.map(row => ({ pendingAmount: toNumber(row.pending_amount) })),
+  };
+}
+
+// Status changes follow the document workflow: only listed moves, by users
+// allowed to make them, once their preconditions hold
+async function assertTransition(db: Database, req: Request, document: Document, to: Document['status']) {
+  if (to === document.status) return;
+
+  const check = checkTransition(authUser(req), document.status, to, await loadWorkflowContext(db, document.id));
+  if (!check.allowed) {
+    throw new HttpError(check.reason === 'forbidden' ? 403 : 409, check.message);
+  }
+}
+
+export async function findDocument(db: Database, id: string): Promise<Document> {
+  const { rows } = await db.query('SELECT * FROM documents WHERE id = ?', [id]);
+  if (rows.length === 0) {
+    throw notFound('Document');
+  }
+  return toDocument(rows[0]);
+}
+
+export function documentRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('documents', 'read'), async (req, res) => {
+    const filters = validate(documentFilters, req.query);
+    let sql = 'SELECT * FROM documents WHERE 1=1';
+    const params: unknown[] = [];
+
+    if (filters.status) {
+      sql += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters.assignedTo) {
+      sql += ' AND assigned_to = ?';
+      params.push(filters.assignedTo);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+    const { rows } = await db.query(sql, params);
+    res.json({ success: true, data: rows.map(toDocument) });
+  });
+
+  router.get('/:id', requirePermission('documents', 'read'), async (req, res) => {
+    res.json({ success: true, data: await findDocument(db, String(req.params.id)) });
+  });
+
+  router.post('/', requirePermission('documents', 'create'), async (req, res) => {
+    const data = validate(documentInput, req.body);
+    const documentNumber = data.documentNumber ?? await nextNumber(db, 'document', { documentType: data.documentType });
+    const { insertId } = await db.query(
+      `INSERT INTO documents (
+        document_number, customer_name, customer_phone, customer_email,
+        builder_name, property_details, document_type, status,
+        assigned_to, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())`,
+      [
+        documentNumber,
+        data.customerName,
+        data.customerPhone,
+        data.customerEmail ?? null,
+        data.builderName,
+        data.propertyDetails,
+        data.documentType,
+        INITIAL_DOCUMENT_STATUS,
+        data.assignedTo ?? null,
+      ]
+    );
+    const document = await findDocument(db, String(insertId));
+    await recordActivity(db, req, {
+      entity: 'documents',
+      recordId: document.id,
+      label: document.documentNumber,
+      documentId: document.id,
+      after: document,
+    });
+    await runTaskPipeline(db, req, document);
+    res.status(201).json({ success: true, data: document });
+  });
+
+  router.patch('/:id', requirePermission('documents', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(documentUpdate, req.body);
+    if (buildUpdate(data, DOCUMENT_COLUMNS).assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    const current = await findDocument(db, id);
+    assertUnmodifiedSince(req, current.updatedAt);
+    if (data.status && data.status !== current.status) {
+      await assertTransition(db, req, current, data.status);
+
+      // Stamp the stage date unless the client sent when it happened (offline)
+      const dateField = stageDateField(data.status);
+      if (dateField && !data[dateField]) {
+        data[dateField] = new Date();
+      }
+    }
+
+    const { assignments, values } = buildUpdate(data, DOCUMENT_COLUMNS);
+    if (data.flagReason !== undefined) {
+      assignments.push(data.flagReason === null ? 'flagged_at = NULL' : 'flagged_at = NOW()');
+    }
+    await db.query(
+      `UPDATE documents SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, id]
+    );
+    const document = await findDocument(db, id);
+    await recordActivity(db, req, {
+      entity: 'documents',
+      recordId: id,
+      label: document.documentNumber,
+      documentId: id,
+      before: current,
+      after: document,
+    });
+    if (document.status !== current.status) {
+      await runTaskPipeline(db, req, document, current.status);
+    }
+    res.json({ success: true, data: document });
+  });
+
+  return router;
+}
@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Database } from '../db';
+import { migrateDown, migrateUp, migrationStatus, schemaSql } from '../db/migrator';
+import { validate } from '../http';
+import { currentUser, requirePermission } from '../middleware/auth';
+
+const upInput = z.object({
+  version: z.number().int().positive().optional(),
+});
+
+const downInput = z.object({
+  steps: z.number().int().positive().default(1),
+});
+
+export function migrationRoutes(db: Database): Router {
+  const router = Router();
+  const authenticate = currentUser(db);
+  const canManage = requirePermission('settings', 'manage');
+
+  // A database with no migrations applied has no users to sign in with, so the
+  // first run is open; once the schema exists only settings managers may migrate.
+  router.use(async (req, res, next) => {
+    const status = await migrationStatus(db);
+    if (!status.some(migration => migration.appliedAt)) {
+      next();
+      return;
+    }
+    await authenticate(req, res, () => canManage(req, res, next));
+  });
+
+  router.get('/', async (_req, res) => {
+    res.json({ success: true, data: await migrationStatus(db) });
+  });
+
+  router.post('/up', async (req, res) => {
+    const { version } = validate(upInput, req.body ?? {});
+    res.json({ success: true, data: await migrateUp(db, version) });
+  });
+
+  router.post('/down', async (req, res) => {
+    const { steps } = validate(downInput, req.body ?? {});
+    res.json({ success: true, data: await migrateDown(db, steps) });
+  });
+
+  router.get('/schema', (_req, res) => {
+    res.json({ success: true, data: schemaSql() });
+  });
+
+  return router;
+}
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { Database } from '../db';
+import { notFound } from '../http';
+import { toNotification } from '../notifications';
+import { authUser } from '../middleware/auth';
+
+// Everyone reads and clears only their own notifications
+export function notificationRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', async (req, res) => {
+    const { rows } = await db.query(
+      'SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC, id DESC LIMIT 50',
+      [authUser(req).id]
+    );
+    res.json({ success: true, data: rows.map(toNotification) });
+  });
+
+  router.post('/read-all', async (req, res) => {
+    await db.query(
+      'UPDATE notifications SET is_read = 1, read_at = NOW() WHERE user_id = ? AND is_read = 0',
+      [authUser(req).id]
+    );
+    res.json({ success: true });
+  });
+
+  router.post('/:id/read', async (req, res) => {
+    const id = String(req.params.id);
+    const { rows } = await db.query('SELECT * FROM notifications WHERE id = ? AND user_id = ?', [id, authUser(req).id]);
+    if (rows.length === 0) {
+      throw notFound('Notification');
+    }
+    await db.query('UPDATE notifications SET is_read = 1, read_at = COALESCE(read_at, NOW()) WHERE id = ?', [id]);
+    const { rows: updated } = await db.query('SELECT * FROM notifications WHERE id = ?', [id]);
+    res.json({ success: true, data: toNotification(updated[0]) });
+  });
+
+  return router;
+}
@@ -0,0 +1,698 @@
+import { Request, Router } from 'express';
+import { startOfDay } from 'date-fns';
+import { z } from 'zod';
+import {
+  FeeComponent,
+  Payment,
+  PaymentReceipt,
+  PaymentRefund,
+  PaymentTransaction,
+  ReceiptKind,
+  RefundStatus,
+} from '../../src/types';
+import { can } from '../../src/services/accessPolicy';
+import { dhcAmountOf, FEE_COMPONENT_LABELS, paymentTotal } from '../../src/services/feeEngine';
+import {
+  countsTowardsPaid,
+  initialClearance,
+  isInstrument,
+  ledgerTotals,
+  REFUND_TRANSITIONS,
+  refundableAmount,
+} from '../../src/services/paymentLedger';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import {
+  toDate,
+  toId,
+  toJson,
+  toNumber,
+  toOptionalDate,
+  toOptionalId,
+  toOptionalNumber,
+  toOptionalString,
+} from '../db/values';
+import { assertUnmodifiedSince, HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+
+export const PAYMENT_STATUSES = ['pending', 'partial', 'completed', 'refunded'] as const;
+export const PAYMENT_METHODS = ['cash', 'cheque', 'online', 'dd'] as const;
+export const CLEARANCE_STATUSES = ['pending', 'cleared', 'bounced'] as const;
+
+const amount = z.number().min(0);
+
+const feeLine = z.object({
+  component: z.enum(Object.keys(FEE_COMPONENT_LABELS) as [FeeComponent, ...FeeComponent[]]),
+  label: z.string().min(1).max(100),
+  amount,
+  explanation: z.string().max(500),
+});
+
+const transactionInput = z.object({
+  amount: z.number().positive(),
+  method: z.enum(PAYMENT_METHODS),
+  referenceNumber: z.string().trim().max(100).optional().nullable(),
+  transactionDate: z.coerce.date(),
+  // Cheques and DDs: the issuing bank, the date written on the instrument
+  // (later than today when post-dated) and when it went to the bank
+  bankName: z.string().trim().max(255).optional().nullable(),
+  instrumentDate: z.coerce.date().optional().nullable(),
+  depositDate: z.coerce.date().optional().nullable(),
+  // Defaults to the user recording it
+  receivedBy: z.string().min(1).optional(),
+  // Defaults by method, see initialClearance
+  clearanceStatus: z.enum(CLEARANCE_STATUSES).optional(),
+  notes: z.string().max(1000).optional().nullable(),
+});
+
+const transactionUpdate = transactionInput.omit({ receivedBy: true }).partial().extend({
+  bounceReason: z.string().trim().max(255).optional().nullable(),
+});
+
+// Receipts are issued as each transaction clears; this covers invoices and
+// transactions recorded before receipts existed
+const receiptInput = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('receipt'), transactionId: z.string().min(1) }),
+  z.object({
+    kind: z.literal('invoice'),
+    lines: z.array(z.object({ description: z.string().trim().min(1).max(255), amount: z.number().positive() })).min(1),
+  }),
+]);
+
+const refundInput = z.object({
+  amount: z.number().positive(),
+  reason: z.string().trim().min(1).max(1000),
+  transactionIds: z.array(z.string().min(1)).min(1),
+});
+
+// Approving or rejecting takes the approve_refund permission; paying out an
+// approved refund records how the money went back
+const refundDecision = z.discriminatedUnion('status', [
+  z.object({ status: z.literal('approved'), decisionNote: z.string().trim().max(1000).optional() }),
+  z.object({ status: z.literal('rejected'), decisionNote: z.string().trim().min(1).max(1000) }),
+  z.object({
+    status: z.literal('paid'),
+    payoutMethod: z.enum(PAYMENT_METHODS),
+    payoutReference: z.string().trim().max(100).optional().nullable(),
+    paidAt: z.coerce.date().optional(),
+  }),
+]);
+
+const RECEIPT_PREFIXES: Record<ReceiptKind, string> = {
+  receipt: 'RCT',
+  invoice: 'INV',
+};
+
+// The total follows from the amounts, and paid and pending amounts and the
+// status from the transactions, so none of them are taken from the client
+const paymentInput = z.object({
+  documentId: z.string().min(1),
+  agreementValue: amount,
+  marketValue: amount.optional().nullable(),
+  jurisdiction: z.string().max(100).optional().nullable(),
+  considerationAmount: amount,
+  dhcAmount: amount,
+  fees: z.array(feeLine).default([]),
+  challanNumber: z.string().max(100).optional().nullable(),
+  transactions: z.array(transactionInput).default([]),
+});
+
+// The status follows from the ledger and refunds, so it is not set directly
+const paymentUpdate = paymentInput.omit({ documentId: true, fees: true, transactions: true }).partial().extend({
+  fees: z.array(feeLine).optional(),
+});
+
+const PAYMENT_COLUMNS: Record<string, string> = {
+  agreementValue: 'agreement_value',
+  marketValue: 'market_value',
+  jurisdiction: 'jurisdiction',
+  considerationAmount: 'consideration_amount',
+  dhcAmount: 'dhc_amount',
+  fees: 'fees',
+  totalAmount: 'total_amount',
+  challanNumber: 'challan_number',
+};
+
+const TRANSACTION_COLUMNS: Record<string, string> = {
+  amount: 'amount',
+  method: 'method',
+  referenceNumber: 'reference_number',
+  transactionDate: 'transaction_date',
+  bankName: 'bank_name',
+  instrumentDate: 'instrument_date',
+  depositDate: 'deposit_date',
+  clearanceStatus: 'clearance_status',
+  bounceReason: 'bounce_reason',
+  notes: 'notes',
+};
+
+const toTransaction = (row: Row): PaymentTransaction => ({
+  id: toId(row.id),
+  paymentId: toId(row.payment_id),
+  amount: toNumber(row.amount),
+  method: row.method as PaymentTransaction['method'],
+  referenceNumber: toOptionalString(row.reference_number),
+  transactionDate: toDate(row.transaction_date),
+  receivedBy: toOptionalString(row.received_by),
+  receivedByName: toOptionalString(row.received_by_name),
+  clearanceStatus: row.clearance_status as PaymentTransaction['clearanceStatus'],
+  clearedAt: toOptionalDate(row.cleared_at),
+  bankName: toOptionalString(row.bank_name),
+  instrumentDate: toOptionalDate(row.instrument_date),
+  depositDate: toOptionalDate(row.deposit_date),
+  bouncedAt: toOptionalDate(row.bounced_at),
+  bounceReason: toOptionalString(row.bounce_reason),
+  notes: toOptionalString(row.notes),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+const toReceipt = (row: Row): PaymentReceipt => ({
+  id: toId(row.id),
+  paymentId: toId(row.payment_id),
+  kind: row.kind as ReceiptKind,
+  receiptNumber: String(row.receipt_number),
+  transactionId: toOptionalId(row.transaction_id),
+  amount: toNumber(row.amount),
+  lines: toJson(row.line_items, []),
+  issuedBy: toOptionalString(row.issued_by),
+  issuedByName: toOptionalString(row.issued_by_name),
+  issuedAt: toDate(row.issued_at),
+});
+
+const toRefund = (row: Row): PaymentRefund => ({
+  id: toId(row.id),
+  paymentId: toId(row.payment_id),
+  amount: toNumber(row.amount),
+  reason: String(row.reason),
+  transactionIds: toJson<unknown[]>(row.transaction_ids, []).map(String),
+  status: row.status as RefundStatus,
+  requestedBy: toOptionalString(row.requested_by),
+  requestedByName: toOptionalString(row.requested_by_name),
+  requestedAt: toDate(row.requested_at),
+  decidedBy: toOptionalString(row.decided_by),
+  decidedByName: toOptionalString(row.decided_by_name),
+  decidedAt: toOptionalDate(row.decided_at),
+  decisionNote: toOptionalString(row.decision_note),
+  payoutMethod: toOptionalString(row.payout_method) as PaymentRefund['payoutMethod'],
+  payoutReference: toOptionalString(row.payout_reference),
+  paidAt: toOptionalDate(row.paid_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+export const toPayment = (
+  row: Row,
+  transactions: PaymentTransaction[] = [],
+  receipts: PaymentReceipt[] = [],
+  refunds: PaymentRefund[] = []
+): Payment => ({
+  id: toId(row.id),
+  documentId: toId(row.document_id),
+  agreementValue: toNumber(row.agreement_value),
+  marketValue: toOptionalNumber(row.market_value),
+  jurisdiction: toOptionalString(row.jurisdiction),
+  considerationAmount: toNumber(row.consideration_amount),
+  dhcAmount: toNumber(row.dhc_amount),
+  fees: toJson(row.fees, []),
+  totalAmount: toNumber(row.total_amount),
+  paidAmount: toNumber(row.paid_amount),
+  pendingAmount: toNumber(row.pending_amount),
+  refundedAmount: toNumber(row.refunded_amount),
+  paymentStatus: row.payment_status as Payment['paymentStatus'],
+  paymentMethod: toOptionalString(row.payment_method) as Payment['paymentMethod'],
+  paymentDate: toOptionalDate(row.payment_date),
+  challanNumber: toOptionalString(row.challan_number),
+  transactions,
+  receipts,
+  refunds,
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+async function loadPayments(db: Database, where: string, params: unknown[]): Promise<Payment[]> {
+  const { rows } = await db.query(`SELECT * FROM payments WHERE ${where} ORDER BY created_at DESC`, params);
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  const { rows: transactionRows } = await db.query(
+    `SELECT * FROM payment_transactions WHERE payment_id IN (${placeholders}) ORDER BY transaction_date, id`,
+    ids
+  );
+  const { rows: receiptRows } = await db.query(
+    `SELECT * FROM payment_receipts WHERE payment_id IN (${placeholders}) ORDER BY issued_at, id`,
+    ids
+  );
+  const { rows: refundRows } = await db.query(
+    `SELECT * FROM payment_refunds WHERE payment_id IN (${placeholders}) ORDER BY requested_at, id`,
+    ids
+  );
+  const belongsTo = (row: Row) => (child: Row) => toId(child.payment_id) === toId(row.id);
+
+  return rows.map(row => toPayment(
+    row,
+    transactionRows.filter(belongsTo(row)).map(toTransaction),
+    receiptRows.filter(belongsTo(row)).map(toReceipt),
+    refundRows.filter(belongsTo(row)).map(toRefund)
+  ));
+}
+
+export async function findPayment(db: Database, id: string): Promise<Payment> {
+  const [payment] = await loadPayments(db, 'id = ?', [id]);
+  if (!payment) {
+    throw notFound('Payment');
+  }
+  return payment;
+}
+
+// A cheque cannot go to the bank before the date written on it
+function assertDepositable(instrumentDate?: Date | null, depositDate?: Date | null): void {
+  if (instrumentDate && depositDate && startOfDay(depositDate) < startOfDay(instrumentDate)) {
+    throw new HttpError(400, 'An instrument cannot be deposited before the date written on it');
+  }
+}
+
+function findRefund(payment: Payment, refundId: string): PaymentRefund {
+  const refund = payment.refunds.find(r => r.id === refundId);
+  if (!refund) {
+    throw notFound('Refund');
+  }
+  return refund;
+}
+
+function findTransaction(payment: Payment, transactionId: string): PaymentTransaction {
+  const transaction = payment.transactions.find(t => t.id === transactionId);
+  if (!transaction) {
+    throw notFound('Transaction');
+  }
+  return transaction;
+}
+
+// The user the money was handed to, who may not be the one recording it
+async function receiverOf(db: Database, req: Request, receivedBy?: string): Promise<{ id: string; name: string }> {
+  const user = authUser(req);
+  if (!receivedBy || receivedBy === user.id) {
+    return { id: user.id, name: user.name };
+  }
+  const { rows } = await db.query('SELECT id, name FROM users WHERE id = ?', [receivedBy]);
+  if (rows.length === 0) {
+    throw new HttpError(400, 'The user who received the payment does not exist');
+  }
+  return { id: toId(rows[0].id), name: String(rows[0].name) };
+}
+
+// Each race lost to another receipt of the same kind costs an attempt
+const RECEIPT_ATTEMPTS = 10;
+
+// Numbers run on from the highest of the kind issued so far. Two requests can
+// read the same one; the unique (kind, sequence) key turns the later away and
+// it reads again
+async function issueReceipt(
+  db: Database,
+  req: Request,
+  paymentId: string,
+  receipt: { kind: ReceiptKind; amount: number; transactionId?: string; lines?: PaymentReceipt['lines'] }
+): Promise<void> {
+  const user = authUser(req);
+  for (let attempt = 0; attempt < RECEIPT_ATTEMPTS; attempt++) {
+    const { rows } = await db.query(
+      'SELECT COALESCE(MAX(sequence), 0) AS last_sequence FROM payment_receipts WHERE kind = ?',
+      [receipt.kind]
+    );
+    const sequence = toNumber(rows[0].last_sequence) + 1;
+    try {
+      await db.query(
+        `INSERT INTO payment_receipts (
+          payment_id, kind, sequence, receipt_number, transaction_id, amount, line_items, issued_by, issued_by_name, issued_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+        [
+          paymentId,
+          receipt.kind,
+          sequence,
+          `${RECEIPT_PREFIXES[receipt.kind]}/${String(sequence).padStart(6, '0')}`,
+          receipt.transactionId ?? null,
+          receipt.amount,
+          JSON.stringify(receipt.lines ?? []),
+          user.id,
+          user.name,
+        ]
+      );
+      return;
+    } catch (error) {
+      // Only a number taken in the meantime is worth another try
+      const { rows: taken } = await db.query(
+        'SELECT 1 AS taken FROM payment_receipts WHERE kind = ? AND sequence = ?',
+        [receipt.kind, sequence]
+      );
+      if (taken.length === 0) throw error;
+    }
+  }
+  throw new HttpError(409, `Could not allocate a ${receipt.kind} number; try again`);
+}
+
+async function insertTransaction(
+  db: Database,
+  req: Request,
+  paymentId: string,
+  data: z.infer<typeof transactionInput>
+): Promise<void> {
+  const receiver = await receiverOf(db, req, data.receivedBy);
+  const clearanceStatus = data.clearanceStatus ?? initialClearance(data.method);
+  const instrument = isInstrument(data.method);
+  // Undated cheques are taken as dated the day they were handed over
+  const instrumentDate = instrument ? data.instrumentDate ?? data.transactionDate : null;
+  assertDepositable(instrumentDate, data.depositDate);
+  const { insertId } = await db.query(
+    `INSERT INTO payment_transactions (
+      payment_id, amount, method, reference_number, transaction_date,
+      bank_name, instrument_date, deposit_date,
+      received_by, received_by_name, clearance_status, cleared_at, notes, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ${clearanceStatus === 'cleared' ? 'NOW()' : 'NULL'}, ?, NOW(), NOW())`,
+    [
+      paymentId,
+      data.amount,
+      data.method,
+      data.referenceNumber || null,
+      data.transactionDate,
+      instrument ? data.bankName || null : null,
+      instrumentDate,
+      instrument ? data.depositDate ?? null : null,
+      receiver.id,
+      receiver.name,
+      clearanceStatus,
+      data.notes || null,
+    ]
+  );
+  // A cheque or DD is receipted when it clears
+  if (countsTowardsPaid({ clearanceStatus })) {
+    await issueReceipt(db, req, paymentId, { kind: 'receipt', amount: data.amount, transactionId: String(insertId) });
+  }
+}
+
+// Writes the amounts that follow from the total and the ledger back to the payment
+async function syncLedgerTotals(db: Database, paymentId: string): Promise<void> {
+  const payment = await findPayment(db, paymentId);
+  const totals = ledgerTotals(payment.totalAmount, payment.transactions, payment.refunds);
+  await db.query(
+    `UPDATE payments
+     SET paid_amount = ?, pending_amount = ?, refunded_amount = ?, payment_status = ?,
+       payment_method = ?, payment_date = ?, updated_at = NOW()
+     WHERE id = ?`,
+    [
+      totals.paidAmount,
+      totals.pendingAmount,
+      totals.refundedAmount,
+      totals.paymentStatus,
+      totals.paymentMethod ?? null,
+      totals.paymentDate ?? null,
+      paymentId,
+    ]
+  );
+}
+
+async function recordPaymentChange(db: Database, req: Request, before: Payment, after: Payment): Promise<void> {
+  await recordActivity(db, req, {
+    entity: 'payments',
+    recordId: after.id,
+    label: `#${after.id}`,
+    documentId: after.documentId,
+    before,
+    after,
+  });
+}
+
+export function paymentRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('payments', 'read'), async (_req, res) => {
+    res.json({ success: true, data: await loadPayments(db, '1=1', []) });
+  });
+
+  router.get('/:id', requirePermission('payments', 'read'), async (req, res) => {
+    res.json({ success: true, data: await findPayment(db, String(req.params.id)) });
+  });
+
+  router.post('/', requirePermission('payments', 'create'), async (req, res) => {
+    const data = validate(paymentInput, req.body);
+    // Itemised fees carry the DHC, the same as on an update
+    const dhcAmount = data.fees.length > 0 ? dhcAmountOf(data.fees) : data.dhcAmount;
+    const totalAmount = paymentTotal(data.considerationAmount, dhcAmount, data.fees);
+    const { insertId } = await db.query(
+      `INSERT INTO payments (
+        document_id, agreement_value, market_value, jurisdiction,
+        consideration_amount, dhc_amount, fees,
+        total_amount, paid_amount, pending_amount, payment_status,
+        challan_number, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 0, ?, 'pending', ?, NOW(), NOW())`,
+      [
+        data.documentId,
+        data.agreementValue,
+        data.marketValue ?? null,
+        data.jurisdiction ?? null,
+        data.considerationAmount,
+        dhcAmount,
+        JSON.stringify(data.fees),
+        totalAmount,
+        totalAmount,
+        data.challanNumber ?? null,
+      ]
+    );
+    for (const transaction of data.transactions) {
+      await insertTransaction(db, req, String(insertId), transaction);
+    }
+    await syncLedgerTotals(db, String(insertId));
+    const payment = await findPayment(db, String(insertId));
+    await recordActivity(db, req, {
+      entity: 'payments',
+      recordId: payment.id,
+      label: `#${payment.id}`,
+      documentId: payment.documentId,
+      after: payment,
+    });
+    res.status(201).json({ success: true, data: payment });
+  });
+
+  router.patch('/:id', requirePermission('payments', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(paymentUpdate, req.body);
+    const current = await findPayment(db, id);
+    assertUnmodifiedSince(req, current.updatedAt);
+
+    // Itemised fees carry the DHC; keep its column in step with them
+    if (data.fees !== undefined && data.fees.length > 0) {
+      data.dhcAmount = dhcAmountOf(data.fees);
+    }
+
+    // The total follows from the amounts, so recompute it whenever an amount changes
+    let totalAmount: number | undefined;
+    if (data.considerationAmount !== undefined || data.dhcAmount !== undefined || data.fees !== undefined) {
+      const considerationAmount = data.considerationAmount ?? current.considerationAmount;
+      const dhcAmount = data.dhcAmount ?? current.dhcAmount;
+      totalAmount = paymentTotal(considerationAmount, dhcAmount, data.fees ?? current.fees);
+    }
+
+    const { assignments, values } = buildUpdate({ ...data, totalAmount }, PAYMENT_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    await db.query(
+      `UPDATE payments SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, id]
+    );
+    await syncLedgerTotals(db, id);
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.json({ success: true, data: payment });
+  });
+
+  router.post('/:id/transactions', requirePermission('payments', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(transactionInput, req.body);
+    const current = await findPayment(db, id);
+    if (current.paymentStatus === 'refunded') {
+      throw new HttpError(409, 'This payment has been refunded and cannot take more money');
+    }
+    await insertTransaction(db, req, id, data);
+    await syncLedgerTotals(db, id);
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.status(201).json({ success: true, data: payment });
+  });
+
+  router.patch('/:id/transactions/:transactionId', requirePermission('payments', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const transactionId = String(req.params.transactionId);
+    const data = validate(transactionUpdate, req.body);
+    const current = await findPayment(db, id);
+    const transaction = findTransaction(current, transactionId);
+
+    const { assignments, values } = buildUpdate(data, TRANSACTION_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+    assertDepositable(
+      data.instrumentDate !== undefined ? data.instrumentDate : transaction.instrumentDate,
+      data.depositDate !== undefined ? data.depositDate : transaction.depositDate
+    );
+    if (data.clearanceStatus !== undefined && data.clearanceStatus !== transaction.clearanceStatus) {
+      assignments.push(data.clearanceStatus === 'cleared' ? 'cleared_at = NOW()' : 'cleared_at = NULL');
+      assignments.push(data.clearanceStatus === 'bounced' ? 'bounced_at = NOW()' : 'bounced_at = NULL');
+      // The reason only describes the return it was given for
+      if (data.clearanceStatus !== 'bounced' && data.bounceReason === undefined) {
+        assignments.push('bounce_reason = NULL');
+      }
+    }
+
+    await db.query(
+      `UPDATE payment_transactions SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, transactionId]
+    );
+    if (
+      data.clearanceStatus !== undefined &&
+      countsTowardsPaid({ clearanceStatus: data.clearanceStatus }) &&
+      !current.receipts.some(r => r.transactionId === transaction.id)
+    ) {
+      const amount = data.amount ?? transaction.amount;
+      await issueReceipt(db, req, id, { kind: 'receipt', amount, transactionId: transaction.id });
+    }
+    await syncLedgerTotals(db, id);
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.json({ success: true, data: payment });
+  });
+
+  router.post('/:id/receipts', requirePermission('payments', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(receiptInput, req.body);
+    const current = await findPayment(db, id);
+
+    if (data.kind === 'receipt') {
+      const transaction = findTransaction(current, data.transactionId);
+      const existing = current.receipts.find(r => r.transactionId === transaction.id);
+      if (existing) {
+        throw new HttpError(409, `This transaction already has receipt ${existing.receiptNumber}`);
+      }
+      if (!countsTowardsPaid(transaction)) {
+        throw new HttpError(409, 'A receipt is issued once the money has cleared');
+      }
+      await issueReceipt(db, req, id, { kind: 'receipt', amount: transaction.amount, transactionId: transaction.id });
+    } else {
+      await issueReceipt(db, req, id, {
+        kind: 'invoice',
+        amount: data.lines.reduce((sum, line) => sum + line.amount, 0),
+        lines: data.lines,
+      });
+    }
+
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.status(201).json({ success: true, data: payment });
+  });
+
+  router.post('/:id/refunds', requirePermission('payments', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(refundInput, req.body);
+    const current = await findPayment(db, id);
+
+    const linked = data.transactionIds.map(transactionId => {
+      const transaction = current.transactions.find(t => t.id === transactionId);
+      if (!transaction) {
+        throw new HttpError(400, 'A refund can only be linked to transactions on this payment');
+      }
+      if (!countsTowardsPaid(transaction)) {
+        throw new HttpError(400, 'Only money that has cleared can be refunded');
+      }
+      return transaction;
+    });
+    if (data.amount > linked.reduce((sum, t) => sum + t.amount, 0)) {
+      throw new HttpError(400, 'The refund is more than the transactions it is linked to');
+    }
+    const refundable = refundableAmount(current);
+    if (data.amount > refundable) {
+      throw new HttpError(409, `Only ₹${refundable.toLocaleString('en-IN')} of this payment can still be refunded`);
+    }
+
+    const user = authUser(req);
+    await db.query(
+      `INSERT INTO payment_refunds (
+        payment_id, amount, reason, transaction_ids, status, requested_by, requested_by_name, requested_at, updated_at
+      ) VALUES (?, ?, ?, ?, 'requested', ?, ?, NOW(), NOW())`,
+      [id, data.amount, data.reason, JSON.stringify(linked.map(t => t.id)), user.id, user.name]
+    );
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.status(201).json({ success: true, data: payment });
+  });
+
+  router.patch('/:id/refunds/:refundId', requirePermission('payments', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(refundDecision, req.body);
+    const current = await findPayment(db, id);
+    const refund = findRefund(current, String(req.params.refundId));
+
+    if (!REFUND_TRANSITIONS[refund.status].includes(data.status)) {
+      throw new HttpError(409, `A refund that is ${refund.status} cannot be marked ${data.status}`);
+    }
+    const user = authUser(req);
+    if (data.status === 'paid') {
+      // Money may have bounced since the refund was approved
+      const paidOut = current.refundedAmount + refund.amount;
+      if (paidOut > current.paidAmount) {
+        throw new HttpError(409, 'Refunds paid would exceed what has been received on this payment');
+      }
+      await db.query(
+        `UPDATE payment_refunds
+         SET status = 'paid', payout_method = ?, payout_reference = ?, paid_at = ?, updated_at = NOW()
+         WHERE id = ?`,
+        [data.payoutMethod, data.payoutReference || null, data.paidAt ?? new Date(), refund.id]
+      );
+    } else {
+      if (!can(user, 'payments', 'approve_refund')) {
+        throw new HttpError(403, 'Only an admin can approve or reject refunds');
+      }
+      await db.query(
+        `UPDATE payment_refunds
+         SET status = ?, decided_by = ?, decided_by_name = ?, decided_at = NOW(), decision_note = ?, updated_at = NOW()
+         WHERE id = ?`,
+        [data.status, user.id, user.name, data.decisionNote || null, refund.id]
+      );
+    }
+
+    await syncLedgerTotals(db, id);
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.json({ success: true, data: payment });
+  });
+
+  // For entries made in error; a returned cheque is marked bounced instead
+  router.delete('/:id/transactions/:transactionId', requirePermission('payments', 'delete'), async (req, res) => {
+    const id = String(req.params.id);
+    const transactionId = String(req.params.transactionId);
+    const current = await findPayment(db, id);
+    findTransaction(current, transactionId);
+
+    await db.query('DELETE FROM payment_transactions WHERE id = ?', [transactionId]);
+    await syncLedgerTotals(db, id);
+    const payment = await findPayment(db, id);
+    await recordPaymentChange(db, req, current, payment);
+    res.json({ success: true, data: payment });
+  });
+
+  router.delete('/:id', requirePermission('payments', 'delete'), async (req, res) => {
+    const id = String(req.params.id);
+    const current = await findPayment(db, id);
+    await db.query('DELETE FROM payments WHERE id = ?', [id]);
+    await recordActivity(db, req, {
+      entity: 'payments',
+      recordId: id,
+      label: `#${id}`,
+      documentId: current.documentId,
+      before: current,
+    });
+    res.json({ success: true });
+  });
+
+  return router;
+}
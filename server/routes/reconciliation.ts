@@ -0,0 +1,237 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { BankStatement, BankStatementLine, MatchKind, MatchStatus, StatementFormat } from '../../src/types';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { toDate, toId, toNumber, toOptionalDate, toOptionalString } from '../db/values';
+import { HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+
+export const STATEMENT_FORMATS = ['csv', 'ofx', 'mt940'] as const;
+export const MATCH_KINDS = ['transaction', 'challan'] as const;
+
+// Statements are read and matched in the browser; the server stores the
+// lines with the suggested matches and checks that each match exists
+const statementLine = z.object({
+  date: z.coerce.date(),
+  amount: z.number().positive(),
+  direction: z.enum(['credit', 'debit']),
+  reference: z.string().trim().max(255).optional().nullable(),
+  description: z.string().trim().max(2000).default(''),
+  matchKind: z.enum(MATCH_KINDS).optional().nullable(),
+  matchId: z.string().min(1).optional().nullable(),
+});
+
+const statementInput = z.object({
+  fileName: z.string().trim().min(1).max(255),
+  format: z.enum(STATEMENT_FORMATS),
+  accountNumber: z.string().trim().max(50).optional().nullable(),
+  lines: z.array(statementLine).min(1).max(5000),
+});
+
+// Confirming or overriding names the match; ignoring and unmatching clear it
+const lineDecision = z.discriminatedUnion('matchStatus', [
+  z.object({ matchStatus: z.literal('confirmed'), matchKind: z.enum(MATCH_KINDS), matchId: z.string().min(1) }),
+  z.object({ matchStatus: z.literal('ignored') }),
+  z.object({ matchStatus: z.literal('unmatched') }),
+]);
+
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+// Overlapping statements repeat entries; these are imported once
+const lineKey = (line: Pick<BankStatementLine, 'date' | 'amount' | 'direction' | 'reference' | 'description'>) =>
+  [dateKey(line.date), line.direction, line.amount.toFixed(2), line.reference ?? '', line.description].join('|');
+
+const toLine = (row: Row): BankStatementLine => ({
+  id: toId(row.id),
+  statementId: toId(row.statement_id),
+  date: toDate(row.line_date),
+  amount: toNumber(row.amount),
+  direction: row.direction as BankStatementLine['direction'],
+  reference: toOptionalString(row.reference),
+  description: String(row.description),
+  matchKind: toOptionalString(row.match_kind) as MatchKind | undefined,
+  matchId: toOptionalString(row.match_id),
+  matchStatus: row.match_status as MatchStatus,
+  decidedBy: toOptionalString(row.decided_by),
+  decidedByName: toOptionalString(row.decided_by_name),
+  decidedAt: toOptionalDate(row.decided_at),
+});
+
+const toStatement = (row: Row, lines: BankStatementLine[] = []): BankStatement => ({
+  id: toId(row.id),
+  fileName: String(row.file_name),
+  format: row.format as StatementFormat,
+  accountNumber: toOptionalString(row.account_number),
+  importedBy: toOptionalString(row.imported_by),
+  importedByName: toOptionalString(row.imported_by_name),
+  importedAt: toDate(row.imported_at),
+  lines,
+  updatedAt: toDate(row.updated_at),
+});
+
+async function loadStatements(db: Database, where: string, params: unknown[]): Promise<BankStatement[]> {
+  const { rows } = await db.query(`SELECT * FROM bank_statements WHERE ${where} ORDER BY imported_at DESC, id DESC`, params);
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const { rows: lineRows } = await db.query(
+    `SELECT * FROM bank_statement_lines WHERE statement_id IN (${ids.map(() => '?').join(', ')}) ORDER BY line_date, id`,
+    ids
+  );
+  return rows.map(row => toStatement(
+    row,
+    lineRows.filter(line => toId(line.statement_id) === toId(row.id)).map(toLine)
+  ));
+}
+
+async function findStatement(db: Database, id: string): Promise<BankStatement> {
+  const [statement] = await loadStatements(db, 'id = ?', [id]);
+  if (!statement) {
+    throw notFound('Bank statement');
+  }
+  return statement;
+}
+
+// Money in matches a transaction that was not bounced; money out an approved challan
+async function assertMatchable(db: Database, direction: BankStatementLine['direction'], kind: MatchKind, id: string) {
+  if (kind === 'transaction') {
+    const { rows } = await db.query('SELECT clearance_status FROM payment_transactions WHERE id = ?', [id]);
+    if (rows.length === 0) throw new HttpError(400, `Transaction ${id} does not exist`);
+    if (rows[0].clearance_status === 'bounced') throw new HttpError(400, `Transaction ${id} bounced and cannot be matched`);
+    if (direction !== 'credit') throw new HttpError(400, 'Only money coming in can be matched to a transaction');
+  } else {
+    const { rows } = await db.query('SELECT status FROM challans WHERE id = ?', [id]);
+    if (rows.length === 0) throw new HttpError(400, `Challan ${id} does not exist`);
+    if (rows[0].status !== 'approved') throw new HttpError(400, 'Only approved challans can be matched');
+    if (direction !== 'debit') throw new HttpError(400, 'Only money going out can be matched to a challan');
+  }
+}
+
+// A transaction or challan is banked once, so it may be confirmed against one line only
+async function assertNotConfirmedElsewhere(db: Database, kind: MatchKind, id: string, lineId: string) {
+  const { rows } = await db.query(
+    `SELECT id FROM bank_statement_lines
+     WHERE match_kind = ? AND match_id = ? AND match_status = 'confirmed' AND id <> ?`,
+    [kind, id, lineId]
+  );
+  if (rows.length > 0) {
+    throw new HttpError(409, `This ${kind} is already confirmed against another statement line`);
+  }
+}
+
+export function reconciliationRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/statements', requirePermission('payments', 'reconcile'), async (_req, res) => {
+    res.json({ success: true, data: await loadStatements(db, '1 = 1', []) });
+  });
+
+  router.post('/statements', requirePermission('payments', 'reconcile'), async (req, res) => {
+    const data = validate(statementInput, req.body);
+
+    const { rows: existingRows } = await db.query('SELECT * FROM bank_statement_lines');
+    const seen = new Set(existingRows.map(toLine).map(lineKey));
+    const lines = data.lines.filter(line => {
+      const key = lineKey({ ...line, reference: line.reference || undefined });
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (lines.length === 0) {
+      throw new HttpError(409, 'Every entry in this statement has already been imported');
+    }
+    for (const line of lines) {
+      if (line.matchKind && line.matchId) {
+        await assertMatchable(db, line.direction, line.matchKind, line.matchId);
+      }
+    }
+
+    const user = authUser(req);
+    const { insertId } = await db.query(
+      `INSERT INTO bank_statements (file_name, format, account_number, imported_by, imported_by_name, imported_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, NOW(), NOW())`,
+      [data.fileName, data.format, data.accountNumber || null, user.id, user.name]
+    );
+    for (const line of lines) {
+      const suggested = Boolean(line.matchKind && line.matchId);
+      await db.query(
+        `INSERT INTO bank_statement_lines (
+          statement_id, line_date, amount, direction, reference, description, match_kind, match_id, match_status
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          insertId,
+          dateKey(line.date),
+          line.amount,
+          line.direction,
+          line.reference || null,
+          line.description,
+          suggested ? line.matchKind : null,
+          suggested ? line.matchId : null,
+          suggested ? 'suggested' : 'unmatched',
+        ]
+      );
+    }
+
+    const statement = await findStatement(db, String(insertId));
+    await recordActivity(db, req, {
+      entity: 'bank_statements',
+      recordId: statement.id,
+      label: statement.fileName,
+      after: { ...statement, lines: statement.lines.length },
+    });
+    res.status(201).json({ success: true, data: statement });
+  });
+
+  router.patch('/statements/:id/lines/:lineId', requirePermission('payments', 'reconcile'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(lineDecision, req.body);
+    const statement = await findStatement(db, id);
+    const line = statement.lines.find(l => l.id === String(req.params.lineId));
+    if (!line) {
+      throw notFound('Statement line');
+    }
+
+    const user = authUser(req);
+    let match: { kind: MatchKind; id: string } | null = null;
+    if (data.matchStatus === 'confirmed') {
+      await assertMatchable(db, line.direction, data.matchKind, data.matchId);
+      await assertNotConfirmedElsewhere(db, data.matchKind, data.matchId, line.id);
+      match = { kind: data.matchKind, id: data.matchId };
+    }
+
+    await db.query(
+      `UPDATE bank_statement_lines
+       SET match_status = ?, match_kind = ?, match_id = ?, decided_by = ?, decided_by_name = ?, decided_at = NOW()
+       WHERE id = ?`,
+      [data.matchStatus, match?.kind ?? null, match?.id ?? null, user.id, user.name, line.id]
+    );
+    await db.query('UPDATE bank_statements SET updated_at = NOW() WHERE id = ?', [id]);
+
+    const updated = await findStatement(db, id);
+    await recordActivity(db, req, {
+      entity: 'bank_statements',
+      recordId: id,
+      label: `${statement.fileName} line ${line.id}`,
+      before: line,
+      after: updated.lines.find(l => l.id === line.id),
+    });
+    res.json({ success: true, data: updated });
+  });
+
+  router.delete('/statements/:id', requirePermission('payments', 'reconcile'), async (req, res) => {
+    const id = String(req.params.id);
+    const current = await findStatement(db, id);
+    await db.query('DELETE FROM bank_statement_lines WHERE statement_id = ?', [id]);
+    await db.query('DELETE FROM bank_statements WHERE id = ?', [id]);
+    await recordActivity(db, req, {
+      entity: 'bank_statements',
+      recordId: id,
+      label: current.fileName,
+      before: { ...current, lines: current.lines.length },
+    });
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,356 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { SalaryRecord, StaffSalaryConfig } from '../../src/types/salary';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import { toBoolean, toDate, toId, toJson, toNumber, toOptionalDate, toOptionalString } from '../db/values';
+import { assertUnmodifiedSince, HttpError, notFound, validate } from '../http';
+import { requirePermission } from '../middleware/auth';
+import { nextNumber } from '../sequences';
+
+const SALARY_STATUSES = ['draft', 'pending_approval', 'approved', 'paid', 'cancelled'] as const;
+const SALARY_PAYMENT_METHODS = ['bank_transfer', 'cash', 'cheque', 'upi'] as const;
+
+const amount = z.number().min(0);
+
+const lineItem = z.object({
+  id: z.string(),
+  type: z.string(),
+  amount,
+  description: z.string().optional(),
+});
+
+const overtimeItem = z.object({
+  id: z.string(),
+  date: z.coerce.date(),
+  hours: z.number().min(0),
+  rate: amount,
+  amount,
+  description: z.string().optional(),
+});
+
+const bankDetails = z.object({
+  accountNumber: z.string(),
+  bankName: z.string(),
+  ifscCode: z.string(),
+  accountHolderName: z.string(),
+});
+
+const salaryRecordInput = z.object({
+  userId: z.string().min(1),
+  userName: z.string().min(1),
+  userRole: z.string().min(1),
+  baseSalary: amount,
+  allowances: z.array(lineItem).default([]),
+  deductions: z.array(lineItem).default([]),
+  overtime: z.array(overtimeItem).default([]),
+  bonus: amount.default(0),
+  grossSalary: amount,
+  netSalary: z.number(),
+  payPeriod: z.object({ month: z.number().int().min(1).max(12), year: z.number().int() }),
+  payDate: z.coerce.date(),
+  status: z.enum(SALARY_STATUSES).default('draft'),
+  paymentMethod: z.enum(SALARY_PAYMENT_METHODS).default('bank_transfer'),
+  bankDetails: bankDetails.optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+// Defaulted fields are redeclared without their defaults so that a partial
+// update leaves omitted fields untouched
+const salaryRecordUpdate = salaryRecordInput
+  .omit({
+    userId: true, userName: true, userRole: true, payPeriod: true,
+    allowances: true, deductions: true, overtime: true, bonus: true, status: true, paymentMethod: true,
+  })
+  .partial()
+  .extend({
+    allowances: z.array(lineItem).optional(),
+    deductions: z.array(lineItem).optional(),
+    overtime: z.array(overtimeItem).optional(),
+    bonus: amount.optional(),
+    status: z.enum(SALARY_STATUSES).optional(),
+    paymentMethod: z.enum(SALARY_PAYMENT_METHODS).optional(),
+    approvedBy: z.string().optional().nullable(),
+    approvedAt: z.coerce.date().optional().nullable(),
+  });
+
+const salaryFilters = z.object({
+  userId: z.string().optional(),
+  month: z.coerce.number().int().optional(),
+  year: z.coerce.number().int().optional(),
+  status: z.enum(SALARY_STATUSES).optional(),
+});
+
+const staffConfigInput = z.object({
+  userId: z.string().min(1),
+  baseSalary: amount,
+  allowances: z.array(lineItem).default([]),
+  deductions: z.array(lineItem).default([]),
+  overtimeRate: amount.default(0),
+  paymentMethod: z.enum(SALARY_PAYMENT_METHODS).default('bank_transfer'),
+  bankDetails: bankDetails.optional().nullable(),
+  isActive: z.boolean().default(true),
+  effectiveFrom: z.coerce.date(),
+});
+
+const staffConfigUpdate = staffConfigInput
+  .omit({ userId: true, allowances: true, deductions: true, overtimeRate: true, paymentMethod: true, isActive: true })
+  .partial()
+  .extend({
+    allowances: z.array(lineItem).optional(),
+    deductions: z.array(lineItem).optional(),
+    overtimeRate: amount.optional(),
+    paymentMethod: z.enum(SALARY_PAYMENT_METHODS).optional(),
+    isActive: z.boolean().optional(),
+  });
+
+const SALARY_RECORD_COLUMNS: Record<string, string> = {
+  baseSalary: 'base_salary',
+  allowances: 'allowances',
+  deductions: 'deductions',
+  overtime: 'overtime',
+  bonus: 'bonus',
+  grossSalary: 'gross_salary',
+  netSalary: 'net_salary',
+  payDate: 'pay_date',
+  status: 'status',
+  paymentMethod: 'payment_method',
+  bankDetails: 'bank_details',
+  notes: 'notes',
+  approvedBy: 'approved_by',
+  approvedAt: 'approved_at',
+};
+
+const STAFF_CONFIG_COLUMNS: Record<string, string> = {
+  baseSalary: 'base_salary',
+  allowances: 'allowances',
+  deductions: 'deductions',
+  overtimeRate: 'overtime_rate',
+  paymentMethod: 'payment_method',
+  bankDetails: 'bank_details',
+  isActive: 'is_active',
+  effectiveFrom: 'effective_from',
+};
+
+export const toSalaryRecord = (row: Row): SalaryRecord => {
+  const month = toNumber(row.pay_period_month);
+  const year = toNumber(row.pay_period_year);
+  return {
+    id: toId(row.id),
+    salaryNumber: toOptionalString(row.salary_number),
+    userId: toId(row.user_id),
+    userName: String(row.user_name),
+    userRole: String(row.user_role),
+    baseSalary: toNumber(row.base_salary),
+    allowances: toJson(row.allowances, []),
+    deductions: toJson(row.deductions, []),
+    overtime: toJson(row.overtime, []),
+    bonus: toNumber(row.bonus),
+    grossSalary: toNumber(row.gross_salary),
+    netSalary: toNumber(row.net_salary),
+    payPeriod: {
+      month,
+      year,
+      startDate: new Date(year, month - 1, 1),
+      endDate: new Date(year, month, 0),
+    },
+    payDate: toDate(row.pay_date),
+    status: row.status as SalaryRecord['status'],
+    paymentMethod: row.payment_method as SalaryRecord['paymentMethod'],
+    bankDetails: toJson(row.bank_details, undefined),
+    notes: toOptionalString(row.notes),
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at),
+    approvedBy: toOptionalString(row.approved_by),
+    approvedAt: toOptionalDate(row.approved_at),
+  };
+};
+
+export const toStaffConfig = (row: Row): StaffSalaryConfig => ({
+  id: toId(row.id),
+  userId: toId(row.user_id),
+  baseSalary: toNumber(row.base_salary),
+  allowances: toJson(row.allowances, []),
+  deductions: toJson(row.deductions, []),
+  overtimeRate: toNumber(row.overtime_rate),
+  paymentMethod: row.payment_method as StaffSalaryConfig['paymentMethod'],
+  bankDetails: toJson(row.bank_details, undefined),
+  isActive: toBoolean(row.is_active),
+  effectiveFrom: toDate(row.effective_from),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+async function findSalaryRecord(db: Database, id: string): Promise<SalaryRecord> {
+  const { rows } = await db.query('SELECT * FROM salary_records WHERE id = ?', [id]);
+  if (rows.length === 0) {
+    throw notFound('Salary record');
+  }
+  return toSalaryRecord(rows[0]);
+}
+
+const salaryRecordLabel = (record: SalaryRecord) =>
+  `for ${record.userName} (${record.payPeriod.month}/${record.payPeriod.year})`;
+
+async function findStaffConfig(db: Database, id: string): Promise<StaffSalaryConfig> {
+  const { rows } = await db.query('SELECT * FROM staff_salary_configs WHERE id = ?', [id]);
+  if (rows.length === 0) {
+    throw notFound('Staff salary configuration');
+  }
+  return toStaffConfig(rows[0]);
+}
+
+export function salaryRecordRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('salary', 'read'), async (req, res) => {
+    const filters = validate(salaryFilters, req.query);
+    let sql = 'SELECT * FROM salary_records WHERE 1=1';
+    const params: unknown[] = [];
+
+    if (filters.userId) {
+      sql += ' AND user_id = ?';
+      params.push(filters.userId);
+    }
+
+    if (filters.month && filters.year) {
+      sql += ' AND pay_period_month = ? AND pay_period_year = ?';
+      params.push(filters.month, filters.year);
+    }
+
+    if (filters.status) {
+      sql += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    sql += ' ORDER BY created_at DESC';
+    const { rows } = await db.query(sql, params);
+    res.json({ success: true, data: rows.map(toSalaryRecord) });
+  });
+
+  router.post('/', requirePermission('salary', 'manage'), async (req, res) => {
+    const data = validate(salaryRecordInput, req.body);
+    // Slips are numbered in the financial year of the month they pay for
+    const salaryNumber = await nextNumber(db, 'salary', {
+      date: new Date(data.payPeriod.year, data.payPeriod.month - 1, 1),
+    });
+    const { insertId } = await db.query(
+      `INSERT INTO salary_records (
+        salary_number, user_id, user_name, user_role, base_salary, allowances, deductions,
+        overtime, bonus, gross_salary, net_salary, pay_period_month, pay_period_year,
+        pay_date, status, payment_method, bank_details, notes, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())`,
+      [
+        salaryNumber,
+        data.userId,
+        data.userName,
+        data.userRole,
+        data.baseSalary,
+        JSON.stringify(data.allowances),
+        JSON.stringify(data.deductions),
+        JSON.stringify(data.overtime),
+        data.bonus,
+        data.grossSalary,
+        data.netSalary,
+        data.payPeriod.month,
+        data.payPeriod.year,
+        data.payDate,
+        data.status,
+        data.paymentMethod,
+        data.bankDetails ? JSON.stringify(data.bankDetails) : null,
+        data.notes ?? null,
+      ]
+    );
+    const record = await findSalaryRecord(db, String(insertId));
+    await recordActivity(db, req, { entity: 'salary_records', recordId: record.id, label: salaryRecordLabel(record), after: record });
+    res.status(201).json({ success: true, data: record });
+  });
+
+  router.patch('/:id', requirePermission('salary', 'manage'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(salaryRecordUpdate, req.body);
+    const { assignments, values } = buildUpdate(data, SALARY_RECORD_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    const current = await findSalaryRecord(db, id);
+    assertUnmodifiedSince(req, current.updatedAt);
+    await db.query(
+      `UPDATE salary_records SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, id]
+    );
+    const record = await findSalaryRecord(db, id);
+    await recordActivity(db, req, {
+      entity: 'salary_records',
+      recordId: id,
+      label: salaryRecordLabel(record),
+      before: current,
+      after: record,
+    });
+    res.json({ success: true, data: record });
+  });
+
+  return router;
+}
+
+export function staffConfigRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('salary', 'read'), async (_req, res) => {
+    const { rows } = await db.query('SELECT * FROM staff_salary_configs WHERE is_active = 1 ORDER BY created_at DESC');
+    res.json({ success: true, data: rows.map(toStaffConfig) });
+  });
+
+  router.post('/', requirePermission('salary', 'manage'), async (req, res) => {
+    const data = validate(staffConfigInput, req.body);
+    const { insertId } = await db.query(
+      `INSERT INTO staff_salary_configs (
+        user_id, base_salary, allowances, deductions, overtime_rate,
+        payment_method, bank_details, is_active, effective_from, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())`,
+      [
+        data.userId,
+        data.baseSalary,
+        JSON.stringify(data.allowances),
+        JSON.stringify(data.deductions),
+        data.overtimeRate,
+        data.paymentMethod,
+        data.bankDetails ? JSON.stringify(data.bankDetails) : null,
+        data.isActive ? 1 : 0,
+        data.effectiveFrom,
+      ]
+    );
+    const config = await findStaffConfig(db, String(insertId));
+    await recordActivity(db, req, { entity: 'staff_configs', recordId: config.id, label: `for user #${config.userId}`, after: config });
+    res.status(201).json({ success: true, data: config });
+  });
+
+  router.patch('/:id', requirePermission('salary', 'manage'), async (req, res) => {
+    const id = String(req.params.id);
+    const data = validate(staffConfigUpdate, req.body);
+    const { assignments, values } = buildUpdate(data, STAFF_CONFIG_COLUMNS);
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    const current = await findStaffConfig(db, id);
+    assertUnmodifiedSince(req, current.updatedAt);
+    await db.query(
+      `UPDATE staff_salary_configs SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, id]
+    );
+    const config = await findStaffConfig(db, id);
+    await recordActivity(db, req, {
+      entity: 'staff_configs',
+      recordId: id,
+      label: `for user #${config.userId}`,
+      before: current,
+      after: config,
+    });
+    res.json({ success: true, data: config });
+  });
+
+  return router;
+}
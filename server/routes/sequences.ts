@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { NUMBER_FORMATS_SETTING_KEY, numberFormatError } from '../../src/services/numberSequences';
+import { Database } from '../db';
+import { validate } from '../http';
+import { requirePermission } from '../middleware/auth';
+import { loadNumberFormats, toNumberCounter } from '../sequences';
+
+const numberFormat = z.string().trim().superRefine((format, ctx) => {
+  const error = numberFormatError(format);
+  if (error) ctx.addIssue({ code: 'custom', message: error });
+});
+
+export const formatsInput = z.object({
+  document: numberFormat,
+  challan: numberFormat,
+  task: numberFormat,
+  salary: numberFormat,
+});
+
+// Numbers are handed out when records are created; these only show and
+// configure how they look
+export function sequenceRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('settings', 'manage'), async (_req, res) => {
+    const { rows } = await db.query('SELECT * FROM number_sequences ORDER BY financial_year DESC, scope');
+    res.json({
+      success: true,
+      data: { formats: await loadNumberFormats(db), counters: rows.map(toNumberCounter) },
+    });
+  });
+
+  router.put('/formats', requirePermission('settings', 'manage'), async (req, res) => {
+    const formats = validate(formatsInput, req.body);
+    await db.query(
+      `INSERT INTO app_settings (setting_key, setting_value, updated_at)
+       VALUES (?, ?, NOW())
+       ON DUPLICATE KEY UPDATE setting_value = VALUES(setting_value), updated_at = NOW()`,
+      [NUMBER_FORMATS_SETTING_KEY, JSON.stringify(formats)]
+    );
+    res.json({ success: true, data: formats });
+  });
+
+  return router;
+}
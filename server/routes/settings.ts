@@ -0,0 +1,99 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { FeeComponent } from '../../src/types';
+import { can, PermissionAction, PermissionModule } from '../../src/services/accessPolicy';
+import { SLA_SETTING_KEY, SLA_START_LABELS, SlaStart } from '../../src/services/documentSla';
+import { StampedStatus } from '../../src/services/documentWorkflow';
+import { ANY, FEE_BASIS_LABELS, FEE_COMPONENT_LABELS, FEE_RATES_SETTING_KEY, FeeBasis } from '../../src/services/feeEngine';
+import { NUMBER_FORMATS_SETTING_KEY } from '../../src/services/numberSequences';
+import { Database } from '../db';
+import { toJson } from '../db/values';
+import { HttpError, validate } from '../http';
+import { requirePermission } from '../middleware/auth';
+import { DOCUMENT_TYPES } from './documents';
+import { formatsInput } from './sequences';
+
+const settingKey = z.string().regex(/^[a-z0-9_]{1,100}$/, 'must be lowercase letters, digits or underscores');
+
+const settingInput = z.object({ value: z.unknown() });
+
+const amount = z.number().finite().min(0);
+
+const feeRatesInput = z.array(z.object({
+  id: z.string().min(1).max(100),
+  component: z.enum(Object.keys(FEE_COMPONENT_LABELS) as [FeeComponent, ...FeeComponent[]]),
+  documentType: z.enum([...DOCUMENT_TYPES, ANY]),
+  jurisdiction: z.string().trim().min(1).max(100),
+  basis: z.enum(Object.keys(FEE_BASIS_LABELS) as [FeeBasis, ...FeeBasis[]]),
+  percent: amount,
+  fixedAmount: amount,
+  minAmount: amount.optional(),
+  maxAmount: amount.optional(),
+  effectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'must be a YYYY-MM-DD date'),
+}).refine(
+  rate => rate.minAmount === undefined || rate.maxAmount === undefined || rate.minAmount <= rate.maxAmount,
+  'the minimum amount is more than the maximum'
+)).max(500);
+
+const slaStages = Object.keys(SLA_START_LABELS) as [SlaStart, ...SlaStart[]];
+
+const slaRule = z.object({
+  from: z.enum(slaStages),
+  to: z.enum(slaStages.filter(stage => stage !== 'created') as [StampedStatus, ...StampedStatus[]]),
+  days: z.number().int().min(1).max(3650),
+});
+
+// Types left out keep their default rules
+const slasInput = z.partialRecord(z.enum(DOCUMENT_TYPES), z.array(slaRule).max(20));
+
+// Settings the app reads back and relies on the shape of; any other key is
+// stored as given
+const SETTING_SCHEMAS: Record<string, z.ZodType> = {
+  [FEE_RATES_SETTING_KEY]: feeRatesInput,
+  [SLA_SETTING_KEY]: slasInput,
+  [NUMBER_FORMATS_SETTING_KEY]: formatsInput,
+};
+
+// Settings the rest of the app works from, readable by whoever uses them;
+// any other setting is only for those who manage settings
+const READ_PERMISSIONS: Record<string, [PermissionModule, PermissionAction]> = {
+  [FEE_RATES_SETTING_KEY]: ['payments', 'read'],
+  [SLA_SETTING_KEY]: ['documents', 'read'],
+};
+
+export function settingsRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('settings', 'manage'), async (_req, res) => {
+    const { rows } = await db.query('SELECT setting_key, setting_value FROM app_settings ORDER BY setting_key');
+    res.json({
+      success: true,
+      data: Object.fromEntries(rows.map(row => [row.setting_key, toJson(row.setting_value, null)])),
+    });
+  });
+
+  // A setting that was never saved reads as null
+  router.get('/:key', async (req, res) => {
+    const key = validate(settingKey, req.params.key);
+    const [module, action] = READ_PERMISSIONS[key] ?? ['settings', 'manage'];
+    if (!can(req.user, module, action)) {
+      throw new HttpError(403, 'You do not have permission to perform this action');
+    }
+    const { rows } = await db.query('SELECT setting_value FROM app_settings WHERE setting_key = ?', [key]);
+    res.json({ success: true, data: rows.length > 0 ? toJson(rows[0].setting_value, null) : null });
+  });
+
+  router.put('/:key', requirePermission('settings', 'manage'), async (req, res) => {
+    const key = validate(settingKey, req.params.key);
+    const { value } = validate(settingInput.extend({ value: SETTING_SCHEMAS[key] ?? z.unknown() }), req.body);
+    await db.query(
+      `INSERT INTO app_settings (setting_key, setting_value, updated_at)
+       VALUES (?, ?, NOW())
+       ON DUPLICATE KEY UPDATE setting_value = VALUES(setting_value), updated_at = NOW()`,
+      [key, JSON.stringify(value ?? null)]
+    );
+    res.json({ success: true, data: { key, value } });
+  });
+
+  return router;
+}
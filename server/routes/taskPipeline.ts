@@ -0,0 +1,111 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { stageLabel } from '../../src/services/documentWorkflow';
+import { pipelineRuleProblem } from '../../src/services/taskPipeline';
+import { recordActivity } from '../activity';
+import { Database } from '../db';
+import { HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+import { loadPipelineRules } from '../taskPipeline';
+import { DOCUMENT_STATUSES } from './documents';
+import { findTemplate } from './taskTemplates';
+
+const ruleInput = z.object({
+  documentStatus: z.enum(DOCUMENT_STATUSES),
+  templateId: z.string().min(1),
+  closesOn: z.enum(DOCUMENT_STATUSES),
+  isActive: z.boolean().default(true),
+});
+
+async function findRule(db: Database, id: string) {
+  const [rule] = await loadPipelineRules(db, 'id = ?', [id]);
+  if (!rule) {
+    throw notFound('Pipeline rule');
+  }
+  return rule;
+}
+
+// Checks the stages run forwards and the template exists; gives its name
+async function checkRule(db: Database, data: z.infer<typeof ruleInput>, exceptId?: string): Promise<string> {
+  const problem = pipelineRuleProblem(data);
+  if (problem) {
+    throw new HttpError(400, problem);
+  }
+  const template = await findTemplate(db, data.templateId).catch(() => {
+    throw new HttpError(400, 'The task template does not exist');
+  });
+  const { rows } = await db.query(
+    'SELECT id FROM task_pipeline_rules WHERE document_status = ? AND template_id = ? AND id <> ?',
+    [data.documentStatus, data.templateId, exceptId ?? 0]
+  );
+  if (rows.length > 0) {
+    throw new HttpError(409, `${stageLabel(data.documentStatus)} already opens a ${template.name} task`);
+  }
+  return template.name;
+}
+
+const ruleLabel = (templateName: string, documentStatus: z.infer<typeof ruleInput>['documentStatus']) =>
+  `${templateName} at ${stageLabel(documentStatus)}`;
+
+export function taskPipelineRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('tasks', 'manage_templates'), async (_req, res) => {
+    res.json({ success: true, data: await loadPipelineRules(db) });
+  });
+
+  router.post('/', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const data = validate(ruleInput, req.body);
+    const templateName = await checkRule(db, data);
+    const { insertId } = await db.query(
+      `INSERT INTO task_pipeline_rules (document_status, template_id, closes_on, is_active, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, NOW(), NOW())`,
+      [data.documentStatus, data.templateId, data.closesOn, data.isActive ? 1 : 0, authUser(req).id]
+    );
+    const rule = await findRule(db, String(insertId));
+    await recordActivity(db, req, {
+      entity: 'task_pipeline_rules',
+      recordId: rule.id,
+      label: ruleLabel(templateName, rule.documentStatus),
+      after: rule,
+    });
+    res.status(201).json({ success: true, data: rule });
+  });
+
+  router.put('/:id', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const data = validate(ruleInput, req.body);
+    const current = await findRule(db, String(req.params.id));
+    const templateName = await checkRule(db, data, current.id);
+    await db.query(
+      `UPDATE task_pipeline_rules
+       SET document_status = ?, template_id = ?, closes_on = ?, is_active = ?, updated_at = NOW()
+       WHERE id = ?`,
+      [data.documentStatus, data.templateId, data.closesOn, data.isActive ? 1 : 0, current.id]
+    );
+    const rule = await findRule(db, current.id);
+    await recordActivity(db, req, {
+      entity: 'task_pipeline_rules',
+      recordId: rule.id,
+      label: ruleLabel(templateName, rule.documentStatus),
+      before: current,
+      after: rule,
+    });
+    res.json({ success: true, data: rule });
+  });
+
+  // Tasks the rule already opened keep the stage that closes them
+  router.delete('/:id', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const current = await findRule(db, String(req.params.id));
+    const template = await findTemplate(db, current.templateId);
+    await db.query('DELETE FROM task_pipeline_rules WHERE id = ?', [current.id]);
+    await recordActivity(db, req, {
+      entity: 'task_pipeline_rules',
+      recordId: current.id,
+      label: ruleLabel(template.name, current.documentStatus),
+      before: current,
+    });
+    res.json({ success: true });
+  });
+
+  return router;
+}
@@ -0,0 +1,230 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { TaskTemplate, TaskTemplateVersion } from '../../src/types/task';
+import { checklistFromTemplate, REQUIRED_FIELD_LABELS } from '../../src/services/taskChecklist';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { toBoolean, toDate, toId, toJson, toNumber, toOptionalId, toOptionalString } from '../db/values';
+import { assertUnmodifiedSince, HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+import { TASK_PRIORITIES, TASK_TYPES } from './tasks';
+import { USER_ROLES } from './users';
+
+const templateInput = z.object({
+  name: z.string().trim().min(1).max(255),
+  description: z.string().max(2000).default(''),
+  type: z.enum(TASK_TYPES),
+  defaultPriority: z.enum(TASK_PRIORITIES).default('medium'),
+  estimatedHours: z.number().min(0).max(99),
+  checklist: z.array(z.object({
+    title: z.string().trim().min(1).max(255),
+    description: z.string().max(1000).optional(),
+    isRequired: z.boolean().default(false),
+  })).max(100).default([]),
+  requiredFields: z.array(z.enum(Object.keys(REQUIRED_FIELD_LABELS) as [string, ...string[]])).default([]),
+  autoAssignmentRules: z.object({
+    role: z.enum(USER_ROLES).optional(),
+    workload: z.enum(['balanced', 'least_busy']).default('balanced'),
+  }).optional().nullable(),
+});
+
+type TemplateInput = z.infer<typeof templateInput>;
+
+const archiveInput = z.object({ isArchived: z.boolean() });
+
+// Columns a template and each of its versions share
+const fieldsOf = (row: Row) => ({
+  name: String(row.name),
+  description: String(row.description ?? ''),
+  type: row.type as TaskTemplate['type'],
+  defaultPriority: row.default_priority as TaskTemplate['defaultPriority'],
+  estimatedHours: toNumber(row.estimated_hours),
+  checklist: checklistFromTemplate(toJson<TemplateInput['checklist']>(row.checklist, [])),
+  requiredFields: toJson<string[]>(row.required_fields, []),
+  autoAssignmentRules: toJson<TaskTemplate['autoAssignmentRules'] | null>(row.auto_assignment_rules, null) ?? undefined,
+});
+
+const toVersion = (row: Row): TaskTemplateVersion => ({
+  ...fieldsOf(row),
+  version: toNumber(row.version),
+  savedBy: toOptionalString(row.saved_by),
+  savedByName: toOptionalString(row.saved_by_name),
+  savedAt: toDate(row.saved_at),
+});
+
+const toTemplate = (row: Row, versions: TaskTemplateVersion[] = []): TaskTemplate => ({
+  id: toId(row.id),
+  ...fieldsOf(row),
+  version: toNumber(row.version),
+  versions,
+  clonedFrom: toOptionalId(row.cloned_from),
+  isArchived: toBoolean(row.is_archived),
+  createdBy: toOptionalString(row.created_by),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+async function loadTemplates(db: Database, where: string, params: unknown[]): Promise<TaskTemplate[]> {
+  const { rows } = await db.query(`SELECT * FROM task_templates WHERE ${where} ORDER BY name, id`, params);
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  const { rows: versionRows } = await db.query(
+    `SELECT * FROM task_template_versions WHERE template_id IN (${placeholders}) ORDER BY version`,
+    ids
+  );
+
+  return rows.map(row => toTemplate(
+    row,
+    versionRows.filter(version => toId(version.template_id) === toId(row.id)).map(toVersion)
+  ));
+}
+
+export async function findTemplate(db: Database, id: string): Promise<TaskTemplate> {
+  const [template] = await loadTemplates(db, 'id = ?', [id]);
+  if (!template) {
+    throw notFound('Task template');
+  }
+  return template;
+}
+
+// The values for the columns a template and its versions share, in the
+// order the queries below list them
+const fieldValues = (data: TemplateInput) => [
+  data.name,
+  data.description,
+  data.type,
+  data.defaultPriority,
+  data.estimatedHours,
+  JSON.stringify(data.checklist),
+  JSON.stringify([...new Set(data.requiredFields)]),
+  data.autoAssignmentRules ? JSON.stringify(data.autoAssignmentRules) : null,
+];
+
+// Keeps what the template holds now as its version
+async function saveVersion(db: Database, templateId: string, version: number, data: TemplateInput, user: { id: string; name: string }) {
+  await db.query(
+    `INSERT INTO task_template_versions (
+      template_id, version, name, description, type, default_priority, estimated_hours,
+      checklist, required_fields, auto_assignment_rules, saved_by, saved_by_name, saved_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW())`,
+    [templateId, version, ...fieldValues(data), user.id, user.name]
+  );
+}
+
+async function insertTemplate(db: Database, data: TemplateInput, user: { id: string; name: string }, clonedFrom?: string) {
+  const { insertId } = await db.query(
+    `INSERT INTO task_templates (
+      name, description, type, default_priority, estimated_hours,
+      checklist, required_fields, auto_assignment_rules, version, cloned_from, created_by, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, NOW(), NOW())`,
+    [...fieldValues(data), clonedFrom ?? null, user.id]
+  );
+  await saveVersion(db, String(insertId), 1, data, user);
+  return findTemplate(db, String(insertId));
+}
+
+// The editable fields of a saved template, as they would be sent back
+const inputOf = (template: TaskTemplate): TemplateInput => ({
+  name: template.name,
+  description: template.description,
+  type: template.type,
+  defaultPriority: template.defaultPriority,
+  estimatedHours: template.estimatedHours,
+  checklist: template.checklist.map(({ title, description, isRequired }) => ({ title, description, isRequired })),
+  requiredFields: template.requiredFields,
+  autoAssignmentRules: template.autoAssignmentRules as TemplateInput['autoAssignmentRules'],
+});
+
+export function taskTemplateRoutes(db: Database): Router {
+  const router = Router();
+
+  // Everyone who creates tasks picks from these; archived templates are
+  // included so tasks made from them can still name them
+  router.get('/', requirePermission('tasks', 'create'), async (_req, res) => {
+    res.json({ success: true, data: await loadTemplates(db, '1=1', []) });
+  });
+
+  router.post('/', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const data = validate(templateInput, req.body);
+    const template = await insertTemplate(db, data, authUser(req));
+    await recordActivity(db, req, {
+      entity: 'task_templates',
+      recordId: template.id,
+      label: template.name,
+      after: template,
+    });
+    res.status(201).json({ success: true, data: template });
+  });
+
+  // Saves the template as its next version. Tasks already made from it keep
+  // the checklist and fields of the version they were made from.
+  router.put('/:id', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const data = validate(templateInput, req.body);
+    const current = await findTemplate(db, String(req.params.id));
+    assertUnmodifiedSince(req, current.updatedAt);
+    if (current.isArchived) {
+      throw new HttpError(409, 'Restore the template before changing it');
+    }
+    const version = current.version + 1;
+    await db.query(
+      `UPDATE task_templates SET
+        name = ?, description = ?, type = ?, default_priority = ?, estimated_hours = ?,
+        checklist = ?, required_fields = ?, auto_assignment_rules = ?, version = ?, updated_at = NOW()
+       WHERE id = ?`,
+      [...fieldValues(data), version, current.id]
+    );
+    await saveVersion(db, current.id, version, data, authUser(req));
+    const template = await findTemplate(db, current.id);
+    await recordActivity(db, req, {
+      entity: 'task_templates',
+      recordId: template.id,
+      label: template.name,
+      before: current,
+      after: template,
+    });
+    res.json({ success: true, data: template });
+  });
+
+  // Starts a separate template from this one's current version
+  router.post('/:id/clone', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const source = await findTemplate(db, String(req.params.id));
+    const template = await insertTemplate(
+      db,
+      { ...inputOf(source), name: `Copy of ${source.name}`.slice(0, 255) },
+      authUser(req),
+      source.id
+    );
+    await recordActivity(db, req, {
+      entity: 'task_templates',
+      recordId: template.id,
+      label: template.name,
+      after: template,
+    });
+    res.status(201).json({ success: true, data: template });
+  });
+
+  // Archives the template, or restores it
+  router.patch('/:id/archive', requirePermission('tasks', 'manage_templates'), async (req, res) => {
+    const { isArchived } = validate(archiveInput, req.body);
+    const current = await findTemplate(db, String(req.params.id));
+    if (current.isArchived !== isArchived) {
+      await db.query(
+        'UPDATE task_templates SET is_archived = ?, updated_at = NOW() WHERE id = ?',
+        [isArchived ? 1 : 0, current.id]
+      );
+    }
+    const template = await findTemplate(db, current.id);
+    await recordActivity(db, req, {
+      entity: 'task_templates',
+      recordId: template.id,
+      label: template.name,
+      before: current,
+      after: template,
+    });
+    res.json({ success: true, data: template });
+  });
+
+  return router;
+}
@@ -0,0 +1,673 @@
+import { Router } from 'express';
+import { startOfDay } from 'date-fns';
+import { z } from 'zod';
+import {
+  Task,
+  TaskAssignment,
+  TaskChecklistItem,
+  TaskComment,
+  TaskLink,
+  TaskPermission,
+  TaskStatus,
+  TaskTemplate,
+} from '../../src/types/task';
+import { DocumentStatus } from '../../src/types';
+import { LeaveRequest } from '../../src/types/attendance';
+import { can } from '../../src/services/accessPolicy';
+import { AssignmentContext, autoAssign } from '../../src/services/taskAssignment';
+import { checklistBlock, checklistFromTemplate, missingRequiredFields, requiredFieldLabel } from '../../src/services/taskChecklist';
+import {
+  chainTaskIds,
+  dependencyBlock,
+  dependencyCycle,
+  taskLabel,
+  unfinishedPrerequisites,
+} from '../../src/services/taskDependencies';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { toBoolean, toDate, toId, toJson, toNumber, toOptionalDate, toOptionalId, toOptionalNumber, toOptionalString } from '../db/values';
+import { assertUnmodifiedSince, HttpError, notFound, validate } from '../http';
+import { AuthUser, authUser, requirePermission } from '../middleware/auth';
+import { notify } from '../notifications';
+import { nextNumber } from '../sequences';
+import { toAttendanceRecord } from './attendance';
+import { toUser } from './users';
+
+export const TASK_TYPES = [
+  'document_collection',
+  'data_entry',
+  'document_delivery',
+  'challan_creation',
+  'payment_processing',
+  'customer_follow_up',
+  'document_verification',
+  'registration_follow_up',
+  'quality_check',
+  'custom',
+] as const;
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'] as const;
+
+export const TASK_STATUSES = ['pending', 'in_progress', 'on_hold', 'completed', 'cancelled', 'overdue'] as const;
+
+// The decision the app made when it picked the assignee from a template's
+// rules. Only says the task is assigned by them: the server decides again.
+const assignmentInput = z.object({
+  templateId: z.string().min(1),
+  role: z.string().optional(),
+  workload: z.enum(['balanced', 'least_busy']),
+  reason: z.string().trim().min(1).max(1000),
+  candidates: z.array(z.object({
+    userId: z.string().min(1),
+    userName: z.string(),
+    openTasks: z.number().min(0),
+    openHours: z.number().min(0),
+    assignedToday: z.number().min(0),
+    skipped: z.string().optional(),
+  })).max(200),
+  decidedAt: z.coerce.date(),
+});
+
+const taskInput = z.object({
+  title: z.string().trim().min(1).max(255),
+  description: z.string().default(''),
+  type: z.enum(TASK_TYPES).default('custom'),
+  priority: z.enum(TASK_PRIORITIES).default('medium'),
+  status: z.enum(TASK_STATUSES).default('pending'),
+  assignedTo: z.string().min(1).max(255),
+  documentId: z.string().optional().nullable(),
+  customerId: z.string().optional().nullable(),
+  builderId: z.string().optional().nullable(),
+  dueDate: z.coerce.date().optional().nullable(),
+  estimatedHours: z.number().min(0).max(99).optional().nullable(),
+  tags: z.array(z.string()).default([]),
+  dependencies: z.array(z.string().min(1)).max(50).default([]),
+  assignment: assignmentInput.optional().nullable(),
+  templateId: z.string().min(1).optional().nullable(),
+  checklist: z.array(z.object({
+    title: z.string().trim().min(1).max(255),
+    description: z.string().max(1000).optional(),
+    isRequired: z.boolean().default(false),
+  })).max(100).default([]),
+});
+
+export type TaskInput = z.infer<typeof taskInput>;
+
+const taskFilters = z.object({
+  assignedTo: z.string().optional(),
+  status: z.enum(TASK_STATUSES).optional(),
+  type: z.enum(TASK_TYPES).optional(),
+});
+
+const statusInput = z.object({ status: z.enum(TASK_STATUSES) });
+
+const dependenciesInput = z.object({ dependencies: z.array(z.string().min(1)).max(50) });
+
+const checklistItemInput = z.object({ isCompleted: z.boolean() });
+
+const commentInput = z.object({
+  content: z.string().trim().min(1),
+  isInternal: z.boolean().default(false),
+});
+
+const toComment = (row: Row): TaskComment => ({
+  id: toId(row.id),
+  content: String(row.content),
+  authorId: String(row.author_id),
+  authorName: String(row.author_name),
+  createdAt: toDate(row.created_at),
+  isInternal: toBoolean(row.is_internal),
+});
+
+// An item's id is its place in the checklist
+const toChecklistItem = (row: Row): TaskChecklistItem => ({
+  id: String(row.position),
+  title: String(row.title),
+  description: toOptionalString(row.description),
+  isRequired: toBoolean(row.is_required),
+  isCompleted: toBoolean(row.is_completed),
+  completedBy: toOptionalString(row.completed_by),
+  completedByName: toOptionalString(row.completed_by_name),
+  completedAt: toOptionalDate(row.completed_at),
+});
+
+const toAssignment = (value: unknown): TaskAssignment | undefined => {
+  const assignment = toJson<TaskAssignment | null>(value, null);
+  return assignment ? { ...assignment, decidedAt: toDate(assignment.decidedAt) } : undefined;
+};
+
+export const toTaskPermission = (row: Row): TaskPermission => ({
+  id: toId(row.id),
+  userId: toId(row.user_id),
+  taskType: row.task_type as TaskPermission['taskType'],
+  permissions: toJson<string[]>(row.permissions, []),
+  restrictions: toJson<TaskPermission['restrictions']>(row.restrictions, {}),
+});
+
+// dependencies are task_dependencies rows joined to the prerequisite's status
+export const toTask = (
+  row: Row,
+  comments: TaskComment[] = [],
+  dependencies: Row[] = [],
+  checklist: TaskChecklistItem[] = []
+): Task => ({
+  id: toId(row.id),
+  taskNumber: toOptionalString(row.task_number),
+  title: String(row.title),
+  description: String(row.description),
+  type: row.type as Task['type'],
+  priority: row.priority as Task['priority'],
+  status: row.status as Task['status'],
+  assignedTo: String(row.assigned_to),
+  assignedBy: String(row.assigned_by),
+  documentId: toOptionalId(row.document_id),
+  customerId: toOptionalId(row.customer_id),
+  builderId: toOptionalId(row.builder_id),
+  dueDate: toOptionalDate(row.due_date),
+  completedAt: toOptionalDate(row.completed_at),
+  estimatedHours: toOptionalNumber(row.estimated_hours),
+  actualHours: toOptionalNumber(row.actual_hours),
+  tags: toJson<string[]>(row.tags, []),
+  attachments: [],
+  comments,
+  checklist,
+  dependencies: dependencies.map(dependency => toId(dependency.depends_on_id)),
+  blockedBy: dependencies
+    .filter(dependency => dependency.status !== 'completed')
+    .map(dependency => toId(dependency.depends_on_id)),
+  assignment: toAssignment(row.assignment),
+  templateId: toOptionalId(row.template_id),
+  templateVersion: toOptionalNumber(row.template_version),
+  closesOnStatus: toOptionalString(row.closes_on_status) as Task['closesOnStatus'],
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+export async function loadTasks(db: Database, where: string, params: unknown[]): Promise<Task[]> {
+  const { rows } = await db.query(`SELECT * FROM tasks WHERE ${where} ORDER BY created_at DESC`, params);
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  const { rows: commentRows } = await db.query(
+    `SELECT * FROM task_comments WHERE task_id IN (${placeholders}) ORDER BY created_at`,
+    ids
+  );
+  const { rows: dependencyRows } = await db.query(
+    `SELECT d.task_id, d.depends_on_id, t.status
+     FROM task_dependencies d JOIN tasks t ON t.id = d.depends_on_id
+     WHERE d.task_id IN (${placeholders}) ORDER BY d.id`,
+    ids
+  );
+  const { rows: checklistRows } = await db.query(
+    `SELECT * FROM task_checklist_items WHERE task_id IN (${placeholders}) ORDER BY position`,
+    ids
+  );
+
+  return rows.map(row => toTask(
+    row,
+    commentRows.filter(comment => toId(comment.task_id) === toId(row.id)).map(toComment),
+    dependencyRows.filter(dependency => toId(dependency.task_id) === toId(row.id)),
+    checklistRows.filter(item => toId(item.task_id) === toId(row.id)).map(toChecklistItem)
+  ));
+}
+
+// Titles and statuses of the given tasks with what each waits on
+async function loadTaskLinks(db: Database, ids: string[]): Promise<TaskLink[]> {
+  if (ids.length === 0) return [];
+  const placeholders = ids.map(() => '?').join(', ');
+  const { rows } = await db.query(
+    `SELECT id, task_number, title, status, assigned_to FROM tasks WHERE id IN (${placeholders})`,
+    ids
+  );
+  const { rows: dependencyRows } = await db.query(
+    `SELECT task_id, depends_on_id FROM task_dependencies WHERE task_id IN (${placeholders}) ORDER BY id`,
+    ids
+  );
+  return rows.map(row => ({
+    id: toId(row.id),
+    taskNumber: toOptionalString(row.task_number),
+    title: String(row.title),
+    status: row.status as TaskStatus,
+    assignedTo: String(row.assigned_to),
+    dependencies: dependencyRows
+      .filter(dependency => toId(dependency.task_id) === toId(row.id))
+      .map(dependency => toId(dependency.depends_on_id)),
+  }));
+}
+
+// Every task that waits on another, with what it waits on
+async function loadDependencyEdges(db: Database): Promise<Pick<TaskLink, 'id' | 'dependencies'>[]> {
+  const { rows } = await db.query('SELECT task_id, depends_on_id FROM task_dependencies ORDER BY id');
+  const edges = new Map<string, string[]>();
+  rows.forEach(row => {
+    const id = toId(row.task_id);
+    edges.set(id, [...(edges.get(id) ?? []), toId(row.depends_on_id)]);
+  });
+  return [...edges].map(([id, dependencies]) => ({ id, dependencies }));
+}
+
+// The prerequisites without repeats, once they all exist and none of them
+// leads back to the task. A new task has nothing waiting on it yet.
+async function checkDependencies(db: Database, taskId: string | undefined, dependencies: string[]): Promise<string[]> {
+  const unique = [...new Set(dependencies)];
+  if (taskId && unique.includes(taskId)) {
+    throw new HttpError(400, 'A task cannot depend on itself');
+  }
+  const found = await loadTaskLinks(db, unique);
+  if (found.length !== unique.length) {
+    throw new HttpError(400, 'A prerequisite task does not exist');
+  }
+
+  const cycle = taskId ? dependencyCycle(taskId, unique, await loadDependencyEdges(db)) : undefined;
+  if (cycle) {
+    const links = await loadTaskLinks(db, cycle);
+    const names = cycle.map(id => {
+      const link = links.find(l => l.id === id);
+      return link ? link.taskNumber ?? link.title : id;
+    });
+    throw new HttpError(409, `These tasks would wait on each other forever: ${names.join(' → ')}`);
+  }
+  return unique;
+}
+
+async function saveDependencies(db: Database, taskId: string, dependencies: string[]): Promise<void> {
+  await db.query('DELETE FROM task_dependencies WHERE task_id = ?', [taskId]);
+  for (const dependsOnId of dependencies) {
+    await db.query(
+      'INSERT INTO task_dependencies (task_id, depends_on_id, created_at) VALUES (?, ?, NOW())',
+      [taskId, dependsOnId]
+    );
+  }
+}
+
+async function assertNotBlocked(db: Database, task: Pick<Task, 'dependencies' | 'blockedBy'>, status: TaskStatus) {
+  const reason = dependencyBlock(task, status, await loadTaskLinks(db, task.dependencies));
+  if (reason) {
+    throw new HttpError(409, reason);
+  }
+}
+
+// Why a saved task cannot move to status yet, for an open prerequisite or an
+// unticked required checklist item, or undefined when it can
+export async function statusBlock(
+  db: Database,
+  task: Pick<Task, 'dependencies' | 'blockedBy' | 'checklist'>,
+  status: TaskStatus
+): Promise<string | undefined> {
+  return dependencyBlock(task, status, await loadTaskLinks(db, task.dependencies)) ?? checklistBlock(task, status);
+}
+
+// Tells whoever has a task that its last open prerequisite is done. The task
+// is completed by then, so a message that cannot be left is only logged.
+export async function notifyUnblocked(db: Database, completed: Task): Promise<void> {
+  const { rows } = await db.query('SELECT task_id FROM task_dependencies WHERE depends_on_id = ?', [completed.id]);
+  const dependents = await loadTaskLinks(db, rows.map(row => toId(row.task_id)));
+  for (const dependent of dependents) {
+    if (dependent.status === 'completed' || dependent.status === 'cancelled') continue;
+    const prerequisites = await loadTaskLinks(db, dependent.dependencies);
+    if (unfinishedPrerequisites(dependent, prerequisites).length > 0) continue;
+    try {
+      await notify(db, dependent.assignedTo, {
+        title: 'Task ready to start',
+        message: `${taskLabel(completed)} is completed, so ${taskLabel(dependent)} can go ahead`,
+        type: 'success',
+        actionUrl: `/tasks/${dependent.id}`,
+      });
+    } catch (error) {
+      console.error(`Could not tell the assignee of ${taskLabel(dependent)} it can start:`, error);
+    }
+  }
+}
+
+// What the assignment engine weighs up, as the app would see it today
+export async function loadAssignmentContext(db: Database): Promise<AssignmentContext> {
+  const today = startOfDay(new Date());
+  const { rows: userRows } = await db.query(
+    'SELECT id, email, name, role, is_active, created_at, last_login FROM users WHERE is_active = 1'
+  );
+  const { rows: attendanceRows } = await db.query(
+    `SELECT a.*, u.name AS user_name, u.role AS user_role
+     FROM attendance_records a JOIN users u ON u.id = a.user_id
+     WHERE a.date = DATE(?)`,
+    [today]
+  );
+  const { rows: leaveRows } = await db.query(
+    `SELECT * FROM leave_requests
+     WHERE status = 'approved' AND start_date <= DATE(?) AND end_date >= DATE(?)`,
+    [today, today]
+  );
+  const { rows: permissionRows } = await db.query('SELECT * FROM task_permissions');
+
+  return {
+    users: userRows.map(row => toUser(row)),
+    // Open work and today's tasks are all the engine counts
+    tasks: await loadTasks(db, "status NOT IN ('completed', 'cancelled') OR created_at >= ?", [today]),
+    attendance: attendanceRows.map(toAttendanceRecord),
+    leaveRequests: leaveRows.map(row => ({
+      id: toId(row.id),
+      userId: toId(row.user_id),
+      status: row.status,
+      startDate: toDate(row.start_date),
+      endDate: toDate(row.end_date),
+    }) as LeaveRequest),
+    permissions: permissionRows.map(toTaskPermission),
+    today: new Date(),
+  };
+}
+
+// Picks the assignee from the template's rules and today's staff, whatever
+// the app chose: a client cannot hand work to someone the rules pass over
+async function assignFromTemplate(db: Database, templateId: string): Promise<Pick<TaskInput, 'assignedTo' | 'assignment'>> {
+  const { rows } = await db.query('SELECT id, name, type, auto_assignment_rules FROM task_templates WHERE id = ?', [templateId]);
+  const [row] = rows;
+  if (!row) {
+    throw new HttpError(400, 'The task template does not exist');
+  }
+  const template = {
+    id: toId(row.id),
+    type: row.type as TaskTemplate['type'],
+    autoAssignmentRules: toJson<TaskTemplate['autoAssignmentRules'] | null>(row.auto_assignment_rules, null) ?? undefined,
+  };
+  if (!template.autoAssignmentRules) {
+    throw new HttpError(400, `The ${row.name} template does not assign tasks by itself`);
+  }
+  const decision = autoAssign(template, await loadAssignmentContext(db));
+  if (!decision.assignedTo) {
+    throw new HttpError(409, decision.assignment.reason);
+  }
+  return { assignedTo: decision.assignedTo, assignment: decision.assignment };
+}
+
+// The current version of the template a new task is made from, with the type
+// and checklist that version gives it, once the template is still offered and
+// the task fills in the fields it requires
+export async function checkTemplate(
+  db: Database,
+  templateId: string,
+  task: object
+): Promise<Pick<TaskInput, 'type' | 'checklist'> & { version: number }> {
+  const { rows } = await db.query(
+    'SELECT name, type, checklist, version, required_fields, is_archived FROM task_templates WHERE id = ?',
+    [templateId]
+  );
+  const [row] = rows;
+  if (!row) {
+    throw new HttpError(400, 'The task template does not exist');
+  }
+  if (toBoolean(row.is_archived)) {
+    throw new HttpError(409, `The ${row.name} template is archived`);
+  }
+  const missing = missingRequiredFields({ requiredFields: toJson<string[]>(row.required_fields, []) }, task);
+  if (missing.length > 0) {
+    throw new HttpError(400, `The ${row.name} template needs: ${missing.map(requiredFieldLabel).join(', ')}`);
+  }
+  return {
+    type: row.type as TaskInput['type'],
+    checklist: toJson<TaskInput['checklist']>(row.checklist, []),
+    version: toNumber(row.version),
+  };
+}
+
+export async function findTask(db: Database, id: string): Promise<Task> {
+  const [task] = await loadTasks(db, 'id = ?', [id]);
+  if (!task) {
+    throw notFound('Task');
+  }
+  return task;
+}
+
+// Staff may only act on tasks assigned to them unless allowed to edit any task
+async function findAccessibleTask(db: Database, id: string, user: AuthUser): Promise<Task> {
+  const task = await findTask(db, id);
+  if (!can(user, 'tasks', 'update') && task.assignedTo !== user.id) {
+    throw new HttpError(403, 'You can only update tasks assigned to you');
+  }
+  return task;
+}
+
+// The assignee has to be someone who can sign in, and the document, customer
+// and builder the task is about have to exist
+async function checkReferences(
+  db: Database,
+  task: Pick<TaskInput, 'assignedTo' | 'documentId' | 'customerId' | 'builderId'>
+): Promise<void> {
+  const { rows } = await db.query('SELECT id FROM users WHERE id = ? AND is_active = 1', [task.assignedTo]);
+  if (rows.length === 0) {
+    throw new HttpError(400, 'A task can only be assigned to an active user');
+  }
+  const references = [
+    ['documents', 'document', task.documentId],
+    ['customers', 'customer', task.customerId],
+    ['builders', 'builder', task.builderId],
+  ] as const;
+  for (const [table, label, id] of references) {
+    if (!id) continue;
+    const { rows: found } = await db.query(`SELECT id FROM ${table} WHERE id = ?`, [id]);
+    if (found.length === 0) {
+      throw new HttpError(400, `The task's ${label} does not exist`);
+    }
+  }
+}
+
+// Saves a new task with its prerequisites and checklist, once checked. Tasks
+// made from a template record its version; the pipeline's also record the
+// document stage that closes them.
+export async function insertTask(
+  db: Database,
+  data: TaskInput,
+  assignedBy: string,
+  extra: { templateVersion?: number | null; closesOnStatus?: DocumentStatus } = {}
+): Promise<Task> {
+  await checkReferences(db, data);
+  const { insertId } = await db.query(
+    `INSERT INTO tasks (
+      task_number, title, description, type, priority, status, assigned_to, assigned_by,
+      document_id, customer_id, builder_id, due_date, estimated_hours,
+      tags, assignment, template_id, template_version, closes_on_status, created_at, updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())`,
+    [
+      await nextNumber(db, 'task'),
+      data.title,
+      data.description,
+      data.type,
+      data.priority,
+      data.status,
+      data.assignedTo,
+      assignedBy,
+      data.documentId ?? null,
+      data.customerId ?? null,
+      data.builderId ?? null,
+      data.dueDate ?? null,
+      data.estimatedHours ?? null,
+      JSON.stringify(data.tags),
+      data.assignment ? JSON.stringify(data.assignment) : null,
+      data.templateId ?? null,
+      extra.templateVersion ?? null,
+      extra.closesOnStatus ?? null,
+    ]
+  );
+  await saveDependencies(db, String(insertId), data.dependencies);
+  for (const [position, item] of data.checklist.entries()) {
+    await db.query(
+      `INSERT INTO task_checklist_items (task_id, position, title, description, is_required)
+       VALUES (?, ?, ?, ?, ?)`,
+      [insertId, position, item.title, item.description ?? null, item.isRequired ? 1 : 0]
+    );
+  }
+  return findTask(db, String(insertId));
+}
+
+export function taskRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', async (req, res) => {
+    const user = authUser(req);
+    const filters = validate(taskFilters, req.query);
+    let where = '1=1';
+    const params: unknown[] = [];
+
+    const assignedTo = can(user, 'tasks', 'read_all') ? filters.assignedTo : user.id;
+    if (assignedTo) {
+      where += ' AND assigned_to = ?';
+      params.push(assignedTo);
+    }
+
+    if (filters.status) {
+      where += ' AND status = ?';
+      params.push(filters.status);
+    }
+
+    if (filters.type) {
+      where += ' AND type = ?';
+      params.push(filters.type);
+    }
+
+    res.json({ success: true, data: await loadTasks(db, where, params) });
+  });
+
+  // Per-user limits by task type, which the assignment engine respects
+  router.get('/permissions', requirePermission('tasks', 'create'), async (_req, res) => {
+    const { rows } = await db.query('SELECT * FROM task_permissions ORDER BY user_id, task_type');
+    res.json({ success: true, data: rows.map(toTaskPermission) });
+  });
+
+  router.get('/:id', async (req, res) => {
+    const task = await findTask(db, req.params.id);
+    const user = authUser(req);
+    if (!can(user, 'tasks', 'read_all') && task.assignedTo !== user.id) {
+      throw notFound('Task');
+    }
+    res.json({ success: true, data: task });
+  });
+
+  // The tasks this one waits on and the ones waiting on it, however far the
+  // chain goes; staff see these even when the tasks are someone else's
+  router.get('/:id/chain', async (req, res) => {
+    const task = await findTask(db, req.params.id);
+    const user = authUser(req);
+    if (!can(user, 'tasks', 'read_all') && task.assignedTo !== user.id) {
+      throw notFound('Task');
+    }
+    const ids = chainTaskIds(task.id, await loadDependencyEdges(db));
+    res.json({ success: true, data: await loadTaskLinks(db, ids) });
+  });
+
+  router.post('/', requirePermission('tasks', 'create'), async (req, res) => {
+    const data = validate(taskInput, req.body);
+    if (data.assignment) {
+      Object.assign(data, await assignFromTemplate(db, data.assignment.templateId));
+    }
+    let templateVersion: number | null = null;
+    if (data.templateId) {
+      // A template task gets the template's own checklist, not one the app
+      // could have trimmed of its required items
+      const { version, ...fromTemplate } = await checkTemplate(db, data.templateId, data);
+      Object.assign(data, fromTemplate);
+      templateVersion = version;
+    }
+    const dependencies = await checkDependencies(db, undefined, data.dependencies);
+    await assertNotBlocked(db, { dependencies }, data.status);
+    const checklistReason = checklistBlock({ checklist: checklistFromTemplate(data.checklist) }, data.status);
+    if (checklistReason) {
+      throw new HttpError(409, checklistReason);
+    }
+    const task = await insertTask(db, { ...data, dependencies }, authUser(req).id, { templateVersion });
+    await recordActivity(db, req, {
+      entity: 'tasks',
+      recordId: task.id,
+      label: task.title,
+      documentId: task.documentId,
+      after: task,
+    });
+    res.status(201).json({ success: true, data: task });
+  });
+
+  router.patch('/:id/status', async (req, res) => {
+    const { status } = validate(statusInput, req.body);
+    const current = await findAccessibleTask(db, req.params.id, authUser(req));
+    assertUnmodifiedSince(req, current.updatedAt);
+    const reason = await statusBlock(db, current, status);
+    if (reason) {
+      throw new HttpError(409, reason);
+    }
+    await db.query(
+      `UPDATE tasks
+       SET status = ?, updated_at = NOW()${status === 'completed' ? ', completed_at = NOW()' : ''}
+       WHERE id = ?`,
+      [status, req.params.id]
+    );
+    const task = await findTask(db, req.params.id);
+    await recordActivity(db, req, {
+      entity: 'tasks',
+      recordId: task.id,
+      label: task.title,
+      documentId: task.documentId,
+      before: current,
+      after: task,
+    });
+    if (status === 'completed' && current.status !== 'completed') {
+      await notifyUnblocked(db, task);
+    }
+    res.json({ success: true, data: task });
+  });
+
+  // Replaces what the task waits on
+  router.put('/:id/dependencies', requirePermission('tasks', 'update'), async (req, res) => {
+    const data = validate(dependenciesInput, req.body);
+    const current = await findTask(db, String(req.params.id));
+    assertUnmodifiedSince(req, current.updatedAt);
+    const dependencies = await checkDependencies(db, current.id, data.dependencies);
+    await saveDependencies(db, current.id, dependencies);
+    await db.query('UPDATE tasks SET updated_at = NOW() WHERE id = ?', [current.id]);
+    const task = await findTask(db, current.id);
+    await recordActivity(db, req, {
+      entity: 'tasks',
+      recordId: task.id,
+      label: task.title,
+      documentId: task.documentId,
+      before: current,
+      after: task,
+    });
+    res.json({ success: true, data: task });
+  });
+
+  // Ticks a checklist item off, or back on. Setting rather than toggling keeps
+  // a replayed offline tick from undoing itself.
+  router.patch('/:id/checklist/:position', async (req, res) => {
+    const user = authUser(req);
+    const { isCompleted } = validate(checklistItemInput, req.body);
+    const task = await findAccessibleTask(db, String(req.params.id), user);
+    const item = task.checklist.find(i => i.id === String(req.params.position));
+    if (!item) {
+      throw notFound('Checklist item');
+    }
+    if (task.status === 'completed' || task.status === 'cancelled') {
+      throw new HttpError(409, 'The task is closed, so its checklist can no longer change');
+    }
+    if (item.isCompleted !== isCompleted) {
+      await db.query(
+        `UPDATE task_checklist_items
+         SET is_completed = ?, completed_by = ?, completed_by_name = ?, completed_at = ${isCompleted ? 'NOW()' : 'NULL'}
+         WHERE task_id = ? AND position = ?`,
+        [isCompleted ? 1 : 0, isCompleted ? user.id : null, isCompleted ? user.name : null, task.id, item.id]
+      );
+    }
+    res.json({ success: true, data: await findTask(db, task.id) });
+  });
+
+  router.post('/:id/comments', async (req, res) => {
+    const user = authUser(req);
+    const data = validate(commentInput, req.body);
+    await findAccessibleTask(db, req.params.id, user);
+    await db.query(
+      `INSERT INTO task_comments (
+        task_id, content, author_id, author_name, is_internal, created_at
+      ) VALUES (?, ?, ?, ?, ?, NOW())`,
+      [req.params.id, data.content, user.id, user.name, data.isInternal ? 1 : 0]
+    );
+    res.status(201).json({ success: true, data: await findTask(db, req.params.id) });
+  });
+
+  return router;
+}
@@ -0,0 +1,226 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { Permission, User } from '../../src/types';
+import { can, isKnownPermission, PermissionAction, PermissionModule, roleAllows } from '../../src/services/accessPolicy';
+import { recordActivity } from '../activity';
+import { Database, Row } from '../db';
+import { buildUpdate } from '../db/sql';
+import { toBoolean, toDate, toId, toOptionalDate } from '../db/values';
+import { HttpError, notFound, validate } from '../http';
+import { authUser, requirePermission } from '../middleware/auth';
+import { hashPassword, revokeUserSessions } from '../sessions';
+
+export const USER_ROLES = [
+  'main_admin',
+  'staff_admin',
+  'challan_staff',
+  'field_collection_staff',
+  'data_entry_staff',
+  'document_delivery_staff',
+] as const;
+
+const password = z.string().min(8).max(200);
+
+const userInput = z.object({
+  email: z.string().trim().toLowerCase().email().max(255),
+  name: z.string().trim().min(1).max(255),
+  role: z.enum(USER_ROLES),
+  isActive: z.boolean().default(true),
+  password,
+});
+
+const userUpdate = userInput.omit({ email: true, password: true, isActive: true }).partial().extend({
+  isActive: z.boolean().optional(),
+  password: password.optional(),
+});
+
+// The user's full effective permission set; only entries that differ from
+// their role's defaults are stored as user_permissions overrides
+const permissionsInput = z.object({
+  permissions: z.array(z.object({
+    module: z.string(),
+    action: z.string(),
+    granted: z.boolean(),
+  })).max(500),
+});
+
+const USER_COLUMNS: Record<string, string> = {
+  name: 'name',
+  role: 'role',
+  isActive: 'is_active',
+};
+
+const toPermission = (row: Row): Permission => ({
+  id: toId(row.id),
+  module: String(row.module),
+  action: String(row.action),
+  granted: toBoolean(row.granted),
+});
+
+export const toUser = (row: Row, permissions: Permission[] = []): User => ({
+  id: toId(row.id),
+  email: String(row.email),
+  name: String(row.name),
+  role: row.role as User['role'],
+  permissions,
+  isActive: toBoolean(row.is_active),
+  createdAt: toDate(row.created_at),
+  lastLogin: toOptionalDate(row.last_login),
+});
+
+async function loadUsers(db: Database, where: string, params: unknown[]): Promise<User[]> {
+  const { rows } = await db.query(
+    `SELECT id, email, name, role, is_active, created_at, last_login
+     FROM users WHERE ${where} ORDER BY created_at DESC`,
+    params
+  );
+  if (rows.length === 0) return [];
+
+  const ids = rows.map(row => row.id);
+  const { rows: permissionRows } = await db.query(
+    `SELECT * FROM user_permissions WHERE user_id IN (${ids.map(() => '?').join(', ')})`,
+    ids
+  );
+
+  return rows.map(row => toUser(
+    row,
+    permissionRows.filter(permission => toId(permission.user_id) === toId(row.id)).map(toPermission)
+  ));
+}
+
+export async function findUser(db: Database, id: string): Promise<User> {
+  const [user] = await loadUsers(db, 'id = ?', [id]);
+  if (!user) {
+    throw notFound('User');
+  }
+  return user;
+}
+
+export function userRoutes(db: Database): Router {
+  const router = Router();
+
+  router.get('/', requirePermission('users', 'read'), async (_req, res) => {
+    res.json({ success: true, data: await loadUsers(db, '1=1', []) });
+  });
+
+  router.get('/:id', requirePermission('users', 'read'), async (req, res) => {
+    res.json({ success: true, data: await findUser(db, String(req.params.id)) });
+  });
+
+  router.post('/', requirePermission('users', 'create'), async (req, res) => {
+    const data = validate(userInput, req.body);
+    if (data.role === 'main_admin' && authUser(req).role !== 'main_admin') {
+      throw new HttpError(403, 'Only the main admin can create another main admin');
+    }
+    const { rows } = await db.query('SELECT id FROM users WHERE email = ?', [data.email]);
+    if (rows.length > 0) {
+      throw new HttpError(409, 'A user with this email already exists');
+    }
+
+    const { insertId } = await db.query(
+      `INSERT INTO users (email, name, role, password_hash, is_active, created_at)
+       VALUES (?, ?, ?, ?, ?, NOW())`,
+      [data.email, data.name, data.role, await hashPassword(data.password), data.isActive ? 1 : 0]
+    );
+    const user = await findUser(db, String(insertId));
+    await recordActivity(db, req, { entity: 'users', recordId: user.id, label: user.name, after: user });
+    res.status(201).json({ success: true, data: user });
+  });
+
+  router.put('/:id', requirePermission('users', 'update'), async (req, res) => {
+    const caller = authUser(req);
+    const id = String(req.params.id);
+    const { password: newPassword, ...data } = validate(userUpdate, req.body);
+    const current = await findUser(db, id);
+    // Roles and account status are the main admin's to hand out, the same as
+    // permissions: otherwise a staff admin could promote themselves or lock
+    // the main admin out
+    if (caller.role !== 'main_admin') {
+      if (current.role === 'main_admin') {
+        throw new HttpError(403, "Only the main admin can change the main admin's account");
+      }
+      if ((data.role !== undefined && data.role !== current.role)
+        || (data.isActive !== undefined && data.isActive !== current.isActive)) {
+        throw new HttpError(403, "Only the main admin can change a user's role or status");
+      }
+    }
+    const { assignments, values } = buildUpdate(data, USER_COLUMNS);
+    if (newPassword) {
+      // Otherwise a staff admin could take over the main admin's account
+      if (caller.role !== 'main_admin' && caller.id !== id) {
+        throw new HttpError(403, "Only the main admin can change another user's password");
+      }
+      assignments.push('password_hash = ?');
+      values.push(await hashPassword(newPassword));
+    }
+    if (assignments.length === 0) {
+      throw new HttpError(400, 'No fields to update');
+    }
+
+    await db.query(
+      `UPDATE users SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = ?`,
+      [...values, id]
+    );
+
+    // A new password or a deactivated account ends every open session
+    if (newPassword || data.isActive === false) {
+      await revokeUserSessions(db, id);
+    }
+    const user = await findUser(db, id);
+    await recordActivity(db, req, {
+      entity: 'users',
+      recordId: id,
+      label: user.name,
+      before: current,
+      // The password itself never reaches the log, only that it was changed
+      after: newPassword ? { ...user, passwordChanged: true } : user,
+    });
+    res.json({ success: true, data: user });
+  });
+
+  router.put('/:id/permissions', requirePermission('users', 'update'), async (req, res) => {
+    const caller = authUser(req);
+    const id = String(req.params.id);
+    const { permissions } = validate(permissionsInput, req.body);
+    const target = await findUser(db, id);
+    if (target.role === 'main_admin') {
+      throw new HttpError(400, 'The main admin always has full access');
+    }
+    if (target.id === caller.id) {
+      throw new HttpError(403, 'You cannot change your own permissions');
+    }
+
+    const overrides = permissions.filter(permission => {
+      if (!isKnownPermission(permission.module, permission.action)) {
+        throw new HttpError(400, `Unknown permission ${permission.module}.${permission.action}`);
+      }
+      const module = permission.module as PermissionModule;
+      const action = permission.action as PermissionAction;
+      // Nobody can hand out access they do not hold themselves
+      if (permission.granted && !can(target, module, action) && !can(caller, module, action)) {
+        throw new HttpError(403, `You cannot grant ${module}.${action}`);
+      }
+      return permission.granted !== roleAllows(target.role, module, action);
+    });
+
+    await db.query('DELETE FROM user_permissions WHERE user_id = ?', [id]);
+    for (const permission of overrides) {
+      await db.query(
+        'INSERT INTO user_permissions (user_id, module, action, granted) VALUES (?, ?, ?, ?)',
+        [id, permission.module, permission.action, permission.granted ? 1 : 0]
+      );
+    }
+    const user = await findUser(db, id);
+    await recordActivity(db, req, { entity: 'users', recordId: id, label: user.name, before: target, after: user });
+    res.json({ success: true, data: user });
+  });
+
+  router.delete('/:id/sessions', requirePermission('users', 'update'), async (req, res) => {
+    const id = String(req.params.id);
+    await findUser(db, id);
+    await revokeUserSessions(db, id);
+    res.json({ success: true });
+  });
+
+  return router;
+}
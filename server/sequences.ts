@@ -0,0 +1,85 @@
+import { DocumentType, NumberCounter, NumberSeries } from '../src/types';
+import { financialYearOf } from '../src/services/financialYear';
+import {
+  NUMBER_FORMATS_SETTING_KEY,
+  NumberFormats,
+  numberPrefix,
+  numberScope,
+  renderNumber,
+  withDefaultNumberFormats,
+} from '../src/services/numberSequences';
+import { Database, Row } from './db';
+import { toDate, toJson, toNumber } from './db/values';
+import { HttpError } from './http';
+
+// Where each series' numbers are stored, so numbers already in use are skipped
+const NUMBER_COLUMNS: Record<NumberSeries, { table: string; column: string }> = {
+  document: { table: 'documents', column: 'document_number' },
+  challan: { table: 'challans', column: 'challan_number' },
+  task: { table: 'tasks', column: 'task_number' },
+  salary: { table: 'salary_records', column: 'salary_number' },
+};
+
+// Lost races and numbers typed in by hand both cost an attempt
+const MAX_ATTEMPTS = 50;
+
+export interface NumberOptions {
+  documentType?: DocumentType;
+  // The financial year is taken from this date; defaults to today
+  date?: Date;
+}
+
+export const toNumberCounter = (row: Row): NumberCounter => ({
+  scope: String(row.scope),
+  series: row.series as NumberSeries,
+  financialYear: String(row.financial_year),
+  lastValue: toNumber(row.last_value),
+  updatedAt: toDate(row.updated_at),
+});
+
+export async function loadNumberFormats(db: Database): Promise<NumberFormats> {
+  const { rows } = await db.query(
+    'SELECT setting_value FROM app_settings WHERE setting_key = ?',
+    [NUMBER_FORMATS_SETTING_KEY]
+  );
+  return withDefaultNumberFormats(rows.length > 0 ? toJson(rows[0].setting_value, null) : null);
+}
+
+async function numberTaken(db: Database, series: NumberSeries, number: string): Promise<boolean> {
+  const { table, column } = NUMBER_COLUMNS[series];
+  const { rows } = await db.query(`SELECT 1 AS taken FROM ${table} WHERE ${column} = ?`, [number]);
+  return rows.length > 0;
+}
+
+// Hands out the next number of a series. The counter only moves when it still
+// holds the value read, so two requests can never be given the same number;
+// the loser of a race reads again. Neither driver needs a transaction for it.
+export async function nextNumber(db: Database, series: NumberSeries, options: NumberOptions = {}): Promise<string> {
+  const formats = await loadNumberFormats(db);
+  const parts = {
+    prefix: numberPrefix(series, options.documentType),
+    date: options.date ?? new Date(),
+  };
+  const scope = numberScope(formats[series], parts);
+  await db.query(
+    `INSERT IGNORE INTO number_sequences (scope, series, financial_year, last_value, updated_at)
+     VALUES (?, ?, ?, 0, NOW())`,
+    [scope, series, financialYearOf(parts.date)]
+  );
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const { rows } = await db.query('SELECT last_value FROM number_sequences WHERE scope = ?', [scope]);
+    const current = toNumber(rows[0]?.last_value);
+    const { affectedRows } = await db.query(
+      'UPDATE number_sequences SET last_value = ?, updated_at = NOW() WHERE scope = ? AND last_value = ?',
+      [current + 1, scope, current]
+    );
+    if (affectedRows === 0) continue;
+
+    const number = renderNumber(formats[series], { ...parts, sequence: current + 1 });
+    if (!(await numberTaken(db, series, number))) {
+      return number;
+    }
+  }
+  throw new HttpError(409, `Could not allocate a ${series} number; try again`);
+}
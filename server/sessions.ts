@@ -0,0 +1,86 @@
+import bcrypt from 'bcryptjs';
+import { createHash, randomBytes } from 'crypto';
+import { Request, Response } from 'express';
+import { SessionConfig } from './config';
+import { Database, Row } from './db';
+
+export const SESSION_COOKIE = 'om_session';
+
+const BCRYPT_ROUNDS = 12;
+
+// Compared against when the email is unknown so a failed login takes the same
+// time whether or not the account exists
+const DUMMY_HASH = bcrypt.hashSync('om-services-dummy-password', BCRYPT_ROUNDS);
+
+const digest = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const hashPassword = (password: string): Promise<string> => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+export async function verifyPassword(password: string, hash: string | undefined): Promise<boolean> {
+  // Hashes that are not bcrypt (such as the unusable '!') can never match
+  const usable = hash?.startsWith('$2') ? hash : undefined;
+  const matches = await bcrypt.compare(password, usable ?? DUMMY_HASH);
+  return matches && usable !== undefined;
+}
+
+export function readSessionToken(req: Request): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return undefined;
+}
+
+export async function createSession(db: Database, config: SessionConfig, req: Request, res: Response, userId: string) {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.ttlHours * 60 * 60 * 1000);
+
+  await db.query(
+    `INSERT INTO sessions (id, user_id, expires_at, ip_address, user_agent)
+     VALUES (?, ?, DATE_ADD(NOW(), INTERVAL ? HOUR), ?, ?)`,
+    [digest(token), userId, config.ttlHours, req.ip ?? null, req.get('user-agent') ?? null]
+  );
+
+  // SameSite=Strict keeps the cookie off cross-site requests, which together with
+  // the CORS origin check is the API's CSRF protection
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: config.secureCookie,
+    sameSite: 'strict',
+    path: '/api',
+    expires: expiresAt,
+  });
+}
+
+export function clearSessionCookie(res: Response, config: SessionConfig) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, secure: config.secureCookie, sameSite: 'strict', path: '/api' });
+}
+
+// Returns the active user behind a session token, or undefined when the session
+// is unknown, expired, revoked or belongs to a deactivated account
+export async function findSessionUser(db: Database, token: string): Promise<Row | undefined> {
+  const { rows } = await db.query(
+    `SELECT u.id, u.name, u.role
+     FROM sessions s
+     JOIN users u ON u.id = s.user_id
+     WHERE s.id = ? AND s.revoked_at IS NULL AND s.expires_at > NOW() AND u.is_active = 1`,
+    [digest(token)]
+  );
+  if (rows.length === 0) return undefined;
+
+  await db.query('UPDATE sessions SET last_seen_at = NOW() WHERE id = ?', [digest(token)]);
+  return rows[0];
+}
+
+export async function revokeSession(db: Database, token: string) {
+  await db.query('UPDATE sessions SET revoked_at = NOW() WHERE id = ? AND revoked_at IS NULL', [digest(token)]);
+}
+
+export async function revokeUserSessions(db: Database, userId: string) {
+  await db.query('UPDATE sessions SET revoked_at = NOW() WHERE user_id = ? AND revoked_at IS NULL', [userId]);
+}
@@ -0,0 +1,192 @@
+import { Request } from 'express';
+import { Document, DocumentStatus } from '../src/types';
+import { TaskPipelineRule } from '../src/types/task';
+import { stageLabel } from '../src/services/documentWorkflow';
+import { evaluateSlas, SLA_SETTING_KEY, withDefaultSlas } from '../src/services/documentSla';
+import { autoAssign, userNamed } from '../src/services/taskAssignment';
+import { isForwardMove, rulesOpenedBy, tasksClosedBy } from '../src/services/taskPipeline';
+import { taskLabel } from '../src/services/taskDependencies';
+import { recordActivity } from './activity';
+import { Database, Row } from './db';
+import { toBoolean, toDate, toId, toJson } from './db/values';
+import { HttpError } from './http';
+import { authUser } from './middleware/auth';
+import { notify } from './notifications';
+import { findTemplate } from './routes/taskTemplates';
+import {
+  checkTemplate,
+  findTask,
+  insertTask,
+  loadAssignmentContext,
+  loadTasks,
+  notifyUnblocked,
+  statusBlock,
+  TaskInput,
+} from './routes/tasks';
+
+export const toPipelineRule = (row: Row): TaskPipelineRule => ({
+  id: toId(row.id),
+  documentStatus: row.document_status as DocumentStatus,
+  templateId: toId(row.template_id),
+  closesOn: row.closes_on as DocumentStatus,
+  isActive: toBoolean(row.is_active),
+  createdAt: toDate(row.created_at),
+  updatedAt: toDate(row.updated_at),
+});
+
+export async function loadPipelineRules(db: Database, where = '1=1', params: unknown[] = []): Promise<TaskPipelineRule[]> {
+  const { rows } = await db.query(`SELECT * FROM task_pipeline_rules WHERE ${where} ORDER BY id`, params);
+  return rows.map(toPipelineRule);
+}
+
+// Completes the document's pipeline tasks that the stage it reached finishes.
+// One still waiting on a prerequisite or a required checklist item is left
+// open, and its assignee is told why.
+async function closeTasks(db: Database, req: Request, document: Document, previous: DocumentStatus | undefined) {
+  if (!isForwardMove(previous, document.status)) return;
+
+  const user = authUser(req);
+  const open = await loadTasks(db, 'document_id = ? AND closes_on_status IS NOT NULL', [document.id]);
+  for (const current of tasksClosedBy(open, document.status)) {
+    const reason = await statusBlock(db, current, 'completed');
+    if (reason) {
+      await notify(db, current.assignedTo, {
+        title: 'Task left open',
+        message: `${document.documentNumber} reached ${stageLabel(document.status)}, but ${taskLabel(current)} stays open. ${reason}`,
+        type: 'warning',
+        actionUrl: `/tasks/${current.id}`,
+      });
+      continue;
+    }
+    await db.query(
+      "UPDATE tasks SET status = 'completed', completed_at = NOW(), updated_at = NOW() WHERE id = ?",
+      [current.id]
+    );
+    await db.query(
+      `INSERT INTO task_comments (task_id, content, author_id, author_name, is_internal, created_at)
+       VALUES (?, ?, ?, ?, 1, NOW())`,
+      [
+        current.id,
+        `Completed automatically when ${document.documentNumber} reached ${stageLabel(document.status)}`,
+        user.id,
+        user.name,
+      ]
+    );
+    const task = await findTask(db, current.id);
+    await recordActivity(db, req, {
+      entity: 'tasks',
+      recordId: task.id,
+      label: task.title,
+      documentId: task.documentId,
+      before: current,
+      after: task,
+    });
+    await notifyUnblocked(db, task);
+  }
+}
+
+// What a pipeline task can say about its document besides linking to it: the
+// customer with the document's phone number, as the customers list matches
+// them, and the SLA deadline for the stage that closes the task
+async function documentFields(
+  db: Database,
+  document: Document,
+  closesOn: DocumentStatus
+): Promise<Pick<TaskInput, 'customerId' | 'dueDate'>> {
+  const { rows: customerRows } = await db.query('SELECT id FROM customers WHERE phone = ?', [document.customerPhone]);
+  const { rows: slaRows } = await db.query('SELECT setting_value FROM app_settings WHERE setting_key = ?', [SLA_SETTING_KEY]);
+  const slas = withDefaultSlas(slaRows.length > 0 ? toJson(slaRows[0].setting_value, null) : null);
+  const deadline = evaluateSlas(document, slas).find(result => result.rule.to === closesOn);
+  return {
+    customerId: customerRows.length > 0 ? toId(customerRows[0].id) : null,
+    dueDate: deadline?.dueAt ?? null,
+  };
+}
+
+// Opens a task from each rule's template, unless the document already has an
+// open one from it. The template's rules pick the assignee; without rules, or
+// when nobody can take it today, it goes to the user the document's free-text
+// assignee names, or else to whoever moved the document. A template whose
+// required fields the document cannot fill in opens nothing, as POST /tasks
+// would refuse it too.
+async function openTasks(db: Database, req: Request, document: Document) {
+  const rules = rulesOpenedBy(await loadPipelineRules(db, 'document_status = ?', [document.status]), document.status);
+  if (rules.length === 0) return;
+
+  const user = authUser(req);
+  const context = await loadAssignmentContext(db);
+  for (const rule of rules) {
+    const template = await findTemplate(db, rule.templateId);
+    if (template.isArchived) continue;
+    const existing = context.tasks.some(task =>
+      task.documentId === document.id && task.templateId === template.id && task.status !== 'completed' && task.status !== 'cancelled'
+    );
+    if (existing) continue;
+
+    const decision = template.autoAssignmentRules ? autoAssign(template, context) : undefined;
+    const input: TaskInput = {
+      title: `${template.name}: ${document.documentNumber}`,
+      description: template.description,
+      type: template.type,
+      priority: template.defaultPriority,
+      status: 'pending',
+      assignedTo: decision?.assignedTo ?? userNamed(context.users, document.assignedTo)?.id ?? user.id,
+      documentId: document.id,
+      ...(await documentFields(db, document, rule.closesOn)),
+      estimatedHours: template.estimatedHours,
+      tags: ['pipeline'],
+      dependencies: [],
+      assignment: decision?.assignedTo ? decision.assignment : undefined,
+      templateId: template.id,
+      checklist: [],
+    };
+    let templateVersion: number;
+    try {
+      const { version, ...fromTemplate } = await checkTemplate(db, template.id, input);
+      Object.assign(input, fromTemplate);
+      templateVersion = version;
+    } catch (error) {
+      if (!(error instanceof HttpError)) throw error;
+      console.error(`Task pipeline skipped ${template.name} for document ${document.documentNumber}: ${error.message}`);
+      continue;
+    }
+    const task = await insertTask(db, input, user.id, { templateVersion, closesOnStatus: rule.closesOn });
+
+    // Later rules weigh this task up as part of the assignee's work
+    context.tasks.push(task);
+    await recordActivity(db, req, {
+      entity: 'tasks',
+      recordId: task.id,
+      label: task.title,
+      documentId: task.documentId,
+      after: task,
+    });
+    await notify(db, task.assignedTo, {
+      title: 'New task',
+      message: `${taskLabel(task)} was opened for you when its document reached ${stageLabel(document.status)}`,
+      actionUrl: `/tasks/${task.id}`,
+    });
+  }
+}
+
+// Applies the pipeline rules to a document that was just created or moved
+// from previous to the stage it is at now. The document is saved by then, so
+// a failure is logged instead of failing a request the client would repeat,
+// and one in closing tasks does not stop the next stage's tasks opening.
+export async function runTaskPipeline(
+  db: Database,
+  req: Request,
+  document: Document,
+  previous?: DocumentStatus
+): Promise<void> {
+  try {
+    await closeTasks(db, req, document, previous);
+  } catch (error) {
+    console.error(`Task pipeline could not close tasks for document ${document.documentNumber}:`, error);
+  }
+  try {
+    await openTasks(db, req, document);
+  } catch (error) {
+    console.error(`Task pipeline could not open tasks for document ${document.documentNumber}:`, error);
+  }
+}
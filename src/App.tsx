@@ -6,6 +6,7 @@ import { UserProvider } from './hooks/useUsers.tsx';
 import { DocumentProvider } from './hooks/useDocuments.tsx';
 import { PaymentProvider } from './hooks/usePayments.tsx';
 import { ChallanProvider } from './hooks/useChallans.tsx';
+import { ReconciliationProvider } from './hooks/useReconciliation.tsx';
 import { CustomerProvider } from './hooks/useCustomers.tsx';
 import { BuilderProvider } from './hooks/useBuilders.tsx';
 import { TaskProvider } from './hooks/useTasks.tsx';
@@ -19,6 +20,8 @@ import { Documents } from './pages/Documents';
 import { DocumentDetail } from './pages/DocumentDetail';
 import { Payments } from './pages/Payments';
 import { Challans } from './pages/Challans';
+import { Reconciliation } from './pages/Reconciliation';
+import { Receivables } from './pages/Receivables';
 import { Customers } from './pages/Customers';
 import { Builders } from './pages/Builders';
 import { Users } from './pages/Users';
@@ -28,16 +31,23 @@ import { Delivery } from './pages/Delivery';
 import { DataEntry } from './pages/DataEntry';
 import { Tasks } from './pages/Tasks';
 import { TaskDetail } from './pages/TaskDetail';
+import { TaskTemplates } from './pages/TaskTemplates';
 import { Inbox } from './pages/Inbox';
 import { Attendance } from './pages/Attendance';
 import { Salary } from './pages/Salary';
+import { AuditLog } from './pages/AuditLog';
+import { PermissionCheck } from './services/accessPolicy';
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user } = useAuth();
+function ProtectedRoute({ children, permission }: { children: React.ReactNode; permission?: PermissionCheck }) {
+  const { user, can } = useAuth();
   
   if (!user) {
     return <Navigate to="/login" replace />;
   }
+
+  if (permission && !can(permission.module, permission.action)) {
+    return <Navigate to="/dashboard" replace />;
+  }
   
   return <ResponsiveLayout>{children}</ResponsiveLayout>;
 }
@@ -53,22 +63,26 @@ function AppRoutes() {
     <Routes>
       <Route path="/login" element={<Navigate to="/dashboard" replace />} />
       <Route path="/dashboard" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-      <Route path="/documents" element={<ProtectedRoute><Documents /></ProtectedRoute>} />
-      <Route path="/documents/:id" element={<ProtectedRoute><DocumentDetail /></ProtectedRoute>} />
-      <Route path="/payments" element={<ProtectedRoute><Payments /></ProtectedRoute>} />
-      <Route path="/challans" element={<ProtectedRoute><Challans /></ProtectedRoute>} />
-      <Route path="/customers" element={<ProtectedRoute><Customers /></ProtectedRoute>} />
-      <Route path="/builders" element={<ProtectedRoute><Builders /></ProtectedRoute>} />
-      <Route path="/users" element={<ProtectedRoute><Users /></ProtectedRoute>} />
-      <Route path="/settings" element={<ProtectedRoute><Settings /></ProtectedRoute>} />
-      <Route path="/collection" element={<ProtectedRoute><Collection /></ProtectedRoute>} />
-      <Route path="/delivery" element={<ProtectedRoute><Delivery /></ProtectedRoute>} />
-      <Route path="/data-entry" element={<ProtectedRoute><DataEntry /></ProtectedRoute>} />
+      <Route path="/documents" element={<ProtectedRoute permission={{ module: 'documents', action: 'read' }}><Documents /></ProtectedRoute>} />
+      <Route path="/documents/:id" element={<ProtectedRoute permission={{ module: 'documents', action: 'read' }}><DocumentDetail /></ProtectedRoute>} />
+      <Route path="/payments" element={<ProtectedRoute permission={{ module: 'payments', action: 'read' }}><Payments /></ProtectedRoute>} />
+      <Route path="/challans" element={<ProtectedRoute permission={{ module: 'challans', action: 'read' }}><Challans /></ProtectedRoute>} />
+      <Route path="/receivables" element={<ProtectedRoute permission={{ module: 'payments', action: 'read' }}><Receivables /></ProtectedRoute>} />
+      <Route path="/reconciliation" element={<ProtectedRoute permission={{ module: 'payments', action: 'reconcile' }}><Reconciliation /></ProtectedRoute>} />
+      <Route path="/customers" element={<ProtectedRoute permission={{ module: 'customers', action: 'read' }}><Customers /></ProtectedRoute>} />
+      <Route path="/builders" element={<ProtectedRoute permission={{ module: 'builders', action: 'read' }}><Builders /></ProtectedRoute>} />
+      <Route path="/users" element={<ProtectedRoute permission={{ module: 'users', action: 'read' }}><Users /></ProtectedRoute>} />
+      <Route path="/settings" element={<ProtectedRoute permission={{ module: 'settings', action: 'manage' }}><Settings /></ProtectedRoute>} />
+      <Route path="/collection" element={<ProtectedRoute permission={{ module: 'documents', action: 'collect' }}><Collection /></ProtectedRoute>} />
+      <Route path="/delivery" element={<ProtectedRoute permission={{ module: 'documents', action: 'deliver' }}><Delivery /></ProtectedRoute>} />
+      <Route path="/data-entry" element={<ProtectedRoute permission={{ module: 'documents', action: 'data_entry' }}><DataEntry /></ProtectedRoute>} />
       <Route path="/tasks" element={<ProtectedRoute><Tasks /></ProtectedRoute>} />
       <Route path="/tasks/:id" element={<ProtectedRoute><TaskDetail /></ProtectedRoute>} />
+      <Route path="/task-templates" element={<ProtectedRoute permission={{ module: 'tasks', action: 'manage_templates' }}><TaskTemplates /></ProtectedRoute>} />
       <Route path="/inbox" element={<ProtectedRoute><Inbox /></ProtectedRoute>} />
       <Route path="/attendance" element={<ProtectedRoute><Attendance /></ProtectedRoute>} />
-      <Route path="/salary" element={<ProtectedRoute><Salary /></ProtectedRoute>} />
+      <Route path="/salary" element={<ProtectedRoute permission={{ module: 'salary', action: 'read' }}><Salary /></ProtectedRoute>} />
+      <Route path="/audit" element={<ProtectedRoute permission={{ module: 'audit', action: 'read' }}><AuditLog /></ProtectedRoute>} />
       <Route path="/" element={<Navigate to="/dashboard" replace />} />
     </Routes>
   );
@@ -85,15 +99,17 @@ function App() {
                 <DocumentProvider>
                   <PaymentProvider>
                     <ChallanProvider>
-                      <TaskProvider>
+                      <ReconciliationProvider>
                         <AttendanceProvider>
-                          <SalaryProvider>
-                            <Router>
-                              <AppRoutes />
-                            </Router>
-                          </SalaryProvider>
+                          <TaskProvider>
+                            <SalaryProvider>
+                              <Router>
+                                <AppRoutes />
+                              </Router>
+                            </SalaryProvider>
+                          </TaskProvider>
                         </AttendanceProvider>
-                      </TaskProvider>
+                      </ReconciliationProvider>
                     </ChallanProvider>
                   </PaymentProvider>
                 </DocumentProvider>
@@ -0,0 +1,38 @@
+import { format } from 'date-fns';
+import { ActivityChange } from '../../types';
+
+const fieldLabel = (field: string) =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, first => first.toUpperCase());
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (value instanceof Date) return format(value, 'MMM dd, yyyy HH:mm');
+  if (Array.isArray(value)) return value.length === 0 ? 'none' : `${value.length} item${value.length === 1 ? '' : 's'}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value).replace(/_/g, ' ');
+}
+
+// Field-by-field before/after of one activity entry
+export function ActivityChanges({ changes }: { changes: ActivityChange[] }) {
+  if (changes.length === 0) return null;
+
+  return (
+    <dl className="mt-2 space-y-1 text-xs">
+      {changes.map(change => (
+        <div key={change.field} className="flex flex-wrap gap-x-2">
+          <dt className="font-medium text-gray-700">{fieldLabel(change.field)}:</dt>
+          <dd className="text-gray-600">
+            {change.before !== undefined && (
+              <>
+                <span className="line-through text-gray-400">{formatValue(change.before)}</span>
+                {change.after !== undefined && ' → '}
+              </>
+            )}
+            {change.after !== undefined && <span>{formatValue(change.after)}</span>}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -27,7 +27,6 @@ export function LoginForm() {
 
   const demoCredentials = [
     { email: 'admin@omservices.com', role: 'Main Admin' },
-    { email: 'challan@omservices.com', role: 'Challan Staff' },
   ];
 
   return (
@@ -0,0 +1,76 @@
+import { CheckCircle, Send, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Challan } from '../../types';
+import { versionChanges } from '../../services/challanReview';
+
+interface ChallanHistoryProps {
+  challan: Challan;
+}
+
+// Every submission, newest first, with what changed since the one before and
+// how it was reviewed
+export function ChallanHistory({ challan }: ChallanHistoryProps) {
+  if (challan.versions.length === 0) return null;
+
+  return (
+    <div>
+      <h4 className="text-lg font-bold text-gray-900 mb-3">Review History</h4>
+      <div className="space-y-4">
+        {[...challan.versions].reverse().map(version => {
+          const previous = challan.versions.find(v => v.version === version.version - 1);
+          const changes = previous ? versionChanges(previous, version) : [];
+          const reviews = challan.reviews.filter(review => review.version === version.version);
+
+          return (
+            <div key={version.version} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center text-sm text-gray-700">
+                <Send className="w-4 h-4 mr-2 text-blue-600" />
+                <span className="font-medium">Version {version.version}</span>
+                <span className="text-gray-500 ml-2">
+                  submitted{version.submittedByName ? ` by ${version.submittedByName}` : ''} on {format(version.submittedAt, 'MMM dd, yyyy HH:mm')}
+                </span>
+              </div>
+
+              {previous && (
+                changes.length === 0 ? (
+                  <p className="text-xs text-gray-500 mt-2 ml-6">Resubmitted without changes</p>
+                ) : (
+                  <table className="mt-2 ml-6 text-xs">
+                    <tbody>
+                      {changes.map(change => (
+                        <tr key={change.field} className="align-top">
+                          <td className="pr-3 py-0.5 text-gray-600">{change.field}</td>
+                          <td className="pr-3 py-0.5 text-red-700 line-through break-words">{change.before ?? '—'}</td>
+                          <td className="py-0.5 text-green-700 break-words">{change.after ?? '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )
+              )}
+
+              {reviews.map(review => (
+                <div
+                  key={review.id}
+                  className={`mt-3 ml-6 p-2 rounded-lg text-sm ${
+                    review.decision === 'approved' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+                  }`}
+                >
+                  <p className="flex items-center font-medium">
+                    {review.decision === 'approved'
+                      ? <CheckCircle className="w-4 h-4 mr-1" />
+                      : <XCircle className="w-4 h-4 mr-1" />}
+                    {review.decision === 'approved' ? 'Approved' : 'Rejected'}
+                    {review.reviewedByName && ` by ${review.reviewedByName}`}
+                    <span className="font-normal ml-1">on {format(review.reviewedAt, 'MMM dd, yyyy HH:mm')}</span>
+                  </p>
+                  {review.comment && <p className="mt-1">{review.comment}</p>}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
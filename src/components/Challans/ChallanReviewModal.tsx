@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Check, X, XCircle } from 'lucide-react';
+import { Challan, ChallanReviewDecision } from '../../types';
+import { useChallans } from '../../hooks/useChallans';
+
+interface ChallanReviewModalProps {
+  challan: Challan;
+  decision: ChallanReviewDecision;
+  onClose: () => void;
+}
+
+// Approving may carry a note; rejecting must say what to fix, since the
+// person who filled the challan is told the reason
+export function ChallanReviewModal({ challan, decision, onClose }: ChallanReviewModalProps) {
+  const { approveChallan, rejectChallan, loading } = useChallans();
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const rejecting = decision === 'rejected';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rejecting && !comment.trim()) {
+      setError('Say why the challan is rejected');
+      return;
+    }
+    setError(null);
+    try {
+      if (rejecting) {
+        await rejectChallan(challan.id, comment.trim());
+      } else {
+        await approveChallan(challan.id, comment.trim() || undefined);
+      }
+      onClose();
+    } catch (reviewError) {
+      setError(reviewError instanceof Error ? reviewError.message : 'Could not record the review');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            {rejecting
+              ? <XCircle className="w-5 h-5 mr-2 text-red-600" />
+              : <Check className="w-5 h-5 mr-2 text-green-600" />}
+            {rejecting ? 'Reject' : 'Approve'} Challan - {challan.challanNumber}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Version {challan.versions.length} submitted by {challan.versions[challan.versions.length - 1]?.submittedByName ?? challan.filledBy}.
+            {' '}{challan.filledBy} will be notified.
+          </p>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {rejecting ? 'Reason for rejection *' : 'Comment'}
+            </label>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none ${
+                error ? 'border-red-300' : 'border-gray-300'
+              }`}
+              rows={4}
+              placeholder={rejecting ? 'What needs to be corrected before it is submitted again' : 'Optional'}
+              autoFocus
+            />
+            {error && <p className="text-red-600 text-sm mt-1">{error}</p>}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className={`${
+                rejecting ? 'bg-red-600 hover:bg-red-700 disabled:bg-red-400' : 'bg-green-600 hover:bg-green-700 disabled:bg-green-400'
+              } text-white px-6 py-2 rounded-lg font-medium transition-colors`}
+            >
+              {rejecting ? 'Reject' : 'Approve'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
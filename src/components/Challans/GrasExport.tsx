@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Check, Copy, Download } from 'lucide-react';
+import { Challan, GrasForm } from '../../types';
+import { grasCopyText, grasFields, grasJson } from '../../services/grasChallan';
+
+interface GrasExportProps {
+  challan: Challan & { gras: GrasForm };
+}
+
+// The e-challan ready to paste into the portal, a field at a time or all at once
+export function GrasExport({ challan }: GrasExportProps) {
+  const [copied, setCopied] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const copy = async (key: string, text: string) => {
+    setError(null);
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(current => (current === key ? null : current)), 1500);
+    } catch {
+      setError('The browser would not allow copying; select the text instead');
+    }
+  };
+
+  const downloadJson = () => {
+    const blob = new Blob([grasJson(challan.gras)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${challan.challanNumber.replace(/[^A-Za-z0-9-]+/g, '_')}_gras.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-lg font-bold text-gray-900">E-Challan (GRAS) Form</h4>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => copy('all', grasCopyText(challan.gras))}
+            className="px-3 py-1.5 bg-purple-100 text-purple-700 rounded-lg hover:bg-purple-200 transition-colors text-sm flex items-center"
+          >
+            {copied === 'all' ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+            Copy All
+          </button>
+          <button
+            onClick={downloadJson}
+            className="px-3 py-1.5 bg-indigo-100 text-indigo-700 rounded-lg hover:bg-indigo-200 transition-colors text-sm flex items-center"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 text-sm">
+        {grasFields(challan.gras).map(field => (
+          <div key={field.label} className="flex items-start justify-between gap-4 p-3">
+            <span className="text-gray-600 w-48 shrink-0">{field.label}</span>
+            <span className="text-gray-900 flex-1 break-words">{field.value}</span>
+            <button
+              onClick={() => copy(field.label, field.value)}
+              className="p-1 text-gray-400 hover:text-purple-600 hover:bg-purple-50 rounded transition-colors"
+              title={`Copy ${field.label}`}
+            >
+              {copied === field.label ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
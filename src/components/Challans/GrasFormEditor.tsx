@@ -0,0 +1,152 @@
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { ChallanHead, GrasForm } from '../../types';
+import { amountInWords } from '../../services/amountInWords';
+import { GRAS_PAYMENT_TYPES, grasTotal } from '../../services/grasChallan';
+
+interface GrasFormEditorProps {
+  form: GrasForm;
+  onChange: (form: GrasForm) => void;
+  errors: Record<string, string>;
+  // Fills the form again from the document and its payment
+  onRefill?: () => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+type TextField = Exclude<keyof GrasForm, 'heads' | 'considerationAmount'>;
+
+// The e-challan as the portal lays it out: office, heads of account, then the party
+export function GrasFormEditor({ form, onChange, errors, onRefill, disabled }: GrasFormEditorProps) {
+  const total = grasTotal(form.heads);
+
+  const set = (field: TextField, value: string) => onChange({ ...form, [field]: value });
+
+  const setHead = (index: number, head: Partial<ChallanHead>) =>
+    onChange({ ...form, heads: form.heads.map((h, i) => (i === index ? { ...h, ...head } : h)) });
+
+  const text = (field: TextField, label: string, props: { placeholder?: string; upper?: boolean } = {}) => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="text"
+        value={form[field] ?? ''}
+        onChange={(e) => set(field, props.upper ? e.target.value.toUpperCase() : e.target.value)}
+        className={`${inputClass} ${errors[field] ? 'border-red-300' : 'border-gray-300'}`}
+        placeholder={props.placeholder}
+        disabled={disabled}
+      />
+      {errors[field] && <p className="text-red-600 text-xs mt-1">{errors[field]}</p>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">E-Challan (GRAS) Details</h4>
+        {onRefill && !disabled && (
+          <button
+            type="button"
+            onClick={onRefill}
+            className="text-sm text-blue-600 hover:text-blue-800 flex items-center"
+          >
+            <RefreshCw className="w-4 h-4 mr-1" />
+            Fill from Document
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {text('department', 'Department *')}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Type of Payment *</label>
+          <select
+            value={form.paymentType}
+            onChange={(e) => set('paymentType', e.target.value)}
+            className={`${inputClass} border-gray-300`}
+            disabled={disabled}
+          >
+            {GRAS_PAYMENT_TYPES.map(type => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+        </div>
+        {text('district', 'District *', { placeholder: 'e.g. Pune' })}
+        {text('office', 'Office Name *', { placeholder: 'e.g. Joint Sub Registrar Haveli 1' })}
+        {text('financialYear', 'Year *', { placeholder: '2026-27' })}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Heads of Account *</label>
+        <div className="space-y-2">
+          {form.heads.map((head, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={head.code}
+                onChange={(e) => setHead(index, { code: e.target.value.trim() })}
+                className="w-32 p-2 border border-gray-300 rounded-lg text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Code"
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                value={head.label}
+                onChange={(e) => setHead(index, { label: e.target.value })}
+                className={`${inputClass} border-gray-300 flex-1`}
+                placeholder="Description"
+                disabled={disabled}
+              />
+              <input
+                type="number"
+                value={head.amount || ''}
+                onChange={(e) => setHead(index, { amount: parseFloat(e.target.value) || 0 })}
+                className="w-32 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Amount (₹)"
+                min="0"
+                disabled={disabled}
+              />
+              <button
+                type="button"
+                onClick={() => onChange({ ...form, heads: form.heads.filter((_, i) => i !== index) })}
+                disabled={disabled || form.heads.length === 1}
+                className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-40 rounded-lg transition-colors"
+                title="Remove head"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        {errors.heads && <p className="text-red-600 text-xs mt-1">{errors.heads}</p>}
+        <div className="flex items-center justify-between text-sm mt-2">
+          {!disabled ? (
+            <button
+              type="button"
+              onClick={() => onChange({ ...form, heads: [...form.heads, { code: '', label: '', amount: 0 }] })}
+              className="text-blue-600 hover:text-blue-800 flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Head
+            </button>
+          ) : <span />}
+          <div className="text-right">
+            <p className="font-medium text-gray-900">Total: ₹{total.toLocaleString('en-IN')}</p>
+            {total > 0 && <p className="text-xs text-gray-500">{amountInWords(total)}</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {text('partyName', 'Party Name *')}
+        {text('partyPan', 'Party PAN', { placeholder: 'ABCDE1234F', upper: true })}
+        {text('partyMobile', 'Mobile')}
+        {text('partyPincode', 'PIN Code')}
+        <div className="sm:col-span-2">{text('partyAddress', 'Address *')}</div>
+        {text('otherPartyName', 'Second Party Name')}
+        {text('otherPartyPan', 'Second Party PAN', { placeholder: 'ABCDE1234F', upper: true })}
+        <div className="sm:col-span-2">{text('propertyDescription', 'Property Details *')}</div>
+      </div>
+    </div>
+  );
+}
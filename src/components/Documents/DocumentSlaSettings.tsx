@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react';
+import { Clock, RefreshCw, Save } from 'lucide-react';
+import { DocumentType } from '../../types';
+import { useDocuments } from '../../hooks/useDocuments';
+import { DEFAULT_DOCUMENT_SLAS, DocumentSlaConfig, SLA_START_LABELS } from '../../services/documentSla';
+
+// Edits how many days each document type may spend between tracked stages
+export function DocumentSlaSettings() {
+  const { slaConfig, updateSlaConfig } = useDocuments();
+  const [draft, setDraft] = useState<DocumentSlaConfig>(slaConfig);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setDraft(slaConfig);
+  }, [slaConfig]);
+
+  const handleDaysChange = (type: DocumentType, index: number, days: number) => {
+    setDraft(prev => ({
+      ...prev,
+      [type]: prev[type].map((rule, i) => (i === index ? { ...rule, days } : rule)),
+    }));
+  };
+
+  const handleSave = async () => {
+    const invalid = Object.values(draft).flat().some(rule => !Number.isInteger(rule.days) || rule.days < 1);
+    if (invalid) {
+      setMessage({ success: false, text: 'Every SLA must allow at least one whole day' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await updateSlaConfig(draft);
+      setMessage({ success: true, text: 'Document SLAs saved' });
+    } catch (error) {
+      setMessage({ success: false, text: error instanceof Error ? error.message : 'Failed to save SLAs' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+        <Clock className="w-5 h-5 mr-2 text-red-600" />
+        Document SLAs
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Days allowed between stages for each document type. Documents are flagged at risk when less than a fifth of the time is left.
+      </p>
+
+      <div className="space-y-6">
+        {(Object.keys(draft) as DocumentType[]).map(type => (
+          <div key={type}>
+            <h3 className="text-md font-medium text-gray-900 mb-3 capitalize">{type.replace('_', ' ')}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {draft[type].map((rule, index) => (
+                <label key={`${rule.from}-${rule.to}`} className="block">
+                  <span className="block text-sm text-gray-700 mb-1">
+                    {SLA_START_LABELS[rule.from]} &rarr; {SLA_START_LABELS[rule.to]}
+                  </span>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      min={1}
+                      value={rule.days}
+                      onChange={(e) => handleDaysChange(type, index, Number(e.target.value))}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <span className="text-sm text-gray-500">days</span>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {message && (
+        <p className={`mt-6 text-sm ${message.success ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={() => setDraft(DEFAULT_DOCUMENT_SLAS)}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          Restore Defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+        >
+          {saving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save SLAs
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { Flag } from 'lucide-react';
+import { format } from 'date-fns';
+import { Document } from '../../types';
+
+// Marks a document flagged for attention, e.g. after a cheque bounced
+export function FlagBadge({ document }: { document: Document }) {
+  if (!document.flagReason) return null;
+
+  return (
+    <span
+      title={`${document.flagReason}${document.flaggedAt ? ` (${format(document.flaggedAt, 'MMM dd, yyyy')})` : ''}`}
+      className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-red-100 text-red-800"
+    >
+      <Flag className="w-3 h-3 mr-1" />
+      FLAGGED
+    </span>
+  );
+}
@@ -0,0 +1,27 @@
+import { AlertTriangle, Clock } from 'lucide-react';
+import { Document } from '../../types';
+import { useDocuments } from '../../hooks/useDocuments';
+import { slaAlert } from '../../services/documentSla';
+import { stageLabel } from '../../services/documentWorkflow';
+import { format } from 'date-fns';
+
+// Flags a document whose next SLA is close to or past its deadline
+export function SlaBadge({ document }: { document: Document }) {
+  const { slaConfig } = useDocuments();
+  const alert = slaAlert(document, slaConfig);
+
+  if (!alert) return null;
+
+  const breached = alert.state === 'breached';
+  return (
+    <span
+      title={`${stageLabel(alert.rule.to)} due ${format(alert.dueAt, 'MMM dd, yyyy HH:mm')}`}
+      className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
+        breached ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+      }`}
+    >
+      {breached ? <AlertTriangle className="w-3 h-3 mr-1" /> : <Clock className="w-3 h-3 mr-1" />}
+      {breached ? 'SLA BREACHED' : 'SLA AT RISK'}
+    </span>
+  );
+}
@@ -1,10 +1,60 @@
 import React from 'react';
-import { Database, AlertCircle, CheckCircle, Settings, RefreshCw } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle, CloudOff, Settings, RefreshCw } from 'lucide-react';
 import { useDatabase } from '../../hooks/useDatabase';
 import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+
+const pluralize = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+function SyncConflicts() {
+  const { conflicts, resolveConflict } = useDatabase();
+
+  if (conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 mb-6">
+      <div className="flex items-start space-x-3">
+        <AlertTriangle className="w-5 h-5 text-orange-600 mt-0.5" />
+        <div className="flex-1">
+          <h3 className="text-orange-900 font-medium">
+            {pluralize(conflicts.length, 'offline change')} could not be synced
+          </h3>
+          <ul className="mt-3 space-y-3">
+            {conflicts.map(conflict => (
+              <li key={conflict.id} className="bg-white border border-orange-100 rounded-lg p-3">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{conflict.description}</p>
+                    <p className="text-xs text-gray-600">
+                      Made {format(conflict.queuedAt, 'dd MMM yyyy, HH:mm')} &middot; {conflict.error}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => resolveConflict(conflict, true)}
+                      className="bg-orange-600 hover:bg-orange-700 text-white px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                    >
+                      Keep mine
+                    </button>
+                    <button
+                      onClick={() => resolveConflict(conflict, false)}
+                      className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
 
 export function DatabaseStatus() {
-  const { isConnected, isLoading, error, reconnect } = useDatabase();
+  const { isConnected, isLoading, isSyncing, error, pendingChanges, reconnect, syncNow } = useDatabase();
   const navigate = useNavigate();
 
   if (isLoading) {
@@ -18,47 +68,90 @@ export function DatabaseStatus() {
     );
   }
 
+  if (isSyncing) {
+    return (
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+        <div className="flex items-center space-x-3">
+          <RefreshCw className="w-5 h-5 text-blue-600 animate-spin" />
+          <span className="text-blue-800 font-medium">
+            Syncing {pluralize(pendingChanges.length, 'offline change')}...
+          </span>
+        </div>
+      </div>
+    );
+  }
+
   if (!isConnected) {
     return (
-      <div className="bg-red-50 border border-red-200 rounded-lg p-4 mb-6">
-        <div className="flex items-start space-x-3">
-          <AlertCircle className="w-5 h-5 text-red-600 mt-0.5" />
-          <div className="flex-1">
-            <h3 className="text-red-900 font-medium">Database Connection Failed</h3>
-            <p className="text-red-800 text-sm mt-1">
-              {error || 'Unable to connect to MySQL database. The application is running in demo mode with mock data.'}
-            </p>
-            <div className="flex items-center space-x-3 mt-3">
-              <button
-                onClick={() => navigate('/settings')}
-                className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
-              >
-                <Settings className="w-4 h-4 mr-1" />
-                Configure Database
-              </button>
-              <button
-                onClick={reconnect}
-                className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
-              >
-                <RefreshCw className="w-4 h-4 mr-1" />
-                Retry Connection
-              </button>
+      <>
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+          <div className="flex items-start space-x-3">
+            {pendingChanges.length > 0 ? (
+              <CloudOff className="w-5 h-5 text-amber-600 mt-0.5" />
+            ) : (
+              <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5" />
+            )}
+            <div className="flex-1">
+              <h3 className="text-amber-900 font-medium">Working Offline</h3>
+              <p className="text-amber-800 text-sm mt-1">
+                {error || 'Unable to reach the server.'} Changes are saved on this device and sync automatically when the connection returns.
+              </p>
+              <p className="text-amber-900 text-sm font-medium mt-2">
+                {pendingChanges.length > 0
+                  ? `${pluralize(pendingChanges.length, 'change')} waiting to sync`
+                  : 'No changes waiting to sync'}
+              </p>
+              <div className="flex items-center space-x-3 mt-3">
+                <button
+                  onClick={() => navigate('/settings')}
+                  className="bg-amber-600 hover:bg-amber-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+                >
+                  <Settings className="w-4 h-4 mr-1" />
+                  Configure Database
+                </button>
+                <button
+                  onClick={reconnect}
+                  className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+                >
+                  <RefreshCw className="w-4 h-4 mr-1" />
+                  Retry Connection
+                </button>
+              </div>
             </div>
           </div>
         </div>
-      </div>
+        <SyncConflicts />
+      </>
     );
   }
 
   return (
-    <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
-      <div className="flex items-center space-x-3">
-        <CheckCircle className="w-5 h-5 text-green-600" />
-        <div>
-          <span className="text-green-900 font-medium">Database Connected</span>
-          <p className="text-green-800 text-sm">Successfully connected to MySQL database. All changes will be saved.</p>
+    <>
+      <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <div>
+              <span className="text-green-900 font-medium">Database Connected</span>
+              <p className="text-green-800 text-sm">
+                {pendingChanges.length > 0
+                  ? `${pluralize(pendingChanges.length, 'offline change')} waiting to sync.`
+                  : 'Successfully connected to MySQL database. All changes will be saved.'}
+              </p>
+            </div>
+          </div>
+          {pendingChanges.length > 0 && (
+            <button
+              onClick={syncNow}
+              className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Sync Now
+            </button>
+          )}
         </div>
       </div>
-    </div>
+      <SyncConflicts />
+    </>
   );
-}
\ No newline at end of file
+}
@@ -1,7 +1,7 @@
 import React from 'react';
-import { Menu, Bell, LogOut } from 'lucide-react';
+import { Menu, LogOut } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth.tsx';
-import { useGmail } from '../../hooks/useGmail.tsx';
+import { NotificationMenu } from './NotificationMenu';
 
 interface HeaderProps {
   onMenuClick: () => void;
@@ -9,7 +9,6 @@ interface HeaderProps {
 
 export function Header({ onMenuClick }: HeaderProps) {
   const { user, logout } = useAuth();
-  const { unreadCount } = useGmail();
 
   return (
     <header className="bg-white border-b border-gray-200 px-4 py-3">
@@ -33,14 +32,11 @@ export function Header({ onMenuClick }: HeaderProps) {
         </div>
 
         <div className="flex items-center space-x-4">
-          <button className="p-2 rounded-md text-gray-500 hover:text-gray-600 hover:bg-gray-100 relative">
-            <Bell className="w-6 h-6" />
-            {unreadCount > 0 && (
-              <span className="absolute -top-1 -right-1 w-4 h-4 bg-orange-500 rounded-full text-xs text-white flex items-center justify-center">
-                {unreadCount > 9 ? '9+' : unreadCount}
-              </span>
-            )}
-          </button>
+          <NotificationMenu
+            buttonClassName="p-2 rounded-md text-gray-500 hover:text-gray-600 hover:bg-gray-100"
+            iconClassName="w-6 h-6"
+            badgeClassName="bg-orange-500"
+          />
 
           <div className="flex items-center space-x-3">
             <div className="text-right">
@@ -1,9 +1,9 @@
 import React from 'react';
-import { Search, Bell, Plus, Menu } from 'lucide-react';
+import { Search, Plus, Menu } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
-import { useGmail } from '../../hooks/useGmail';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { OmServicesLogo } from '../Logo/OmServicesLogo';
+import { NotificationMenu } from './NotificationMenu';
 
 interface MobileHeaderProps {
   title: string;
@@ -14,7 +14,6 @@ interface MobileHeaderProps {
 
 export function MobileHeader({ title, icon: Icon, showSearch, onToggleSearch }: MobileHeaderProps) {
   const { user } = useAuth();
-  const { unreadCount } = useGmail();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -52,14 +51,11 @@ export function MobileHeader({ title, icon: Icon, showSearch, onToggleSearch }:
             <Search className="w-5 h-5" />
           </button>
           
-          <button className="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors relative">
-            <Bell className="w-5 h-5" />
-            {unreadCount > 0 && (
-              <span className="absolute -top-1 -right-1 w-4 h-4 bg-red-500 rounded-full text-xs text-white flex items-center justify-center">
-                {unreadCount > 9 ? '9+' : unreadCount}
-              </span>
-            )}
-          </button>
+          <NotificationMenu
+            buttonClassName="p-2 rounded-lg text-gray-500 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+            iconClassName="w-5 h-5"
+            badgeClassName="bg-red-500"
+          />
 
           {canCreateNew() && (
             <button
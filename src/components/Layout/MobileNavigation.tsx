@@ -8,22 +8,30 @@ import {
   Receipt,
   CheckSquare,
   Mail,
-  Clock,
-  Settings,
   Upload,
   Truck,
-  PenTool
+  PenTool,
+  LucideIcon
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { useGmail } from '../../hooks/useGmail';
 import { clsx } from 'clsx';
+import { PermissionCheck } from '../../services/accessPolicy';
+
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  permission: PermissionCheck | null;
+  badge?: number;
+}
 
 export function MobileNavigation() {
-  const { user, hasPermission } = useAuth();
+  const { can } = useAuth();
   const { unreadCount } = useGmail();
 
   // Core navigation items for all users
-  const coreItems = [
+  const coreItems: NavigationItem[] = [
     {
       name: 'Home',
       href: '/dashboard',
@@ -51,62 +59,53 @@ export function MobileNavigation() {
     },
   ];
 
-  // Role-specific items
-  const getRoleSpecificItem = () => {
-    switch (user?.role) {
-      case 'field_collection_staff':
-        return {
-          name: 'Collection',
-          href: '/collection',
-          icon: Upload,
-          permission: null,
-        };
-      case 'document_delivery_staff':
-        return {
-          name: 'Delivery',
-          href: '/delivery',
-          icon: Truck,
-          permission: null,
-        };
-      case 'data_entry_staff':
-        return {
-          name: 'Data Entry',
-          href: '/data-entry',
-          icon: PenTool,
-          permission: null,
-        };
-      case 'challan_staff':
-        return {
-          name: 'Challans',
-          href: '/challans',
-          icon: Receipt,
-          permission: { module: 'challans', action: 'read' },
-        };
-      case 'main_admin':
-      case 'staff_admin':
-        return {
-          name: 'Users',
-          href: '/users',
-          icon: Users,
-          permission: { module: 'users', action: 'read' },
-        };
-      default:
-        return {
-          name: 'Payments',
-          href: '/payments',
-          icon: CreditCard,
-          permission: { module: 'payments', action: 'read' },
-        };
-    }
-  };
+  // The fourth slot goes to the first of these the user is allowed to open
+  const workspaceItems: NavigationItem[] = [
+    {
+      name: 'Users',
+      href: '/users',
+      icon: Users,
+      permission: { module: 'users', action: 'read' },
+    },
+    {
+      name: 'Collection',
+      href: '/collection',
+      icon: Upload,
+      permission: { module: 'documents', action: 'collect' },
+    },
+    {
+      name: 'Delivery',
+      href: '/delivery',
+      icon: Truck,
+      permission: { module: 'documents', action: 'deliver' },
+    },
+    {
+      name: 'Data Entry',
+      href: '/data-entry',
+      icon: PenTool,
+      permission: { module: 'documents', action: 'data_entry' },
+    },
+    {
+      name: 'Challans',
+      href: '/challans',
+      icon: Receipt,
+      permission: { module: 'challans', action: 'read' },
+    },
+    {
+      name: 'Payments',
+      href: '/payments',
+      icon: CreditCard,
+      permission: { module: 'payments', action: 'read' },
+    },
+  ];
+
+  const isAllowed = (item: NavigationItem) =>
+    !item.permission || can(item.permission.module, item.permission.action);
 
-  const roleSpecificItem = getRoleSpecificItem();
-  const navigationItems = [...coreItems.slice(0, 3), roleSpecificItem, coreItems[3]];
+  const workspaceItem = workspaceItems.find(isAllowed);
+  const navigationItems = [...coreItems.slice(0, 3), ...(workspaceItem ? [workspaceItem] : []), coreItems[3]];
 
-  const filteredItems = navigationItems.filter(item => {
-    if (!item.permission) return true;
-    return hasPermission(item.permission.module, item.permission.action);
-  });
+  const filteredItems = navigationItems.filter(isAllowed);
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 z-30">
@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Mail } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { clsx } from 'clsx';
+import { AppNotification } from '../../types';
+import { useNotifications } from '../../hooks/useNotifications';
+import { useGmail } from '../../hooks/useGmail.tsx';
+
+interface NotificationMenuProps {
+  buttonClassName: string;
+  iconClassName: string;
+  badgeClassName: string;
+}
+
+const typeColors: Record<AppNotification['type'], string> = {
+  info: 'bg-blue-500',
+  success: 'bg-green-500',
+  warning: 'bg-orange-500',
+  error: 'bg-red-500',
+};
+
+// The bell in the header: app notifications plus a line for unread email
+export function NotificationMenu({ buttonClassName, iconClassName, badgeClassName }: NotificationMenuProps) {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const { unreadCount: unreadEmails } = useGmail();
+  const [open, setOpen] = useState(false);
+  const badge = unreadCount + unreadEmails;
+
+  const openNotification = async (notification: AppNotification) => {
+    setOpen(false);
+    if (!notification.isRead) await markRead(notification.id);
+    if (notification.actionUrl) navigate(notification.actionUrl);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className={clsx(buttonClassName, 'relative')}>
+        <Bell className={iconClassName} />
+        {badge > 0 && (
+          <span className={clsx('absolute -top-1 -right-1 w-4 h-4 rounded-full text-xs text-white flex items-center justify-center', badgeClassName)}>
+            {badge > 9 ? '9+' : badge}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-200 z-50 overflow-hidden">
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <p className="font-semibold text-gray-900">Notifications</p>
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-xs text-blue-600 hover:text-blue-800">
+                  Mark all read
+                </button>
+              )}
+            </div>
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {unreadEmails > 0 && (
+                <button
+                  onClick={() => { setOpen(false); navigate('/inbox'); }}
+                  className="w-full text-left px-4 py-3 hover:bg-gray-50 flex items-center text-sm text-gray-700"
+                >
+                  <Mail className="w-4 h-4 mr-2 text-orange-500" />
+                  {unreadEmails} unread {unreadEmails === 1 ? 'email' : 'emails'}
+                </button>
+              )}
+              {notifications.length === 0 && unreadEmails === 0 && (
+                <p className="px-4 py-6 text-center text-sm text-gray-500">Nothing new</p>
+              )}
+              {notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => openNotification(notification)}
+                  className={clsx('w-full text-left px-4 py-3 hover:bg-gray-50 flex items-start', !notification.isRead && 'bg-blue-50/50')}
+                >
+                  <span className={clsx('w-2 h-2 rounded-full mt-1.5 mr-3 shrink-0', notification.isRead ? 'bg-gray-300' : typeColors[notification.type])} />
+                  <span className="min-w-0">
+                    <span className={clsx('block text-sm text-gray-900', !notification.isRead && 'font-semibold')}>
+                      {notification.title}
+                    </span>
+                    <span className="block text-xs text-gray-600 mt-0.5 break-words">{notification.message}</span>
+                    <span className="block text-xs text-gray-400 mt-1">
+                      {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                    </span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
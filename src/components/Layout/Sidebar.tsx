@@ -14,12 +14,26 @@ import {
   CheckSquare,
   Mail,
   Clock as ClockIcon,
-  DollarSign
+  DollarSign,
+  History,
+  Landmark,
+  Hourglass,
+  ClipboardList,
+  LucideIcon
 } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth.tsx';
 import { useGmail } from '../../hooks/useGmail.tsx';
 import { clsx } from 'clsx';
 import { OmServicesLogo } from '../Logo/OmServicesLogo';
+import { PermissionCheck } from '../../services/accessPolicy';
+
+interface NavigationItem {
+  name: string;
+  href: string;
+  icon: LucideIcon;
+  permission: PermissionCheck | null;
+  badge?: number;
+}
 
 interface SidebarProps {
   isOpen: boolean;
@@ -27,10 +41,10 @@ interface SidebarProps {
 }
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
-  const { user, hasPermission } = useAuth();
+  const { user, can } = useAuth();
   const { unreadCount } = useGmail();
 
-  const navigationItems = [
+  const navigationItems: NavigationItem[] = [
     {
       name: 'Dashboard',
       href: '/dashboard',
@@ -55,6 +69,18 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
       icon: Receipt,
       permission: { module: 'challans', action: 'read' },
     },
+    {
+      name: 'Receivables',
+      href: '/receivables',
+      icon: Hourglass,
+      permission: { module: 'payments', action: 'read' },
+    },
+    {
+      name: 'Reconciliation',
+      href: '/reconciliation',
+      icon: Landmark,
+      permission: { module: 'payments', action: 'reconcile' },
+    },
     {
       name: 'Customers',
       href: '/customers',
@@ -73,6 +99,12 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
       icon: CheckSquare,
       permission: null, // Available to all users
     },
+    {
+      name: 'Task Templates',
+      href: '/task-templates',
+      icon: ClipboardList,
+      permission: { module: 'tasks', action: 'manage_templates' },
+    },
     {
       name: 'Inbox',
       href: '/inbox',
@@ -92,61 +124,47 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
       icon: DollarSign,
       permission: { module: 'salary', action: 'read' },
     },
-  ];
-
-  // Role-specific items
-  const roleSpecificItems = [];
-  
-  if (user?.role === 'field_collection_staff') {
-    roleSpecificItems.push({
+    {
       name: 'Collection Tasks',
       href: '/collection',
       icon: Upload,
-      permission: null,
-    });
-  }
-
-  if (user?.role === 'document_delivery_staff') {
-    roleSpecificItems.push({
+      permission: { module: 'documents', action: 'collect' },
+    },
+    {
       name: 'Delivery Tasks',
       href: '/delivery',
       icon: Truck,
-      permission: null,
-    });
-  }
-
-  if (user?.role === 'data_entry_staff') {
-    roleSpecificItems.push({
+      permission: { module: 'documents', action: 'deliver' },
+    },
+    {
       name: 'Data Entry Tasks',
       href: '/data-entry',
       icon: PenTool,
-      permission: null,
-    });
-  }
-
-  if (user?.role === 'main_admin' || user?.role === 'staff_admin') {
-    roleSpecificItems.push({
+      permission: { module: 'documents', action: 'data_entry' },
+    },
+    {
       name: 'User Management',
       href: '/users',
       icon: Users,
       permission: { module: 'users', action: 'read' },
-    });
-  }
-
-  if (user?.role === 'main_admin') {
-    roleSpecificItems.push({
+    },
+    {
+      name: 'Audit Log',
+      href: '/audit',
+      icon: History,
+      permission: { module: 'audit', action: 'read' },
+    },
+    {
       name: 'Settings',
       href: '/settings',
       icon: Settings,
-      permission: null,
-    });
-  }
-
-  const allItems = [...navigationItems, ...roleSpecificItems];
+      permission: { module: 'settings', action: 'manage' },
+    },
+  ];
 
-  const filteredItems = allItems.filter(item => {
+  const filteredItems = navigationItems.filter(item => {
     if (!item.permission) return true;
-    return hasPermission(item.permission.module, item.permission.action);
+    return can(item.permission.module, item.permission.action);
   });
 
   return (
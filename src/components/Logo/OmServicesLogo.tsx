@@ -1,5 +1,8 @@
 import React from 'react';
 
+// Also drawn onto generated receipts and invoices
+export const OM_SERVICES_LOGO_SRC = '/logo.png';
+
 interface OmServicesLogoProps {
   className?: string;
   size?: 'sm' | 'md' | 'lg';
@@ -15,7 +18,7 @@ export function OmServicesLogo({ className = '', size = 'md' }: OmServicesLogoPr
   return (
     <div className={`${sizeClasses[size]} ${className}`}>
       <img
-        src="/api/logo.png"
+        src={OM_SERVICES_LOGO_SRC}
         alt="Om Services Logo"
         className="w-full h-full object-contain rounded-lg"
         onError={(e) => {
@@ -16,6 +16,7 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
 import { useDocuments } from '../../hooks/useDocuments';
 import { usePayments } from '../../hooks/usePayments';
+import { revenueTotals } from '../../services/paymentLedger';
 import { MobileStatsGrid } from './MobileStatsGrid';
 import { MobileCard } from './MobileCard';
 import { MobileListItem } from './MobileListItem';
@@ -38,10 +39,9 @@ export function MobileDashboard() {
   };
 
   const getPaymentStats = () => {
-    const totalPayments = payments.reduce((sum, p) => sum + p.totalAmount, 0);
-    const pendingPayments = payments.reduce((sum, p) => sum + p.pendingAmount, 0);
+    const totals = revenueTotals(payments);
 
-    return { totalPayments, pendingPayments };
+    return { totalPayments: totals.billed, pendingPayments: totals.pending, refunded: totals.refunded };
   };
 
   const docStats = getDocumentStats();
@@ -208,6 +208,12 @@ export function MobileDashboard() {
                 <span className="text-gray-600">Pending:</span>
                 <span className="font-medium text-orange-600">₹{(paymentStats.pendingPayments / 100000).toFixed(1)}L</span>
               </div>
+              {paymentStats.refunded > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">Refunded:</span>
+                  <span className="font-medium text-red-600">₹{(paymentStats.refunded / 100000).toFixed(1)}L</span>
+                </div>
+              )}
             </div>
           </div>
           <div className="bg-green-100 p-3 rounded-lg">
@@ -12,6 +12,8 @@ interface MobileListItemProps {
   onMenuClick?: () => void;
   actions?: React.ReactNode;
   avatar?: React.ReactNode;
+  // Shown under the content, full width
+  footer?: React.ReactNode;
 }
 
 export function MobileListItem({
@@ -24,7 +26,8 @@ export function MobileListItem({
   onClick,
   onMenuClick,
   actions,
-  avatar
+  avatar,
+  footer
 }: MobileListItemProps) {
   return (
     <div 
@@ -83,6 +86,7 @@ export function MobileListItem({
           </div>
         </div>
       </div>
+      {footer && <div className="mt-3 pt-3 border-t border-gray-100">{footer}</div>}
     </div>
   );
 }
\ No newline at end of file
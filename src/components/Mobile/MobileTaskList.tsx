@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
-import { Search, Filter, CheckSquare, User, Calendar, Clock, Play, CheckCircle } from 'lucide-react';
+import { Search, Filter, CheckSquare, User, Calendar, Clock, Play, CheckCircle, ListChecks } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useTasks } from '../../hooks/useTasks';
 import { useAuth } from '../../hooks/useAuth';
-import { TaskStatus, TaskPriority } from '../../types/task';
+import { Task, TaskStatus, TaskPriority } from '../../types/task';
 import { format } from 'date-fns';
 import { MobileListItem } from './MobileListItem';
+import { TaskChecklist } from '../Tasks/TaskChecklist';
+import { checklistBlock } from '../../services/taskChecklist';
 
 const priorityColors: Record<TaskPriority, string> = {
   'low': 'bg-gray-100 text-gray-800',
@@ -25,15 +27,17 @@ const statusColors: Record<TaskStatus, string> = {
 
 export function MobileTaskList() {
   const navigate = useNavigate();
-  const { user } = useAuth();
-  const { tasks, updateTaskStatus, loading } = useTasks();
+  const { user, can } = useAuth();
+  const { tasks, updateTaskStatus, setChecklistItem, loading } = useTasks();
   const [searchTerm, setSearchTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [statusFilter, setStatusFilter] = useState<TaskStatus | 'all'>('all');
+  const [openChecklist, setOpenChecklist] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
 
   const filteredTasks = tasks.filter(task => {
-    // Show user's tasks or all tasks for admins
-    const canViewTask = user?.role === 'main_admin' || user?.role === 'staff_admin' || task.assignedTo === user?.id;
+    // Show user's tasks or all tasks for those allowed to see them
+    const canViewTask = can('tasks', 'read_all') || task.assignedTo === user?.id;
     if (!canViewTask) return false;
 
     const matchesSearch = 
@@ -46,20 +50,36 @@ export function MobileTaskList() {
   });
 
   const handleTaskAction = async (taskId: string, newStatus: TaskStatus) => {
+    setActionError('');
     try {
       await updateTaskStatus(taskId, newStatus);
     } catch (error) {
       console.error('Error updating task status:', error);
+      setActionError(error instanceof Error ? error.message : 'Failed to update task status');
     }
   };
 
-  const getTaskActions = (task: any) => {
-    if (task.assignedTo !== user?.id && user?.role !== 'main_admin' && user?.role !== 'staff_admin') {
+  const canAct = (task: Task) => task.assignedTo === user?.id || can('tasks', 'update');
+
+  const getTaskActions = (task: Task) => {
+    if (!canAct(task)) {
       return null;
     }
 
     return (
       <div className="flex items-center space-x-1">
+        {task.checklist.length > 0 && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setOpenChecklist(openChecklist === task.id ? null : task.id);
+            }}
+            className="p-1 rounded bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors flex items-center text-xs"
+          >
+            <ListChecks className="w-3 h-3 mr-0.5" />
+            {task.checklist.filter(item => item.isCompleted).length}/{task.checklist.length}
+          </button>
+        )}
         {task.status === 'pending' && (
           <button
             onClick={(e) => {
@@ -77,7 +97,8 @@ export function MobileTaskList() {
               e.stopPropagation();
               handleTaskAction(task.id, 'completed');
             }}
-            className="p-1 rounded bg-green-100 text-green-600 hover:bg-green-200 transition-colors"
+            disabled={Boolean(checklistBlock(task, 'completed'))}
+            className="p-1 rounded bg-green-100 text-green-600 hover:bg-green-200 disabled:opacity-50 transition-colors"
           >
             <CheckCircle className="w-3 h-3" />
           </button>
@@ -135,6 +156,10 @@ export function MobileTaskList() {
         </div>
       )}
 
+      {actionError && (
+        <p className="p-3 bg-red-50 border border-red-200 rounded-xl text-sm text-red-700">{actionError}</p>
+      )}
+
       {/* Task List */}
       <div className="space-y-3">
         {filteredTasks.map((task) => {
@@ -152,6 +177,16 @@ export function MobileTaskList() {
               badgeColor={statusColors[actualStatus]}
               onClick={() => navigate(`/tasks/${task.id}`)}
               actions={getTaskActions(task)}
+              footer={openChecklist === task.id && (
+                <div onClick={(e) => e.stopPropagation()}>
+                  <TaskChecklist
+                    task={task}
+                    canTick={canAct(task)}
+                    onToggle={(itemId, isCompleted) => setChecklistItem(task.id, itemId, isCompleted)}
+                    compact
+                  />
+                </div>
+              )}
             />
           );
         })}
@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
 import { X, Save, Receipt } from 'lucide-react';
+import { GrasForm } from '../../types';
 import { useChallans } from '../../hooks/useChallans';
 import { useDocuments } from '../../hooks/useDocuments';
+import { useGrasPrefill } from '../../hooks/useGrasPrefill';
+import { grasErrors, grasTotal } from '../../services/grasChallan';
+import { GrasFormEditor } from '../Challans/GrasFormEditor';
 
 interface CreateChallanModalProps {
   isOpen: boolean;
@@ -12,23 +16,24 @@ interface CreateChallanModalProps {
 export function CreateChallanModal({ isOpen, onClose, documentId }: CreateChallanModalProps) {
   const { createChallan, loading } = useChallans();
   const { documents } = useDocuments();
+  const { prefill } = useGrasPrefill();
   const [formData, setFormData] = useState({
     documentId: documentId || '',
-    amount: '',
     notes: '',
   });
+  const [editedGras, setEditedGras] = useState<GrasForm | null>(null);
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Follows the selected document until the user starts editing it
+  const gras = editedGras ?? (formData.documentId ? prefill(formData.documentId) : undefined);
+
   const validateForm = () => {
-    const newErrors: Record<string, string> = {};
+    const newErrors: Record<string, string> = gras ? grasErrors(gras) : {};
 
     if (!formData.documentId) {
       newErrors.documentId = 'Document selection is required';
     }
-    if (!formData.amount || parseFloat(formData.amount) <= 0) {
-      newErrors.amount = 'Valid amount is required';
-    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -42,16 +47,17 @@ export function CreateChallanModal({ isOpen, onClose, documentId }: CreateChalla
     try {
       await createChallan({
         documentId: formData.documentId,
-        amount: parseFloat(formData.amount),
+        amount: gras ? grasTotal(gras.heads) : 0,
         notes: formData.notes || undefined,
+        gras,
       });
       
       onClose();
       setFormData({
         documentId: '',
-        amount: '',
         notes: '',
       });
+      setEditedGras(null);
       setErrors({});
     } catch (error) {
       console.error('Error creating challan:', error);
@@ -62,7 +68,7 @@ export function CreateChallanModal({ isOpen, onClose, documentId }: CreateChalla
 
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900 flex items-center">
             <Receipt className="w-5 h-5 mr-2 text-purple-600" />
@@ -85,7 +91,10 @@ export function CreateChallanModal({ isOpen, onClose, documentId }: CreateChalla
               </label>
               <select
                 value={formData.documentId}
-                onChange={(e) => setFormData({...formData, documentId: e.target.value})}
+                onChange={(e) => {
+                  setFormData({...formData, documentId: e.target.value});
+                  setEditedGras(null);
+                }}
                 className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
                   errors.documentId ? 'border-red-300' : 'border-gray-300'
                 }`}
@@ -103,25 +112,15 @@ export function CreateChallanModal({ isOpen, onClose, documentId }: CreateChalla
               )}
             </div>
 
-            {/* Amount */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Challan Amount (₹) *
-              </label>
-              <input
-                type="number"
-                value={formData.amount}
-                onChange={(e) => setFormData({...formData, amount: e.target.value})}
-                className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                  errors.amount ? 'border-red-300' : 'border-gray-300'
-                }`}
-                placeholder="Enter challan amount"
-                min="0"
+            {/* E-challan form */}
+            {gras && (
+              <GrasFormEditor
+                form={gras}
+                onChange={setEditedGras}
+                errors={errors}
+                onRefill={() => setEditedGras(null)}
               />
-              {errors.amount && (
-                <p className="text-red-600 text-sm mt-1">{errors.amount}</p>
-              )}
-            </div>
+            )}
 
             {/* Notes */}
             <div>
@@ -1,7 +1,12 @@
-import React, { useState } from 'react';
-import { X, Save, CreditCard, Calculator } from 'lucide-react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { X, Save, CreditCard } from 'lucide-react';
 import { usePayments } from '../../hooks/usePayments';
 import { useDocuments } from '../../hooks/useDocuments';
+import { FeeLine, PaymentTransaction } from '../../types';
+import { calculateFees, dhcAmountOf, feeJurisdictions, paymentTotal } from '../../services/feeEngine';
+import { isInstrument, PAYMENT_METHOD_LABELS } from '../../services/paymentLedger';
+import { downloadReceiptPdf } from '../../services/receiptPdf';
+import { FeeBreakdown } from '../Payments/FeeBreakdown';
 
 interface CreatePaymentModalProps {
   isOpen: boolean;
@@ -10,25 +15,62 @@ interface CreatePaymentModalProps {
 }
 
 export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymentModalProps) {
-  const { createPayment, loading } = usePayments();
+  const { createPayment, loading, feeRates } = usePayments();
   const { documents } = useDocuments();
   const [formData, setFormData] = useState({
     documentId: documentId || '',
     agreementValue: '',
+    marketValue: '',
+    jurisdiction: '',
     considerationAmount: '',
-    dhcAmount: '',
     paidAmount: '',
-    paymentMethod: 'cheque' as 'cash' | 'cheque' | 'online' | 'dd',
+    paymentMethod: 'cheque' as PaymentTransaction['method'],
     paymentDate: new Date().toISOString().split('T')[0],
+    referenceNumber: '',
+    bankName: '',
+    instrumentDate: '',
     challanNumber: '',
   });
 
+  const [fees, setFees] = useState<FeeLine[]>([]);
+  const [downloadReceipt, setDownloadReceipt] = useState(true);
   const [errors, setErrors] = useState<Record<string, string>>({});
 
-  const calculateDHC = () => {
-    const consideration = parseFloat(formData.considerationAmount) || 0;
-    const dhc = Math.round(consideration * 0.05);
-    setFormData(prev => ({ ...prev, dhcAmount: dhc.toString() }));
+  const selectedDocument = documents.find(doc => doc.id === formData.documentId);
+  const considerationAmount = parseFloat(formData.considerationAmount) || 0;
+  const dhcAmount = dhcAmountOf(fees);
+  const totalAmount = paymentTotal(considerationAmount, dhcAmount, fees);
+  const paidAmount = parseFloat(formData.paidAmount) || 0;
+
+  const recalculateFees = useCallback(() => {
+    const agreementValue = parseFloat(formData.agreementValue) || 0;
+    if (!selectedDocument || agreementValue <= 0) {
+      setFees([]);
+      return;
+    }
+    setFees(calculateFees(feeRates, {
+      documentType: selectedDocument.documentType,
+      jurisdiction: formData.jurisdiction || undefined,
+      agreementValue,
+      marketValue: parseFloat(formData.marketValue) || undefined,
+      considerationAmount,
+    }));
+  }, [selectedDocument, formData.agreementValue, formData.marketValue, formData.jurisdiction, considerationAmount, feeRates]);
+
+  // Prefill the fees whenever something they depend on changes
+  useEffect(() => {
+    recalculateFees();
+  }, [recalculateFees]);
+
+  const handleAgreementValueChange = (value: string) => {
+    // The consideration usually equals the agreement value; follow it until edited
+    setFormData(prev => ({
+      ...prev,
+      agreementValue: value,
+      considerationAmount: prev.considerationAmount === '' || prev.considerationAmount === prev.agreementValue
+        ? value
+        : prev.considerationAmount,
+    }));
   };
 
   const validateForm = () => {
@@ -43,8 +85,14 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
     if (!formData.considerationAmount || parseFloat(formData.considerationAmount) <= 0) {
       newErrors.considerationAmount = 'Valid consideration amount is required';
     }
-    if (!formData.dhcAmount || parseFloat(formData.dhcAmount) <= 0) {
-      newErrors.dhcAmount = 'Valid DHC amount is required';
+    if (fees.length === 0) {
+      newErrors.fees = 'No fee rates apply to this document; add them under Settings → Fee Rates';
+    }
+    if (paidAmount < 0 || paidAmount > totalAmount) {
+      newErrors.paidAmount = 'The amount received cannot be more than the total';
+    }
+    if (paidAmount > 0 && !formData.paymentDate) {
+      newErrors.paymentDate = 'Enter the date the money was received';
     }
 
     setErrors(newErrors);
@@ -57,28 +105,51 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
     if (!validateForm()) return;
 
     try {
-      await createPayment({
+      const payment = await createPayment({
         documentId: formData.documentId,
         agreementValue: parseFloat(formData.agreementValue),
-        considerationAmount: parseFloat(formData.considerationAmount),
-        dhcAmount: parseFloat(formData.dhcAmount),
-        paidAmount: parseFloat(formData.paidAmount) || 0,
-        paymentMethod: formData.paymentMethod,
-        paymentDate: formData.paymentDate ? new Date(formData.paymentDate) : undefined,
+        marketValue: parseFloat(formData.marketValue) || undefined,
+        jurisdiction: formData.jurisdiction || undefined,
+        considerationAmount,
+        dhcAmount,
+        fees,
         challanNumber: formData.challanNumber || undefined,
+        // The first instalment, if one was handed over with the paperwork
+        transactions: paidAmount > 0
+          ? [{
+              amount: paidAmount,
+              method: formData.paymentMethod,
+              transactionDate: new Date(formData.paymentDate),
+              referenceNumber: formData.referenceNumber || undefined,
+              bankName: isInstrument(formData.paymentMethod) ? formData.bankName || undefined : undefined,
+              instrumentDate: isInstrument(formData.paymentMethod) && formData.instrumentDate
+                ? new Date(formData.instrumentDate)
+                : undefined,
+            }]
+          : [],
       });
-      
+
+      const [receipt] = payment.receipts;
+      if (downloadReceipt && receipt) {
+        await downloadReceiptPdf({ receipt, payment, document: selectedDocument });
+      }
+
       onClose();
       setFormData({
         documentId: '',
         agreementValue: '',
+        marketValue: '',
+        jurisdiction: '',
         considerationAmount: '',
-        dhcAmount: '',
         paidAmount: '',
         paymentMethod: 'cheque',
         paymentDate: new Date().toISOString().split('T')[0],
+        referenceNumber: '',
+        bankName: '',
+        instrumentDate: '',
         challanNumber: '',
       });
+      setFees([]);
       setErrors({});
     } catch (error) {
       console.error('Error creating payment:', error);
@@ -138,7 +209,7 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
               <input
                 type="number"
                 value={formData.agreementValue}
-                onChange={(e) => setFormData({...formData, agreementValue: e.target.value})}
+                onChange={(e) => handleAgreementValueChange(e.target.value)}
                 className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
                   errors.agreementValue ? 'border-red-300' : 'border-gray-300'
                 }`}
@@ -171,45 +242,55 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                DHC Amount (₹) *
+                Market Value (₹)
               </label>
-              <div className="flex space-x-2">
-                <input
-                  type="number"
-                  value={formData.dhcAmount}
-                  onChange={(e) => setFormData({...formData, dhcAmount: e.target.value})}
-                  className={`flex-1 p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                    errors.dhcAmount ? 'border-red-300' : 'border-gray-300'
-                  }`}
-                  placeholder="DHC amount"
-                  min="0"
-                />
-                <button
-                  type="button"
-                  onClick={calculateDHC}
-                  className="px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
-                  title="Calculate 5% of consideration amount"
-                >
-                  <Calculator className="w-4 h-4" />
-                </button>
-              </div>
-              {errors.dhcAmount && (
-                <p className="text-red-600 text-sm mt-1">{errors.dhcAmount}</p>
-              )}
+              <input
+                type="number"
+                value={formData.marketValue}
+                onChange={(e) => setFormData({...formData, marketValue: e.target.value})}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Ready reckoner value, if higher"
+                min="0"
+              />
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Paid Amount (₹)
+                Jurisdiction
+              </label>
+              <select
+                value={formData.jurisdiction}
+                onChange={(e) => setFormData({...formData, jurisdiction: e.target.value})}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Other</option>
+                {feeJurisdictions(feeRates).map(jurisdiction => (
+                  <option key={jurisdiction} value={jurisdiction}>{jurisdiction}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="md:col-span-2">
+              <FeeBreakdown fees={fees} onChange={setFees} onRecalculate={recalculateFees} error={errors.fees} />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Amount Received Now (₹)
               </label>
               <input
                 type="number"
                 value={formData.paidAmount}
                 onChange={(e) => setFormData({...formData, paidAmount: e.target.value})}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Amount paid so far"
+                className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.paidAmount ? 'border-red-300' : 'border-gray-300'
+                }`}
+                placeholder="First instalment, if any"
                 min="0"
               />
+              {errors.paidAmount && (
+                <p className="text-red-600 text-sm mt-1">{errors.paidAmount}</p>
+              )}
             </div>
 
             {/* Payment Details */}
@@ -219,13 +300,12 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
               </label>
               <select
                 value={formData.paymentMethod}
-                onChange={(e) => setFormData({...formData, paymentMethod: e.target.value as any})}
+                onChange={(e) => setFormData({...formData, paymentMethod: e.target.value as PaymentTransaction['method']})}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
               >
-                <option value="cash">Cash</option>
-                <option value="cheque">Cheque</option>
-                <option value="online">Online Transfer</option>
-                <option value="dd">Demand Draft</option>
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentTransaction['method'][]).map(method => (
+                  <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                ))}
               </select>
             </div>
 
@@ -237,10 +317,58 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
                 type="date"
                 value={formData.paymentDate}
                 onChange={(e) => setFormData({...formData, paymentDate: e.target.value})}
+                className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.paymentDate ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {errors.paymentDate && (
+                <p className="text-red-600 text-sm mt-1">{errors.paymentDate}</p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reference Number
+              </label>
+              <input
+                type="text"
+                value={formData.referenceNumber}
+                onChange={(e) => setFormData({...formData, referenceNumber: e.target.value})}
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Cheque/DD number or transaction ID"
               />
             </div>
 
+            {isInstrument(formData.paymentMethod) && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Bank
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.bankName}
+                    onChange={(e) => setFormData({...formData, bankName: e.target.value})}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Issuing bank"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {formData.paymentMethod === 'dd' ? 'DD' : 'Cheque'} Date
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.instrumentDate}
+                    onChange={(e) => setFormData({...formData, instrumentDate: e.target.value})}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave blank if dated the day received</p>
+                </div>
+              </>
+            )}
+
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Challan Number
@@ -256,26 +384,28 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
           </div>
 
           {/* Summary */}
-          {formData.considerationAmount && formData.dhcAmount && (
+          {formData.considerationAmount && fees.length > 0 && (
             <div className="mt-6 p-4 bg-gray-50 rounded-lg">
               <h4 className="text-sm font-medium text-gray-900 mb-2">Payment Summary</h4>
               <div className="space-y-1 text-sm">
                 <div className="flex justify-between">
                   <span>Consideration Amount:</span>
-                  <span>₹{parseFloat(formData.considerationAmount || '0').toLocaleString('en-IN')}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>DHC Amount:</span>
-                  <span>₹{parseFloat(formData.dhcAmount || '0').toLocaleString('en-IN')}</span>
+                  <span>₹{considerationAmount.toLocaleString('en-IN')}</span>
                 </div>
+                {fees.map((line, index) => (
+                  <div key={`${line.component}-${index}`} className="flex justify-between">
+                    <span>{line.label}:</span>
+                    <span>₹{line.amount.toLocaleString('en-IN')}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between font-medium border-t pt-1">
                   <span>Total Amount:</span>
-                  <span>₹{(parseFloat(formData.considerationAmount || '0') + parseFloat(formData.dhcAmount || '0')).toLocaleString('en-IN')}</span>
+                  <span>₹{totalAmount.toLocaleString('en-IN')}</span>
                 </div>
-                {formData.paidAmount && (
+                {paidAmount > 0 && (
                   <div className="flex justify-between text-green-600">
-                    <span>Paid Amount:</span>
-                    <span>₹{parseFloat(formData.paidAmount).toLocaleString('en-IN')}</span>
+                    <span>Received Now:</span>
+                    <span>₹{paidAmount.toLocaleString('en-IN')}</span>
                   </div>
                 )}
               </div>
@@ -283,7 +413,18 @@ export function CreatePaymentModal({ isOpen, onClose, documentId }: CreatePaymen
           )}
 
           {/* Actions */}
-          <div className="flex justify-end space-x-3 mt-8 pt-6 border-t border-gray-200">
+          <div className="flex items-center justify-end space-x-3 mt-8 pt-6 border-t border-gray-200">
+            {paidAmount > 0 && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mr-auto">
+                <input
+                  type="checkbox"
+                  checked={downloadReceipt}
+                  onChange={(e) => setDownloadReceipt(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Download receipt</span>
+              </label>
+            )}
             <button
               type="button"
               onClick={onClose}
@@ -6,6 +6,7 @@ import { useDocuments } from '../../hooks/useDocuments';
 import { useCustomers } from '../../hooks/useCustomers';
 import { useBuilders } from '../../hooks/useBuilders';
 import { TaskType, TaskPriority } from '../../types/task';
+import { missingRequiredFields, requiredFieldLabel } from '../../services/taskChecklist';
 
 interface CreateTaskModalProps {
   isOpen: boolean;
@@ -13,13 +14,14 @@ interface CreateTaskModalProps {
 }
 
 export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
-  const { createTask, loading } = useTasks();
+  const { tasks, taskTemplates, createTask, createTaskFromTemplate, loading } = useTasks();
   const { users } = useUsers();
   const { documents } = useDocuments();
   const { customers } = useCustomers();
   const { builders } = useBuilders();
   
   const [formData, setFormData] = useState({
+    templateId: '',
     title: '',
     description: '',
     type: 'custom' as TaskType,
@@ -31,10 +33,32 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
     dueDate: '',
     estimatedHours: '',
     tags: '',
+    dependencies: [] as string[],
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  // Archived templates stay for the tasks already made from them
+  const offeredTemplates = taskTemplates.filter(t => !t.isArchived);
+  const template = offeredTemplates.find(t => t.id === formData.templateId);
+  // Left unassigned, a template with rules picks the assignee itself
+  const autoAssigns = Boolean(template?.autoAssignmentRules);
+
+  const handleTemplateChange = (templateId: string) => {
+    const chosen = offeredTemplates.find(t => t.id === templateId);
+    setFormData({
+      ...formData,
+      templateId,
+      ...(chosen ? {
+        title: chosen.name,
+        description: chosen.description,
+        type: chosen.type,
+        priority: chosen.defaultPriority,
+        estimatedHours: String(chosen.estimatedHours),
+      } : {}),
+    });
+  };
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {};
 
@@ -44,9 +68,13 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
     if (!formData.description.trim()) {
       newErrors.description = 'Task description is required';
     }
-    if (!formData.assignedTo) {
+    if (!formData.assignedTo && !autoAssigns) {
       newErrors.assignedTo = 'Please assign the task to someone';
     }
+    const missing = template ? missingRequiredFields(template, formData) : [];
+    if (template && missing.length > 0) {
+      newErrors.template = `This template needs: ${missing.map(requiredFieldLabel).join(', ')}`;
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -70,11 +98,17 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
         dueDate: formData.dueDate ? new Date(formData.dueDate) : undefined,
         estimatedHours: formData.estimatedHours ? parseFloat(formData.estimatedHours) : undefined,
         tags: formData.tags ? formData.tags.split(',').map(tag => tag.trim()).filter(Boolean) : [],
+        dependencies: formData.dependencies,
       };
 
-      await createTask(taskData);
+      if (template) {
+        await createTaskFromTemplate(template.id, taskData);
+      } else {
+        await createTask(taskData);
+      }
       onClose();
       setFormData({
+        templateId: '',
         title: '',
         description: '',
         type: 'custom',
@@ -86,10 +120,12 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
         dueDate: '',
         estimatedHours: '',
         tags: '',
+        dependencies: [],
       });
       setErrors({});
     } catch (error) {
       console.error('Error creating task:', error);
+      setErrors({ submit: error instanceof Error ? error.message : 'Failed to create task' });
     }
   };
 
@@ -119,6 +155,32 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
                 <CheckSquare className="w-4 h-4 mr-2 text-blue-600" />
                 Task Information
               </h4>
+
+              {offeredTemplates.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Template
+                  </label>
+                  <select
+                    value={formData.templateId}
+                    onChange={(e) => handleTemplateChange(e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">No template</option>
+                    {offeredTemplates.map(t => (
+                      <option key={t.id} value={t.id}>{t.name} (v{t.version})</option>
+                    ))}
+                  </select>
+                  {errors.template && (
+                    <p className="text-red-600 text-sm mt-1">{errors.template}</p>
+                  )}
+                  {template && template.checklist.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Comes with a checklist of {template.checklist.length} items, {template.checklist.filter(item => item.isRequired).length} required
+                    </p>
+                  )}
+                </div>
+              )}
               
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -213,7 +275,7 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
                     errors.assignedTo ? 'border-red-300' : 'border-gray-300'
                   }`}
                 >
-                  <option value="">Select user</option>
+                  <option value="">{autoAssigns ? 'Assign automatically' : 'Select user'}</option>
                   {users.filter(u => u.isActive).map(user => (
                     <option key={user.id} value={user.id}>
                       {user.name} ({user.role.replace('_', ' ')})
@@ -223,6 +285,11 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
                 {errors.assignedTo && (
                   <p className="text-red-600 text-sm mt-1">{errors.assignedTo}</p>
                 )}
+                {autoAssigns && !formData.assignedTo && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Goes to the {template?.autoAssignmentRules?.role?.replace(/_/g, ' ') ?? 'staff member'} with the lightest load who is in today
+                  </p>
+                )}
               </div>
 
               <div>
@@ -301,6 +368,31 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
                 />
                 <p className="text-xs text-gray-500 mt-1">Separate multiple tags with commas</p>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Depends On
+                </label>
+                <select
+                  multiple
+                  value={formData.dependencies}
+                  onChange={(e) => setFormData({
+                    ...formData,
+                    dependencies: Array.from(e.target.selectedOptions, option => option.value),
+                  })}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  size={4}
+                >
+                  {tasks
+                    .filter(task => task.status !== 'completed' && task.status !== 'cancelled')
+                    .map(task => (
+                      <option key={task.id} value={task.id}>
+                        {task.taskNumber ? `${task.taskNumber} - ${task.title}` : task.title}
+                      </option>
+                    ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">The task cannot start until these are completed</p>
+              </div>
             </div>
           </div>
 
@@ -321,6 +413,10 @@ export function CreateTaskModal({ isOpen, onClose }: CreateTaskModalProps) {
             </div>
           </div>
 
+          {errors.submit && (
+            <p className="mt-6 text-sm text-red-600">{errors.submit}</p>
+          )}
+
           {/* Actions */}
           <div className="flex justify-end space-x-3 mt-8 pt-6 border-t border-gray-200">
             <button
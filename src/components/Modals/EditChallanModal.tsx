@@ -1,7 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, Receipt } from 'lucide-react';
-import { Challan } from '../../types';
+import { X, Save, Receipt, FileText, Send } from 'lucide-react';
+import { Challan, GrasForm } from '../../types';
 import { useChallans } from '../../hooks/useChallans';
+import { useGrasPrefill } from '../../hooks/useGrasPrefill';
+import { grasErrors, grasTotal } from '../../services/grasChallan';
+import { rejectionOf } from '../../services/challanReview';
+import { GrasFormEditor } from '../Challans/GrasFormEditor';
 
 interface EditChallanModalProps {
   isOpen: boolean;
@@ -10,12 +14,13 @@ interface EditChallanModalProps {
 }
 
 export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalProps) {
-  const { updateChallan, loading } = useChallans();
+  const { updateChallan, submitChallan, loading } = useChallans();
+  const { prefill } = useGrasPrefill();
   const [formData, setFormData] = useState({
     amount: '',
     notes: '',
-    status: 'draft' as 'draft' | 'submitted' | 'approved' | 'rejected',
   });
+  const [gras, setGras] = useState<GrasForm | undefined>(undefined);
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
@@ -24,15 +29,15 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
       setFormData({
         amount: challan.amount.toString(),
         notes: challan.notes || '',
-        status: challan.status,
       });
+      setGras(challan.gras);
     }
   }, [challan]);
 
   const validateForm = () => {
-    const newErrors: Record<string, string> = {};
+    const newErrors: Record<string, string> = gras ? grasErrors(gras) : {};
 
-    if (!formData.amount || parseFloat(formData.amount) <= 0) {
+    if (!gras && (!formData.amount || parseFloat(formData.amount) <= 0)) {
       newErrors.amount = 'Valid amount is required';
     }
 
@@ -40,17 +45,22 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
+  // Approved challans are final and submitted ones are with the reviewer
+  const locked = challan.status === 'approved' || challan.status === 'submitted';
+  const rejection = rejectionOf(challan);
+
+  const save = async (resubmit: boolean) => {
     if (!validateForm()) return;
 
     try {
       await updateChallan(challan.id, {
-        amount: parseFloat(formData.amount),
+        amount: gras ? grasTotal(gras.heads) : parseFloat(formData.amount),
         notes: formData.notes || undefined,
-        status: formData.status,
+        gras,
       });
+      if (resubmit) {
+        await submitChallan(challan.id);
+      }
       
       onClose();
       setErrors({});
@@ -59,11 +69,16 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save(false);
+  };
+
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
         <div className="flex items-center justify-between p-6 border-b border-gray-200">
           <h3 className="text-lg font-semibold text-gray-900 flex items-center">
             <Receipt className="w-5 h-5 mr-2 text-purple-600" />
@@ -85,44 +100,57 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
               <p className="text-sm text-gray-600">Challan Number: <span className="font-medium">{challan.challanNumber}</span></p>
             </div>
 
-            {/* Amount */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Challan Amount (₹) *
-              </label>
-              <input
-                type="number"
-                value={formData.amount}
-                onChange={(e) => setFormData({...formData, amount: e.target.value})}
-                className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                  errors.amount ? 'border-red-300' : 'border-gray-300'
-                }`}
-                placeholder="Enter challan amount"
-                min="0"
-                disabled={challan.status === 'approved'}
-              />
-              {errors.amount && (
-                <p className="text-red-600 text-sm mt-1">{errors.amount}</p>
-              )}
-            </div>
+            {rejection && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">
+                  <strong>Rejected by {rejection.reviewedByName ?? 'a reviewer'}:</strong> {rejection.comment}
+                </p>
+                <p className="text-xs text-red-700 mt-1">
+                  Correct the challan and resubmit it; version {challan.versions.length + 1} will show what changed.
+                </p>
+              </div>
+            )}
 
-            {/* Status */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Status
-              </label>
-              <select
-                value={formData.status}
-                onChange={(e) => setFormData({...formData, status: e.target.value as any})}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                disabled={challan.status === 'approved'}
-              >
-                <option value="draft">Draft</option>
-                <option value="submitted">Submitted</option>
-                <option value="approved">Approved</option>
-                <option value="rejected">Rejected</option>
-              </select>
-            </div>
+            {/* E-challan form, or the bare amount for challans made before it */}
+            {gras ? (
+              <GrasFormEditor
+                form={gras}
+                onChange={setGras}
+                errors={errors}
+                onRefill={() => setGras(prefill(challan.documentId) ?? gras)}
+                disabled={locked}
+              />
+            ) : (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Challan Amount (₹) *
+                </label>
+                <input
+                  type="number"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({...formData, amount: e.target.value})}
+                  className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    errors.amount ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                  placeholder="Enter challan amount"
+                  min="0"
+                  disabled={locked}
+                />
+                {errors.amount && (
+                  <p className="text-red-600 text-sm mt-1">{errors.amount}</p>
+                )}
+                {!locked && (
+                  <button
+                    type="button"
+                    onClick={() => setGras(prefill(challan.documentId))}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-800 flex items-center"
+                  >
+                    <FileText className="w-4 h-4 mr-1" />
+                    Fill E-Challan Form
+                  </button>
+                )}
+              </div>
+            )}
 
             {/* Notes */}
             <div>
@@ -135,6 +163,7 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
                 className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 resize-none"
                 rows={3}
                 placeholder="Add any notes about this challan..."
+                disabled={locked}
               />
             </div>
 
@@ -145,6 +174,13 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
                 </p>
               </div>
             )}
+            {challan.status === 'submitted' && (
+              <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                <p className="text-sm text-blue-800">
+                  <strong>Note:</strong> This challan is waiting for review. It can be revised if it is rejected.
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Actions */}
@@ -156,9 +192,20 @@ export function EditChallanModal({ isOpen, onClose, challan }: EditChallanModalP
             >
               Cancel
             </button>
+            {(challan.status === 'draft' || challan.status === 'rejected') && (
+              <button
+                type="button"
+                onClick={() => save(true)}
+                disabled={loading}
+                className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-2 rounded-lg font-medium transition-colors flex items-center"
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {challan.status === 'rejected' ? 'Save & Resubmit' : 'Save & Submit'}
+              </button>
+            )}
             <button
               type="submit"
-              disabled={loading || challan.status === 'approved'}
+              disabled={loading || locked}
               className="bg-purple-600 hover:bg-purple-700 disabled:bg-purple-400 text-white px-6 py-2 rounded-lg font-medium transition-colors flex items-center"
             >
               {loading ? (
@@ -2,6 +2,10 @@ import React, { useState, useEffect } from 'react';
 import { X, Save, User, Building, FileText, MapPin } from 'lucide-react';
 import { Document, DocumentType, DocumentStatus } from '../../types';
 import { useDocuments } from '../../hooks/useDocuments';
+import { useAuth } from '../../hooks/useAuth';
+import { usePayments } from '../../hooks/usePayments';
+import { useChallans } from '../../hooks/useChallans';
+import { nextStatuses, stageLabel } from '../../services/documentWorkflow';
 
 interface EditDocumentModalProps {
   isOpen: boolean;
@@ -10,7 +14,10 @@ interface EditDocumentModalProps {
 }
 
 export function EditDocumentModal({ isOpen, onClose, document }: EditDocumentModalProps) {
-  const { updateDocument, loading } = useDocuments();
+  const { updateDocument, updateStatus, loading } = useDocuments();
+  const { user } = useAuth();
+  const { getPaymentsByDocument } = usePayments();
+  const { getChallansByDocument } = useChallans();
   const [formData, setFormData] = useState({
     customerName: '',
     customerPhone: '',
@@ -24,6 +31,18 @@ export function EditDocumentModal({ isOpen, onClose, document }: EditDocumentMod
 
   const [errors, setErrors] = useState<Record<string, string>>({});
 
+  const workflowContext = {
+    challans: getChallansByDocument(document.id),
+    payments: getPaymentsByDocument(document.id),
+  };
+  // Only the current status and the moves this user may make right now
+  const statusOptions = [
+    document.status,
+    ...nextStatuses(user, document.status, workflowContext)
+      .filter(step => !step.blockedBy)
+      .map(step => step.status),
+  ];
+
   useEffect(() => {
     if (document) {
       setFormData({
@@ -72,14 +91,17 @@ export function EditDocumentModal({ isOpen, onClose, document }: EditDocumentMod
         builderName: formData.builderName,
         propertyDetails: formData.propertyDetails,
         documentType: formData.documentType,
-        status: formData.status,
         assignedTo: formData.assignedTo || undefined,
       });
+      if (formData.status !== document.status) {
+        await updateStatus(document.id, formData.status, workflowContext);
+      }
       
       onClose();
       setErrors({});
     } catch (error) {
       console.error('Error updating document:', error);
+      setErrors({ status: error instanceof Error ? error.message : 'Failed to update document' });
     }
   };
 
@@ -194,15 +216,13 @@ export function EditDocumentModal({ isOpen, onClose, document }: EditDocumentMod
                   onChange={(e) => setFormData({...formData, status: e.target.value as DocumentStatus})}
                   className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                 >
-                  <option value="pending_collection">Pending Collection</option>
-                  <option value="collected">Collected</option>
-                  <option value="data_entry_pending">Data Entry Pending</option>
-                  <option value="data_entry_completed">Data Entry Completed</option>
-                  <option value="registration_pending">Registration Pending</option>
-                  <option value="registered">Registered</option>
-                  <option value="ready_for_delivery">Ready for Delivery</option>
-                  <option value="delivered">Delivered</option>
+                  {statusOptions.map(status => (
+                    <option key={status} value={status}>{stageLabel(status)}</option>
+                  ))}
                 </select>
+                {errors.status && (
+                  <p className="text-red-600 text-sm mt-1">{errors.status}</p>
+                )}
               </div>
 
               <div>
@@ -1,8 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { X, Save, CreditCard, Calculator } from 'lucide-react';
-import { Payment } from '../../types';
+import { X, Save, CreditCard } from 'lucide-react';
+import { FeeLine, Payment } from '../../types';
 import { usePayments } from '../../hooks/usePayments';
+import { useDocuments } from '../../hooks/useDocuments';
 import { useAuth } from '../../hooks/useAuth';
+import { calculateFees, dhcAmountOf, FEE_COMPONENT_LABELS, feeJurisdictions, paymentTotal } from '../../services/feeEngine';
+import { FeeBreakdown } from '../Payments/FeeBreakdown';
+
+// Payments recorded before itemised fees only have a DHC amount
+const feesOf = (payment: Payment): FeeLine[] =>
+  payment.fees.length > 0 || payment.dhcAmount <= 0
+    ? payment.fees
+    : [{ component: 'dhc', label: FEE_COMPONENT_LABELS.dhc, amount: payment.dhcAmount, explanation: 'Entered manually' }];
 
 interface EditPaymentModalProps {
   isOpen: boolean;
@@ -11,18 +20,18 @@ interface EditPaymentModalProps {
 }
 
 export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalProps) {
-  const { updatePayment, loading } = usePayments();
+  const { updatePayment, loading, feeRates } = usePayments();
+  const { getDocument } = useDocuments();
   const { user } = useAuth();
   const [formData, setFormData] = useState({
     agreementValue: '',
+    marketValue: '',
+    jurisdiction: '',
     considerationAmount: '',
-    dhcAmount: '',
-    paidAmount: '',
-    paymentMethod: 'cheque' as 'cash' | 'cheque' | 'online' | 'dd',
-    paymentDate: '',
     challanNumber: '',
   });
 
+  const [fees, setFees] = useState<FeeLine[]>([]);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const canEditAmounts = user?.role === 'main_admin';
 
@@ -30,20 +39,29 @@ export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalP
     if (payment) {
       setFormData({
         agreementValue: payment.agreementValue.toString(),
+        marketValue: payment.marketValue?.toString() ?? '',
+        jurisdiction: payment.jurisdiction ?? '',
         considerationAmount: payment.considerationAmount.toString(),
-        dhcAmount: payment.dhcAmount.toString(),
-        paidAmount: payment.paidAmount.toString(),
-        paymentMethod: payment.paymentMethod || 'cheque',
-        paymentDate: payment.paymentDate ? payment.paymentDate.toISOString().split('T')[0] : '',
         challanNumber: payment.challanNumber || '',
       });
+      setFees(feesOf(payment));
     }
   }, [payment]);
 
-  const calculateDHC = () => {
-    const consideration = parseFloat(formData.considerationAmount) || 0;
-    const dhc = Math.round(consideration * 0.05);
-    setFormData(prev => ({ ...prev, dhcAmount: dhc.toString() }));
+  const considerationAmount = parseFloat(formData.considerationAmount) || 0;
+  const totalAmount = paymentTotal(considerationAmount, dhcAmountOf(fees), fees);
+
+  // Stored fees are kept as quoted; recalculating applies today's rates
+  const recalculateFees = () => {
+    const document = getDocument(payment.documentId);
+    if (!document) return;
+    setFees(calculateFees(feeRates, {
+      documentType: document.documentType,
+      jurisdiction: formData.jurisdiction || undefined,
+      agreementValue: parseFloat(formData.agreementValue) || 0,
+      marketValue: parseFloat(formData.marketValue) || undefined,
+      considerationAmount,
+    }));
   };
 
   const validateForm = () => {
@@ -56,8 +74,8 @@ export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalP
       if (!formData.considerationAmount || parseFloat(formData.considerationAmount) <= 0) {
         newErrors.considerationAmount = 'Valid consideration amount is required';
       }
-      if (!formData.dhcAmount || parseFloat(formData.dhcAmount) <= 0) {
-        newErrors.dhcAmount = 'Valid DHC amount is required';
+      if (fees.length === 0) {
+        newErrors.fees = 'Calculate or enter the fees for this payment';
       }
     }
 
@@ -71,18 +89,19 @@ export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalP
     if (!validateForm()) return;
 
     try {
+      // Money received is recorded in the payment's transactions, not here
       const updateData: Partial<Payment> = {
-        paidAmount: parseFloat(formData.paidAmount) || 0,
-        paymentMethod: formData.paymentMethod,
-        paymentDate: formData.paymentDate ? new Date(formData.paymentDate) : undefined,
         challanNumber: formData.challanNumber || undefined,
       };
 
       // Only allow main admin to edit amounts
       if (canEditAmounts) {
         updateData.agreementValue = parseFloat(formData.agreementValue);
-        updateData.considerationAmount = parseFloat(formData.considerationAmount);
-        updateData.dhcAmount = parseFloat(formData.dhcAmount);
+        updateData.marketValue = parseFloat(formData.marketValue) || undefined;
+        updateData.jurisdiction = formData.jurisdiction || undefined;
+        updateData.considerationAmount = considerationAmount;
+        updateData.dhcAmount = dhcAmountOf(fees);
+        updateData.fees = fees;
       }
 
       await updatePayment(payment.id, updateData);
@@ -116,7 +135,7 @@ export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalP
           {!canEditAmounts && (
             <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
               <p className="text-sm text-amber-800">
-                <strong>Note:</strong> You can only edit payment status and details. Agreement values can only be modified by the Main Admin.
+                <strong>Note:</strong> You can only edit payment details. Agreement values can only be modified by the Main Admin.
               </p>
             </div>
           )}
@@ -165,76 +184,48 @@ export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalP
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                DHC Amount (₹) *
-              </label>
-              <div className="flex space-x-2">
-                <input
-                  type="number"
-                  value={formData.dhcAmount}
-                  onChange={(e) => setFormData({...formData, dhcAmount: e.target.value})}
-                  className={`flex-1 p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
-                    errors.dhcAmount ? 'border-red-300' : 'border-gray-300'
-                  } ${!canEditAmounts ? 'bg-gray-100' : ''}`}
-                  placeholder="DHC amount"
-                  min="0"
-                  disabled={!canEditAmounts}
-                />
-                {canEditAmounts && (
-                  <button
-                    type="button"
-                    onClick={calculateDHC}
-                    className="px-3 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors"
-                    title="Calculate 5% of consideration amount"
-                  >
-                    <Calculator className="w-4 h-4" />
-                  </button>
-                )}
-              </div>
-              {errors.dhcAmount && (
-                <p className="text-red-600 text-sm mt-1">{errors.dhcAmount}</p>
-              )}
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Paid Amount (₹)
+                Market Value (₹)
               </label>
               <input
                 type="number"
-                value={formData.paidAmount}
-                onChange={(e) => setFormData({...formData, paidAmount: e.target.value})}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                placeholder="Amount paid so far"
+                value={formData.marketValue}
+                onChange={(e) => setFormData({...formData, marketValue: e.target.value})}
+                className={`w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  !canEditAmounts ? 'bg-gray-100' : ''
+                }`}
+                placeholder="Ready reckoner value, if higher"
                 min="0"
+                disabled={!canEditAmounts}
               />
             </div>
 
-            {/* Payment Details */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Payment Method
+                Jurisdiction
               </label>
               <select
-                value={formData.paymentMethod}
-                onChange={(e) => setFormData({...formData, paymentMethod: e.target.value as any})}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                value={formData.jurisdiction}
+                onChange={(e) => setFormData({...formData, jurisdiction: e.target.value})}
+                className={`w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  !canEditAmounts ? 'bg-gray-100' : ''
+                }`}
+                disabled={!canEditAmounts}
               >
-                <option value="cash">Cash</option>
-                <option value="cheque">Cheque</option>
-                <option value="online">Online Transfer</option>
-                <option value="dd">Demand Draft</option>
+                <option value="">Other</option>
+                {/* Keep a jurisdiction whose rates have since been removed */}
+                {[...new Set([...feeJurisdictions(feeRates), ...(payment.jurisdiction ? [payment.jurisdiction] : [])])].map(jurisdiction => (
+                  <option key={jurisdiction} value={jurisdiction}>{jurisdiction}</option>
+                ))}
               </select>
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Payment Date
-              </label>
-              <input
-                type="date"
-                value={formData.paymentDate}
-                onChange={(e) => setFormData({...formData, paymentDate: e.target.value})}
-                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            <div className="md:col-span-2">
+              <FeeBreakdown
+                fees={fees}
+                onChange={setFees}
+                onRecalculate={recalculateFees}
+                disabled={!canEditAmounts}
+                error={errors.fees}
               />
             </div>
 
@@ -253,28 +244,32 @@ export function EditPaymentModal({ isOpen, onClose, payment }: EditPaymentModalP
           </div>
 
           {/* Summary */}
-          {formData.considerationAmount && formData.dhcAmount && (
+          {formData.considerationAmount && (
             <div className="mt-6 p-4 bg-gray-50 rounded-lg">
               <h4 className="text-sm font-medium text-gray-900 mb-2">Payment Summary</h4>
               <div className="space-y-1 text-sm">
                 <div className="flex justify-between">
                   <span>Consideration Amount:</span>
-                  <span>₹{parseFloat(formData.considerationAmount || '0').toLocaleString('en-IN')}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span>DHC Amount:</span>
-                  <span>₹{parseFloat(formData.dhcAmount || '0').toLocaleString('en-IN')}</span>
+                  <span>₹{considerationAmount.toLocaleString('en-IN')}</span>
                 </div>
+                {fees.map((line, index) => (
+                  <div key={`${line.component}-${index}`} className="flex justify-between">
+                    <span>{line.label}:</span>
+                    <span>₹{line.amount.toLocaleString('en-IN')}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between font-medium border-t pt-1">
                   <span>Total Amount:</span>
-                  <span>₹{(parseFloat(formData.considerationAmount || '0') + parseFloat(formData.dhcAmount || '0')).toLocaleString('en-IN')}</span>
+                  <span>₹{totalAmount.toLocaleString('en-IN')}</span>
+                </div>
+                <div className="flex justify-between text-green-600">
+                  <span>Paid Amount:</span>
+                  <span>₹{payment.paidAmount.toLocaleString('en-IN')}</span>
+                </div>
+                <div className="flex justify-between text-orange-600">
+                  <span>Pending Amount:</span>
+                  <span>₹{Math.max(totalAmount - payment.paidAmount, 0).toLocaleString('en-IN')}</span>
                 </div>
-                {formData.paidAmount && (
-                  <div className="flex justify-between text-green-600">
-                    <span>Paid Amount:</span>
-                    <span>₹{parseFloat(formData.paidAmount).toLocaleString('en-IN')}</span>
-                  </div>
-                )}
               </div>
             </div>
           )}
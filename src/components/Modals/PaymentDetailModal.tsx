@@ -0,0 +1,325 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { X, CreditCard, Plus, FileText, Printer, Undo2 } from 'lucide-react';
+import { usePayments } from '../../hooks/usePayments';
+import { useDocuments } from '../../hooks/useDocuments';
+import { useAuth } from '../../hooks/useAuth';
+import { useChequeBounce } from '../../hooks/useChequeBounce';
+import { Payment, PaymentReceipt, PaymentStatus, PaymentTransaction } from '../../types';
+import { downloadReceiptPdf } from '../../services/receiptPdf';
+import { countsTowardsPaid, refundableAmount } from '../../services/paymentLedger';
+import { IssueInvoiceForm } from '../Payments/IssueInvoiceForm';
+import { RecordTransactionForm } from '../Payments/RecordTransactionForm';
+import { RefundList } from '../Payments/RefundList';
+import { RefundRequestForm } from '../Payments/RefundRequestForm';
+import { TransactionHistory } from '../Payments/TransactionHistory';
+
+interface PaymentDetailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  paymentId: string;
+}
+
+const statusColors: Record<PaymentStatus, string> = {
+  'pending': 'bg-gray-100 text-gray-800',
+  'partial': 'bg-yellow-100 text-yellow-800',
+  'completed': 'bg-green-100 text-green-800',
+  'refunded': 'bg-red-100 text-red-800',
+};
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+export function PaymentDetailModal({ isOpen, onClose, paymentId }: PaymentDetailModalProps) {
+  const {
+    getPayment,
+    addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    issueReceipt,
+    requestRefund,
+    decideRefund,
+  } = usePayments();
+  const { getDocument } = useDocuments();
+  const { can } = useAuth();
+  const { markBounced } = useChequeBounce();
+  const [showRecordForm, setShowRecordForm] = useState(false);
+  const [showInvoiceForm, setShowInvoiceForm] = useState(false);
+  const [showRefundForm, setShowRefundForm] = useState(false);
+  const [printError, setPrintError] = useState<string | null>(null);
+
+  // Read from the provider so the totals follow each ledger change
+  const payment = getPayment(paymentId);
+  if (!isOpen || !payment) return null;
+
+  const document = getDocument(payment.documentId);
+  const canRecord = can('payments', 'update') && payment.paymentStatus !== 'refunded' && payment.pendingAmount > 0;
+
+  const print = (receipt: PaymentReceipt, from: Payment = payment) =>
+    downloadReceiptPdf({ receipt, payment: from, document });
+
+  // Transactions recorded before receipts existed get theirs on first print
+  const printTransactionReceipt = async (transaction: PaymentTransaction) => {
+    const existing = payment.receipts.find(receipt => receipt.transactionId === transaction.id);
+    if (existing) {
+      await print(existing);
+      return;
+    }
+    if (!countsTowardsPaid(transaction)) {
+      throw new Error('A receipt is issued once the money has cleared');
+    }
+    const updated = await issueReceipt(payment.id, { kind: 'receipt', transactionId: transaction.id });
+    const issued = updated.receipts.find(receipt => receipt.transactionId === transaction.id);
+    if (issued) await print(issued, updated);
+  };
+
+  const printReceipt = async (receipt: PaymentReceipt) => {
+    setPrintError(null);
+    try {
+      await print(receipt);
+    } catch (err) {
+      setPrintError(err instanceof Error ? err.message : 'Failed to generate the PDF');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <CreditCard className="w-5 h-5 mr-2 text-green-600" />
+              Payment - {payment.id}
+            </h3>
+            {document && (
+              <p className="text-sm text-gray-500 mt-1 flex items-center">
+                <FileText className="w-4 h-4 mr-1" />
+                {document.documentNumber} · {document.customerName}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Total</p>
+              <p className="text-lg font-semibold text-gray-900">{rupees(payment.totalAmount)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Paid</p>
+              <p className="text-lg font-semibold text-green-600">{rupees(payment.paidAmount)}</p>
+              {payment.refundedAmount > 0 && (
+                <p className="text-xs text-red-600">{rupees(payment.refundedAmount)} refunded</p>
+              )}
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Pending</p>
+              <p className="text-lg font-semibold text-orange-600">{rupees(payment.pendingAmount)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Status</p>
+              <span className={`inline-flex mt-1 px-2 py-1 text-xs font-medium rounded-full ${statusColors[payment.paymentStatus]}`}>
+                {payment.paymentStatus.toUpperCase()}
+              </span>
+            </div>
+          </div>
+
+          {/* Amount breakdown */}
+          <div>
+            <h4 className="text-sm font-medium text-gray-900 mb-2">Amount Breakdown</h4>
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 text-sm">
+              <div className="flex justify-between p-3">
+                <span className="text-gray-600">Consideration Amount</span>
+                <span className="text-gray-900">{rupees(payment.considerationAmount)}</span>
+              </div>
+              {payment.fees.map((line, index) => (
+                <div key={`${line.component}-${index}`} className="flex justify-between gap-4 p-3">
+                  <div>
+                    <p className="text-gray-600">{line.label}</p>
+                    <p className="text-xs text-gray-500">{line.explanation}</p>
+                  </div>
+                  <span className="text-gray-900">{rupees(line.amount)}</span>
+                </div>
+              ))}
+              {payment.fees.length === 0 && payment.dhcAmount > 0 && (
+                <div className="flex justify-between p-3">
+                  <span className="text-gray-600">DHC</span>
+                  <span className="text-gray-900">{rupees(payment.dhcAmount)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Transactions */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Transactions</h4>
+              {canRecord && !showRecordForm && (
+                <button
+                  onClick={() => setShowRecordForm(true)}
+                  className="px-3 py-1.5 bg-green-100 text-green-700 rounded-lg hover:bg-green-200 transition-colors text-sm flex items-center"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Record Payment
+                </button>
+              )}
+            </div>
+
+            {showRecordForm && (
+              <div className="mb-4">
+                <RecordTransactionForm
+                  pendingAmount={payment.pendingAmount}
+                  onSubmit={async (data, downloadReceipt) => {
+                    const known = new Set(payment.receipts.map(receipt => receipt.id));
+                    const updated = await addTransaction(payment.id, data);
+                    setShowRecordForm(false);
+                    const issued = updated.receipts.find(receipt => !known.has(receipt.id));
+                    if (downloadReceipt && issued) await print(issued, updated);
+                  }}
+                  onCancel={() => setShowRecordForm(false)}
+                />
+              </div>
+            )}
+
+            <TransactionHistory
+              transactions={payment.transactions}
+              onClearanceChange={can('payments', 'update')
+                ? async (transaction, clearanceStatus) => {
+                    if (clearanceStatus !== 'bounced') {
+                      await updateTransaction(payment.id, transaction.id, { clearanceStatus });
+                      return;
+                    }
+                    const reason = prompt('Why did the bank return it? (e.g. insufficient funds)');
+                    if (reason !== null) {
+                      await markBounced(payment, transaction, reason.trim());
+                    }
+                  }
+                : undefined}
+              onDeposit={can('payments', 'update')
+                ? async transaction => {
+                    await updateTransaction(payment.id, transaction.id, { depositDate: new Date() });
+                  }
+                : undefined}
+              onDelete={can('payments', 'delete')
+                ? async transaction => {
+                    await deleteTransaction(payment.id, transaction.id);
+                  }
+                : undefined}
+              onPrintReceipt={printTransactionReceipt}
+            />
+          </div>
+
+          {/* Refunds */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Refunds</h4>
+              {can('payments', 'update') && refundableAmount(payment) > 0 && !showRefundForm && (
+                <button
+                  onClick={() => setShowRefundForm(true)}
+                  className="px-3 py-1.5 bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors text-sm flex items-center"
+                >
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Request Refund
+                </button>
+              )}
+            </div>
+
+            {showRefundForm && (
+              <div className="mb-4">
+                <RefundRequestForm
+                  payment={payment}
+                  onSubmit={async data => {
+                    await requestRefund(payment.id, data);
+                    setShowRefundForm(false);
+                  }}
+                  onCancel={() => setShowRefundForm(false)}
+                />
+              </div>
+            )}
+
+            <RefundList
+              refunds={payment.refunds}
+              transactions={payment.transactions}
+              canApprove={can('payments', 'approve_refund')}
+              canPayOut={can('payments', 'update')}
+              onDecide={async (refund, decision) => {
+                await decideRefund(payment.id, refund.id, decision);
+              }}
+            />
+          </div>
+
+          {/* Receipts and invoices */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-gray-900">Receipts & Invoices</h4>
+              {can('payments', 'update') && !showInvoiceForm && (
+                <button
+                  onClick={() => setShowInvoiceForm(true)}
+                  className="px-3 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors text-sm flex items-center"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  New Invoice
+                </button>
+              )}
+            </div>
+
+            {showInvoiceForm && (
+              <div className="mb-4">
+                <IssueInvoiceForm
+                  onSubmit={async lines => {
+                    const known = new Set(payment.receipts.map(receipt => receipt.id));
+                    const updated = await issueReceipt(payment.id, { kind: 'invoice', lines });
+                    setShowInvoiceForm(false);
+                    const issued = updated.receipts.find(receipt => !known.has(receipt.id));
+                    if (issued) await print(issued, updated);
+                  }}
+                  onCancel={() => setShowInvoiceForm(false)}
+                />
+              </div>
+            )}
+
+            {payment.receipts.length === 0 ? (
+              <p className="text-sm text-gray-500 p-4 border border-dashed border-gray-300 rounded-lg text-center">
+                No receipts or invoices have been issued yet
+              </p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200 text-sm">
+                {payment.receipts.map(receipt => (
+                  <div key={receipt.id} className="flex items-center justify-between p-3">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {receipt.kind === 'invoice' ? 'Invoice' : 'Receipt'} {receipt.receiptNumber}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {format(receipt.issuedAt, 'MMM dd, yyyy')}
+                        {receipt.issuedByName && ` · ${receipt.issuedByName}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="font-medium text-gray-900">{rupees(receipt.amount)}</span>
+                      <button
+                        onClick={() => printReceipt(receipt)}
+                        className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        title="Download PDF"
+                      >
+                        <Printer className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {printError && <p className="text-red-600 text-sm mt-2">{printError}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
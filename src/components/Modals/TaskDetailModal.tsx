@@ -44,13 +44,12 @@ const priorityColors = {
 
 export function TaskDetailModal({ isOpen, onClose, task }: TaskDetailModalProps) {
   const { updateTaskStatus, addTaskComment, loading } = useTasks();
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [newComment, setNewComment] = useState('');
   const [isInternal, setIsInternal] = useState(false);
 
   const isAssigned = task.assignedTo === user?.id;
-  const isAdmin = user?.role === 'main_admin' || user?.role === 'staff_admin';
-  const canEdit = isAssigned || isAdmin;
+  const canEdit = isAssigned || can('tasks', 'update');
 
   const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'completed';
 
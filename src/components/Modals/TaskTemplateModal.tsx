@@ -0,0 +1,434 @@
+import React, { useEffect, useState } from 'react';
+import { X, Save, ClipboardList, Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { useTasks } from '../../hooks/useTasks';
+import { UserRole } from '../../types';
+import { TaskPriority, TaskTemplate, TaskTemplateInput, TaskType } from '../../types/task';
+import { REQUIRED_FIELD_LABELS } from '../../services/taskChecklist';
+
+const taskTypeLabels: Record<TaskType, string> = {
+  custom: 'Custom Task',
+  document_collection: 'Document Collection',
+  data_entry: 'Data Entry',
+  document_delivery: 'Document Delivery',
+  challan_creation: 'Challan Creation',
+  payment_processing: 'Payment Processing',
+  customer_follow_up: 'Customer Follow Up',
+  document_verification: 'Document Verification',
+  registration_follow_up: 'Registration Follow Up',
+  quality_check: 'Quality Check',
+};
+
+const roleLabels: Record<UserRole, string> = {
+  main_admin: 'Main Admin',
+  staff_admin: 'Staff Admin',
+  challan_staff: 'Challan Staff',
+  field_collection_staff: 'Field Collection',
+  data_entry_staff: 'Data Entry',
+  document_delivery_staff: 'Document Delivery',
+};
+
+interface ChecklistDraft {
+  title: string;
+  description: string;
+  isRequired: boolean;
+}
+
+interface TaskTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The template to change; saving it makes its next version. Unset to create one.
+  template?: TaskTemplate;
+}
+
+const emptyForm = {
+  name: '',
+  description: '',
+  type: 'custom' as TaskType,
+  defaultPriority: 'medium' as TaskPriority,
+  estimatedHours: '',
+  checklist: [] as ChecklistDraft[],
+  requiredFields: [] as string[],
+  autoAssign: false,
+  role: '' as UserRole | '',
+  workload: 'balanced' as 'balanced' | 'least_busy',
+};
+
+const formFor = (template?: TaskTemplate): typeof emptyForm => (template ? {
+  name: template.name,
+  description: template.description,
+  type: template.type,
+  defaultPriority: template.defaultPriority,
+  estimatedHours: String(template.estimatedHours),
+  checklist: template.checklist.map(item => ({
+    title: item.title,
+    description: item.description ?? '',
+    isRequired: item.isRequired,
+  })),
+  requiredFields: template.requiredFields,
+  autoAssign: Boolean(template.autoAssignmentRules),
+  role: (template.autoAssignmentRules?.role ?? '') as UserRole | '',
+  workload: template.autoAssignmentRules?.workload ?? 'balanced',
+} : emptyForm);
+
+export function TaskTemplateModal({ isOpen, onClose, template }: TaskTemplateModalProps) {
+  const { createTemplate, updateTemplate } = useTasks();
+  const [formData, setFormData] = useState(formFor(template));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(formFor(template));
+      setErrors({});
+    }
+  }, [isOpen, template]);
+
+  const setItem = (index: number, changes: Partial<ChecklistDraft>) => {
+    setFormData(prev => ({
+      ...prev,
+      checklist: prev.checklist.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    }));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    setFormData(prev => {
+      const checklist = [...prev.checklist];
+      [checklist[index], checklist[index + offset]] = [checklist[index + offset], checklist[index]];
+      return { ...prev, checklist };
+    });
+  };
+
+  const toggleRequiredField = (field: string) => {
+    setFormData(prev => ({
+      ...prev,
+      requiredFields: prev.requiredFields.includes(field)
+        ? prev.requiredFields.filter(f => f !== field)
+        : [...prev.requiredFields, field],
+    }));
+  };
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Template name is required';
+    }
+    const hours = Number(formData.estimatedHours);
+    if (formData.estimatedHours === '' || Number.isNaN(hours) || hours < 0 || hours > 99) {
+      newErrors.estimatedHours = 'Enter the estimated hours, up to 99';
+    }
+    if (formData.checklist.some(item => !item.title.trim())) {
+      newErrors.checklist = 'Every checklist item needs a title';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    const data: TaskTemplateInput = {
+      name: formData.name.trim(),
+      description: formData.description.trim(),
+      type: formData.type,
+      defaultPriority: formData.defaultPriority,
+      estimatedHours: Number(formData.estimatedHours),
+      checklist: formData.checklist.map(item => ({
+        title: item.title.trim(),
+        description: item.description.trim() || undefined,
+        isRequired: item.isRequired,
+      })),
+      requiredFields: formData.requiredFields,
+      autoAssignmentRules: formData.autoAssign
+        ? { role: formData.role || undefined, workload: formData.workload }
+        : undefined,
+    };
+
+    setSaving(true);
+    try {
+      if (template) {
+        await updateTemplate(template.id, data);
+      } else {
+        await createTemplate(data);
+      }
+      onClose();
+    } catch (error) {
+      console.error('Error saving task template:', error);
+      setErrors({ submit: error instanceof Error ? error.message : 'Failed to save template' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ClipboardList className="w-5 h-5 mr-2 text-blue-600" />
+            {template ? `Edit ${template.name}` : 'New Task Template'}
+          </h3>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-6">
+          {template && (
+            <p className="text-sm text-gray-600 bg-blue-50 border border-blue-200 rounded-lg p-3">
+              Saving makes this version {template.version + 1}. Tasks already made from the template keep
+              the checklist and fields they were made with.
+            </p>
+          )}
+
+          {/* Basic Information */}
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  errors.name ? 'border-red-300' : 'border-gray-300'
+                }`}
+                placeholder="e.g. Document Collection"
+              />
+              {errors.name && <p className="text-red-600 text-sm mt-1">{errors.name}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+              <textarea
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+                className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Becomes the description of each task made from it"
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Task Type</label>
+                <select
+                  value={formData.type}
+                  onChange={(e) => setFormData({ ...formData, type: e.target.value as TaskType })}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {(Object.keys(taskTypeLabels) as TaskType[]).map(type => (
+                    <option key={type} value={type}>{taskTypeLabels[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Default Priority</label>
+                <select
+                  value={formData.defaultPriority}
+                  onChange={(e) => setFormData({ ...formData, defaultPriority: e.target.value as TaskPriority })}
+                  className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                  <option value="urgent">Urgent</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Estimated Hours *</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="99"
+                  step="0.5"
+                  value={formData.estimatedHours}
+                  onChange={(e) => setFormData({ ...formData, estimatedHours: e.target.value })}
+                  className={`w-full p-3 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                    errors.estimatedHours ? 'border-red-300' : 'border-gray-300'
+                  }`}
+                />
+                {errors.estimatedHours && <p className="text-red-600 text-sm mt-1">{errors.estimatedHours}</p>}
+              </div>
+            </div>
+          </div>
+
+          {/* Checklist */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-gray-900">Checklist</h4>
+              <button
+                type="button"
+                onClick={() => setFormData(prev => ({
+                  ...prev,
+                  checklist: [...prev.checklist, { title: '', description: '', isRequired: false }],
+                }))}
+                className="text-blue-600 hover:text-blue-700 text-sm font-medium flex items-center"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Item
+              </button>
+            </div>
+            {formData.checklist.length === 0 && (
+              <p className="text-sm text-gray-500">Tasks made from this template will have no checklist.</p>
+            )}
+            {formData.checklist.map((item, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={item.title}
+                    onChange={(e) => setItem(index, { title: e.target.value })}
+                    placeholder="What has to be done"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => moveItem(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => moveItem(index, 1)}
+                    disabled={index === formData.checklist.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, checklist: prev.checklist.filter((_, i) => i !== index) }))}
+                    className="p-1 text-red-400 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  value={item.description}
+                  onChange={(e) => setItem(index, { description: e.target.value })}
+                  placeholder="Details (optional)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={item.isRequired}
+                    onChange={(e) => setItem(index, { isRequired: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Required before the task can be completed</span>
+                </label>
+              </div>
+            ))}
+            {errors.checklist && <p className="text-red-600 text-sm">{errors.checklist}</p>}
+          </div>
+
+          {/* Required fields */}
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">Fields a new task must fill in</h4>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {Object.entries(REQUIRED_FIELD_LABELS).map(([field, label]) => (
+                <label key={field} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.requiredFields.includes(field)}
+                    onChange={() => toggleRequiredField(field)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Auto-assignment */}
+          <div className="space-y-3">
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+              <input
+                type="checkbox"
+                checked={formData.autoAssign}
+                onChange={(e) => setFormData({ ...formData, autoAssign: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Assign tasks automatically when no one is picked</span>
+            </label>
+            {formData.autoAssign && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">From role</label>
+                  <select
+                    value={formData.role}
+                    onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole | '' })}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Any active staff</option>
+                    {(Object.keys(roleLabels) as UserRole[]).map(role => (
+                      <option key={role} value={role}>{roleLabels[role]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Pick by</label>
+                  <select
+                    value={formData.workload}
+                    onChange={(e) => setFormData({ ...formData, workload: e.target.value as 'balanced' | 'least_busy' })}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="balanced">Least open work (estimated hours)</option>
+                    <option value="least_busy">Fewest open tasks</option>
+                  </select>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {errors.submit && (
+            <p className="text-sm text-red-600">{errors.submit}</p>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-6 py-2 rounded-lg font-medium transition-colors flex items-center"
+            >
+              {saving ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  {template ? `Save as Version ${template.version + 1}` : 'Create Template'}
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { X, Save, Shield, Check, AlertCircle } from 'lucide-react';
 import { User as UserType, Permission } from '../../types';
+import { can, PERMISSION_MODULES, roleAllows } from '../../services/accessPolicy';
 
 interface UserPermissionsModalProps {
   isOpen: boolean;
@@ -9,86 +10,17 @@ interface UserPermissionsModalProps {
   onUpdatePermissions: (userId: string, permissions: Permission[]) => Promise<void>;
 }
 
-const modulePermissions = [
-  {
-    module: 'documents',
-    label: 'Documents',
-    description: 'Manage document records and workflow',
-    actions: [
-      { action: 'create', label: 'Create Documents' },
-      { action: 'read', label: 'View Documents' },
-      { action: 'update', label: 'Edit Documents' },
-      { action: 'delete', label: 'Delete Documents' },
-    ]
-  },
-  {
-    module: 'payments',
-    label: 'Payments',
-    description: 'Manage payment records and transactions',
-    actions: [
-      { action: 'create', label: 'Create Payments' },
-      { action: 'read', label: 'View Payments' },
-      { action: 'update', label: 'Edit Payments' },
-      { action: 'delete', label: 'Delete Payments' },
-    ]
-  },
-  {
-    module: 'challans',
-    label: 'Challans',
-    description: 'Manage challan forms and submissions',
-    actions: [
-      { action: 'create', label: 'Create Challans' },
-      { action: 'read', label: 'View Challans' },
-      { action: 'update', label: 'Edit Challans' },
-      { action: 'approve', label: 'Approve Challans' },
-    ]
-  },
-  {
-    module: 'customers',
-    label: 'Customers',
-    description: 'Manage customer information',
-    actions: [
-      { action: 'create', label: 'Create Customers' },
-      { action: 'read', label: 'View Customers' },
-      { action: 'update', label: 'Edit Customers' },
-      { action: 'delete', label: 'Delete Customers' },
-    ]
-  },
-  {
-    module: 'builders',
-    label: 'Builders',
-    description: 'Manage builder information',
-    actions: [
-      { action: 'create', label: 'Create Builders' },
-      { action: 'read', label: 'View Builders' },
-      { action: 'update', label: 'Edit Builders' },
-      { action: 'delete', label: 'Delete Builders' },
-    ]
-  },
-  {
-    module: 'users',
-    label: 'Users',
-    description: 'Manage system users (Staff Admin only)',
-    actions: [
-      { action: 'create', label: 'Create Users' },
-      { action: 'read', label: 'View Users' },
-      { action: 'update', label: 'Edit Users' },
-      { action: 'delete', label: 'Delete Users' },
-    ]
-  },
-];
-
 export function UserPermissionsModal({ isOpen, onClose, user, onUpdatePermissions }: UserPermissionsModalProps) {
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
     if (user) {
-      // Initialize permissions based on user's current permissions
+      // Start from what the user can do today: role defaults plus their overrides
       const allPermissions: Permission[] = [];
       let permissionId = 1;
 
-      modulePermissions.forEach(module => {
+      PERMISSION_MODULES.forEach(module => {
         module.actions.forEach(action => {
           const existingPermission = user.permissions.find(
             p => p.module === module.module && p.action === action.action
@@ -98,7 +30,7 @@ export function UserPermissionsModal({ isOpen, onClose, user, onUpdatePermission
             id: existingPermission?.id || permissionId.toString(),
             module: module.module,
             action: action.action,
-            granted: existingPermission?.granted || false,
+            granted: can(user, module.module, action.action),
           });
           permissionId++;
         });
@@ -208,16 +140,11 @@ export function UserPermissionsModal({ isOpen, onClose, user, onUpdatePermission
             <>
               {/* Permissions Grid */}
               <div className="space-y-6">
-                {modulePermissions.map(module => {
+                {PERMISSION_MODULES.map(module => {
                   const modulePerms = getModulePermissions(module.module);
                   const isFullyGranted = isModuleFullyGranted(module.module);
                   const isPartiallyGranted = isModulePartiallyGranted(module.module);
 
-                  // Hide users module for non-staff-admin roles
-                  if (module.module === 'users' && user.role !== 'staff_admin') {
-                    return null;
-                  }
-
                   return (
                     <div key={module.module} className="border border-gray-200 rounded-lg overflow-hidden">
                       <div className="bg-gray-50 px-6 py-4 border-b border-gray-200">
@@ -270,7 +197,12 @@ export function UserPermissionsModal({ isOpen, onClose, user, onUpdatePermission
                                 />
                                 <div>
                                   <p className="text-sm font-medium text-gray-900">{action.label}</p>
-                                  <p className="text-xs text-gray-500">{module.module}.{action.action}</p>
+                                  <p className="text-xs text-gray-500">
+                                    {module.module}.{action.action}
+                                    {(permission?.granted ?? false) !== roleAllows(user.role, module.module, action.action) && (
+                                      <span className="ml-2 text-orange-600 font-medium">Overrides role default</span>
+                                    )}
+                                  </p>
                                 </div>
                               </label>
                             );
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { CalendarClock, CheckCircle, Eye, Landmark, XCircle } from 'lucide-react';
+import { Payment, PaymentTransaction } from '../../types';
+import { usePayments } from '../../hooks/usePayments';
+import { useDocuments } from '../../hooks/useDocuments';
+import { useAuth } from '../../hooks/useAuth';
+import { useChequeBounce } from '../../hooks/useChequeBounce';
+import { describeInstrument, isInstrument, isPostDated } from '../../services/paymentLedger';
+
+interface ChequeRegisterProps {
+  onOpenPayment: (paymentId: string) => void;
+}
+
+interface RegisterEntry {
+  payment: Payment;
+  transaction: PaymentTransaction;
+}
+
+type RegisterSection = 'post_dated' | 'due' | 'deposited';
+
+const sections: { id: RegisterSection; title: string; empty: string }[] = [
+  { id: 'due', title: 'Due for Deposit', empty: 'No cheques are waiting to be deposited' },
+  { id: 'post_dated', title: 'Post-dated', empty: 'No post-dated cheques in hand' },
+  { id: 'deposited', title: 'Deposited, Awaiting Clearance', empty: 'Nothing is waiting on the bank' },
+];
+
+const sectionOf = ({ transaction }: RegisterEntry): RegisterSection =>
+  transaction.depositDate ? 'deposited' : isPostDated(transaction) ? 'post_dated' : 'due';
+
+const datedOn = (transaction: PaymentTransaction) => transaction.instrumentDate ?? transaction.transactionDate;
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+function relativeDays(date: Date): string {
+  const days = differenceInCalendarDays(date, new Date());
+  if (days === 0) return 'today';
+  return days > 0 ? `in ${days} day${days === 1 ? '' : 's'}` : `${-days} day${days === -1 ? '' : 's'} ago`;
+}
+
+// Cheques and DDs in hand or at the bank, so deposits are not missed and
+// post-dated ones go in on their date
+export function ChequeRegister({ onOpenPayment }: ChequeRegisterProps) {
+  const { payments, updateTransaction } = usePayments();
+  const { getDocument } = useDocuments();
+  const { can } = useAuth();
+  const { markBounced } = useChequeBounce();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const canUpdate = can('payments', 'update');
+
+  const entries: RegisterEntry[] = payments
+    .flatMap(payment => payment.transactions
+      .filter(transaction => isInstrument(transaction.method) && transaction.clearanceStatus === 'pending')
+      .map(transaction => ({ payment, transaction })))
+    .sort((a, b) => datedOn(a.transaction).getTime() - datedOn(b.transaction).getTime());
+
+  const run = async (transaction: PaymentTransaction, action: () => Promise<unknown>) => {
+    setBusyId(transaction.id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the cheque');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const bounce = ({ payment, transaction }: RegisterEntry) => {
+    const reason = prompt('Why did the bank return it? (e.g. insufficient funds)');
+    if (reason !== null) {
+      run(transaction, () => markBounced(payment, transaction, reason.trim()));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {sections.map(section => {
+          const inSection = entries.filter(entry => sectionOf(entry) === section.id);
+          return (
+            <div key={section.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <p className="text-sm text-gray-600">{section.title}</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {rupees(inSection.reduce((sum, entry) => sum + entry.transaction.amount, 0))}
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                {inSection.length} instrument{inSection.length === 1 ? '' : 's'}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+
+      {sections.map(section => {
+        const inSection = entries.filter(entry => sectionOf(entry) === section.id);
+        return (
+          <div key={section.id} className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center">
+              <CalendarClock className="w-5 h-5 mr-2 text-blue-600" />
+              <h3 className="font-semibold text-gray-900">{section.title}</h3>
+            </div>
+            {inSection.length === 0 ? (
+              <p className="text-sm text-gray-500 px-6 py-8 text-center">{section.empty}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr className="text-left text-gray-700">
+                      <th className="px-6 py-3 font-medium">{section.id === 'deposited' ? 'Deposited' : 'Cheque Date'}</th>
+                      <th className="px-6 py-3 font-medium">Instrument</th>
+                      <th className="px-6 py-3 font-medium">Customer</th>
+                      <th className="px-6 py-3 font-medium text-right">Amount</th>
+                      <th className="px-6 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {inSection.map(entry => {
+                      const { payment, transaction } = entry;
+                      const document = getDocument(payment.documentId);
+                      const date = section.id === 'deposited' ? transaction.depositDate! : datedOn(transaction);
+                      return (
+                        <tr key={transaction.id} className={busyId === transaction.id ? 'opacity-50' : ''}>
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <p className="text-gray-900">{format(date, 'MMM dd, yyyy')}</p>
+                            <p className="text-xs text-gray-500">{relativeDays(date)}</p>
+                          </td>
+                          <td className="px-6 py-3 text-gray-900">{describeInstrument(transaction)}</td>
+                          <td className="px-6 py-3">
+                            <p className="text-gray-900">{document?.customerName ?? '—'}</p>
+                            <p className="text-xs text-gray-500">{document?.documentNumber ?? `Payment ${payment.id}`}</p>
+                          </td>
+                          <td className="px-6 py-3 text-right font-medium text-gray-900 whitespace-nowrap">
+                            {rupees(transaction.amount)}
+                          </td>
+                          <td className="px-6 py-3">
+                            <div className="flex items-center justify-end space-x-1">
+                              {canUpdate && section.id === 'due' && (
+                                <button
+                                  onClick={() => run(transaction, () =>
+                                    updateTransaction(payment.id, transaction.id, { depositDate: new Date() }))}
+                                  disabled={busyId !== null}
+                                  className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                  title="Mark deposited today"
+                                >
+                                  <Landmark className="w-4 h-4" />
+                                </button>
+                              )}
+                              {canUpdate && section.id !== 'post_dated' && (
+                                <>
+                                  <button
+                                    onClick={() => run(transaction, () =>
+                                      updateTransaction(payment.id, transaction.id, { clearanceStatus: 'cleared' }))}
+                                    disabled={busyId !== null}
+                                    className="p-1.5 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                                    title="Mark cleared"
+                                  >
+                                    <CheckCircle className="w-4 h-4" />
+                                  </button>
+                                  <button
+                                    onClick={() => bounce(entry)}
+                                    disabled={busyId !== null}
+                                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                                    title="Mark bounced"
+                                  >
+                                    <XCircle className="w-4 h-4" />
+                                  </button>
+                                </>
+                              )}
+                              <button
+                                onClick={() => onOpenPayment(payment.id)}
+                                className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                                title="Open payment"
+                              >
+                                <Eye className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
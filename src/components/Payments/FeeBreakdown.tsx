@@ -0,0 +1,67 @@
+import { Calculator } from 'lucide-react';
+import { FeeLine } from '../../types';
+
+interface FeeBreakdownProps {
+  fees: FeeLine[];
+  onChange: (fees: FeeLine[]) => void;
+  onRecalculate?: () => void;
+  disabled?: boolean;
+  error?: string;
+}
+
+// Itemised government fees with how each was worked out. Amounts can be
+// adjusted by hand; recalculating replaces them with the current rates.
+export function FeeBreakdown({ fees, onChange, onRecalculate, disabled = false, error }: FeeBreakdownProps) {
+  const handleAmountChange = (index: number, value: string) => {
+    onChange(fees.map((line, i) => (
+      i === index ? { ...line, amount: parseFloat(value) || 0, explanation: 'Entered manually' } : line
+    )));
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Government Fees</label>
+        {onRecalculate && !disabled && (
+          <button
+            type="button"
+            onClick={onRecalculate}
+            className="px-3 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 transition-colors text-sm flex items-center"
+            title="Calculate from the current fee rates"
+          >
+            <Calculator className="w-4 h-4 mr-1" />
+            Recalculate
+          </button>
+        )}
+      </div>
+
+      {fees.length === 0 ? (
+        <p className="text-sm text-gray-500 p-3 border border-dashed border-gray-300 rounded-lg">
+          Select a document and enter its values to calculate the fees
+        </p>
+      ) : (
+        <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+          {fees.map((line, index) => (
+            <div key={`${line.component}-${index}`} className="flex items-center justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{line.label}</p>
+                <p className="text-xs text-gray-500">{line.explanation}</p>
+              </div>
+              <input
+                type="number"
+                value={line.amount}
+                onChange={(e) => handleAmountChange(index, e.target.value)}
+                className={`w-36 p-2 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+                  disabled ? 'bg-gray-100' : ''
+                }`}
+                min="0"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-red-600 text-sm mt-1">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { Plus, Receipt, RefreshCw, Save, Trash2 } from 'lucide-react';
+import { DocumentType, FeeComponent } from '../../types';
+import { usePayments } from '../../hooks/usePayments';
+import {
+  ANY,
+  DEFAULT_FEE_RATES,
+  FEE_BASIS_LABELS,
+  FEE_COMPONENT_LABELS,
+  FeeBasis,
+  FeeRate,
+} from '../../services/feeEngine';
+
+const DOCUMENT_TYPES: DocumentType[] = ['agreement', 'lease_deed', 'sale_deed', 'mutation', 'partition_deed', 'gift_deed'];
+
+const cellClass = 'w-full p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const optionalNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+// Edits the rate table the fee calculator works from. A new rate for the same
+// fee, document type and jurisdiction takes over from its effective date.
+export function FeeRateSettings() {
+  const { feeRates, updateFeeRates } = usePayments();
+  const [draft, setDraft] = useState<FeeRate[]>(feeRates);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setDraft(feeRates);
+  }, [feeRates]);
+
+  const updateRate = (id: string, changes: Partial<FeeRate>) => {
+    setDraft(prev => prev.map(rate => (rate.id === id ? { ...rate, ...changes } : rate)));
+  };
+
+  const addRate = () => {
+    setDraft(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        component: 'stamp_duty',
+        documentType: ANY,
+        jurisdiction: ANY,
+        basis: 'higher_value',
+        percent: 0,
+        fixedAmount: 0,
+        effectiveFrom: new Date().toISOString().split('T')[0],
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const invalid = draft.find(rate =>
+      !(rate.percent >= 0) ||
+      !(rate.fixedAmount >= 0) ||
+      !/^\d{4}-\d{2}-\d{2}$/.test(rate.effectiveFrom) ||
+      !rate.jurisdiction.trim() ||
+      (rate.minAmount !== undefined && rate.maxAmount !== undefined && rate.minAmount > rate.maxAmount)
+    );
+    if (invalid) {
+      setMessage({ success: false, text: `Check the ${FEE_COMPONENT_LABELS[invalid.component]} rate effective ${invalid.effectiveFrom || '(no date)'}` });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await updateFeeRates(draft.map(rate => ({ ...rate, jurisdiction: rate.jurisdiction.trim() })));
+      setMessage({ success: true, text: 'Fee rates saved' });
+    } catch (error) {
+      setMessage({ success: false, text: error instanceof Error ? error.message : 'Failed to save fee rates' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+        <Receipt className="w-5 h-5 mr-2 text-green-600" />
+        Fee Rates
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Rates used to prefill payment fees. A rate for a specific document type or jurisdiction is preferred over one for
+        all; use "{ANY}" to match any. Percentages apply to the chosen basis, then the fixed amount is added and the minimum
+        and maximum are applied.
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="p-2 font-medium">Fee</th>
+              <th className="p-2 font-medium">Document Type</th>
+              <th className="p-2 font-medium">Jurisdiction</th>
+              <th className="p-2 font-medium">Basis</th>
+              <th className="p-2 font-medium">Rate %</th>
+              <th className="p-2 font-medium">Fixed ₹</th>
+              <th className="p-2 font-medium">Min ₹</th>
+              <th className="p-2 font-medium">Max ₹</th>
+              <th className="p-2 font-medium">Effective From</th>
+              <th className="p-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {draft.map(rate => (
+              <tr key={rate.id}>
+                <td className="p-2 min-w-[9rem]">
+                  <select
+                    value={rate.component}
+                    onChange={(e) => updateRate(rate.id, { component: e.target.value as FeeComponent })}
+                    className={cellClass}
+                  >
+                    {(Object.keys(FEE_COMPONENT_LABELS) as FeeComponent[]).map(component => (
+                      <option key={component} value={component}>{FEE_COMPONENT_LABELS[component]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="p-2 min-w-[9rem]">
+                  <select
+                    value={rate.documentType}
+                    onChange={(e) => updateRate(rate.id, { documentType: e.target.value as FeeRate['documentType'] })}
+                    className={`${cellClass} capitalize`}
+                  >
+                    <option value={ANY}>All types</option>
+                    {DOCUMENT_TYPES.map(type => (
+                      <option key={type} value={type}>{type.replace('_', ' ')}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="p-2 min-w-[8rem]">
+                  <input
+                    type="text"
+                    value={rate.jurisdiction}
+                    onChange={(e) => updateRate(rate.id, { jurisdiction: e.target.value })}
+                    className={cellClass}
+                  />
+                </td>
+                <td className="p-2 min-w-[10rem]">
+                  <select
+                    value={rate.basis}
+                    onChange={(e) => updateRate(rate.id, { basis: e.target.value as FeeBasis })}
+                    className={cellClass}
+                  >
+                    {(Object.keys(FEE_BASIS_LABELS) as FeeBasis[]).map(basis => (
+                      <option key={basis} value={basis}>{FEE_BASIS_LABELS[basis]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="p-2 min-w-[5rem]">
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={rate.percent}
+                    onChange={(e) => updateRate(rate.id, { percent: parseFloat(e.target.value) || 0 })}
+                    className={cellClass}
+                  />
+                </td>
+                <td className="p-2 min-w-[6rem]">
+                  <input
+                    type="number"
+                    min="0"
+                    value={rate.fixedAmount}
+                    onChange={(e) => updateRate(rate.id, { fixedAmount: parseFloat(e.target.value) || 0 })}
+                    className={cellClass}
+                  />
+                </td>
+                <td className="p-2 min-w-[6rem]">
+                  <input
+                    type="number"
+                    min="0"
+                    value={rate.minAmount ?? ''}
+                    onChange={(e) => updateRate(rate.id, { minAmount: optionalNumber(e.target.value) })}
+                    className={cellClass}
+                  />
+                </td>
+                <td className="p-2 min-w-[6rem]">
+                  <input
+                    type="number"
+                    min="0"
+                    value={rate.maxAmount ?? ''}
+                    onChange={(e) => updateRate(rate.id, { maxAmount: optionalNumber(e.target.value) })}
+                    className={cellClass}
+                  />
+                </td>
+                <td className="p-2 min-w-[9rem]">
+                  <input
+                    type="date"
+                    value={rate.effectiveFrom}
+                    onChange={(e) => updateRate(rate.id, { effectiveFrom: e.target.value })}
+                    className={cellClass}
+                  />
+                </td>
+                <td className="p-2">
+                  <button
+                    onClick={() => setDraft(prev => prev.filter(r => r.id !== rate.id))}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Remove rate"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        onClick={addRate}
+        className="mt-4 text-blue-600 hover:text-blue-700 text-sm font-medium flex items-center"
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add Rate
+      </button>
+
+      {message && (
+        <p className={`mt-6 text-sm ${message.success ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={() => setDraft(DEFAULT_FEE_RATES)}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          Restore Defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+        >
+          {saving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save Rates
+        </button>
+      </div>
+    </div>
+  );
+}
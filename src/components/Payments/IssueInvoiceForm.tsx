@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { InvoiceLine } from '../../types';
+
+interface IssueInvoiceFormProps {
+  onSubmit: (lines: InvoiceLine[]) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Our own service charges, billed separately from the government fees
+export function IssueInvoiceForm({ onSubmit, onCancel }: IssueInvoiceFormProps) {
+  const [lines, setLines] = useState([{ description: 'Documentation charges', amount: '' }]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const total = lines.reduce((sum, line) => sum + (parseFloat(line.amount) || 0), 0);
+
+  const updateLine = (index: number, field: 'description' | 'amount', value: string) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, [field]: value } : line)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const parsed = lines.map(line => ({
+      description: line.description.trim(),
+      amount: parseFloat(line.amount) || 0,
+    }));
+
+    if (parsed.some(line => !line.description || line.amount <= 0)) {
+      setError('Every line needs a description and an amount');
+      return;
+    }
+
+    setError(null);
+    setSaving(true);
+    try {
+      await onSubmit(parsed);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to issue the invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      {lines.map((line, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={line.description}
+            onChange={(e) => updateLine(index, 'description', e.target.value)}
+            className={`${inputClass} border-gray-300 flex-1`}
+            placeholder="Description"
+          />
+          <input
+            type="number"
+            value={line.amount}
+            onChange={(e) => updateLine(index, 'amount', e.target.value)}
+            className="w-32 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            placeholder="Amount (₹)"
+            min="0"
+          />
+          <button
+            type="button"
+            onClick={() => setLines(lines.filter((_, i) => i !== index))}
+            disabled={lines.length === 1}
+            className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 disabled:opacity-40 rounded-lg transition-colors"
+            title="Remove line"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => setLines([...lines, { description: '', amount: '' }])}
+          className="text-blue-600 hover:text-blue-800 flex items-center"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Line
+        </button>
+        <span className="font-medium text-gray-900">Total: ₹{total.toLocaleString('en-IN')}</span>
+      </div>
+
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Issuing...' : 'Issue Invoice'}
+        </button>
+      </div>
+    </form>
+  );
+}
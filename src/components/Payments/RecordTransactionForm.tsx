@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Save } from 'lucide-react';
+import { PaymentTransaction } from '../../types';
+import { TransactionInput } from '../../services/databaseService';
+import { isInstrument, PAYMENT_METHOD_LABELS } from '../../services/paymentLedger';
+import { useAuth } from '../../hooks/useAuth';
+import { useUsers } from '../../hooks/useUsers';
+
+interface RecordTransactionFormProps {
+  pendingAmount: number;
+  onSubmit: (data: TransactionInput, downloadReceipt: boolean) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// One instalment received against a payment
+export function RecordTransactionForm({ pendingAmount, onSubmit, onCancel }: RecordTransactionFormProps) {
+  const { user } = useAuth();
+  const { users } = useUsers();
+  const [formData, setFormData] = useState({
+    amount: pendingAmount > 0 ? pendingAmount.toString() : '',
+    method: 'cheque' as PaymentTransaction['method'],
+    referenceNumber: '',
+    transactionDate: new Date().toISOString().split('T')[0],
+    bankName: '',
+    instrumentDate: '',
+    receivedBy: user?.id ?? '',
+    notes: '',
+  });
+  const [downloadReceipt, setDownloadReceipt] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseFloat(formData.amount) || 0;
+    const instrument = isInstrument(formData.method);
+    const newErrors: Record<string, string> = {};
+
+    if (amount <= 0) {
+      newErrors.amount = 'Enter the amount received';
+    } else if (amount > pendingAmount) {
+      newErrors.amount = `Only ₹${pendingAmount.toLocaleString('en-IN')} is pending`;
+    }
+    if (!formData.transactionDate) {
+      newErrors.transactionDate = 'Enter the date it was received';
+    }
+    if (instrument && !formData.referenceNumber.trim()) {
+      newErrors.referenceNumber = `Enter the ${formData.method === 'dd' ? 'DD' : 'cheque'} number`;
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        amount,
+        method: formData.method,
+        referenceNumber: formData.referenceNumber.trim() || undefined,
+        transactionDate: new Date(formData.transactionDate),
+        bankName: instrument ? formData.bankName.trim() || undefined : undefined,
+        instrumentDate: instrument && formData.instrumentDate ? new Date(formData.instrumentDate) : undefined,
+        receivedBy: formData.receivedBy || undefined,
+        notes: formData.notes.trim() || undefined,
+      }, downloadReceipt);
+    } catch (error) {
+      setErrors({ form: error instanceof Error ? error.message : 'Failed to record the payment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount (₹) *</label>
+          <input
+            type="number"
+            value={formData.amount}
+            onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+            className={`${inputClass} ${errors.amount ? 'border-red-300' : 'border-gray-300'}`}
+            min="0"
+          />
+          {errors.amount && <p className="text-red-600 text-xs mt-1">{errors.amount}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Method *</label>
+          <select
+            value={formData.method}
+            onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentTransaction['method'] })}
+            className={`${inputClass} border-gray-300`}
+          >
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentTransaction['method'][]).map(method => (
+              <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reference Number</label>
+          <input
+            type="text"
+            value={formData.referenceNumber}
+            onChange={(e) => setFormData({ ...formData, referenceNumber: e.target.value })}
+            className={`${inputClass} ${errors.referenceNumber ? 'border-red-300' : 'border-gray-300'}`}
+            placeholder="Cheque/DD number or transaction ID"
+          />
+          {errors.referenceNumber && <p className="text-red-600 text-xs mt-1">{errors.referenceNumber}</p>}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date Received *</label>
+          <input
+            type="date"
+            value={formData.transactionDate}
+            onChange={(e) => setFormData({ ...formData, transactionDate: e.target.value })}
+            className={`${inputClass} ${errors.transactionDate ? 'border-red-300' : 'border-gray-300'}`}
+          />
+          {errors.transactionDate && <p className="text-red-600 text-xs mt-1">{errors.transactionDate}</p>}
+        </div>
+
+        {isInstrument(formData.method) && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Bank</label>
+              <input
+                type="text"
+                value={formData.bankName}
+                onChange={(e) => setFormData({ ...formData, bankName: e.target.value })}
+                className={`${inputClass} border-gray-300`}
+                placeholder="Issuing bank"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {formData.method === 'dd' ? 'DD' : 'Cheque'} Date
+              </label>
+              <input
+                type="date"
+                value={formData.instrumentDate}
+                onChange={(e) => setFormData({ ...formData, instrumentDate: e.target.value })}
+                className={`${inputClass} border-gray-300`}
+              />
+              <p className="text-xs text-gray-500 mt-1">Leave blank if dated the day received; later dates are post-dated</p>
+            </div>
+          </>
+        )}
+
+        {users.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Received By</label>
+            <select
+              value={formData.receivedBy}
+              onChange={(e) => setFormData({ ...formData, receivedBy: e.target.value })}
+              className={`${inputClass} border-gray-300`}
+            >
+              {users.filter(u => u.isActive || u.id === formData.receivedBy).map(u => (
+                <option key={u.id} value={u.id}>{u.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className={users.length > 0 ? '' : 'sm:col-span-2'}>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <input
+            type="text"
+            value={formData.notes}
+            onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            className={`${inputClass} border-gray-300`}
+            placeholder="Optional"
+          />
+        </div>
+      </div>
+
+      {errors.form && <p className="text-red-600 text-sm">{errors.form}</p>}
+
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={downloadReceipt}
+            onChange={(e) => setDownloadReceipt(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Download receipt</span>
+        </label>
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Recording...' : 'Record Payment'}
+          </button>
+        </div>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Banknote, CheckCircle, XCircle } from 'lucide-react';
+import { PaymentRefund, PaymentTransaction, RefundStatus } from '../../types';
+import { RefundDecision } from '../../services/databaseService';
+import { PAYMENT_METHOD_LABELS, REFUND_STATUS_LABELS } from '../../services/paymentLedger';
+
+const refundColors: Record<RefundStatus, string> = {
+  requested: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-blue-100 text-blue-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  paid: 'bg-red-100 text-red-800',
+};
+
+interface RefundListProps {
+  refunds: PaymentRefund[];
+  transactions: PaymentTransaction[];
+  canApprove: boolean;
+  canPayOut: boolean;
+  onDecide: (refund: PaymentRefund, decision: RefundDecision) => Promise<void>;
+}
+
+const inputClass = 'p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Refund requests against a payment, newest first, with the approval and payout steps
+export function RefundList({ refunds, transactions, canApprove, canPayOut, onDecide }: RefundListProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [payingId, setPayingId] = useState<string | null>(null);
+  const [payout, setPayout] = useState({ method: 'online' as PaymentTransaction['method'], reference: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (refund: PaymentRefund, decision: RefundDecision) => {
+    setBusyId(refund.id);
+    setError(null);
+    try {
+      await onDecide(refund, decision);
+      setPayingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the refund');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const reject = (refund: PaymentRefund) => {
+    const note = prompt('Why is this refund being rejected?');
+    if (note?.trim()) {
+      run(refund, { status: 'rejected', decisionNote: note.trim() });
+    }
+  };
+
+  const payOut = (e: React.FormEvent, refund: PaymentRefund) => {
+    e.preventDefault();
+    run(refund, {
+      status: 'paid',
+      payoutMethod: payout.method,
+      payoutReference: payout.reference.trim() || undefined,
+    });
+  };
+
+  const linkedTo = (refund: PaymentRefund) => refund.transactionIds
+    .map(id => transactions.find(t => t.id === id))
+    .filter((t): t is PaymentTransaction => t !== undefined)
+    .map(t => `${PAYMENT_METHOD_LABELS[t.method]} of ${format(t.transactionDate, 'MMM dd, yyyy')}`)
+    .join(', ');
+
+  if (refunds.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 p-4 border border-dashed border-gray-300 rounded-lg text-center">
+        No refunds have been requested
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {[...refunds].sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime()).map(refund => (
+        <div
+          key={refund.id}
+          className={`p-4 border border-gray-200 rounded-lg ${busyId === refund.id ? 'opacity-50' : ''}`}
+        >
+          <div className="flex items-start justify-between">
+            <div>
+              <p className="font-medium text-gray-900">₹{refund.amount.toLocaleString('en-IN')}</p>
+              <p className="text-sm text-gray-700">{refund.reason}</p>
+              {linkedTo(refund) && <p className="text-xs text-gray-500">Against {linkedTo(refund)}</p>}
+              <p className="text-xs text-gray-500">
+                Requested by {refund.requestedByName || 'Unknown'} on {format(refund.requestedAt, 'MMM dd, yyyy')}
+              </p>
+              {refund.decidedAt && (
+                <p className="text-xs text-gray-500">
+                  {refund.status === 'rejected' ? 'Rejected' : 'Approved'} by {refund.decidedByName || 'Unknown'} on{' '}
+                  {format(refund.decidedAt, 'MMM dd, yyyy')}
+                  {refund.decisionNote && ` — ${refund.decisionNote}`}
+                </p>
+              )}
+              {refund.paidAt && (
+                <p className="text-xs text-gray-500">
+                  Paid {format(refund.paidAt, 'MMM dd, yyyy')}
+                  {refund.payoutMethod && ` by ${PAYMENT_METHOD_LABELS[refund.payoutMethod]}`}
+                  {refund.payoutReference && ` (Ref: ${refund.payoutReference})`}
+                </p>
+              )}
+            </div>
+            <div className="flex items-center space-x-1">
+              <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${refundColors[refund.status]}`}>
+                {REFUND_STATUS_LABELS[refund.status]}
+              </span>
+              {canApprove && refund.status === 'requested' && (
+                <>
+                  <button
+                    onClick={() => run(refund, { status: 'approved' })}
+                    disabled={busyId !== null}
+                    className="p-1.5 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                    title="Approve refund"
+                  >
+                    <CheckCircle className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => reject(refund)}
+                    disabled={busyId !== null}
+                    className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Reject refund"
+                  >
+                    <XCircle className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              {canPayOut && refund.status === 'approved' && payingId !== refund.id && (
+                <button
+                  onClick={() => setPayingId(refund.id)}
+                  disabled={busyId !== null}
+                  className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                  title="Record payout"
+                >
+                  <Banknote className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          {payingId === refund.id && (
+            <form onSubmit={(e) => payOut(e, refund)} className="mt-3 flex flex-wrap items-center gap-2">
+              <select
+                value={payout.method}
+                onChange={(e) => setPayout({ ...payout, method: e.target.value as PaymentTransaction['method'] })}
+                className={inputClass}
+              >
+                {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentTransaction['method'][]).map(method => (
+                  <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={payout.reference}
+                onChange={(e) => setPayout({ ...payout, reference: e.target.value })}
+                className={`${inputClass} flex-1`}
+                placeholder="Reference (UTR, cheque number)"
+              />
+              <button
+                type="button"
+                onClick={() => setPayingId(null)}
+                className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={busyId !== null}
+                className="bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+              >
+                Mark Paid Out
+              </button>
+            </form>
+          )}
+        </div>
+      ))}
+      {error && <p className="text-red-600 text-sm">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { Save } from 'lucide-react';
+import { Payment } from '../../types';
+import { RefundInput } from '../../services/databaseService';
+import { countsTowardsPaid, describeInstrument, refundableAmount } from '../../services/paymentLedger';
+
+interface RefundRequestFormProps {
+  payment: Payment;
+  onSubmit: (data: RefundInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full p-2 border rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// Asks for money back against some of a payment's transactions; an admin approves it
+export function RefundRequestForm({ payment, onSubmit, onCancel }: RefundRequestFormProps) {
+  const refundable = refundableAmount(payment);
+  const transactions = payment.transactions.filter(countsTowardsPaid);
+  const [selected, setSelected] = useState<string[]>(transactions.map(t => t.id));
+  const [amount, setAmount] = useState(refundable.toString());
+  const [reason, setReason] = useState('');
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const linkedTotal = transactions.filter(t => selected.includes(t.id)).reduce((sum, t) => sum + t.amount, 0);
+
+  const toggle = (id: string) => {
+    setSelected(selected.includes(id) ? selected.filter(s => s !== id) : [...selected, id]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount) || 0;
+    const newErrors: Record<string, string> = {};
+
+    if (selected.length === 0) {
+      newErrors.transactions = 'Pick the transactions being refunded';
+    }
+    if (value <= 0) {
+      newErrors.amount = 'Enter the amount to refund';
+    } else if (value > refundable) {
+      newErrors.amount = `Only ₹${refundable.toLocaleString('en-IN')} can still be refunded`;
+    } else if (value > linkedTotal) {
+      newErrors.amount = `The selected transactions come to ₹${linkedTotal.toLocaleString('en-IN')}`;
+    }
+    if (!reason.trim()) {
+      newErrors.reason = 'Say why the money is going back';
+    }
+
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    setSaving(true);
+    try {
+      await onSubmit({ amount: value, reason: reason.trim(), transactionIds: selected });
+    } catch (error) {
+      setErrors({ form: error instanceof Error ? error.message : 'Failed to request the refund' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Refund Against *</label>
+        <div className="space-y-1">
+          {transactions.map(transaction => (
+            <label key={transaction.id} className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={selected.includes(transaction.id)}
+                onChange={() => toggle(transaction.id)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>
+                {format(transaction.transactionDate, 'MMM dd, yyyy')} · {describeInstrument(transaction)} ·
+                ₹{transaction.amount.toLocaleString('en-IN')}
+              </span>
+            </label>
+          ))}
+        </div>
+        {errors.transactions && <p className="text-red-600 text-xs mt-1">{errors.transactions}</p>}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Amount (₹) *</label>
+          <input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className={`${inputClass} ${errors.amount ? 'border-red-300' : 'border-gray-300'}`}
+            min="0"
+          />
+          {errors.amount && <p className="text-red-600 text-xs mt-1">{errors.amount}</p>}
+          <p className="text-xs text-gray-500 mt-1">Up to ₹{refundable.toLocaleString('en-IN')}; less for a partial refund</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason *</label>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className={`${inputClass} ${errors.reason ? 'border-red-300' : 'border-gray-300'}`}
+            placeholder="e.g. Registration cancelled by the customer"
+          />
+          {errors.reason && <p className="text-red-600 text-xs mt-1">{errors.reason}</p>}
+        </div>
+      </div>
+
+      {errors.form && <p className="text-red-600 text-sm">{errors.form}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Requesting...' : 'Request Refund'}
+        </button>
+      </div>
+    </form>
+  );
+}
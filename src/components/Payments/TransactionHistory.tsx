@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Landmark, Printer, Trash2, Undo2, XCircle } from 'lucide-react';
+import { ClearanceStatus, PaymentTransaction } from '../../types';
+import { CLEARANCE_STATUS_LABELS, isInstrument, isPostDated, PAYMENT_METHOD_LABELS } from '../../services/paymentLedger';
+
+const clearanceColors: Record<ClearanceStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  cleared: 'bg-green-100 text-green-800',
+  bounced: 'bg-red-100 text-red-800',
+};
+
+interface TransactionHistoryProps {
+  transactions: PaymentTransaction[];
+  onClearanceChange?: (transaction: PaymentTransaction, status: ClearanceStatus) => Promise<void>;
+  onDeposit?: (transaction: PaymentTransaction) => Promise<void>;
+  onDelete?: (transaction: PaymentTransaction) => Promise<void>;
+  onPrintReceipt?: (transaction: PaymentTransaction) => Promise<void>;
+}
+
+// Every instalment received against a payment, oldest first
+export function TransactionHistory({
+  transactions,
+  onClearanceChange,
+  onDeposit,
+  onDelete,
+  onPrintReceipt,
+}: TransactionHistoryProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (transaction: PaymentTransaction, action: () => Promise<void>) => {
+    setBusyId(transaction.id);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the transaction');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (transactions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 p-4 border border-dashed border-gray-300 rounded-lg text-center">
+        No money has been received against this payment yet
+      </p>
+    );
+  }
+
+  return (
+    <div>
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 border-b border-gray-200">
+            <tr className="text-left text-gray-700">
+              <th className="px-4 py-2 font-medium">Date</th>
+              <th className="px-4 py-2 font-medium">Method</th>
+              <th className="px-4 py-2 font-medium">Received By</th>
+              <th className="px-4 py-2 font-medium">Clearance</th>
+              <th className="px-4 py-2 font-medium text-right">Amount</th>
+              {(onClearanceChange || onDeposit || onDelete || onPrintReceipt) && <th className="px-4 py-2" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {transactions.map(transaction => (
+              <tr key={transaction.id} className={busyId === transaction.id ? 'opacity-50' : ''}>
+                <td className="px-4 py-3 text-gray-900 whitespace-nowrap">
+                  {format(transaction.transactionDate, 'MMM dd, yyyy')}
+                </td>
+                <td className="px-4 py-3">
+                  <p className="text-gray-900">{PAYMENT_METHOD_LABELS[transaction.method]}</p>
+                  {transaction.referenceNumber && (
+                    <p className="text-xs text-gray-500">Ref: {transaction.referenceNumber}</p>
+                  )}
+                  {transaction.bankName && <p className="text-xs text-gray-500">{transaction.bankName}</p>}
+                  {transaction.instrumentDate && (
+                    <p className="text-xs text-gray-500">
+                      Dated {format(transaction.instrumentDate, 'MMM dd, yyyy')}
+                      {isPostDated(transaction) && (
+                        <span className="ml-1 px-1.5 py-0.5 bg-purple-100 text-purple-800 rounded">Post-dated</span>
+                      )}
+                    </p>
+                  )}
+                  {transaction.depositDate && (
+                    <p className="text-xs text-gray-500">Deposited {format(transaction.depositDate, 'MMM dd, yyyy')}</p>
+                  )}
+                  {transaction.notes && <p className="text-xs text-gray-500">{transaction.notes}</p>}
+                </td>
+                <td className="px-4 py-3 text-gray-600">{transaction.receivedByName || '—'}</td>
+                <td className="px-4 py-3">
+                  <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${clearanceColors[transaction.clearanceStatus]}`}>
+                    {CLEARANCE_STATUS_LABELS[transaction.clearanceStatus]}
+                  </span>
+                  {transaction.clearedAt && transaction.clearanceStatus === 'cleared' && (
+                    <p className="text-xs text-gray-500 mt-1">{format(transaction.clearedAt, 'MMM dd, yyyy')}</p>
+                  )}
+                  {transaction.clearanceStatus === 'bounced' && transaction.bounceReason && (
+                    <p className="text-xs text-red-600 mt-1">{transaction.bounceReason}</p>
+                  )}
+                </td>
+                <td className={`px-4 py-3 text-right font-medium whitespace-nowrap ${
+                  transaction.clearanceStatus === 'bounced' ? 'text-gray-400 line-through' : 'text-gray-900'
+                }`}>
+                  ₹{transaction.amount.toLocaleString('en-IN')}
+                </td>
+                {(onClearanceChange || onDeposit || onDelete || onPrintReceipt) && (
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end space-x-1">
+                      {onPrintReceipt && (
+                        <button
+                          onClick={() => run(transaction, () => onPrintReceipt(transaction))}
+                          disabled={busyId !== null}
+                          className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Print receipt"
+                        >
+                          <Printer className="w-4 h-4" />
+                        </button>
+                      )}
+                      {onDeposit && transaction.clearanceStatus === 'pending' && isInstrument(transaction.method) &&
+                        !transaction.depositDate && !isPostDated(transaction) && (
+                        <button
+                          onClick={() => run(transaction, () => onDeposit(transaction))}
+                          disabled={busyId !== null}
+                          className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Mark deposited today"
+                        >
+                          <Landmark className="w-4 h-4" />
+                        </button>
+                      )}
+                      {onClearanceChange && transaction.clearanceStatus === 'pending' && (
+                        <>
+                          <button
+                            onClick={() => run(transaction, () => onClearanceChange(transaction, 'cleared'))}
+                            disabled={busyId !== null}
+                            className="p-1.5 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                            title="Mark cleared"
+                          >
+                            <CheckCircle className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => run(transaction, () => onClearanceChange(transaction, 'bounced'))}
+                            disabled={busyId !== null}
+                            className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Mark bounced"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      {onClearanceChange && transaction.clearanceStatus !== 'pending' && isInstrument(transaction.method) && (
+                        <button
+                          onClick={() => run(transaction, () => onClearanceChange(transaction, 'pending'))}
+                          disabled={busyId !== null}
+                          className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Back to awaiting clearance"
+                        >
+                          <Undo2 className="w-4 h-4" />
+                        </button>
+                      )}
+                      {onDelete && (
+                        <button
+                          onClick={() => {
+                            if (confirm('Delete this transaction? Use this only for entries made in error.')) {
+                              run(transaction, () => onDelete(transaction));
+                            }
+                          }}
+                          disabled={busyId !== null}
+                          className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete transaction"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
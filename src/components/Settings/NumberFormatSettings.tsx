@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Hash, RefreshCw, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { NumberSeries } from '../../types';
+import { useNumberSequences } from '../../hooks/useNumberSequences';
+import { financialYearOf } from '../../services/financialYear';
+import {
+  DEFAULT_NUMBER_FORMATS,
+  NUMBER_FORMAT_TOKENS,
+  NUMBER_SERIES,
+  NUMBER_SERIES_LABELS,
+  numberFormatError,
+  NumberFormats,
+  numberPrefix,
+  renderNumber,
+} from '../../services/numberSequences';
+
+// Edits how document, challan, task and salary slip numbers look, and shows
+// how far this year's counters have got
+export function NumberFormatSettings() {
+  const { formats, counters, saveFormats } = useNumberSequences();
+  const [draft, setDraft] = useState<NumberFormats>(formats);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ success: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setDraft(formats);
+  }, [formats]);
+
+  const today = new Date();
+  const currentYear = financialYearOf(today);
+  const currentCounters = counters.filter(counter => counter.financialYear === currentYear);
+  const errors = Object.fromEntries(
+    NUMBER_SERIES.map(series => [series, numberFormatError(draft[series])])
+  ) as Record<NumberSeries, string | undefined>;
+
+  const handleSave = async () => {
+    if (NUMBER_SERIES.some(series => errors[series])) {
+      setMessage({ success: false, text: 'Fix the formats marked below' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      await saveFormats(draft);
+      setMessage({ success: true, text: 'Number formats saved' });
+    } catch (error) {
+      setMessage({ success: false, text: error instanceof Error ? error.message : 'Failed to save number formats' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+        <Hash className="w-5 h-5 mr-2 text-indigo-600" />
+        Numbering
+      </h2>
+      <p className="text-sm text-gray-600 mb-6">
+        The server numbers new records in order. Counters restart every April with the financial year; changing a format starts a new counter.
+      </p>
+
+      <div className="space-y-4">
+        {NUMBER_SERIES.map(series => (
+          <label key={series} className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-1">{NUMBER_SERIES_LABELS[series]}</span>
+            <div className="flex flex-col md:flex-row md:items-center md:space-x-4">
+              <input
+                type="text"
+                value={draft[series]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [series]: e.target.value }))}
+                className={`w-full md:w-80 px-3 py-2 border rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors[series] ? 'border-red-300' : 'border-gray-300'
+                }`}
+              />
+              {!errors[series] && (
+                <span className="text-sm text-gray-500 mt-1 md:mt-0">
+                  e.g. {renderNumber(draft[series], {
+                    prefix: numberPrefix(series, series === 'document' ? 'sale_deed' : undefined),
+                    date: today,
+                    sequence: 1,
+                  })}
+                </span>
+              )}
+            </div>
+            {errors[series] && <p className="text-red-600 text-sm mt-1">{errors[series]}</p>}
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Placeholders</h3>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+          {NUMBER_FORMAT_TOKENS.map(({ token, meaning }) => (
+            <div key={token} className="flex">
+              <dt className="font-mono text-gray-900 w-24 shrink-0">{token}</dt>
+              <dd className="text-gray-600">{meaning}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+
+      <div className="mt-6">
+        <h3 className="text-md font-medium text-gray-900 mb-3">Counters for {currentYear}</h3>
+        {currentCounters.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing has been numbered this financial year yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Pattern</th>
+                <th className="py-2 font-medium">Last Number</th>
+                <th className="py-2 font-medium">Last Used</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {currentCounters.map(counter => (
+                <tr key={counter.scope}>
+                  <td className="py-2 font-mono text-gray-900">{counter.scope}</td>
+                  <td className="py-2 text-gray-700">{counter.lastValue}</td>
+                  <td className="py-2 text-gray-500">{format(counter.updatedAt, 'MMM dd, yyyy HH:mm')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {message && (
+        <p className={`mt-6 text-sm ${message.success ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+      )}
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={() => setDraft(DEFAULT_NUMBER_FORMATS)}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors"
+        >
+          Restore Defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+        >
+          {saving ? <RefreshCw className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+          Save Formats
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Task } from '../../types/task';
+
+interface TaskChecklistProps {
+  task: Task;
+  canTick: boolean;
+  onToggle: (itemId: string, isCompleted: boolean) => Promise<void>;
+  // Smaller type and no descriptions, for the mobile task list
+  compact?: boolean;
+}
+
+// The task's checklist with who ticked each item off and when
+export function TaskChecklist({ task, canTick, onToggle, compact = false }: TaskChecklistProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const closed = task.status === 'completed' || task.status === 'cancelled';
+  const done = task.checklist.filter(item => item.isCompleted).length;
+
+  const handleToggle = async (itemId: string, isCompleted: boolean) => {
+    setBusy(itemId);
+    setError('');
+    try {
+      await onToggle(itemId, isCompleted);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update checklist');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center space-x-3 mb-3">
+        <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-green-500 transition-all"
+            style={{ width: `${task.checklist.length ? (done / task.checklist.length) * 100 : 0}%` }}
+          />
+        </div>
+        <span className="text-xs text-gray-600">{done} of {task.checklist.length} done</span>
+      </div>
+
+      <ul className={compact ? 'space-y-2' : 'space-y-3'}>
+        {task.checklist.map(item => (
+          <li key={item.id}>
+            <label className={`flex items-start space-x-3 ${canTick && !closed ? 'cursor-pointer' : ''}`}>
+              <input
+                type="checkbox"
+                checked={item.isCompleted}
+                disabled={!canTick || closed || busy !== null}
+                onChange={(e) => handleToggle(item.id, e.target.checked)}
+                className="mt-0.5 rounded border-gray-300 text-green-600 focus:ring-green-500"
+              />
+              <span className="flex-1 min-w-0">
+                <span className={`${compact ? 'text-xs' : 'text-sm'} ${item.isCompleted ? 'text-gray-500 line-through' : 'text-gray-900'}`}>
+                  {item.title}
+                </span>
+                {item.isRequired && (
+                  <span className="ml-2 px-1.5 py-0.5 bg-red-50 text-red-700 text-xs rounded">Required</span>
+                )}
+                {!compact && item.description && (
+                  <span className="block text-xs text-gray-500 mt-0.5">{item.description}</span>
+                )}
+                {item.isCompleted && item.completedAt && (
+                  <span className="block text-xs text-gray-500 mt-0.5">
+                    {item.completedByName ?? item.completedBy} &middot; {format(item.completedAt, 'MMM dd, yyyy HH:mm')}
+                  </span>
+                )}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
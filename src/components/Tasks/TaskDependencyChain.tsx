@@ -0,0 +1,173 @@
+import { Fragment, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowDown, Edit, GitBranch, RefreshCw, Save } from 'lucide-react';
+import { Task, TaskLink, TaskStatus } from '../../types/task';
+import { dependencyChain, dependencyCycle } from '../../services/taskDependencies';
+
+const chipColors: Record<TaskStatus, string> = {
+  pending: 'border-gray-300 bg-gray-50',
+  in_progress: 'border-blue-300 bg-blue-50',
+  on_hold: 'border-yellow-300 bg-yellow-50',
+  completed: 'border-green-300 bg-green-50',
+  cancelled: 'border-red-200 bg-red-50',
+  overdue: 'border-red-300 bg-red-50',
+};
+
+interface TaskDependencyChainProps {
+  task: Task;
+  // The tasks around this one, from useTaskChain
+  links: TaskLink[];
+  // Tasks that can be picked as prerequisites
+  candidates: Task[];
+  canManage: boolean;
+  onSave: (dependencies: string[]) => Promise<void>;
+}
+
+function TaskChip({ link, current = false }: { link: TaskLink; current?: boolean }) {
+  const navigate = useNavigate();
+  return (
+    <button
+      onClick={() => !current && navigate(`/tasks/${link.id}`)}
+      disabled={current}
+      className={`text-left px-3 py-2 rounded-lg border text-sm max-w-xs ${
+        current ? 'border-blue-600 ring-2 ring-blue-200 bg-white' : `${chipColors[link.status]} hover:shadow-sm`
+      }`}
+    >
+      {link.taskNumber && <span className="block text-xs text-gray-500">{link.taskNumber}</span>}
+      <span className="block font-medium text-gray-900 truncate">{link.title}</span>
+      <span className="block text-xs text-gray-600 capitalize">{link.status.replace('_', ' ')}</span>
+    </button>
+  );
+}
+
+// What this task waits on, above it, and what waits on it, below, however far
+// each way the chain goes
+export function TaskDependencyChain({ task, links, candidates, canManage, onSave }: TaskDependencyChainProps) {
+  const [editing, setEditing] = useState(false);
+  const [selected, setSelected] = useState<string[]>(task.dependencies);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const chain = useMemo(() => dependencyChain(task.id, links), [task.id, links]);
+  const levels = [...[...chain.upstream].reverse(), null, ...chain.downstream];
+
+  const options = candidates
+    .filter(candidate => candidate.id !== task.id)
+    .filter(candidate => `${candidate.taskNumber ?? ''} ${candidate.title}`.toLowerCase().includes(search.toLowerCase()));
+
+  const startEditing = () => {
+    setSelected(task.dependencies);
+    setSearch('');
+    setError('');
+    setEditing(true);
+  };
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(d => d !== id) : [...prev, id]));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      await onSave(selected);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update dependencies');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <GitBranch className="w-5 h-5 mr-2" />
+          Dependencies
+        </h2>
+        {canManage && !editing && (
+          <button
+            onClick={startEditing}
+            className="text-blue-600 hover:text-blue-700 text-sm font-medium flex items-center"
+          >
+            <Edit className="w-4 h-4 mr-1" />
+            Edit
+          </button>
+        )}
+      </div>
+
+      {editing ? (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-600">Pick the tasks that must be completed before this one can start.</p>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search tasks..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {options.map(option => {
+              // Tasks already waiting on this one would close a loop
+              const loops = !selected.includes(option.id) && Boolean(dependencyCycle(task.id, [option.id], candidates));
+              return (
+                <label
+                  key={option.id}
+                  className={`flex items-center px-3 py-2 text-sm ${loops ? 'opacity-50' : 'hover:bg-gray-50 cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(option.id)}
+                    disabled={loops}
+                    onChange={() => toggle(option.id)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-3"
+                  />
+                  <span className="flex-1">
+                    {option.taskNumber && <span className="text-gray-500 mr-2">{option.taskNumber}</span>}
+                    {option.title}
+                  </span>
+                  {loops && <span className="text-xs text-gray-500">waits on this task</span>}
+                </label>
+              );
+            })}
+            {options.length === 0 && <p className="px-3 py-4 text-sm text-gray-500 text-center">No tasks found</p>}
+          </div>
+          {error && <p className="text-red-600 text-sm">{error}</p>}
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => setEditing(false)}
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+            >
+              {saving ? <RefreshCw className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+              Save
+            </button>
+          </div>
+        </div>
+      ) : chain.upstream.length === 0 && chain.downstream.length === 0 ? (
+        <p className="text-sm text-gray-500">This task does not wait on any other task, and none wait on it.</p>
+      ) : (
+        <div className="flex flex-col items-center space-y-2">
+          {levels.map((level, index) => (
+            <Fragment key={index}>
+              {index > 0 && <ArrowDown className="w-4 h-4 text-gray-400" />}
+              <div className="flex flex-wrap justify-center gap-2">
+                {level === null
+                  ? <TaskChip link={task} current />
+                  : level.map(link => <TaskChip key={link.id} link={link} />)}
+              </div>
+            </Fragment>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { ArrowRight, Plus, Trash2, Workflow } from 'lucide-react';
+import { DocumentStatus } from '../../types';
+import { TaskPipelineRule, TaskTemplate } from '../../types/task';
+import { PipelineRuleInput } from '../../services/databaseService';
+import { DOCUMENT_STAGES } from '../../services/documentWorkflow';
+import { stageIndex } from '../../services/taskPipeline';
+
+interface TaskPipelineRulesProps {
+  rules: TaskPipelineRule[];
+  templates: TaskTemplate[];
+  canEdit: boolean;
+  onSave: (data: PipelineRuleInput, id?: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+}
+
+const selectClass = 'px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+interface RuleFieldsProps {
+  value: PipelineRuleInput;
+  templates: TaskTemplate[];
+  disabled: boolean;
+  onChange: (value: PipelineRuleInput) => void;
+}
+
+// When a document reaches [stage], open a [template] task, done at [stage]
+function RuleFields({ value, templates, disabled, onChange }: RuleFieldsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+      <span>At</span>
+      <select
+        value={value.documentStatus}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, documentStatus: e.target.value as DocumentStatus })}
+        className={selectClass}
+      >
+        {DOCUMENT_STAGES.slice(0, -1).map(stage => (
+          <option key={stage.status} value={stage.status}>{stage.label}</option>
+        ))}
+      </select>
+      <ArrowRight className="w-4 h-4 text-gray-400" />
+      <select
+        value={value.templateId}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, templateId: e.target.value })}
+        className={selectClass}
+      >
+        <option value="">Choose a template</option>
+        {templates.map(template => (
+          <option key={template.id} value={template.id}>
+            {template.name}{template.isArchived ? ' (archived)' : ''}
+          </option>
+        ))}
+      </select>
+      <span>closes at</span>
+      <select
+        value={value.closesOn}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, closesOn: e.target.value as DocumentStatus })}
+        className={selectClass}
+      >
+        {DOCUMENT_STAGES.filter(stage => stageIndex(stage.status) > stageIndex(value.documentStatus)).map(stage => (
+          <option key={stage.status} value={stage.status}>{stage.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+}
+
+const nextStage = (status: DocumentStatus): DocumentStatus =>
+  DOCUMENT_STAGES[Math.min(stageIndex(status) + 1, DOCUMENT_STAGES.length - 1)].status;
+
+// Which document stages open tasks and which complete them
+export function TaskPipelineRules({ rules, templates, canEdit, onSave, onDelete }: TaskPipelineRulesProps) {
+  const [draft, setDraft] = useState<PipelineRuleInput>({
+    documentStatus: 'pending_collection',
+    templateId: '',
+    closesOn: 'collected',
+    isActive: true,
+  });
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save pipeline rule');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Moving the opening stage past the closing one moves the closing stage on
+  const withValidClose = (value: PipelineRuleInput): PipelineRuleInput =>
+    stageIndex(value.closesOn) > stageIndex(value.documentStatus)
+      ? value
+      : { ...value, closesOn: nextStage(value.documentStatus) };
+
+  const sorted = [...rules].sort((a, b) => stageIndex(a.documentStatus) - stageIndex(b.documentStatus));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+        <Workflow className="w-5 h-5 mr-2" />
+        Document Pipeline
+      </h2>
+      <p className="text-sm text-gray-600 mt-1 mb-4">
+        When a document reaches a stage, a task is opened for it from the template and assigned by the
+        template's rules. The task is completed automatically once the document reaches the closing stage.
+      </p>
+
+      <div className="space-y-3">
+        {sorted.map(rule => (
+          <div key={rule.id} className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-2 border border-gray-200 rounded-lg p-3">
+            <RuleFields
+              value={rule}
+              templates={templates}
+              disabled={!canEdit || busy !== null}
+              onChange={(value) => run(rule.id, () => onSave(withValidClose({ ...value, isActive: rule.isActive }), rule.id))}
+            />
+            <div className="flex items-center gap-3">
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={rule.isActive}
+                  disabled={!canEdit || busy !== null}
+                  onChange={(e) => run(rule.id, () => onSave({ ...rule, isActive: e.target.checked }, rule.id))}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Active</span>
+              </label>
+              <button
+                onClick={() => run(rule.id, () => onDelete(rule.id))}
+                disabled={!canEdit || busy !== null}
+                className="p-1 text-red-400 hover:text-red-600 disabled:opacity-50"
+                title="Delete rule"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {rules.length === 0 && (
+          <p className="text-sm text-gray-500">No document stage opens tasks by itself.</p>
+        )}
+
+        {canEdit && (
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-2 border border-dashed border-gray-300 rounded-lg p-3">
+            <RuleFields
+              value={draft}
+              templates={templates.filter(template => !template.isArchived)}
+              disabled={busy !== null}
+              onChange={(value) => setDraft(withValidClose(value))}
+            />
+            <button
+              onClick={() => run('new', async () => {
+                await onSave(draft);
+                setDraft({ ...draft, templateId: '' });
+              })}
+              disabled={!draft.templateId || busy !== null}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Rule
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
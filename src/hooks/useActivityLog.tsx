@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityLog } from '../types';
+import { ActivityFilters, databaseService } from '../services/databaseService';
+import { useDatabase } from './useDatabase';
+
+// Loads activity history from the server. It is not kept offline, so while
+// disconnected the list stays empty.
+export function useActivityLog(filters: ActivityFilters, enabled = true) {
+  const { isConnected } = useDatabase();
+  const [activities, setActivities] = useState<ActivityLog[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const filterKey = JSON.stringify(filters);
+
+  const reload = useCallback(async () => {
+    if (!isConnected || !enabled) {
+      setActivities([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await databaseService.getActivity(JSON.parse(filterKey) as ActivityFilters);
+      if (result.success && result.data) {
+        setActivities(result.data);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load activity');
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [isConnected, enabled, filterKey]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { activities, loading, error, reload };
+}
@@ -1,7 +1,8 @@
-import { useState, createContext, useContext, ReactNode } from 'react';
+import { useState, createContext, useContext, ReactNode, useEffect } from 'react';
 import { AttendanceRecord, AttendanceStatus, AttendanceStats, LeaveRequest, LeaveType, LeaveStatus, WorkSchedule, AttendanceSettings } from '../types/attendance';
 import { useAuth } from './useAuth';
 import { databaseService } from '../services/databaseService';
+import { cacheRecords, createLocalId, queueChange, readRecords } from '../services/offlineStore';
 import { useDatabase } from './useDatabase';
 
 interface AttendanceContextType {
@@ -70,6 +71,35 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
   const [attendanceSettings] = useState<AttendanceSettings>(defaultAttendanceSettings);
   const [loading, setLoading] = useState(false);
 
+  // Load attendance from database on mount
+  useEffect(() => {
+    if (isConnected && user) {
+      loadAttendanceFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<AttendanceRecord>('attendance').then(cached => {
+        if (cached.length > 0) setAttendanceRecords(cached);
+      });
+    }
+  }, [isConnected, user]);
+
+  const loadAttendanceFromDatabase = async () => {
+    if (!isConnected) return;
+
+    setLoading(true);
+    try {
+      const result = await databaseService.getAttendance();
+      if (result.success && result.data) {
+        setAttendanceRecords(result.data);
+        await cacheRecords('attendance', result.data);
+      }
+    } catch (error) {
+      console.error('Error loading attendance from database:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const generateAttendanceId = (): string => {
     const count = attendanceRecords.length + 1;
     return `ATT${count.toString().padStart(3, '0')}`;
@@ -82,34 +112,17 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
     try {
       if (isConnected) {
         // Clock in via database
-        const result = await databaseService.clockIn(user.id, location, notes);
+        const result = await databaseService.clockIn(location, notes);
         
-        if (result.success) {
-          // Create local record for immediate UI update
-          const now = new Date();
-          const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          
-          const newRecord: AttendanceRecord = {
-            id: generateAttendanceId(),
-            userId: user.id,
-            userName: user.name,
-            userRole: user.role,
-            date: today,
-            clockInTime: now,
-            status: 'present',
-            location,
-            notes,
-            createdAt: now,
-            updatedAt: now,
-          };
-
+        if (result.success && result.data) {
+          const newRecord = result.data;
           setAttendanceRecords(prev => [...prev, newRecord]);
           return newRecord;
         } else {
           throw new Error(result.error || 'Failed to clock in');
         }
       } else {
-        // Fallback to mock data
+        // Offline: record it here; the server takes the time it happened on sync
         const now = new Date();
         const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
         
@@ -129,7 +142,7 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
         const isLate = now > new Date(expectedStartTime.getTime() + attendanceSettings.lateThresholdMinutes * 60000);
 
         const newRecord: AttendanceRecord = {
-          id: generateAttendanceId(),
+          id: createLocalId(),
           userId: user.id,
           userName: user.name,
           userRole: user.role,
@@ -143,6 +156,14 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
         };
 
         setAttendanceRecords(prev => [...prev, newRecord]);
+        await queueChange({
+          entity: 'attendance',
+          recordId: newRecord.id,
+          method: 'POST',
+          path: '/attendance/clock-in',
+          body: { location, notes, recordedAt: now },
+          description: `Clock in at ${now.toLocaleTimeString()}`,
+        }, newRecord);
         return newRecord;
       }
     } finally {
@@ -157,50 +178,21 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
     try {
       if (isConnected) {
         // Clock out via database
-        const result = await databaseService.clockOut(user.id, notes);
+        const result = await databaseService.clockOut(notes);
         
-        if (result.success) {
-          // Update local record for immediate UI update
-          const now = new Date();
-          const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-          
-          const existingRecord = attendanceRecords.find(
-            record => record.userId === user.id && 
-            record.date.toDateString() === today.toDateString() &&
-            record.clockInTime && !record.clockOutTime
+        if (result.success && result.data) {
+          const updatedRecord = result.data;
+          setAttendanceRecords(prev => 
+            prev.map(record => 
+              record.id === updatedRecord.id ? updatedRecord : record
+            )
           );
-
-          if (existingRecord) {
-            const totalMinutes = (now.getTime() - existingRecord.clockInTime!.getTime()) / (1000 * 60);
-            const totalHours = Math.round((totalMinutes / 60) * 100) / 100;
-            const breakTime = existingRecord.breakTime || 60;
-            const workingHours = totalHours - (breakTime / 60);
-            const overtime = Math.max(0, workingHours - attendanceSettings.workingHoursPerDay);
-
-            const updatedRecord: AttendanceRecord = {
-              ...existingRecord,
-              clockOutTime: now,
-              totalHours: workingHours,
-              overtime,
-              notes: notes || existingRecord.notes,
-              updatedAt: now,
-            };
-
-            setAttendanceRecords(prev => 
-              prev.map(record => 
-                record.id === existingRecord.id ? updatedRecord : record
-              )
-            );
-
-            return updatedRecord;
-          } else {
-            throw new Error('No active clock-in found for today');
-          }
+          return updatedRecord;
         } else {
           throw new Error(result.error || 'Failed to clock out');
         }
       } else {
-        // Fallback to mock data
+        // Offline: record it here; the server takes the time it happened on sync
         const now = new Date();
         const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
         
@@ -234,6 +226,14 @@ export function AttendanceProvider({ children }: { children: ReactNode }) {
             record.id === existingRecord.id ? updatedRecord : record
           )
         );
+        await queueChange({
+          entity: 'attendance',
+          recordId: existingRecord.id,
+          method: 'POST',
+          path: '/attendance/clock-out',
+          body: { notes, recordedAt: now },
+          description: `Clock out at ${now.toLocaleTimeString()}`,
+        }, updatedRecord);
 
         return updatedRecord;
       }
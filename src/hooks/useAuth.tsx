@@ -1,59 +1,19 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-import { User, UserRole, Permission } from '../types';
-import { useUsers } from './useUsers';
+import { User } from '../types';
+import { databaseService } from '../services/databaseService';
+import { can as policyAllows, PermissionAction, PermissionModule } from '../services/accessPolicy';
+import { cacheSignedInUser, clearOfflineData, readSignedInUser, setOfflineUser } from '../services/offlineStore';
 
 interface AuthContextType {
   user: User | null;
   login: (email: string, password: string) => Promise<boolean>;
-  logout: () => void;
-  hasPermission: (module: string, action: string) => boolean;
+  logout: () => Promise<void>;
+  can: (module: PermissionModule, action: PermissionAction) => boolean;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Mock user data for demonstration
-const mockUsers: User[] = [
-  {
-    id: '1',
-    email: 'admin@omservices.com',
-    name: 'Main Admin',
-    role: 'main_admin',
-    permissions: [
-      { id: '1', module: 'documents', action: 'create', granted: true },
-      { id: '2', module: 'documents', action: 'read', granted: true },
-      { id: '3', module: 'documents', action: 'update', granted: true },
-      { id: '4', module: 'documents', action: 'delete', granted: true },
-      { id: '5', module: 'payments', action: 'create', granted: true },
-      { id: '6', module: 'payments', action: 'read', granted: true },
-      { id: '7', module: 'payments', action: 'update', granted: true },
-      { id: '8', module: 'users', action: 'create', granted: true },
-      { id: '9', module: 'users', action: 'read', granted: true },
-      { id: '10', module: 'users', action: 'update', granted: true },
-      { id: '11', module: 'salary', action: 'read', granted: true },
-      { id: '12', module: 'salary', action: 'manage', granted: true },
-    ],
-    isActive: true,
-    createdAt: new Date('2024-01-01'),
-    lastLogin: new Date(),
-  },
-  {
-    id: '2',
-    email: 'challan@omservices.com',
-    name: 'Challan Staff',
-    role: 'challan_staff',
-    permissions: [
-      { id: '11', module: 'documents', action: 'read', granted: true },
-      { id: '12', module: 'challans', action: 'create', granted: true },
-      { id: '13', module: 'challans', action: 'update', granted: true },
-      { id: '14', module: 'payments', action: 'read', granted: true },
-    ],
-    isActive: true,
-    createdAt: new Date('2024-01-15'),
-    lastLogin: new Date(),
-  },
-];
-
 export function useAuth() {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -65,84 +25,74 @@ export function useAuth() {
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [allUsers, setAllUsers] = useState<User[]>(mockUsers);
 
+  // Changes made offline are queued under the signed-in user
   useEffect(() => {
-    // Check for stored user session
-    const storedUser = localStorage.getItem('om-services-user');
-    if (storedUser) {
-      setUser(JSON.parse(storedUser));
-    }
-    setIsLoading(false);
-  }, []);
+    setOfflineUser(user?.id ?? null);
+  }, [user]);
 
-  // Update allUsers when new users are created
   useEffect(() => {
-    const handleStorageChange = () => {
-      const storedUsers = localStorage.getItem('om-services-users');
-      if (storedUsers) {
-        try {
-          const users = JSON.parse(storedUsers);
-          setAllUsers([...mockUsers, ...users]);
-        } catch (error) {
-          console.error('Error parsing stored users:', error);
+    // Restore the session from the server. Only when the server cannot be
+    // reached is the last signed-in user taken from the offline store, so the
+    // app keeps working offline; the API still checks the session on sync.
+    localStorage.removeItem('om-services-user');
+    databaseService.getCurrentUser()
+      .then(async result => {
+        if (result.success && result.data) {
+          setUser(result.data);
+          await cacheSignedInUser(result.data);
+        } else if (result.status === undefined) {
+          setUser(await readSignedInUser());
+        } else {
+          setUser(null);
+          await clearOfflineData();
         }
-      }
-    };
-
-    // Load users on mount
-    handleStorageChange();
-
-    // Listen for storage changes
-    window.addEventListener('storage', handleStorageChange);
-    
-    // Custom event for same-tab updates
-    window.addEventListener('usersUpdated', handleStorageChange);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
 
-    return () => {
-      window.removeEventListener('storage', handleStorageChange);
-      window.removeEventListener('usersUpdated', handleStorageChange);
+  // The API reports an expired or revoked session on any request
+  useEffect(() => {
+    const handleSessionExpired = () => {
+      setUser(null);
+      clearOfflineData();
     };
+    window.addEventListener('sessionExpired', handleSessionExpired);
+    return () => window.removeEventListener('sessionExpired', handleSessionExpired);
   }, []);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     setIsLoading(true);
-    
-    // Mock authentication - in real app, this would be an API call
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    
-    const foundUser = allUsers.find(u => u.email === email && u.isActive);
-    if (foundUser && password === 'password123') {
-      setUser(foundUser);
-      localStorage.setItem('om-services-user', JSON.stringify(foundUser));
+    try {
+      const result = await databaseService.login(email, password);
+      if (result.success && result.data) {
+        setUser(result.data);
+        await cacheSignedInUser(result.data);
+        return true;
+      }
+      return false;
+    } finally {
       setIsLoading(false);
-      return true;
     }
-    
-    setIsLoading(false);
-    return false;
   };
 
-  const logout = () => {
+  const logout = async () => {
+    await databaseService.logout();
+    await clearOfflineData();
     setUser(null);
-    localStorage.removeItem('om-services-user');
   };
 
-  const hasPermission = (module: string, action: string): boolean => {
-    if (!user) return false;
-    if (user.role === 'main_admin') return true;
-    
-    return user.permissions.some(
-      p => p.module === module && p.action === action && p.granted
-    );
-  };
+  // The same policy the API enforces; use it to hide what the server would refuse
+  const can = (module: PermissionModule, action: PermissionAction): boolean =>
+    policyAllows(user, module, action);
 
   const value = {
     user,
     login,
     logout,
-    hasPermission,
+    can,
     isLoading,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-}
\ No newline at end of file
+}
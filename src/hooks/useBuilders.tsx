@@ -1,7 +1,9 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { Builder } from '../types';
 import { databaseService } from '../services/databaseService';
+import { cacheRecords, createLocalId, queueChange, readRecords } from '../services/offlineStore';
 import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
 
 interface BuilderContextType {
   builders: Builder[];
@@ -30,13 +32,19 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
   const [builders, setBuilders] = useState<Builder[]>(mockBuilders);
   const [loading, setLoading] = useState(false);
   const { isConnected } = useDatabase();
+  const { user } = useAuth();
 
   // Load builders from database on mount
   useEffect(() => {
-    if (isConnected) {
+    if (isConnected && user) {
       loadBuildersFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<Builder>('builders').then(cached => {
+        if (cached.length > 0) setBuilders(cached);
+      });
     }
-  }, [isConnected]);
+  }, [isConnected, user]);
 
   const loadBuildersFromDatabase = async () => {
     if (!isConnected) return;
@@ -45,18 +53,8 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
     try {
       const result = await databaseService.getBuilders();
       if (result.success && result.data) {
-        const dbBuilders: Builder[] = result.data.map((row: any) => ({
-          id: row.id.toString(),
-          name: row.name,
-          contactPerson: row.contact_person,
-          phone: row.phone,
-          email: row.email,
-          address: row.address,
-          registrationNumber: row.registration_number,
-          documents: row.documents ? row.documents.split(',').filter(Boolean) : [],
-          createdAt: new Date(row.created_at),
-        }));
-        setBuilders(dbBuilders);
+        setBuilders(result.data);
+        await cacheRecords('builders', result.data);
       }
     } catch (error) {
       console.error('Error loading builders from database:', error);
@@ -65,11 +63,6 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateBuilderId = (): string => {
-    const count = builders.length + 1;
-    return `BLD${count.toString().padStart(3, '0')}`;
-  };
-
   const createBuilder = async (data: Partial<Builder>): Promise<Builder> => {
     setLoading(true);
     try {
@@ -87,14 +80,14 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload builders from database
           await loadBuildersFromDatabase();
-          return builders[builders.length - 1]; // Return the newly created builder
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create builder');
         }
       } else {
-        // Fallback to mock data
+        // Offline: keep it on this device and create it on the server later
         const newBuilder: Builder = {
-          id: data.id || generateBuilderId(),
+          id: data.id || createLocalId(),
           name: data.name || '',
           contactPerson: data.contactPerson || '',
           phone: data.phone || '',
@@ -107,6 +100,21 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
         };
 
         setBuilders(prev => [...prev, newBuilder]);
+        await queueChange({
+          entity: 'builders',
+          recordId: newBuilder.id,
+          method: 'POST',
+          path: '/builders',
+          body: {
+            name: newBuilder.name,
+            contactPerson: newBuilder.contactPerson,
+            phone: newBuilder.phone,
+            email: newBuilder.email,
+            address: newBuilder.address,
+            registrationNumber: newBuilder.registrationNumber,
+          },
+          description: `Create builder ${newBuilder.name}`,
+        }, newBuilder);
         return newBuilder;
       }
     } finally {
@@ -124,18 +132,27 @@ export function BuilderProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload builders from database
           await loadBuildersFromDatabase();
-          return builders.find(b => b.id === id)!;
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to update builder');
         }
       } else {
-        // Fallback to mock data
-        setBuilders(prev => 
-          prev.map(builder => 
-            builder.id === id ? { ...builder, ...data } : builder
+        // Offline: apply it here and replay it once the server is back
+        const updatedBuilder = { ...builders.find(b => b.id === id)!, ...data };
+        setBuilders(prev =>
+          prev.map(builder =>
+            builder.id === id ? updatedBuilder : builder
           )
         );
-        return builders.find(b => b.id === id)!;
+        await queueChange({
+          entity: 'builders',
+          recordId: id,
+          method: 'PUT',
+          path: `/builders/${id}`,
+          body: data,
+          description: `Update builder ${updatedBuilder.name}`,
+        }, updatedBuilder);
+        return updatedBuilder;
       }
     } finally {
       setLoading(false);
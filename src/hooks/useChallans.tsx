@@ -1,5 +1,11 @@
-import { useState, createContext, useContext, ReactNode } from 'react';
-import { Challan } from '../types';
+import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { Challan, ChallanReviewDecision } from '../types';
+import { databaseService } from '../services/databaseService';
+import { grasTotal } from '../services/grasChallan';
+import { provisionalNumber } from '../services/numberSequences';
+import { cacheRecords, createLocalId, isLocalId, queueChange, readRecords } from '../services/offlineStore';
+import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
 
 interface ChallanContextType {
   challans: Challan[];
@@ -10,8 +16,8 @@ interface ChallanContextType {
   getChallan: (id: string) => Challan | undefined;
   getChallansByDocument: (documentId: string) => Challan[];
   submitChallan: (id: string) => Promise<void>;
-  approveChallan: (id: string) => Promise<void>;
-  rejectChallan: (id: string) => Promise<void>;
+  approveChallan: (id: string, comment?: string) => Promise<void>;
+  rejectChallan: (id: string, comment: string) => Promise<void>;
 }
 
 const ChallanContext = createContext<ChallanContextType | undefined>(undefined);
@@ -29,29 +35,91 @@ export function useChallans() {
 export function ChallanProvider({ children }: { children: ReactNode }) {
   const [challans, setChallans] = useState<Challan[]>(mockChallans);
   const [loading, setLoading] = useState(false);
+  const { isConnected } = useDatabase();
+  const { user } = useAuth();
 
-  const generateChallanNumber = (): string => {
-    const year = new Date().getFullYear();
-    const count = challans.length + 1;
-    return `CHALLAN/${year}/${count.toString().padStart(3, '0')}`;
+  // Load challans from database on mount
+  useEffect(() => {
+    if (isConnected && user) {
+      loadChallansFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<Challan>('challans').then(cached => {
+        if (cached.length > 0) setChallans(cached);
+      });
+    }
+  }, [isConnected, user]);
+
+  const loadChallansFromDatabase = async () => {
+    if (!isConnected) return;
+    
+    setLoading(true);
+    try {
+      const result = await databaseService.getChallans();
+      if (result.success && result.data) {
+        setChallans(result.data);
+        await cacheRecords('challans', result.data);
+      }
+    } catch (error) {
+      console.error('Error loading challans from database:', error);
+    } finally {
+      setLoading(false);
+    }
   };
 
   const createChallan = async (data: Partial<Challan>): Promise<Challan> => {
     setLoading(true);
     try {
-      const newChallan: Challan = {
-        id: `CH${Date.now()}`,
+      const challanData: Partial<Challan> = {
         documentId: data.documentId || '',
-        challanNumber: data.challanNumber || generateChallanNumber(),
-        amount: data.amount || 0,
-        filledBy: data.filledBy || 'Current User',
+        // Left out, the server gives it the next number
+        challanNumber: data.challanNumber,
+        amount: data.gras ? grasTotal(data.gras.heads) : data.amount || 0,
+        status: data.status || 'draft',
+        notes: data.notes,
+        gras: data.gras,
+      };
+
+      if (isConnected) {
+        // Create in database; the server records who filled it in
+        const result = await databaseService.createChallan(challanData);
+
+        if (result.success) {
+          // Reload challans from database
+          await loadChallansFromDatabase();
+          return result.data!;
+        } else {
+          throw new Error(result.error || 'Failed to create challan');
+        }
+      }
+
+      // Offline: keep it on this device and create it on the server later
+      const id = createLocalId();
+      const newChallan: Challan = {
+        id,
+        documentId: challanData.documentId!,
+        challanNumber: challanData.challanNumber || provisionalNumber(id),
+        amount: challanData.amount!,
+        filledBy: data.filledBy || user?.name || 'Current User',
+        filledById: user?.id,
         filledAt: new Date(),
+        updatedAt: new Date(),
         status: 'draft',
         notes: data.notes,
+        versions: [],
+        reviews: [],
         ...data,
       };
 
       setChallans(prev => [...prev, newChallan]);
+      await queueChange({
+        entity: 'challans',
+        recordId: newChallan.id,
+        method: 'POST',
+        path: '/challans',
+        body: challanData,
+        description: `Create challan ${newChallan.challanNumber}`,
+      }, newChallan);
       return newChallan;
     } finally {
       setLoading(false);
@@ -61,12 +129,37 @@ export function ChallanProvider({ children }: { children: ReactNode }) {
   const updateChallan = async (id: string, data: Partial<Challan>): Promise<Challan> => {
     setLoading(true);
     try {
-      setChallans(prev => 
-        prev.map(challan => 
-          challan.id === id ? { ...challan, ...data } : challan
+      if (isConnected) {
+        // Update in database
+        const result = await databaseService.updateChallan(id, data);
+
+        if (result.success) {
+          // Reload challans from database
+          await loadChallansFromDatabase();
+          return result.data!;
+        } else {
+          throw new Error(result.error || 'Failed to update challan');
+        }
+      }
+
+      // Offline: apply it here and replay it once the server is back
+      const current = challans.find(c => c.id === id)!;
+      const updatedChallan = { ...current, ...data, updatedAt: new Date() };
+      setChallans(prev =>
+        prev.map(challan =>
+          challan.id === id ? updatedChallan : challan
         )
       );
-      return challans.find(c => c.id === id)!;
+      await queueChange({
+        entity: 'challans',
+        recordId: id,
+        method: 'PATCH',
+        path: `/challans/${id}`,
+        body: data,
+        baseUpdatedAt: isLocalId(id) ? undefined : current.updatedAt,
+        description: `Update challan ${current.challanNumber}`,
+      }, updatedChallan);
+      return updatedChallan;
     } finally {
       setLoading(false);
     }
@@ -75,6 +168,20 @@ export function ChallanProvider({ children }: { children: ReactNode }) {
   const deleteChallan = async (id: string): Promise<void> => {
     setLoading(true);
     try {
+      if (isConnected) {
+        const result = await databaseService.deleteChallan(id);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to delete challan');
+        }
+      } else {
+        await queueChange({
+          entity: 'challans',
+          recordId: id,
+          method: 'DELETE',
+          path: `/challans/${id}`,
+          description: `Delete challan ${getChallan(id)?.challanNumber ?? ''}`.trim(),
+        });
+      }
       setChallans(prev => prev.filter(challan => challan.id !== id));
     } finally {
       setLoading(false);
@@ -89,33 +196,98 @@ export function ChallanProvider({ children }: { children: ReactNode }) {
     return challans.filter(challan => challan.documentId === documentId);
   };
 
+  // Each submission is kept as a version, so a revised challan shows what changed
   const submitChallan = async (id: string): Promise<void> => {
     setLoading(true);
     try {
-      await updateChallan(id, { status: 'submitted' });
-    } finally {
-      setLoading(false);
-    }
-  };
+      if (isConnected) {
+        const result = await databaseService.submitChallan(id);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to submit challan');
+        }
+        await loadChallansFromDatabase();
+        return;
+      }
 
-  const approveChallan = async (id: string): Promise<void> => {
-    setLoading(true);
-    try {
-      await updateChallan(id, { status: 'approved' });
+      const current = challans.find(c => c.id === id)!;
+      const submitted: Challan = {
+        ...current,
+        status: 'submitted',
+        submittedAt: new Date(),
+        versions: [...current.versions, {
+          version: current.versions.length + 1,
+          challanNumber: current.challanNumber,
+          amount: current.amount,
+          notes: current.notes,
+          gras: current.gras,
+          submittedBy: user?.id,
+          submittedByName: user?.name,
+          submittedAt: new Date(),
+        }],
+        updatedAt: new Date(),
+      };
+      setChallans(prev => prev.map(challan => (challan.id === id ? submitted : challan)));
+      await queueChange({
+        entity: 'challans',
+        recordId: id,
+        method: 'POST',
+        path: `/challans/${id}/submit`,
+        description: `Submit challan ${current.challanNumber}`,
+      }, submitted);
     } finally {
       setLoading(false);
     }
   };
 
-  const rejectChallan = async (id: string): Promise<void> => {
+  const reviewChallan = async (id: string, decision: ChallanReviewDecision, comment?: string): Promise<void> => {
     setLoading(true);
     try {
-      await updateChallan(id, { status: 'rejected' });
+      if (isConnected) {
+        const result = await databaseService.reviewChallan(id, { decision, comment });
+        if (!result.success) {
+          throw new Error(result.error || `Failed to mark challan ${decision}`);
+        }
+        await loadChallansFromDatabase();
+        return;
+      }
+
+      const current = challans.find(c => c.id === id)!;
+      if (current.filledById === user?.id || current.versions[current.versions.length - 1]?.submittedBy === user?.id) {
+        throw new Error('You cannot review a challan you filled yourself');
+      }
+      const reviewed: Challan = {
+        ...current,
+        status: decision,
+        ...(decision === 'approved' ? { approvedBy: user?.id, approvedByName: user?.name, approvedAt: new Date() } : {}),
+        reviews: [...current.reviews, {
+          id: createLocalId(),
+          version: current.versions.length,
+          decision,
+          comment,
+          reviewedBy: user?.id,
+          reviewedByName: user?.name,
+          reviewedAt: new Date(),
+        }],
+        updatedAt: new Date(),
+      };
+      setChallans(prev => prev.map(challan => (challan.id === id ? reviewed : challan)));
+      await queueChange({
+        entity: 'challans',
+        recordId: id,
+        method: 'POST',
+        path: `/challans/${id}/review`,
+        body: { decision, comment },
+        description: `Mark challan ${current.challanNumber} ${decision}`,
+      }, reviewed);
     } finally {
       setLoading(false);
     }
   };
 
+  const approveChallan = (id: string, comment?: string) => reviewChallan(id, 'approved', comment);
+
+  const rejectChallan = (id: string, comment: string) => reviewChallan(id, 'rejected', comment);
+
   const value = {
     challans,
     loading,
@@ -0,0 +1,58 @@
+import { addDays } from 'date-fns';
+import { Payment, PaymentTransaction } from '../types';
+import { describeInstrument } from '../services/paymentLedger';
+import { userNamed } from '../services/taskAssignment';
+import { usePayments } from './usePayments';
+import { useTasks } from './useTasks';
+import { useDocuments } from './useDocuments';
+import { useAuth } from './useAuth';
+import { useUsers } from './useUsers';
+
+// Marks a cheque or DD as returned by the bank. The ledger stops counting it
+// towards the paid amount; on top of that someone is given a task to get a
+// replacement from the customer and the document is flagged until they do.
+export function useChequeBounce() {
+  const { updateTransaction } = usePayments();
+  const { createTask } = useTasks();
+  const { getDocument, flagDocument } = useDocuments();
+  const { user } = useAuth();
+  const { users } = useUsers();
+
+  const markBounced = async (payment: Payment, transaction: PaymentTransaction, reason?: string): Promise<Payment> => {
+    const updated = await updateTransaction(payment.id, transaction.id, {
+      clearanceStatus: 'bounced',
+      bounceReason: reason || undefined,
+    });
+
+    const document = getDocument(payment.documentId);
+    const summary = `${describeInstrument(transaction)} for ₹${transaction.amount.toLocaleString('en-IN')} bounced` +
+      (reason ? ` (${reason})` : '');
+
+    try {
+      await createTask({
+        title: `Collect a replacement for bounced ${transaction.method === 'dd' ? 'DD' : 'cheque'}` +
+          (transaction.referenceNumber ? ` ${transaction.referenceNumber}` : ''),
+        description: document
+          ? `${summary}. Contact ${document.customerName} (${document.customerPhone}) for a replacement payment.`
+          : `${summary}. Contact the customer for a replacement payment.`,
+        type: 'customer_follow_up',
+        priority: 'high',
+        // Whoever the document is with, when that names a user; otherwise whoever recorded the bounce
+        assignedTo: userNamed(users, document?.assignedTo)?.id ?? user?.id,
+        documentId: payment.documentId,
+        dueDate: addDays(new Date(), 1),
+        tags: ['bounced-cheque'],
+      });
+      if (document) {
+        await flagDocument(document.id, summary);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'unknown error';
+      throw new Error(`The bounce was recorded, but the follow-up could not be set up: ${message}`);
+    }
+
+    return updated;
+  };
+
+  return { markBounced };
+}
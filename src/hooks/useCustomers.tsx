@@ -1,7 +1,9 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { Customer } from '../types';
 import { databaseService } from '../services/databaseService';
+import { cacheRecords, createLocalId, queueChange, readRecords } from '../services/offlineStore';
 import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
 
 interface CustomerContextType {
   customers: Customer[];
@@ -31,13 +33,19 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
   const [customers, setCustomers] = useState<Customer[]>(mockCustomers);
   const [loading, setLoading] = useState(false);
   const { isConnected } = useDatabase();
+  const { user } = useAuth();
 
   // Load customers from database on mount
   useEffect(() => {
-    if (isConnected) {
+    if (isConnected && user) {
       loadCustomersFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<Customer>('customers').then(cached => {
+        if (cached.length > 0) setCustomers(cached);
+      });
     }
-  }, [isConnected]);
+  }, [isConnected, user]);
 
   const loadCustomersFromDatabase = async () => {
     if (!isConnected) return;
@@ -46,16 +54,8 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
     try {
       const result = await databaseService.getCustomers();
       if (result.success && result.data) {
-        const dbCustomers: Customer[] = result.data.map((row: any) => ({
-          id: row.id.toString(),
-          name: row.name,
-          phone: row.phone,
-          email: row.email,
-          address: row.address,
-          documents: row.documents ? row.documents.split(',').filter(Boolean) : [],
-          createdAt: new Date(row.created_at),
-        }));
-        setCustomers(dbCustomers);
+        setCustomers(result.data);
+        await cacheRecords('customers', result.data);
       }
     } catch (error) {
       console.error('Error loading customers from database:', error);
@@ -64,11 +64,6 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateCustomerId = (): string => {
-    const count = customers.length + 1;
-    return `CUST${count.toString().padStart(3, '0')}`;
-  };
-
   const createCustomer = async (data: Partial<Customer>): Promise<Customer> => {
     setLoading(true);
     try {
@@ -84,14 +79,14 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload customers from database
           await loadCustomersFromDatabase();
-          return customers[customers.length - 1]; // Return the newly created customer
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create customer');
         }
       } else {
-        // Fallback to mock data
+        // Offline: keep it on this device and create it on the server later
         const newCustomer: Customer = {
-          id: data.id || generateCustomerId(),
+          id: data.id || createLocalId(),
           name: data.name || '',
           phone: data.phone || '',
           email: data.email,
@@ -102,6 +97,19 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
         };
 
         setCustomers(prev => [...prev, newCustomer]);
+        await queueChange({
+          entity: 'customers',
+          recordId: newCustomer.id,
+          method: 'POST',
+          path: '/customers',
+          body: {
+            name: newCustomer.name,
+            phone: newCustomer.phone,
+            email: newCustomer.email,
+            address: newCustomer.address,
+          },
+          description: `Create customer ${newCustomer.name}`,
+        }, newCustomer);
         return newCustomer;
       }
     } finally {
@@ -119,18 +127,27 @@ export function CustomerProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload customers from database
           await loadCustomersFromDatabase();
-          return customers.find(c => c.id === id)!;
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to update customer');
         }
       } else {
-        // Fallback to mock data
-        setCustomers(prev => 
-          prev.map(customer => 
-            customer.id === id ? { ...customer, ...data } : customer
+        // Offline: apply it here and replay it once the server is back
+        const updatedCustomer = { ...customers.find(c => c.id === id)!, ...data };
+        setCustomers(prev =>
+          prev.map(customer =>
+            customer.id === id ? updatedCustomer : customer
           )
         );
-        return customers.find(c => c.id === id)!;
+        await queueChange({
+          entity: 'customers',
+          recordId: id,
+          method: 'PUT',
+          path: `/customers/${id}`,
+          body: data,
+          description: `Update customer ${updatedCustomer.name}`,
+        }, updatedCustomer);
+        return updatedCustomer;
       }
     } finally {
       setLoading(false);
@@ -1,16 +1,27 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { useState, useEffect, createContext, useContext, ReactNode, useCallback } from 'react';
 import { databaseService } from '../services/databaseService';
+import { listConflicts, listPendingChanges, PendingChange, resolveConflict as resolveStoredConflict, SyncConflict } from '../services/offlineStore';
+import { syncPendingChanges } from '../services/syncService';
+import { useAuth } from './useAuth';
 
 interface DatabaseContextType {
   isConnected: boolean;
   isLoading: boolean;
   error: string | null;
+  pendingChanges: PendingChange[];
+  conflicts: SyncConflict[];
+  isSyncing: boolean;
   initialize: () => Promise<boolean>;
   reconnect: () => Promise<boolean>;
+  syncNow: () => Promise<void>;
+  resolveConflict: (conflict: SyncConflict, keepMine: boolean) => Promise<void>;
 }
 
 const DatabaseContext = createContext<DatabaseContextType | undefined>(undefined);
 
+// How often to check whether the server is back while working offline
+const RECONNECT_INTERVAL_MS = 30000;
+
 export function useDatabase() {
   const context = useContext(DatabaseContext);
   if (context === undefined) {
@@ -20,27 +31,45 @@ export function useDatabase() {
 }
 
 export function DatabaseProvider({ children }: { children: ReactNode }) {
+  // The server answers; isConnected only follows once queued changes are replayed,
+  // so providers reload data that already includes them
+  const [isReachable, setIsReachable] = useState(false);
   const [isConnected, setIsConnected] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const refreshQueue = useCallback(async () => {
+    if (!userId) {
+      setPendingChanges([]);
+      setConflicts([]);
+      return;
+    }
+    setPendingChanges(await listPendingChanges(userId));
+    setConflicts(await listConflicts(userId));
+  }, [userId]);
 
   const initialize = async (): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
-    
+
     try {
       const connected = await databaseService.initialize();
-      setIsConnected(connected);
-      
+      setIsReachable(connected);
+
       if (!connected) {
         setError('Failed to connect to database. Please check your MySQL configuration in Settings.');
       }
-      
+
       return connected;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown database error';
       setError(errorMessage);
-      setIsConnected(false);
+      setIsReachable(false);
       return false;
     } finally {
       setIsLoading(false);
@@ -51,17 +80,109 @@ export function DatabaseProvider({ children }: { children: ReactNode }) {
     return initialize();
   };
 
+  // Replays the outbox; returns false if the server dropped away part way
+  const flush = useCallback(async (): Promise<boolean> => {
+    if (!userId) return true;
+
+    setIsSyncing(true);
+    try {
+      const result = await syncPendingChanges(userId);
+      if (result.interrupted && !databaseService.isConnected()) {
+        setIsReachable(false);
+      }
+      return !result.interrupted;
+    } finally {
+      await refreshQueue();
+      setIsSyncing(false);
+    }
+  }, [userId, refreshQueue]);
+
+  const syncNow = async (): Promise<void> => {
+    if (!isReachable) {
+      await initialize();
+      return;
+    }
+    // Drop to offline while replaying so providers reload afterwards
+    setIsConnected(false);
+    setIsConnected(await flush());
+  };
+
+  const resolveConflict = async (conflict: SyncConflict, keepMine: boolean): Promise<void> => {
+    await resolveStoredConflict(conflict, keepMine);
+    await refreshQueue();
+  };
+
   useEffect(() => {
     initialize();
   }, []);
 
+  useEffect(() => {
+    refreshQueue();
+  }, [refreshQueue]);
+
+  useEffect(() => {
+    if (!isReachable) {
+      setIsConnected(false);
+      return;
+    }
+
+    let cancelled = false;
+    (async () => {
+      if (userId && (await listPendingChanges(userId)).length > 0) {
+        setIsConnected(false);
+        const completed = await flush();
+        if (cancelled || !completed) return;
+      }
+      if (!cancelled) setIsConnected(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [isReachable, userId, flush]);
+
+  // Track changes queued by the providers, lost connections and the browser
+  // coming back online
+  useEffect(() => {
+    const handleQueueChanged = () => refreshQueue();
+    const handleConnectionLost = () => {
+      setIsReachable(false);
+      setError('Connection to the server was lost. Changes are saved on this device until it returns.');
+    };
+    const handleOnline = () => initialize();
+
+    window.addEventListener('offlineChangesUpdated', handleQueueChanged);
+    window.addEventListener('connectionLost', handleConnectionLost);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offlineChangesUpdated', handleQueueChanged);
+      window.removeEventListener('connectionLost', handleConnectionLost);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [refreshQueue]);
+
+  useEffect(() => {
+    if (isReachable || isLoading) return;
+    const timer = window.setInterval(async () => {
+      if (await databaseService.initialize()) {
+        setError(null);
+        setIsReachable(true);
+      }
+    }, RECONNECT_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isReachable, isLoading]);
+
   const value = {
     isConnected,
     isLoading,
     error,
+    pendingChanges,
+    conflicts,
+    isSyncing,
     initialize,
     reconnect,
+    syncNow,
+    resolveConflict,
   };
 
   return <DatabaseContext.Provider value={value}>{children}</DatabaseContext.Provider>;
-}
\ No newline at end of file
+}
@@ -1,20 +1,28 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-import { Document, DocumentStatus, DocumentType } from '../types';
+import { Document, DocumentStatus } from '../types';
 import { useCustomers } from './useCustomers';
 import { useBuilders } from './useBuilders';
-import { databaseService } from '../services/databaseService';
+import { databaseService, DocumentUpdate } from '../services/databaseService';
+import { cacheRecords, createLocalId, isLocalId, queueChange, readRecords } from '../services/offlineStore';
+import { provisionalNumber } from '../services/numberSequences';
+import { checkTransition, INITIAL_DOCUMENT_STATUS, stageDateField, WorkflowContext } from '../services/documentWorkflow';
+import { DEFAULT_DOCUMENT_SLAS, DocumentSlaConfig, SLA_SETTING_KEY, withDefaultSlas } from '../services/documentSla';
 import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
 
 interface DocumentContextType {
   documents: Document[];
   loading: boolean;
   createDocument: (data: Partial<Document>) => Promise<Document>;
-  updateDocument: (id: string, data: Partial<Document>) => Promise<Document>;
+  updateDocument: (id: string, data: DocumentUpdate) => Promise<Document>;
   deleteDocument: (id: string) => Promise<void>;
   getDocument: (id: string) => Document | undefined;
-  updateStatus: (id: string, status: DocumentStatus) => Promise<void>;
+  updateStatus: (id: string, status: DocumentStatus, context: WorkflowContext) => Promise<void>;
   addNote: (id: string, note: string) => Promise<void>;
+  flagDocument: (id: string, reason: string | null) => Promise<void>;
   uploadFile: (id: string, file: File) => Promise<void>;
+  slaConfig: DocumentSlaConfig;
+  updateSlaConfig: (config: DocumentSlaConfig) => Promise<void>;
 }
 
 const DocumentContext = createContext<DocumentContextType | undefined>(undefined);
@@ -32,16 +40,23 @@ export function useDocuments() {
 export function DocumentProvider({ children }: { children: ReactNode }) {
   const [documents, setDocuments] = useState<Document[]>(mockDocuments);
   const [loading, setLoading] = useState(false);
+  const [slaConfig, setSlaConfig] = useState<DocumentSlaConfig>(DEFAULT_DOCUMENT_SLAS);
   const { createCustomer, getCustomerByPhone, addDocumentToCustomer } = useCustomers();
   const { createBuilder, getBuilderByName, addDocumentToBuilder } = useBuilders();
   const { isConnected } = useDatabase();
+  const { user } = useAuth();
 
   // Load documents from database on mount
   useEffect(() => {
-    if (isConnected) {
+    if (isConnected && user) {
       loadDocumentsFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<Document>('documents').then(cached => {
+        if (cached.length > 0) setDocuments(cached);
+      });
     }
-  }, [isConnected]);
+  }, [isConnected, user]);
 
   const loadDocumentsFromDatabase = async () => {
     if (!isConnected) return;
@@ -50,27 +65,13 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     try {
       const result = await databaseService.getDocuments();
       if (result.success && result.data) {
-        const dbDocuments: Document[] = result.data.map((row: any) => ({
-          id: row.id.toString(),
-          documentNumber: row.document_number,
-          customerName: row.customer_name,
-          customerPhone: row.customer_phone,
-          customerEmail: row.customer_email,
-          builderName: row.builder_name,
-          propertyDetails: row.property_details,
-          documentType: row.document_type,
-          status: row.status,
-          collectionDate: row.collection_date ? new Date(row.collection_date) : undefined,
-          dataEntryDate: row.data_entry_date ? new Date(row.data_entry_date) : undefined,
-          registrationDate: row.registration_date ? new Date(row.registration_date) : undefined,
-          deliveryDate: row.delivery_date ? new Date(row.delivery_date) : undefined,
-          assignedTo: row.assigned_to,
-          notes: [], // Notes would need a separate table in a real implementation
-          files: [], // Files would need a separate table in a real implementation
-          createdAt: new Date(row.created_at),
-          updatedAt: new Date(row.updated_at),
-        }));
-        setDocuments(dbDocuments);
+        setDocuments(result.data);
+        await cacheRecords('documents', result.data);
+      }
+
+      const saved = await databaseService.getSetting<Partial<DocumentSlaConfig>>(SLA_SETTING_KEY);
+      if (saved.success) {
+        setSlaConfig(withDefaultSlas(saved.data));
       }
     } catch (error) {
       console.error('Error loading documents from database:', error);
@@ -79,29 +80,20 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateDocumentNumber = (type: DocumentType): string => {
-    const prefix = type.toUpperCase().replace('_', '');
-    const year = new Date().getFullYear();
-    const count = documents.filter(d => d.documentType === type).length + 1;
-    return `${prefix}/${year}/${count.toString().padStart(3, '0')}`;
-  };
-
   const createDocument = async (data: Partial<Document>): Promise<Document> => {
     setLoading(true);
     try {
       if (isConnected) {
-        // Create in database
-        const documentNumber = data.documentNumber || generateDocumentNumber(data.documentType!);
-        
+        // Create in database; the server gives it the next number
         const result = await databaseService.createDocument({
-          documentNumber,
+          documentNumber: data.documentNumber,
           customerName: data.customerName || '',
           customerPhone: data.customerPhone || '',
           customerEmail: data.customerEmail,
           builderName: data.builderName || '',
           propertyDetails: data.propertyDetails || '',
           documentType: data.documentType!,
-          status: 'pending_collection',
+          status: INITIAL_DOCUMENT_STATUS,
           assignedTo: data.assignedTo,
         });
 
@@ -134,22 +126,23 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
 
           // Reload documents from database
           await loadDocumentsFromDatabase();
-          return documents[documents.length - 1]; // Return the newly created document
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create document');
         }
       } else {
-        // Fallback to mock data
+        // Offline: keep it on this device and create it on the server later
+        const id = createLocalId();
         const newDocument: Document = {
-          id: `DOC${Date.now()}`,
-          documentNumber: data.documentNumber || generateDocumentNumber(data.documentType!),
+          id,
+          documentNumber: data.documentNumber || provisionalNumber(id),
           customerName: data.customerName || '',
           customerPhone: data.customerPhone || '',
           customerEmail: data.customerEmail,
           builderName: data.builderName || '',
           propertyDetails: data.propertyDetails || '',
           documentType: data.documentType!,
-          status: 'pending_collection',
+          status: INITIAL_DOCUMENT_STATUS,
           assignedTo: data.assignedTo,
           notes: [],
           files: [],
@@ -193,6 +186,23 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
         }
 
         setDocuments(prev => [...prev, newDocument]);
+        await queueChange({
+          entity: 'documents',
+          recordId: newDocument.id,
+          method: 'POST',
+          path: '/documents',
+          body: {
+            documentNumber: data.documentNumber,
+            customerName: newDocument.customerName,
+            customerPhone: newDocument.customerPhone,
+            customerEmail: newDocument.customerEmail,
+            builderName: newDocument.builderName,
+            propertyDetails: newDocument.propertyDetails,
+            documentType: newDocument.documentType,
+            assignedTo: newDocument.assignedTo,
+          },
+          description: `Create document ${newDocument.documentNumber}`,
+        }, newDocument);
         return newDocument;
       }
     } finally {
@@ -200,7 +210,7 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateDocument = async (id: string, data: Partial<Document>): Promise<Document> => {
+  const updateDocument = async (id: string, data: DocumentUpdate): Promise<Document> => {
     setLoading(true);
     try {
       if (isConnected) {
@@ -210,19 +220,33 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload documents from database
           await loadDocumentsFromDatabase();
-          return documents.find(d => d.id === id)!;
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to update document');
         }
       } else {
-        // Fallback to mock data
-        const updatedDocument = { ...data, updatedAt: new Date() };
-        setDocuments(prev => 
-          prev.map(doc => 
-            doc.id === id ? { ...doc, ...updatedDocument } : doc
+        // Offline: apply it here and replay it once the server is back
+        const current = documents.find(d => d.id === id)!;
+        const updatedDocument: Document = { ...current, ...data, flagReason: current.flagReason, updatedAt: new Date() };
+        if (data.flagReason !== undefined) {
+          updatedDocument.flagReason = data.flagReason ?? undefined;
+          updatedDocument.flaggedAt = data.flagReason === null ? undefined : new Date();
+        }
+        setDocuments(prev =>
+          prev.map(doc =>
+            doc.id === id ? updatedDocument : doc
           )
         );
-        return documents.find(d => d.id === id)!;
+        await queueChange({
+          entity: 'documents',
+          recordId: id,
+          method: 'PATCH',
+          path: `/documents/${id}`,
+          body: data,
+          baseUpdatedAt: isLocalId(id) ? undefined : current.updatedAt,
+          description: `Update document ${current.documentNumber}`,
+        }, updatedDocument);
+        return updatedDocument;
       }
     } finally {
       setLoading(false);
@@ -242,8 +266,22 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     return documents.find(doc => doc.id === id);
   };
 
-  const updateStatus = async (id: string, status: DocumentStatus): Promise<void> => {
-    await updateDocument(id, { status });
+  // Status changes must follow the document workflow; the server checks the
+  // same rules, this just fails fast (and keeps offline edits honest)
+  const updateStatus = async (id: string, status: DocumentStatus, context: WorkflowContext): Promise<void> => {
+    const document = getDocument(id);
+    if (!document) {
+      throw new Error('Document not found');
+    }
+
+    const check = checkTransition(user, document.status, status, context);
+    if (!check.allowed) {
+      throw new Error(check.message);
+    }
+
+    // Record when the document reached this stage
+    const dateField = stageDateField(status);
+    await updateDocument(id, dateField ? { status, [dateField]: new Date() } : { status });
   };
 
   const addNote = async (id: string, note: string): Promise<void> => {
@@ -255,6 +293,11 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Flags the document for attention, or clears the flag when given null
+  const flagDocument = async (id: string, reason: string | null): Promise<void> => {
+    await updateDocument(id, { flagReason: reason });
+  };
+
   const uploadFile = async (id: string, file: File): Promise<void> => {
     // Simulate file upload
     const document = getDocument(id);
@@ -274,6 +317,14 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const updateSlaConfig = async (config: DocumentSlaConfig): Promise<void> => {
+    const result = await databaseService.saveSettings({ key: SLA_SETTING_KEY, value: config });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save SLAs');
+    }
+    setSlaConfig(config);
+  };
+
   const value = {
     documents,
     loading,
@@ -283,7 +334,10 @@ export function DocumentProvider({ children }: { children: ReactNode }) {
     getDocument,
     updateStatus,
     addNote,
+    flagDocument,
     uploadFile,
+    slaConfig,
+    updateSlaConfig,
   };
 
   return <DocumentContext.Provider value={value}>{children}</DocumentContext.Provider>;
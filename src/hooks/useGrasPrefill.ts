@@ -0,0 +1,26 @@
+import { GrasForm } from '../types';
+import { prefillGras } from '../services/grasChallan';
+import { useDocuments } from './useDocuments';
+import { usePayments } from './usePayments';
+import { useCustomers } from './useCustomers';
+
+// Starts an e-challan from what the document, its latest payment and its
+// customer already record, so staff only type what is new
+export function useGrasPrefill() {
+  const { getDocument } = useDocuments();
+  const { getPaymentsByDocument } = usePayments();
+  const { customers } = useCustomers();
+
+  const prefill = (documentId: string): GrasForm | undefined => {
+    const document = getDocument(documentId);
+    if (!document) return undefined;
+
+    const [payment] = [...getPaymentsByDocument(documentId)]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    const customer = customers.find(c => c.documents.includes(documentId))
+      ?? customers.find(c => c.phone === document.customerPhone);
+    return prefillGras({ document, payment, customer });
+  };
+
+  return { prefill };
+}
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppNotification } from '../types';
+import { databaseService } from '../services/databaseService';
+import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
+
+const POLL_INTERVAL_MS = 60000;
+
+// The signed-in user's notifications, checked every minute while the server is reachable
+export function useNotifications() {
+  const { isConnected } = useDatabase();
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  const load = useCallback(async () => {
+    const result = await databaseService.getNotifications();
+    if (result.success && result.data) {
+      setNotifications(result.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isConnected || !user) return;
+    load();
+    const timer = window.setInterval(load, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isConnected, user, load]);
+
+  const markRead = async (id: string) => {
+    const result = await databaseService.markNotificationRead(id);
+    if (result.success && result.data) {
+      setNotifications(prev => prev.map(n => (n.id === id ? result.data! : n)));
+    }
+  };
+
+  const markAllRead = async () => {
+    const result = await databaseService.markAllNotificationsRead();
+    if (result.success) {
+      setNotifications(prev => prev.map(n => ({ ...n, isRead: true, readAt: n.readAt ?? new Date() })));
+    }
+  };
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(n => !n.isRead).length,
+    markRead,
+    markAllRead,
+  };
+}
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import { NumberCounter } from '../types';
+import { databaseService } from '../services/databaseService';
+import { DEFAULT_NUMBER_FORMATS, NumberFormats } from '../services/numberSequences';
+import { useDatabase } from './useDatabase';
+
+// The numbering formats and how far each counter has got, for settings
+export function useNumberSequences() {
+  const { isConnected } = useDatabase();
+  const [formats, setFormats] = useState<NumberFormats>(DEFAULT_NUMBER_FORMATS);
+  const [counters, setCounters] = useState<NumberCounter[]>([]);
+
+  const load = useCallback(async () => {
+    const result = await databaseService.getNumberSequences();
+    if (result.success && result.data) {
+      setFormats(result.data.formats);
+      setCounters(result.data.counters);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isConnected) load();
+  }, [isConnected, load]);
+
+  const saveFormats = async (next: NumberFormats): Promise<void> => {
+    const result = await databaseService.saveNumberFormats(next);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Failed to save number formats');
+    }
+    setFormats(result.data);
+  };
+
+  return { formats, counters, saveFormats, reload: load };
+}
@@ -1,15 +1,36 @@
-import { useState, createContext, useContext, ReactNode } from 'react';
-import { Payment, PaymentStatus } from '../types';
+import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { Payment, PaymentReceipt, PaymentTransaction } from '../types';
+import {
+  databaseService,
+  PaymentInput,
+  ReceiptInput,
+  RefundDecision,
+  RefundInput,
+  TransactionInput,
+  TransactionUpdate,
+} from '../services/databaseService';
+import { DEFAULT_FEE_RATES, FEE_RATES_SETTING_KEY, FeeRate, paymentTotal, withDefaultFeeRates } from '../services/feeEngine';
+import { countsTowardsPaid, initialClearance, isInstrument, ledgerTotals } from '../services/paymentLedger';
+import { cacheRecords, createLocalId, isLocalId, queueChange, readRecords } from '../services/offlineStore';
+import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
 
 interface PaymentContextType {
   payments: Payment[];
   loading: boolean;
-  createPayment: (data: Partial<Payment>) => Promise<Payment>;
+  createPayment: (data: PaymentInput) => Promise<Payment>;
   updatePayment: (id: string, data: Partial<Payment>) => Promise<Payment>;
   deletePayment: (id: string) => Promise<void>;
+  addTransaction: (paymentId: string, data: TransactionInput) => Promise<Payment>;
+  updateTransaction: (paymentId: string, transactionId: string, data: TransactionUpdate) => Promise<Payment>;
+  deleteTransaction: (paymentId: string, transactionId: string) => Promise<Payment>;
+  issueReceipt: (paymentId: string, data: ReceiptInput) => Promise<Payment>;
+  requestRefund: (paymentId: string, data: RefundInput) => Promise<Payment>;
+  decideRefund: (paymentId: string, refundId: string, decision: RefundDecision) => Promise<Payment>;
   getPayment: (id: string) => Payment | undefined;
   getPaymentsByDocument: (documentId: string) => Payment[];
-  updatePaymentStatus: (id: string, status: PaymentStatus) => Promise<void>;
+  feeRates: FeeRate[];
+  updateFeeRates: (rates: FeeRate[]) => Promise<void>;
 }
 
 const PaymentContext = createContext<PaymentContextType | undefined>(undefined);
@@ -24,41 +45,198 @@ export function usePayments() {
   return context;
 }
 
+// The offline stand-in for a transaction the server has not seen yet
+const localTransaction = (
+  paymentId: string,
+  data: TransactionInput,
+  receiver: { id: string; name: string } | null
+): PaymentTransaction => {
+  const clearanceStatus = data.clearanceStatus ?? initialClearance(data.method);
+  return {
+    id: createLocalId(),
+    paymentId,
+    receivedBy: receiver?.id,
+    receivedByName: receiver?.name,
+    ...data,
+    instrumentDate: isInstrument(data.method) ? data.instrumentDate ?? data.transactionDate : undefined,
+    clearanceStatus,
+    clearedAt: clearanceStatus === 'cleared' ? new Date() : undefined,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+};
+
+// Mirrors the server: a clearance change stamps or clears its dates
+const updatedTransaction = (transaction: PaymentTransaction, data: TransactionUpdate): PaymentTransaction => {
+  const updated = { ...transaction, ...data, updatedAt: new Date() };
+  if (data.clearanceStatus !== undefined && data.clearanceStatus !== transaction.clearanceStatus) {
+    updated.clearedAt = data.clearanceStatus === 'cleared' ? new Date() : undefined;
+    updated.bouncedAt = data.clearanceStatus === 'bounced' ? new Date() : undefined;
+    if (data.clearanceStatus !== 'bounced' && data.bounceReason === undefined) {
+      updated.bounceReason = undefined;
+    }
+  }
+  return updated;
+};
+
+// Offline receipts are numbered by the server when they sync
+const localReceipt = (
+  paymentId: string,
+  receipt: Pick<PaymentReceipt, 'kind' | 'amount' | 'transactionId' | 'lines'>,
+  issuer: { id: string; name: string } | null
+): PaymentReceipt => ({
+  id: createLocalId(),
+  paymentId,
+  receiptNumber: 'PROVISIONAL',
+  issuedBy: issuer?.id,
+  issuedByName: issuer?.name,
+  issuedAt: new Date(),
+  ...receipt,
+});
+
+// The receipt the server issues once a transaction has cleared, if it has none yet
+const withClearedReceipt = (
+  payment: Payment,
+  transaction: PaymentTransaction,
+  user: { id: string; name: string } | null
+): Payment =>
+  !countsTowardsPaid(transaction) || payment.receipts.some(receipt => receipt.transactionId === transaction.id)
+    ? payment
+    : {
+        ...payment,
+        receipts: [
+          ...payment.receipts,
+          localReceipt(payment.id, { kind: 'receipt', amount: transaction.amount, transactionId: transaction.id, lines: [] }, user),
+        ],
+      };
+
+// A new transaction and the receipt the server issues with it
+const withLocalTransaction = (
+  payment: Payment,
+  data: TransactionInput,
+  user: { id: string; name: string } | null
+): Payment => {
+  const transaction = localTransaction(payment.id, data, user);
+  return withClearedReceipt({ ...payment, transactions: [...payment.transactions, transaction] }, transaction, user);
+};
+
+// A payment with its paid and refunded amounts, status, method and date re-derived from its ledger
+const withLedger = (payment: Payment): Payment => ({
+  ...payment,
+  ...ledgerTotals(payment.totalAmount, payment.transactions, payment.refunds),
+});
+
 export function PaymentProvider({ children }: { children: ReactNode }) {
   const [payments, setPayments] = useState<Payment[]>(mockPayments);
   const [loading, setLoading] = useState(false);
+  const [feeRates, setFeeRates] = useState<FeeRate[]>(DEFAULT_FEE_RATES);
+  const { isConnected } = useDatabase();
+  const { user } = useAuth();
 
-  const calculateDHC = (considerationAmount: number): number => {
-    // DHC calculation: 5% of consideration amount
-    return Math.round(considerationAmount * 0.05);
+  // Load payments from database on mount
+  useEffect(() => {
+    if (isConnected && user) {
+      loadPaymentsFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<Payment>('payments').then(cached => {
+        if (cached.length > 0) setPayments(cached);
+      });
+    }
+  }, [isConnected, user]);
+
+  const loadPaymentsFromDatabase = async () => {
+    if (!isConnected) return;
+    
+    setLoading(true);
+    try {
+      const result = await databaseService.getPayments();
+      if (result.success && result.data) {
+        setPayments(result.data);
+        await cacheRecords('payments', result.data);
+      }
+
+      const saved = await databaseService.getSetting<FeeRate[]>(FEE_RATES_SETTING_KEY);
+      if (saved.success) {
+        setFeeRates(withDefaultFeeRates(saved.data));
+      }
+    } catch (error) {
+      console.error('Error loading payments from database:', error);
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const createPayment = async (data: Partial<Payment>): Promise<Payment> => {
+  const createPayment = async (data: PaymentInput): Promise<Payment> => {
     setLoading(true);
     try {
-      const dhcAmount = data.dhcAmount || calculateDHC(data.considerationAmount || 0);
-      const totalAmount = (data.considerationAmount || 0) + dhcAmount;
-      
-      const newPayment: Payment = {
-        id: `PAY${Date.now()}`,
+      const dhcAmount = data.dhcAmount || 0;
+      const totalAmount = paymentTotal(data.considerationAmount || 0, dhcAmount, data.fees || []);
+      const id = createLocalId();
+
+      const draft: Payment = {
+        id,
         documentId: data.documentId || '',
         agreementValue: data.agreementValue || 0,
+        marketValue: data.marketValue,
+        jurisdiction: data.jurisdiction,
         considerationAmount: data.considerationAmount || 0,
         dhcAmount,
+        fees: data.fees || [],
         totalAmount,
-        paidAmount: data.paidAmount || 0,
-        pendingAmount: totalAmount - (data.paidAmount || 0),
-        paymentStatus: data.paidAmount === totalAmount ? 'completed' : 
-                      data.paidAmount && data.paidAmount > 0 ? 'partial' : 'pending',
-        paymentMethod: data.paymentMethod,
-        paymentDate: data.paymentDate,
+        paidAmount: 0,
+        pendingAmount: totalAmount,
+        refundedAmount: 0,
+        paymentStatus: 'pending',
         challanNumber: data.challanNumber,
+        transactions: [],
+        receipts: [],
+        refunds: [],
         createdAt: new Date(),
         updatedAt: new Date(),
-        ...data,
       };
 
+      const newPayment = withLedger((data.transactions || []).reduce(
+        (payment, transaction) => withLocalTransaction(payment, transaction, user),
+        draft
+      ));
+
+      const paymentData: PaymentInput = {
+        documentId: newPayment.documentId,
+        agreementValue: newPayment.agreementValue,
+        marketValue: newPayment.marketValue,
+        jurisdiction: newPayment.jurisdiction,
+        considerationAmount: newPayment.considerationAmount,
+        dhcAmount: newPayment.dhcAmount,
+        fees: newPayment.fees,
+        totalAmount: newPayment.totalAmount,
+        challanNumber: newPayment.challanNumber,
+        transactions: data.transactions || [],
+      };
+
+      if (isConnected) {
+        // Create in database
+        const result = await databaseService.createPayment(paymentData);
+
+        if (result.success) {
+          // Reload payments from database
+          await loadPaymentsFromDatabase();
+          return result.data!;
+        } else {
+          throw new Error(result.error || 'Failed to create payment');
+        }
+      }
+
+      // Offline: keep it on this device and create it on the server later
       setPayments(prev => [...prev, newPayment]);
+      await queueChange({
+        entity: 'payments',
+        recordId: newPayment.id,
+        method: 'POST',
+        path: '/payments',
+        body: paymentData,
+        description: `Record payment of ₹${newPayment.totalAmount.toLocaleString('en-IN')}`,
+      }, newPayment);
       return newPayment;
     } finally {
       setLoading(false);
@@ -68,23 +246,38 @@ export function PaymentProvider({ children }: { children: ReactNode }) {
   const updatePayment = async (id: string, data: Partial<Payment>): Promise<Payment> => {
     setLoading(true);
     try {
-      setPayments(prev => 
-        prev.map(payment => {
-          if (payment.id === id) {
-            const updated = { ...payment, ...data, updatedAt: new Date() };
-            // Recalculate amounts if needed
-            if (data.considerationAmount || data.dhcAmount) {
-              updated.totalAmount = updated.considerationAmount + updated.dhcAmount;
-              updated.pendingAmount = updated.totalAmount - updated.paidAmount;
-              updated.paymentStatus = updated.paidAmount === updated.totalAmount ? 'completed' : 
-                                    updated.paidAmount > 0 ? 'partial' : 'pending';
-            }
-            return updated;
-          }
-          return payment;
-        })
-      );
-      return payments.find(p => p.id === id)!;
+      if (isConnected) {
+        // Update in database; the server recomputes totals from the amounts
+        const result = await databaseService.updatePayment(id, data);
+
+        if (result.success) {
+          // Reload payments from database
+          await loadPaymentsFromDatabase();
+          return result.data!;
+        } else {
+          throw new Error(result.error || 'Failed to update payment');
+        }
+      }
+
+      // Offline: apply it here and replay it once the server is back
+      const current = payments.find(p => p.id === id)!;
+      const merged = { ...current, ...data, updatedAt: new Date() };
+      // Recalculate amounts if needed
+      if (data.considerationAmount || data.dhcAmount || data.fees) {
+        merged.totalAmount = paymentTotal(merged.considerationAmount, merged.dhcAmount, merged.fees);
+      }
+      const updated = withLedger(merged);
+      setPayments(prev => prev.map(payment => (payment.id === id ? updated : payment)));
+      await queueChange({
+        entity: 'payments',
+        recordId: id,
+        method: 'PATCH',
+        path: `/payments/${id}`,
+        body: data,
+        baseUpdatedAt: isLocalId(id) ? undefined : current.updatedAt,
+        description: `Update payment of ₹${updated.totalAmount.toLocaleString('en-IN')}`,
+      }, updated);
+      return updated;
     } finally {
       setLoading(false);
     }
@@ -93,12 +286,202 @@ export function PaymentProvider({ children }: { children: ReactNode }) {
   const deletePayment = async (id: string): Promise<void> => {
     setLoading(true);
     try {
+      if (isConnected) {
+        const result = await databaseService.deletePayment(id);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to delete payment');
+        }
+      } else {
+        await queueChange({
+          entity: 'payments',
+          recordId: id,
+          method: 'DELETE',
+          path: `/payments/${id}`,
+          description: 'Delete payment',
+        });
+      }
       setPayments(prev => prev.filter(payment => payment.id !== id));
     } finally {
       setLoading(false);
     }
   };
 
+  // Online the server's copy replaces ours; offline the change is applied here
+  // and queued against the payment so it follows the payment's own sync
+  const changeLedger = async (
+    paymentId: string,
+    online: () => Promise<{ success: boolean; data?: Payment; error?: string }>,
+    offline: { method: 'POST' | 'PATCH' | 'DELETE'; path: string; body?: unknown; description: string },
+    apply: (payment: Payment) => Payment
+  ): Promise<Payment> => {
+    setLoading(true);
+    try {
+      if (isConnected) {
+        const result = await online();
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to update the payment ledger');
+        }
+        await loadPaymentsFromDatabase();
+        return result.data!;
+      }
+
+      const current = payments.find(p => p.id === paymentId)!;
+      const updated = withLedger({ ...apply(current), updatedAt: new Date() });
+      setPayments(prev => prev.map(payment => (payment.id === paymentId ? updated : payment)));
+      await queueChange({ entity: 'payments', recordId: paymentId, ...offline }, updated);
+      return updated;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Entries made offline have no server id to address until they sync
+  const assertSynced = (id: string, what = 'transaction') => {
+    if (!isConnected && isLocalId(id)) {
+      throw new Error(`This ${what} has not been synced yet; change it once back online`);
+    }
+  };
+
+  const addTransaction = (paymentId: string, data: TransactionInput): Promise<Payment> =>
+    changeLedger(
+      paymentId,
+      () => databaseService.addPaymentTransaction(paymentId, data),
+      {
+        method: 'POST',
+        path: `/payments/${paymentId}/transactions`,
+        body: data,
+        description: `Record ₹${data.amount.toLocaleString('en-IN')} received`,
+      },
+      payment => withLocalTransaction(payment, data, user)
+    );
+
+  const updateTransaction = (
+    paymentId: string,
+    transactionId: string,
+    data: TransactionUpdate
+  ): Promise<Payment> => {
+    assertSynced(transactionId);
+    return changeLedger(
+      paymentId,
+      () => databaseService.updatePaymentTransaction(paymentId, transactionId, data),
+      {
+        method: 'PATCH',
+        path: `/payments/${paymentId}/transactions/${transactionId}`,
+        body: data,
+        description: 'Update payment transaction',
+      },
+      payment => {
+        const transactions = payment.transactions.map(transaction => (
+          transaction.id === transactionId ? updatedTransaction(transaction, data) : transaction
+        ));
+        const updated = transactions.find(transaction => transaction.id === transactionId);
+        return updated ? withClearedReceipt({ ...payment, transactions }, updated, user) : { ...payment, transactions };
+      }
+    );
+  };
+
+  const deleteTransaction = (paymentId: string, transactionId: string): Promise<Payment> => {
+    assertSynced(transactionId);
+    return changeLedger(
+      paymentId,
+      () => databaseService.deletePaymentTransaction(paymentId, transactionId),
+      {
+        method: 'DELETE',
+        path: `/payments/${paymentId}/transactions/${transactionId}`,
+        description: 'Delete payment transaction',
+      },
+      payment => ({
+        ...payment,
+        transactions: payment.transactions.filter(transaction => transaction.id !== transactionId),
+      })
+    );
+  };
+
+  const issueReceipt = (paymentId: string, data: ReceiptInput): Promise<Payment> => {
+    if (data.kind === 'receipt') {
+      assertSynced(data.transactionId);
+    }
+    return changeLedger(
+      paymentId,
+      () => databaseService.issueReceipt(paymentId, data),
+      {
+        method: 'POST',
+        path: `/payments/${paymentId}/receipts`,
+        body: data,
+        description: data.kind === 'invoice' ? 'Issue invoice' : 'Issue receipt',
+      },
+      payment => {
+        const receipt = data.kind === 'invoice'
+          ? { kind: data.kind, amount: data.lines.reduce((sum, line) => sum + line.amount, 0), lines: data.lines }
+          : {
+              kind: data.kind,
+              amount: payment.transactions.find(t => t.id === data.transactionId)?.amount ?? 0,
+              transactionId: data.transactionId,
+              lines: [],
+            };
+        return { ...payment, receipts: [...payment.receipts, localReceipt(paymentId, receipt, user)] };
+      }
+    );
+  };
+
+  const requestRefund = (paymentId: string, data: RefundInput): Promise<Payment> =>
+    changeLedger(
+      paymentId,
+      () => databaseService.requestRefund(paymentId, data),
+      {
+        method: 'POST',
+        path: `/payments/${paymentId}/refunds`,
+        body: data,
+        description: `Request a refund of ₹${data.amount.toLocaleString('en-IN')}`,
+      },
+      payment => ({
+        ...payment,
+        refunds: [
+          ...payment.refunds,
+          {
+            id: createLocalId(),
+            paymentId,
+            ...data,
+            status: 'requested',
+            requestedBy: user?.id,
+            requestedByName: user?.name,
+            requestedAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ],
+      })
+    );
+
+  const decideRefund = (paymentId: string, refundId: string, decision: RefundDecision): Promise<Payment> => {
+    assertSynced(refundId, 'refund');
+    return changeLedger(
+      paymentId,
+      () => databaseService.decideRefund(paymentId, refundId, decision),
+      {
+        method: 'PATCH',
+        path: `/payments/${paymentId}/refunds/${refundId}`,
+        body: decision,
+        description: decision.status === 'paid' ? 'Pay out refund' : `Mark refund ${decision.status}`,
+      },
+      payment => ({
+        ...payment,
+        refunds: payment.refunds.map(refund => {
+          if (refund.id !== refundId) return refund;
+          return decision.status === 'paid'
+            ? { ...refund, ...decision, paidAt: decision.paidAt ?? new Date(), updatedAt: new Date() }
+            : {
+                ...refund,
+                ...decision,
+                decidedBy: user?.id,
+                decidedByName: user?.name,
+                decidedAt: new Date(),
+                updatedAt: new Date(),
+              };
+        }),
+      })
+    );
+  };
+
   const getPayment = (id: string): Payment | undefined => {
     return payments.find(payment => payment.id === id);
   };
@@ -107,8 +490,12 @@ export function PaymentProvider({ children }: { children: ReactNode }) {
     return payments.filter(payment => payment.documentId === documentId);
   };
 
-  const updatePaymentStatus = async (id: string, status: PaymentStatus): Promise<void> => {
-    await updatePayment(id, { paymentStatus: status });
+  const updateFeeRates = async (rates: FeeRate[]): Promise<void> => {
+    const result = await databaseService.saveSettings({ key: FEE_RATES_SETTING_KEY, value: rates });
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save fee rates');
+    }
+    setFeeRates(rates);
   };
 
   const value = {
@@ -117,9 +504,16 @@ export function PaymentProvider({ children }: { children: ReactNode }) {
     createPayment,
     updatePayment,
     deletePayment,
+    addTransaction,
+    updateTransaction,
+    deleteTransaction,
+    issueReceipt,
+    requestRefund,
+    decideRefund,
     getPayment,
     getPaymentsByDocument,
-    updatePaymentStatus,
+    feeRates,
+    updateFeeRates,
   };
 
   return <PaymentContext.Provider value={value}>{children}</PaymentContext.Provider>;
@@ -0,0 +1,211 @@
+import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
+import { BankStatement, BankStatementLine } from '../types';
+import { databaseService, LineDecision } from '../services/databaseService';
+import { parseStatement } from '../services/bankStatement';
+import { autoMatch, matchCandidates, matchedKeys, sameLine } from '../services/reconciliation';
+import { cacheRecords, createLocalId, isLocalId, queueChange, readRecords } from '../services/offlineStore';
+import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
+import { usePayments } from './usePayments';
+import { useChallans } from './useChallans';
+
+interface ReconciliationContextType {
+  statements: BankStatement[];
+  loading: boolean;
+  importStatement: (file: File) => Promise<BankStatement>;
+  decideLine: (statementId: string, lineId: string, decision: LineDecision) => Promise<BankStatement>;
+  deleteStatement: (id: string) => Promise<void>;
+}
+
+const ReconciliationContext = createContext<ReconciliationContextType | undefined>(undefined);
+
+export function useReconciliation() {
+  const context = useContext(ReconciliationContext);
+  if (context === undefined) {
+    throw new Error('useReconciliation must be used within a ReconciliationProvider');
+  }
+  return context;
+}
+
+export function ReconciliationProvider({ children }: { children: ReactNode }) {
+  const [statements, setStatements] = useState<BankStatement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { isConnected } = useDatabase();
+  const { user, can } = useAuth();
+  const { payments } = usePayments();
+  const { challans } = useChallans();
+  const allowed = Boolean(user) && can('payments', 'reconcile');
+
+  useEffect(() => {
+    if (isConnected && allowed) {
+      loadStatementsFromDatabase();
+    } else if (allowed) {
+      readRecords<BankStatement>('bankStatements').then(cached => {
+        if (cached.length > 0) setStatements(cached);
+      });
+    }
+  }, [isConnected, allowed]);
+
+  const loadStatementsFromDatabase = async () => {
+    if (!isConnected) return;
+
+    setLoading(true);
+    try {
+      const result = await databaseService.getBankStatements();
+      if (result.success && result.data) {
+        setStatements(result.data);
+        await cacheRecords('bankStatements', result.data);
+      }
+    } catch (error) {
+      console.error('Error loading bank statements from database:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Reads the file here, drops entries already imported from an earlier
+  // statement and suggests a match for each remaining line
+  const importStatement = async (file: File): Promise<BankStatement> => {
+    const parsed = parseStatement(file.name, await file.text());
+    const existing = statements.flatMap(statement => statement.lines);
+    const lines = parsed.lines.filter(line => !existing.some(seen => sameLine(seen, line)));
+    if (lines.length === 0) {
+      throw new Error('Every entry in this statement has already been imported');
+    }
+    const matches = autoMatch(lines, matchCandidates(payments, challans), matchedKeys(statements));
+    const suggested = lines.map((line, index) => ({
+      ...line,
+      matchKind: matches[index]?.kind,
+      matchId: matches[index]?.id,
+    }));
+    const body = {
+      fileName: file.name,
+      format: parsed.format,
+      accountNumber: parsed.accountNumber,
+      lines: suggested,
+    };
+
+    setLoading(true);
+    try {
+      if (isConnected) {
+        const result = await databaseService.importBankStatement(body);
+        if (result.success) {
+          await loadStatementsFromDatabase();
+          return result.data!;
+        } else {
+          throw new Error(result.error || 'Failed to import bank statement');
+        }
+      }
+
+      // Offline: keep the matched statement here and upload it later
+      const id = createLocalId();
+      const statement: BankStatement = {
+        id,
+        fileName: file.name,
+        format: parsed.format,
+        accountNumber: parsed.accountNumber,
+        importedBy: user?.id,
+        importedByName: user?.name,
+        importedAt: new Date(),
+        lines: suggested.map((line, index): BankStatementLine => ({
+          ...line,
+          id: `${id}-${index}`,
+          statementId: id,
+          matchStatus: line.matchKind ? 'suggested' : 'unmatched',
+        })),
+        updatedAt: new Date(),
+      };
+      setStatements(prev => [statement, ...prev]);
+      await queueChange({
+        entity: 'bankStatements',
+        recordId: id,
+        method: 'POST',
+        path: '/reconciliation/statements',
+        body,
+        description: `Import bank statement ${file.name}`,
+      }, statement);
+      return statement;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const decideLine = async (statementId: string, lineId: string, decision: LineDecision): Promise<BankStatement> => {
+    setLoading(true);
+    try {
+      if (isConnected) {
+        const result = await databaseService.decideStatementLine(statementId, lineId, decision);
+        if (result.success) {
+          await loadStatementsFromDatabase();
+          return result.data!;
+        } else {
+          throw new Error(result.error || 'Failed to update the statement line');
+        }
+      }
+
+      // Lines of a statement imported offline get their ids once it is uploaded
+      if (isLocalId(statementId)) {
+        throw new Error('Matches on this statement can be confirmed once it has been uploaded');
+      }
+      const current = statements.find(s => s.id === statementId)!;
+      const updatedStatement: BankStatement = {
+        ...current,
+        lines: current.lines.map(line => (line.id === lineId ? {
+          ...line,
+          matchStatus: decision.matchStatus,
+          matchKind: decision.matchStatus === 'confirmed' ? decision.matchKind : undefined,
+          matchId: decision.matchStatus === 'confirmed' ? decision.matchId : undefined,
+          decidedBy: user?.id,
+          decidedByName: user?.name,
+          decidedAt: new Date(),
+        } : line)),
+        updatedAt: new Date(),
+      };
+      setStatements(prev => prev.map(s => (s.id === statementId ? updatedStatement : s)));
+      await queueChange({
+        entity: 'bankStatements',
+        recordId: statementId,
+        method: 'PATCH',
+        path: `/reconciliation/statements/${statementId}/lines/${lineId}`,
+        body: decision,
+        description: `Mark a line of ${current.fileName} ${decision.matchStatus}`,
+      }, updatedStatement);
+      return updatedStatement;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const deleteStatement = async (id: string): Promise<void> => {
+    setLoading(true);
+    try {
+      if (isConnected) {
+        const result = await databaseService.deleteBankStatement(id);
+        if (!result.success) {
+          throw new Error(result.error || 'Failed to delete bank statement');
+        }
+      } else {
+        await queueChange({
+          entity: 'bankStatements',
+          recordId: id,
+          method: 'DELETE',
+          path: `/reconciliation/statements/${id}`,
+          description: `Delete bank statement ${statements.find(s => s.id === id)?.fileName ?? ''}`.trim(),
+        });
+      }
+      setStatements(prev => prev.filter(statement => statement.id !== id));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const value = {
+    statements,
+    loading,
+    importStatement,
+    decideLine,
+    deleteStatement,
+  };
+
+  return <ReconciliationContext.Provider value={value}>{children}</ReconciliationContext.Provider>;
+}
@@ -4,6 +4,7 @@ import { useAuth } from './useAuth';
 import { useUsers } from './useUsers';
 import { useAttendance } from './useAttendance';
 import { databaseService } from '../services/databaseService';
+import { cacheRecords, createLocalId, isLocalId, queueChange, readRecords } from '../services/offlineStore';
 import { useDatabase } from './useDatabase';
 
 interface SalaryContextType {
@@ -150,10 +151,18 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
 
   // Load data from database on mount
   useEffect(() => {
-    if (isConnected) {
+    if (isConnected && user) {
       loadSalaryDataFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<SalaryRecord>('salaryRecords').then(cached => {
+        if (cached.length > 0) setSalaryRecords(cached);
+      });
+      readRecords<StaffSalaryConfig>('staffConfigs').then(cached => {
+        if (cached.length > 0) setStaffConfigs(cached);
+      });
     }
-  }, [isConnected]);
+  }, [isConnected, user]);
 
   const loadSalaryDataFromDatabase = async () => {
     if (!isConnected) return;
@@ -163,55 +172,15 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
       // Load salary records
       const salaryResult = await databaseService.getSalaryRecords();
       if (salaryResult.success && salaryResult.data) {
-        const dbSalaryRecords: SalaryRecord[] = salaryResult.data.map((row: any) => ({
-          id: row.id.toString(),
-          userId: row.user_id.toString(),
-          userName: row.user_name,
-          userRole: row.user_role,
-          baseSalary: parseFloat(row.base_salary),
-          allowances: JSON.parse(row.allowances || '[]'),
-          deductions: JSON.parse(row.deductions || '[]'),
-          overtime: JSON.parse(row.overtime || '[]'),
-          bonus: parseFloat(row.bonus || '0'),
-          grossSalary: parseFloat(row.gross_salary),
-          netSalary: parseFloat(row.net_salary),
-          payPeriod: {
-            month: row.pay_period_month,
-            year: row.pay_period_year,
-            startDate: new Date(row.pay_period_year, row.pay_period_month - 1, 1),
-            endDate: new Date(row.pay_period_year, row.pay_period_month, 0),
-          },
-          payDate: new Date(row.pay_date),
-          status: row.status,
-          paymentMethod: row.payment_method,
-          bankDetails: JSON.parse(row.bank_details || 'null'),
-          notes: row.notes,
-          createdAt: new Date(row.created_at),
-          updatedAt: new Date(row.updated_at),
-          approvedBy: row.approved_by,
-          approvedAt: row.approved_at ? new Date(row.approved_at) : undefined,
-        }));
-        setSalaryRecords(dbSalaryRecords);
+        setSalaryRecords(salaryResult.data);
+        await cacheRecords('salaryRecords', salaryResult.data);
       }
 
       // Load staff configs
       const configResult = await databaseService.getStaffConfigs();
       if (configResult.success && configResult.data) {
-        const dbStaffConfigs: StaffSalaryConfig[] = configResult.data.map((row: any) => ({
-          id: row.id.toString(),
-          userId: row.user_id.toString(),
-          baseSalary: parseFloat(row.base_salary),
-          allowances: JSON.parse(row.allowances || '[]'),
-          deductions: JSON.parse(row.deductions || '[]'),
-          overtimeRate: parseFloat(row.overtime_rate || '0'),
-          paymentMethod: row.payment_method,
-          bankDetails: JSON.parse(row.bank_details || 'null'),
-          isActive: Boolean(row.is_active),
-          effectiveFrom: new Date(row.effective_from),
-          createdAt: new Date(row.created_at),
-          updatedAt: new Date(row.updated_at),
-        }));
-        setStaffConfigs(dbStaffConfigs);
+        setStaffConfigs(configResult.data);
+        await cacheRecords('staffConfigs', configResult.data);
       }
     } catch (error) {
       console.error('Error loading salary data from database:', error);
@@ -220,11 +189,6 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateSalaryId = (): string => {
-    const count = salaryRecords.length + 1;
-    return `SAL${count.toString().padStart(3, '0')}`;
-  };
-
   const calculateSalary = (config: StaffSalaryConfig, overtimeHours: number = 0, bonus: number = 0): { gross: number; net: number } => {
     const totalAllowances = config.allowances.reduce((sum, allowance) => sum + allowance.amount, 0);
     const totalDeductions = config.deductions.reduce((sum, deduction) => sum + deduction.amount, 0);
@@ -246,12 +210,12 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload salary records from database
           await loadSalaryDataFromDatabase();
-          return salaryRecords[salaryRecords.length - 1]; // Return the newly created record
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create salary record');
         }
       } else {
-        // Fallback to mock data
+        // Offline: keep it on this device and create it on the server later
         const config = getStaffConfig(data.userId!);
         if (!config) {
           throw new Error('Staff salary configuration not found');
@@ -261,7 +225,7 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         const { gross, net } = calculateSalary(config, overtimeHours, data.bonus || 0);
 
         const newRecord: SalaryRecord = {
-          id: generateSalaryId(),
+          id: createLocalId(),
           userId: data.userId!,
           userName: data.userName!,
           userRole: data.userRole!,
@@ -284,6 +248,14 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         };
 
         setSalaryRecords(prev => [...prev, newRecord]);
+        await queueChange({
+          entity: 'salaryRecords',
+          recordId: newRecord.id,
+          method: 'POST',
+          path: '/salary-records',
+          body: data,
+          description: `Create salary record for ${newRecord.userName}`,
+        }, newRecord);
         return newRecord;
       }
     } finally {
@@ -301,18 +273,29 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload salary records from database
           await loadSalaryDataFromDatabase();
-          return salaryRecords.find(r => r.id === id)!;
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to update salary record');
         }
       } else {
-        // Fallback to mock data
-        setSalaryRecords(prev => 
-          prev.map(record => 
-            record.id === id ? { ...record, ...data, updatedAt: new Date() } : record
+        // Offline: apply it here and replay it once the server is back
+        const current = salaryRecords.find(r => r.id === id)!;
+        const updatedRecord = { ...current, ...data, updatedAt: new Date() };
+        setSalaryRecords(prev =>
+          prev.map(record =>
+            record.id === id ? updatedRecord : record
           )
         );
-        return salaryRecords.find(r => r.id === id)!;
+        await queueChange({
+          entity: 'salaryRecords',
+          recordId: id,
+          method: 'PATCH',
+          path: `/salary-records/${id}`,
+          body: data,
+          baseUpdatedAt: isLocalId(id) ? undefined : current.updatedAt,
+          description: `Update salary record for ${current.userName}`,
+        }, updatedRecord);
+        return updatedRecord;
       }
     } finally {
       setLoading(false);
@@ -338,14 +321,14 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload staff configs from database
           await loadSalaryDataFromDatabase();
-          return staffConfigs[staffConfigs.length - 1]; // Return the newly created config
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create staff configuration');
         }
       } else {
-        // Fallback to mock data
+        // Offline: keep it on this device and create it on the server later
         const newConfig: StaffSalaryConfig = {
-          id: `CONFIG${Date.now()}`,
+          id: createLocalId(),
           userId: data.userId!,
           baseSalary: data.baseSalary || 0,
           allowances: data.allowances || [],
@@ -361,6 +344,14 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         };
 
         setStaffConfigs(prev => [...prev, newConfig]);
+        await queueChange({
+          entity: 'staffConfigs',
+          recordId: newConfig.id,
+          method: 'POST',
+          path: '/staff-configs',
+          body: data,
+          description: 'Create staff salary configuration',
+        }, newConfig);
         return newConfig;
       }
     } finally {
@@ -378,18 +369,29 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload staff configs from database
           await loadSalaryDataFromDatabase();
-          return staffConfigs.find(c => c.id === id)!;
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to update staff configuration');
         }
       } else {
-        // Fallback to mock data
-        setStaffConfigs(prev => 
-          prev.map(config => 
-            config.id === id ? { ...config, ...data, updatedAt: new Date() } : config
+        // Offline: apply it here and replay it once the server is back
+        const current = staffConfigs.find(c => c.id === id)!;
+        const updatedConfig = { ...current, ...data, updatedAt: new Date() };
+        setStaffConfigs(prev =>
+          prev.map(config =>
+            config.id === id ? updatedConfig : config
           )
         );
-        return staffConfigs.find(c => c.id === id)!;
+        await queueChange({
+          entity: 'staffConfigs',
+          recordId: id,
+          method: 'PATCH',
+          path: `/staff-configs/${id}`,
+          body: data,
+          baseUpdatedAt: isLocalId(id) ? undefined : current.updatedAt,
+          description: 'Update staff salary configuration',
+        }, updatedConfig);
+        return updatedConfig;
       }
     } finally {
       setLoading(false);
@@ -415,7 +417,7 @@ export function SalaryProvider({ children }: { children: ReactNode }) {
         const { gross, net } = calculateSalary(config, overtimeHours);
 
         const salaryRecord: SalaryRecord = {
-          id: generateSalaryId(),
+          id: createLocalId(),
           userId: staff.id,
           userName: staff.name,
           userRole: staff.role,
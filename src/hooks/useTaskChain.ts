@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { TaskLink } from '../types/task';
+import { databaseService } from '../services/databaseService';
+import { useDatabase } from './useDatabase';
+import { useTasks } from './useTasks';
+
+// The tasks upstream and downstream of a task. The server knows the whole
+// chain; offline, or when it cannot be asked, the tasks on this device do.
+export function useTaskChain(taskId: string | undefined): TaskLink[] {
+  const { isConnected } = useDatabase();
+  const { tasks } = useTasks();
+  const [serverChain, setServerChain] = useState<TaskLink[] | null>(null);
+
+  useEffect(() => {
+    if (!isConnected || !taskId) {
+      setServerChain(null);
+      return;
+    }
+
+    let cancelled = false;
+    databaseService.getTaskChain(taskId).then(result => {
+      if (!cancelled && result.success && result.data) {
+        setServerChain(result.data);
+      }
+    }).catch(error => {
+      console.error('Error loading task dependencies:', error);
+    });
+    return () => {
+      cancelled = true;
+    };
+    // tasks reloads after every change, which may have moved the chain on
+  }, [isConnected, taskId, tasks]);
+
+  return serverChain ?? tasks;
+}
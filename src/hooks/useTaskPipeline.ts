@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { TaskPipelineRule } from '../types/task';
+import { databaseService, PipelineRuleInput } from '../services/databaseService';
+import { pipelineRuleProblem } from '../services/taskPipeline';
+import { useDatabase } from './useDatabase';
+
+// The rules for which document stages open and close tasks. The server
+// applies them, so they are only read and changed while connected.
+export function useTaskPipeline() {
+  const { isConnected } = useDatabase();
+  const [rules, setRules] = useState<TaskPipelineRule[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      const result = await databaseService.getPipelineRules();
+      if (result.success && result.data) setRules(result.data);
+    } catch (error) {
+      console.error('Error loading pipeline rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isConnected) loadRules();
+  }, [isConnected]);
+
+  const saveRule = async (data: PipelineRuleInput, id?: string): Promise<void> => {
+    const problem = pipelineRuleProblem(data);
+    if (problem) {
+      throw new Error(problem);
+    }
+    if (!isConnected) {
+      throw new Error('Pipeline rules can only be changed while connected to the server');
+    }
+    const result = id ? await databaseService.updatePipelineRule(id, data) : await databaseService.createPipelineRule(data);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to save pipeline rule');
+    }
+    await loadRules();
+  };
+
+  const deleteRule = async (id: string): Promise<void> => {
+    if (!isConnected) {
+      throw new Error('Pipeline rules can only be changed while connected to the server');
+    }
+    const result = await databaseService.deletePipelineRule(id);
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to delete pipeline rule');
+    }
+    await loadRules();
+  };
+
+  return { rules, loading, saveRule, deleteRule };
+}
@@ -1,12 +1,20 @@
-import { useState, createContext, useContext, ReactNode, useEffect } from 'react';
-import { Task, TaskType, TaskStatus, TaskPriority, TaskPermission, TaskTemplate, TaskStats } from '../types/task';
+import { useState, createContext, useContext, ReactNode, useEffect, useRef } from 'react';
+import { Task, TaskType, TaskStatus, TaskPriority, TaskTemplate, TaskTemplateInput, TaskStats, TaskPermission } from '../types/task';
 import { useAuth } from './useAuth';
 import { databaseService } from '../services/databaseService';
+import { cacheRecords, createLocalId, isLocalId, queueChange, readRecords } from '../services/offlineStore';
 import { useDatabase } from './useDatabase';
+import { useUsers } from './useUsers';
+import { useAttendance } from './useAttendance';
+import { useDocuments } from './useDocuments';
+import { DocumentStatus } from '../types';
+import { autoAssign } from '../services/taskAssignment';
+import { checklistBlock, checklistFromTemplate, missingRequiredFields, requiredFieldLabel } from '../services/taskChecklist';
+import { dependencyBlock, dependencyCycle, unfinishedPrerequisites } from '../services/taskDependencies';
 
 interface TaskContextType {
   tasks: Task[];
-  taskPermissions: TaskPermission[];
+  // Archived templates included; only the others are offered for new tasks
   taskTemplates: TaskTemplate[];
   loading: boolean;
   createTask: (data: Partial<Task>) => Promise<Task>;
@@ -14,110 +22,23 @@ interface TaskContextType {
   deleteTask: (id: string) => Promise<void>;
   assignTask: (taskId: string, userId: string) => Promise<void>;
   updateTaskStatus: (taskId: string, status: TaskStatus) => Promise<void>;
+  setTaskDependencies: (taskId: string, dependencies: string[]) => Promise<void>;
+  setChecklistItem: (taskId: string, itemId: string, isCompleted: boolean) => Promise<void>;
   addTaskComment: (taskId: string, content: string, isInternal?: boolean) => Promise<void>;
   getTasksByUser: (userId: string) => Task[];
   getTasksByType: (type: TaskType) => Task[];
   getTaskStats: () => TaskStats;
-  hasTaskPermission: (taskType: TaskType, permission: keyof TaskPermission['permissions']) => boolean;
-  getUserTaskPermissions: (userId: string) => TaskPermission[];
-  updateTaskPermissions: (userId: string, permissions: TaskPermission[]) => Promise<void>;
   createTaskFromTemplate: (templateId: string, overrides?: Partial<Task>) => Promise<Task>;
+  createTemplate: (data: TaskTemplateInput) => Promise<TaskTemplate>;
+  updateTemplate: (id: string, data: TaskTemplateInput) => Promise<TaskTemplate>;
+  cloneTemplate: (id: string) => Promise<TaskTemplate>;
+  setTemplateArchived: (id: string, isArchived: boolean) => Promise<TaskTemplate>;
 }
 
 const TaskContext = createContext<TaskContextType | undefined>(undefined);
 
 const mockTasks: Task[] = [];
 
-const mockTaskPermissions: TaskPermission[] = [
-  {
-    id: 'PERM001',
-    userId: '3', // Challan Staff
-    taskType: 'challan_creation',
-    permissions: {
-      canView: true,
-      canCreate: true,
-      canEdit: true,
-      canDelete: false,
-      canAssign: false,
-      canComment: true,
-      canChangeStatus: true,
-      canViewAllTasks: false,
-      canEditPriority: false,
-      canSetDueDate: false,
-      canAddAttachments: true,
-      canViewComments: true,
-    },
-    restrictions: {
-      maxTasksPerDay: 10,
-      allowedStatuses: ['pending', 'in_progress', 'completed'],
-      canOnlyViewOwnTasks: true,
-    }
-  },
-  {
-    id: 'PERM002',
-    userId: '4', // Field Collection Staff
-    taskType: 'document_collection',
-    permissions: {
-      canView: true,
-      canCreate: false,
-      canEdit: true,
-      canDelete: false,
-      canAssign: false,
-      canComment: true,
-      canChangeStatus: true,
-      canViewAllTasks: false,
-      canEditPriority: false,
-      canSetDueDate: false,
-      canAddAttachments: true,
-      canViewComments: true,
-    },
-    restrictions: {
-      maxTasksPerDay: 8,
-      allowedStatuses: ['pending', 'in_progress', 'completed'],
-      canOnlyViewOwnTasks: true,
-    }
-  },
-];
-
-const mockTaskTemplates: TaskTemplate[] = [
-  {
-    id: 'TEMPLATE001',
-    name: 'Document Collection',
-    description: 'Standard document collection task',
-    type: 'document_collection',
-    defaultPriority: 'medium',
-    estimatedHours: 2,
-    checklist: [
-      {
-        id: 'CHECK001',
-        title: 'Verify customer identity',
-        description: 'Check ID proof and match with records',
-        isRequired: true,
-        isCompleted: false,
-      },
-      {
-        id: 'CHECK002',
-        title: 'Collect all required documents',
-        description: 'Ensure all documents in the checklist are collected',
-        isRequired: true,
-        isCompleted: false,
-      },
-      {
-        id: 'CHECK003',
-        title: 'Take photos of documents',
-        description: 'Photograph all collected documents',
-        isRequired: true,
-        isCompleted: false,
-      },
-    ],
-    requiredFields: ['customerId', 'documentId', 'dueDate'],
-    autoAssignmentRules: {
-      role: 'field_collection_staff',
-      workload: 'balanced',
-    }
-  },
-];
-
 export function useTasks() {
   const context = useContext(TaskContext);
   if (context === undefined) {
@@ -127,19 +48,72 @@ export function useTasks() {
 }
 
 export function TaskProvider({ children }: { children: ReactNode }) {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { isConnected } = useDatabase();
+  const { users } = useUsers();
+  const { attendanceRecords, leaveRequests } = useAttendance();
+  const { documents } = useDocuments();
   const [tasks, setTasks] = useState<Task[]>(mockTasks);
-  const [taskPermissions, setTaskPermissions] = useState<TaskPermission[]>(mockTaskPermissions);
-  const [taskTemplates] = useState<TaskTemplate[]>(mockTaskTemplates);
+  const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([]);
+  const [taskPermissions, setTaskPermissions] = useState<TaskPermission[]>([]);
   const [loading, setLoading] = useState(false);
 
   // Load tasks from database on mount
   useEffect(() => {
-    if (isConnected) {
+    if (isConnected && user) {
       loadTasksFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back
+      readRecords<Task>('tasks').then(cached => {
+        if (cached.length > 0) setTasks(cached);
+      });
+    }
+  }, [isConnected, user]);
+
+  // The server opens and closes pipeline tasks as documents change stage, so
+  // a document that moved on, or a new one, means the tasks have too
+  const documentStages = useRef(new Map<string, DocumentStatus>());
+  useEffect(() => {
+    const previous = documentStages.current;
+    documentStages.current = new Map(documents.map(document => [document.id, document.status]));
+    const moved = previous.size > 0 && documents.some(document => previous.get(document.id) !== document.status);
+    if (moved && isConnected && user) {
+      loadTasksFromDatabase();
+    }
+  }, [documents, isConnected, user]);
+
+  // Daily limits and templates only matter to whoever hands out tasks
+  const canCreateTasks = Boolean(user) && can('tasks', 'create');
+  useEffect(() => {
+    if (!isConnected || !canCreateTasks) return;
+    databaseService.getTaskPermissions().then(result => {
+      if (result.success && result.data) setTaskPermissions(result.data);
+    }).catch(error => {
+      console.error('Error loading task permissions:', error);
+    });
+  }, [isConnected, canCreateTasks]);
+
+  useEffect(() => {
+    if (isConnected && canCreateTasks) {
+      loadTemplatesFromDatabase();
+    } else if (canCreateTasks) {
+      readRecords<TaskTemplate>('taskTemplates').then(cached => {
+        if (cached.length > 0) setTaskTemplates(cached);
+      });
     }
-  }, [isConnected]);
+  }, [isConnected, canCreateTasks]);
+
+  const loadTemplatesFromDatabase = async () => {
+    try {
+      const result = await databaseService.getTaskTemplates();
+      if (result.success && result.data) {
+        setTaskTemplates(result.data);
+        await cacheRecords('taskTemplates', result.data);
+      }
+    } catch (error) {
+      console.error('Error loading task templates from database:', error);
+    }
+  };
 
   const loadTasksFromDatabase = async () => {
     if (!isConnected) return;
@@ -148,30 +122,8 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     try {
       const result = await databaseService.getTasks();
       if (result.success && result.data) {
-        const dbTasks: Task[] = result.data.map((row: any) => ({
-          id: row.id.toString(),
-          title: row.title,
-          description: row.description,
-          type: row.type,
-          priority: row.priority,
-          status: row.status,
-          assignedTo: row.assigned_to,
-          assignedBy: row.assigned_by,
-          documentId: row.document_id?.toString(),
-          customerId: row.customer_id?.toString(),
-          builderId: row.builder_id?.toString(),
-          dueDate: row.due_date ? new Date(row.due_date) : undefined,
-          completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
-          estimatedHours: row.estimated_hours ? parseFloat(row.estimated_hours) : undefined,
-          actualHours: row.actual_hours ? parseFloat(row.actual_hours) : undefined,
-          tags: JSON.parse(row.tags || '[]'),
-          attachments: [], // Would need separate table
-          comments: [], // Would need separate table
-          dependencies: [], // Would need separate table
-          createdAt: new Date(row.created_at),
-          updatedAt: new Date(row.updated_at),
-        }));
-        setTasks(dbTasks);
+        setTasks(result.data);
+        await cacheRecords('tasks', result.data);
       }
     } catch (error) {
       console.error('Error loading tasks from database:', error);
@@ -180,43 +132,43 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const generateTaskId = (): string => {
-    const count = tasks.length + 1;
-    return `TASK${count.toString().padStart(3, '0')}`;
-  };
-
   const createTask = async (data: Partial<Task>): Promise<Task> => {
     setLoading(true);
     try {
+      const taskData: Partial<Task> = {
+        title: data.title || '',
+        description: data.description || '',
+        type: data.type || 'custom',
+        priority: data.priority || 'medium',
+        status: 'pending',
+        assignedTo: data.assignedTo || '',
+        documentId: data.documentId,
+        customerId: data.customerId,
+        builderId: data.builderId,
+        dueDate: data.dueDate,
+        estimatedHours: data.estimatedHours,
+        tags: data.tags || [],
+        dependencies: data.dependencies || [],
+        assignment: data.assignment,
+        templateId: data.templateId,
+        checklist: data.checklist || [],
+      };
+
       if (isConnected) {
         // Create in database
-        const result = await databaseService.createTask({
-          title: data.title || '',
-          description: data.description || '',
-          type: data.type || 'custom',
-          priority: data.priority || 'medium',
-          status: 'pending',
-          assignedTo: data.assignedTo || '',
-          assignedBy: user?.id || '',
-          documentId: data.documentId,
-          customerId: data.customerId,
-          builderId: data.builderId,
-          dueDate: data.dueDate,
-          estimatedHours: data.estimatedHours,
-          tags: data.tags || [],
-        });
+        const result = await databaseService.createTask(taskData);
 
         if (result.success) {
           // Reload tasks from database
           await loadTasksFromDatabase();
-          return tasks[tasks.length - 1]; // Return the newly created task
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create task');
         }
       } else {
-        // Fallback to mock data
+        // Offline: keep it on this device and create it on the server later
         const newTask: Task = {
-          id: generateTaskId(),
+          id: createLocalId(),
           title: data.title || '',
           description: data.description || '',
           type: data.type || 'custom',
@@ -232,6 +184,7 @@ export function TaskProvider({ children }: { children: ReactNode }) {
           tags: data.tags || [],
           attachments: [],
           comments: [],
+          checklist: checklistFromTemplate(data.checklist || []),
           dependencies: data.dependencies || [],
           createdAt: new Date(),
           updatedAt: new Date(),
@@ -239,6 +192,14 @@ export function TaskProvider({ children }: { children: ReactNode }) {
         };
 
         setTasks(prev => [...prev, newTask]);
+        await queueChange({
+          entity: 'tasks',
+          recordId: newTask.id,
+          method: 'POST',
+          path: '/tasks',
+          body: taskData,
+          description: `Create task "${newTask.title}"`,
+        }, newTask);
         return newTask;
       }
     } finally {
@@ -249,12 +210,13 @@ export function TaskProvider({ children }: { children: ReactNode }) {
   const updateTask = async (id: string, data: Partial<Task>): Promise<Task> => {
     setLoading(true);
     try {
+      const updatedTask = { ...tasks.find(t => t.id === id)!, ...data, updatedAt: new Date() };
       setTasks(prev => 
         prev.map(task => 
-          task.id === id ? { ...task, ...data, updatedAt: new Date() } : task
+          task.id === id ? updatedTask : task
         )
       );
-      return tasks.find(t => t.id === id)!;
+      return updatedTask;
     } finally {
       setLoading(false);
     }
@@ -274,6 +236,14 @@ export function TaskProvider({ children }: { children: ReactNode }) {
   };
 
   const updateTaskStatus = async (taskId: string, status: TaskStatus): Promise<void> => {
+    const current = tasks.find(t => t.id === taskId)!;
+    // The server refuses this too; checking here saves a round trip and
+    // keeps offline changes from being queued only to fail later
+    const blocked = dependencyBlock(current, status, tasks) ?? checklistBlock(current, status);
+    if (blocked) {
+      throw new Error(blocked);
+    }
+
     setLoading(true);
     try {
       if (isConnected) {
@@ -287,12 +257,100 @@ export function TaskProvider({ children }: { children: ReactNode }) {
           throw new Error(result.error || 'Failed to update task status');
         }
       } else {
-        // Fallback to mock data
+        // Offline: apply it here and replay it once the server is back
         const updateData: Partial<Task> = { status };
         if (status === 'completed') {
           updateData.completedAt = new Date();
         }
-        await updateTask(taskId, updateData);
+        const updatedTask = await updateTask(taskId, updateData);
+        await queueChange({
+          entity: 'tasks',
+          recordId: taskId,
+          method: 'PATCH',
+          path: `/tasks/${taskId}/status`,
+          body: { status },
+          baseUpdatedAt: isLocalId(taskId) ? undefined : current.updatedAt,
+          description: `Set task "${current.title}" to ${status.replace('_', ' ')}`,
+        }, updatedTask);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setTaskDependencies = async (taskId: string, dependencies: string[]): Promise<void> => {
+    const current = tasks.find(t => t.id === taskId)!;
+    const cycle = dependencyCycle(taskId, dependencies, tasks);
+    if (cycle) {
+      const names = cycle.map(id => {
+        const task = tasks.find(t => t.id === id);
+        return task ? task.taskNumber ?? task.title : id;
+      });
+      throw new Error(`These tasks would wait on each other forever: ${names.join(' → ')}`);
+    }
+
+    setLoading(true);
+    try {
+      if (isConnected) {
+        const result = await databaseService.setTaskDependencies(taskId, dependencies);
+
+        if (result.success) {
+          await loadTasksFromDatabase();
+        } else {
+          throw new Error(result.error || 'Failed to update dependencies');
+        }
+      } else {
+        // Offline: apply it here and replay it once the server is back
+        const updatedTask = await updateTask(taskId, {
+          dependencies,
+          blockedBy: unfinishedPrerequisites({ dependencies, blockedBy: current.blockedBy }, tasks),
+        });
+        await queueChange({
+          entity: 'tasks',
+          recordId: taskId,
+          method: 'PUT',
+          path: `/tasks/${taskId}/dependencies`,
+          body: { dependencies },
+          baseUpdatedAt: isLocalId(taskId) ? undefined : current.updatedAt,
+          description: `Change what task "${current.title}" waits on`,
+        }, updatedTask);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setChecklistItem = async (taskId: string, itemId: string, isCompleted: boolean): Promise<void> => {
+    setLoading(true);
+    try {
+      if (isConnected) {
+        const result = await databaseService.setChecklistItem(taskId, itemId, isCompleted);
+
+        if (result.success) {
+          await loadTasksFromDatabase();
+        } else {
+          throw new Error(result.error || 'Failed to update checklist');
+        }
+      } else {
+        // Offline: apply it here and replay it once the server is back
+        const task = tasks.find(t => t.id === taskId)!;
+        const checklist = task.checklist.map(item => (item.id === itemId ? {
+          ...item,
+          isCompleted,
+          completedBy: isCompleted ? user?.id : undefined,
+          completedByName: isCompleted ? user?.name : undefined,
+          completedAt: isCompleted ? new Date() : undefined,
+        } : item));
+        const updatedTask = await updateTask(taskId, { checklist });
+        const item = checklist.find(i => i.id === itemId);
+        await queueChange({
+          entity: 'tasks',
+          recordId: taskId,
+          method: 'PATCH',
+          path: `/tasks/${taskId}/checklist/${itemId}`,
+          body: { isCompleted },
+          description: `${isCompleted ? 'Tick off' : 'Untick'} "${item?.title}" on task "${task.title}"`,
+        }, updatedTask);
       }
     } finally {
       setLoading(false);
@@ -304,13 +362,7 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     try {
       if (isConnected && user) {
         // Add to database
-        const result = await databaseService.addTaskComment({
-          taskId,
-          content,
-          authorId: user.id,
-          authorName: user.name,
-          isInternal,
-        });
+        const result = await databaseService.addTaskComment(taskId, content, isInternal);
 
         if (result.success) {
           // Reload tasks from database to get updated comments
@@ -319,11 +371,11 @@ export function TaskProvider({ children }: { children: ReactNode }) {
           throw new Error(result.error || 'Failed to add comment');
         }
       } else {
-        // Fallback to mock data
+        // Offline: apply it here and replay it once the server is back
         const task = tasks.find(t => t.id === taskId);
         if (task && user) {
           const newComment = {
-            id: `COMMENT${Date.now()}`,
+            id: createLocalId(),
             content,
             authorId: user.id,
             authorName: user.name,
@@ -331,9 +383,17 @@ export function TaskProvider({ children }: { children: ReactNode }) {
             isInternal,
           };
           
-          await updateTask(taskId, {
+          const updatedTask = await updateTask(taskId, {
             comments: [...task.comments, newComment]
           });
+          await queueChange({
+            entity: 'tasks',
+            recordId: taskId,
+            method: 'POST',
+            path: `/tasks/${taskId}/comments`,
+            body: { content, isInternal },
+            description: `Comment on task "${task.title}"`,
+          }, updatedTask);
         }
       }
     } finally {
@@ -393,46 +453,82 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     };
   };
 
-  const hasTaskPermission = (taskType: TaskType, permission: keyof TaskPermission['permissions']): boolean => {
-    if (!user) return false;
-    if (user.role === 'main_admin') return true;
-
-    const userPermission = taskPermissions.find(p => p.userId === user.id && p.taskType === taskType);
-    return userPermission?.permissions[permission] || false;
-  };
-
-  const getUserTaskPermissions = (userId: string): TaskPermission[] => {
-    return taskPermissions.filter(p => p.userId === userId);
-  };
-
-  const updateTaskPermissions = async (userId: string, permissions: TaskPermission[]): Promise<void> => {
-    setLoading(true);
-    try {
-      // Remove existing permissions for this user
-      setTaskPermissions(prev => prev.filter(p => p.userId !== userId));
-      // Add new permissions
-      setTaskPermissions(prev => [...prev, ...permissions]);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const createTaskFromTemplate = async (templateId: string, overrides?: Partial<Task>): Promise<Task> => {
     const template = taskTemplates.find(t => t.id === templateId);
     if (!template) {
       throw new Error('Template not found');
     }
+    if (template.isArchived) {
+      throw new Error(`The ${template.name} template is archived`);
+    }
 
-    return createTask({
+    // Pick the assignee by the template's rules unless one was chosen by hand
+    let assignee: Partial<Task> = {};
+    if (template.autoAssignmentRules && !overrides?.assignedTo) {
+      const decision = autoAssign(template, {
+        users,
+        tasks,
+        attendance: attendanceRecords,
+        leaveRequests,
+        permissions: taskPermissions,
+      });
+      if (!decision.assignedTo) {
+        throw new Error(decision.assignment.reason);
+      }
+      assignee = { assignedTo: decision.assignedTo, assignment: decision.assignment };
+    }
+
+    const data: Partial<Task> = {
       title: template.name,
       description: template.description,
       type: template.type,
       priority: template.defaultPriority,
       estimatedHours: template.estimatedHours,
       ...overrides,
-    });
+      ...assignee,
+      templateId: template.id,
+      templateVersion: template.version,
+      checklist: checklistFromTemplate(template.checklist),
+    };
+    const missing = missingRequiredFields(template, data);
+    if (missing.length > 0) {
+      throw new Error(`The ${template.name} template needs: ${missing.map(requiredFieldLabel).join(', ')}`);
+    }
+    return createTask(data);
+  };
+
+  // Templates are shared by everyone who hands out tasks, so changes to them
+  // go straight to the server rather than waiting in this device's outbox
+  const saveTemplate = async (
+    request: () => Promise<{ success: boolean; data?: TaskTemplate; error?: string }>,
+    failure: string
+  ): Promise<TaskTemplate> => {
+    if (!isConnected) {
+      throw new Error('Task templates can only be changed while connected to the server');
+    }
+    const result = await request();
+    if (!result.success || !result.data) {
+      throw new Error(result.error || failure);
+    }
+    await loadTemplatesFromDatabase();
+    return result.data;
   };
 
+  const createTemplate = (data: TaskTemplateInput) =>
+    saveTemplate(() => databaseService.createTaskTemplate(data), 'Failed to create template');
+
+  const updateTemplate = (id: string, data: TaskTemplateInput) =>
+    saveTemplate(() => databaseService.updateTaskTemplate(id, data), 'Failed to save template');
+
+  const cloneTemplate = (id: string) =>
+    saveTemplate(() => databaseService.cloneTaskTemplate(id), 'Failed to copy template');
+
+  const setTemplateArchived = (id: string, isArchived: boolean) =>
+    saveTemplate(
+      () => databaseService.setTaskTemplateArchived(id, isArchived),
+      isArchived ? 'Failed to archive template' : 'Failed to restore template'
+    );
+
   const getTaskRedirectUrl = (task: Task): string => {
     // Redirect based on task type for incomplete tasks
     switch (task.type) {
@@ -463,7 +559,6 @@ export function TaskProvider({ children }: { children: ReactNode }) {
 
   const value = {
     tasks,
-    taskPermissions,
     taskTemplates,
     loading,
     createTask,
@@ -471,14 +566,17 @@ export function TaskProvider({ children }: { children: ReactNode }) {
     deleteTask,
     assignTask,
     updateTaskStatus,
+    setTaskDependencies,
+    setChecklistItem,
     addTaskComment,
     getTasksByUser,
     getTasksByType,
     getTaskStats,
-    hasTaskPermission,
-    getUserTaskPermissions,
-    updateTaskPermissions,
     createTaskFromTemplate,
+    createTemplate,
+    updateTemplate,
+    cloneTemplate,
+    setTemplateArchived,
     getTaskRedirectUrl,
   };
 
@@ -1,13 +1,16 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, UserRole, Permission } from '../types';
 import { databaseService } from '../services/databaseService';
+import { cacheRecords, readRecords } from '../services/offlineStore';
+import { isKnownPermission, PermissionAction, PermissionModule, roleAllows } from '../services/accessPolicy';
 import { useDatabase } from './useDatabase';
+import { useAuth } from './useAuth';
 
 interface UserContextType {
   users: User[];
   loading: boolean;
   createUser: (data: Partial<User> & { password: string }) => Promise<User>;
-  updateUser: (id: string, data: Partial<User>) => Promise<User>;
+  updateUser: (id: string, data: Partial<User> & { password?: string }) => Promise<User>;
   deleteUser: (id: string) => Promise<void>;
   getUser: (id: string) => User | undefined;
   updateUserPermissions: (id: string, permissions: Permission[]) => Promise<void>;
@@ -32,14 +35,7 @@ const mockUsers: User[] = [
     email: 'staff@omservices.com',
     name: 'Staff Admin',
     role: 'staff_admin',
-    permissions: [
-      { id: '1', module: 'documents', action: 'create', granted: true },
-      { id: '2', module: 'documents', action: 'read', granted: true },
-      { id: '3', module: 'documents', action: 'update', granted: true },
-      { id: '4', module: 'payments', action: 'read', granted: true },
-      { id: '5', module: 'users', action: 'create', granted: true },
-      { id: '6', module: 'users', action: 'read', granted: true },
-    ],
+    permissions: [],
     isActive: true,
     createdAt: new Date(2024, 1, 15),
     lastLogin: new Date(2024, 10, 14, 16, 45),
@@ -49,12 +45,7 @@ const mockUsers: User[] = [
     email: 'challan@omservices.com',
     name: 'Challan Staff',
     role: 'challan_staff',
-    permissions: [
-      { id: '7', module: 'documents', action: 'read', granted: true },
-      { id: '8', module: 'challans', action: 'create', granted: true },
-      { id: '9', module: 'challans', action: 'update', granted: true },
-      { id: '10', module: 'payments', action: 'read', granted: true },
-    ],
+    permissions: [],
     isActive: true,
     createdAt: new Date(2024, 2, 1),
     lastLogin: new Date(2024, 10, 15, 9, 15),
@@ -64,10 +55,7 @@ const mockUsers: User[] = [
     email: 'collector@omservices.com',
     name: 'Field Collector',
     role: 'field_collection_staff',
-    permissions: [
-      { id: '11', module: 'documents', action: 'read', granted: true },
-      { id: '12', module: 'documents', action: 'update', granted: true },
-    ],
+    permissions: [],
     isActive: true,
     createdAt: new Date(2024, 3, 10),
     lastLogin: new Date(2024, 10, 13, 14, 20),
@@ -77,10 +65,7 @@ const mockUsers: User[] = [
     email: 'dataentry@omservices.com',
     name: 'Data Entry Staff',
     role: 'data_entry_staff',
-    permissions: [
-      { id: '13', module: 'documents', action: 'read', granted: true },
-      { id: '14', module: 'documents', action: 'update', granted: true },
-    ],
+    permissions: [],
     isActive: false,
     createdAt: new Date(2024, 4, 5),
     lastLogin: new Date(2024, 9, 20, 11, 30),
@@ -90,10 +75,7 @@ const mockUsers: User[] = [
     email: 'delivery@omservices.com',
     name: 'Delivery Staff',
     role: 'document_delivery_staff',
-    permissions: [
-      { id: '15', module: 'documents', action: 'read', granted: true },
-      { id: '16', module: 'documents', action: 'update', granted: true },
-    ],
+    permissions: [],
     isActive: true,
     createdAt: new Date(2024, 5, 20),
     lastLogin: new Date(2024, 10, 12, 8, 45),
@@ -112,13 +94,20 @@ export function UserProvider({ children }: { children: ReactNode }) {
   const [users, setUsers] = useState<User[]>(mockUsers);
   const [loading, setLoading] = useState(false);
   const { isConnected } = useDatabase();
+  const { user } = useAuth();
 
   // Load users from database on mount
   useEffect(() => {
-    if (isConnected) {
+    if (isConnected && user) {
       loadUsersFromDatabase();
+    } else if (user) {
+      // Work from the copy saved on this device until the server is back;
+      // user management itself needs the server
+      readRecords<User>('users').then(cached => {
+        if (cached.length > 0) setUsers(cached);
+      });
     }
-  }, [isConnected]);
+  }, [isConnected, user]);
 
   const loadUsersFromDatabase = async () => {
     if (!isConnected) return;
@@ -127,17 +116,8 @@ export function UserProvider({ children }: { children: ReactNode }) {
     try {
       const result = await databaseService.getUsers();
       if (result.success && result.data) {
-        const dbUsers: User[] = result.data.map((row: any) => ({
-          id: row.id.toString(),
-          email: row.email,
-          name: row.name,
-          role: row.role,
-          permissions: [], // Permissions would need a separate table query
-          isActive: Boolean(row.isActive),
-          createdAt: new Date(row.createdAt),
-          lastLogin: row.lastLogin ? new Date(row.lastLogin) : undefined,
-        }));
-        setUsers(dbUsers);
+        setUsers(result.data);
+        await cacheRecords('users', result.data);
       }
     } catch (error) {
       console.error('Error loading users from database:', error);
@@ -160,14 +140,14 @@ export function UserProvider({ children }: { children: ReactNode }) {
           email: data.email || '',
           name: data.name || '',
           role: data.role || 'staff_admin',
-          passwordHash: '$2b$10$defaulthash', // In real app, hash the password
           isActive: data.isActive !== undefined ? data.isActive : true,
+          password: data.password,
         });
 
         if (result.success) {
           // Reload users from database
           await loadUsersFromDatabase();
-          return users[users.length - 1]; // Return the newly created user
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to create user');
         }
@@ -187,16 +167,6 @@ export function UserProvider({ children }: { children: ReactNode }) {
         };
 
         setUsers(prev => [...prev, newUser]);
-        
-        // Store created users in localStorage for authentication
-        const storedUsers = localStorage.getItem('om-services-users');
-        const existingUsers = storedUsers ? JSON.parse(storedUsers) : [];
-        const updatedUsers = [...existingUsers, newUser];
-        localStorage.setItem('om-services-users', JSON.stringify(updatedUsers));
-        
-        // Trigger event to update auth context
-        window.dispatchEvent(new CustomEvent('usersUpdated'));
-        
         return newUser;
       }
     } finally {
@@ -204,7 +174,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateUser = async (id: string, data: Partial<User>): Promise<User> => {
+  const updateUser = async (id: string, data: Partial<User> & { password?: string }): Promise<User> => {
     setLoading(true);
     try {
       if (isConnected) {
@@ -214,7 +184,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
         if (result.success) {
           // Reload users from database
           await loadUsersFromDatabase();
-          return users.find(u => u.id === id)!;
+          return result.data!;
         } else {
           throw new Error(result.error || 'Failed to update user');
         }
@@ -253,14 +223,32 @@ export function UserProvider({ children }: { children: ReactNode }) {
   const updateUserPermissions = async (id: string, permissions: Permission[]): Promise<void> => {
     setLoading(true);
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (isConnected) {
+        const result = await databaseService.updateUserPermissions(id, permissions);
+
+        if (result.success) {
+          await loadUsersFromDatabase();
+        } else {
+          throw new Error(result.error || 'Failed to update permissions');
+        }
+      } else {
+        // Fallback to mock data; like the server, keep only the overrides
+        await new Promise(resolve => setTimeout(resolve, 1000));
 
-      setUsers(prev => 
-        prev.map(user => 
-          user.id === id ? { ...user, permissions } : user
-        )
-      );
+        setUsers(prev => 
+          prev.map(user => 
+            user.id === id
+              ? {
+                  ...user,
+                  permissions: permissions.filter(p =>
+                    isKnownPermission(p.module, p.action) &&
+                    p.granted !== roleAllows(user.role, p.module as PermissionModule, p.action as PermissionAction)
+                  ),
+                }
+              : user
+          )
+        );
+      }
     } finally {
       setLoading(false);
     }
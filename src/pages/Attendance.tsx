@@ -51,7 +51,7 @@ const statusIcons: Record<AttendanceStatus, React.ComponentType<any>> = {
 };
 
 export function Attendance() {
-  const { user, hasPermission } = useAuth();
+  const { user, can } = useAuth();
   const { users } = useUsers();
   const { 
     attendanceRecords, 
@@ -71,8 +71,7 @@ export function Attendance() {
   const [showMarkAttendanceModal, setShowMarkAttendanceModal] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
 
-  const isAdmin = user?.role === 'main_admin' || user?.role === 'staff_admin';
-  const canManageAttendance = hasPermission('attendance', 'manage') || isAdmin;
+  const canManageAttendance = can('attendance', 'manage');
 
   // Get date range for stats
   const getDateRange = () => {
@@ -93,14 +92,14 @@ export function Attendance() {
   const { start: startDate, end: endDate } = getDateRange();
 
   // Get attendance stats for current user or selected user
-  const targetUserId = isAdmin ? selectedUser : user?.id || '';
+  const targetUserId = canManageAttendance ? selectedUser : user?.id || '';
   const attendanceStats = getUserAttendanceStats(targetUserId, startDate, endDate);
   const todayAttendance = getTodayAttendance(targetUserId);
   const isClockedIn = isUserClockedIn(targetUserId);
   const currentWorkingHours = getCurrentWorkingHours(targetUserId);
 
   // Filter attendance records
-  const filteredRecords = getAttendanceByDateRange(startDate, endDate, isAdmin ? undefined : user?.id)
+  const filteredRecords = getAttendanceByDateRange(startDate, endDate, canManageAttendance ? undefined : user?.id)
     .filter(record => {
       const matchesSearch = 
         record.userName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -233,7 +232,7 @@ export function Attendance() {
                 <option value="week">Last 7 Days</option>
                 <option value="month">This Month</option>
               </select>
-              {isAdmin && (
+              {canManageAttendance && (
                 <select
                   value={selectedUser}
                   onChange={(e) => setSelectedUser(e.target.value)}
@@ -274,7 +273,7 @@ export function Attendance() {
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <div className="flex items-center justify-between mb-6">
             <h3 className="text-lg font-semibold text-gray-900">Leave Requests</h3>
-            {isAdmin && pendingLeaves.length > 0 && (
+            {canManageAttendance && pendingLeaves.length > 0 && (
               <span className="bg-red-100 text-red-800 px-2 py-1 rounded-full text-sm font-medium">
                 {pendingLeaves.length} Pending
               </span>
@@ -282,7 +281,7 @@ export function Attendance() {
           </div>
 
           <div className="space-y-3">
-            {(isAdmin ? pendingLeaves.slice(0, 5) : myLeaves.slice(0, 5)).map((leave) => (
+            {(canManageAttendance ? pendingLeaves.slice(0, 5) : myLeaves.slice(0, 5)).map((leave) => (
               <div key={leave.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                 <div className="flex-1">
                   <p className="font-medium text-gray-900">{leave.userName}</p>
@@ -303,7 +302,7 @@ export function Attendance() {
               </div>
             ))}
             
-            {(isAdmin ? pendingLeaves : myLeaves).length === 0 && (
+            {(canManageAttendance ? pendingLeaves : myLeaves).length === 0 && (
               <div className="text-center py-6">
                 <Calendar className="w-8 h-8 text-gray-400 mx-auto mb-2" />
                 <p className="text-gray-500 text-sm">No leave requests</p>
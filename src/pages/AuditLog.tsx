@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Filter, History, RefreshCw, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { useActivityLog } from '../hooks/useActivityLog.tsx';
+import { useDatabase } from '../hooks/useDatabase.tsx';
+import { useUsers } from '../hooks/useUsers.tsx';
+import { ActivityChanges } from '../components/Activity/ActivityChanges';
+import { ACTIVITY_ACTION_LABELS, ACTIVITY_ENTITY_LABELS } from '../services/activityLabels';
+import { ActivityAction, ActivityEntity } from '../types';
+
+const actionColors: Record<ActivityAction, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  status_changed: 'bg-purple-100 text-purple-800',
+  deleted: 'bg-red-100 text-red-800',
+};
+
+// Day boundaries in the viewer's timezone, sent to the API as instants
+const startOfDayIso = (day: string) => (day ? new Date(`${day}T00:00:00`).toISOString() : undefined);
+const endOfDayIso = (day: string) => (day ? new Date(`${day}T23:59:59`).toISOString() : undefined);
+
+export function AuditLog() {
+  const navigate = useNavigate();
+  const { isConnected } = useDatabase();
+  const { users } = useUsers();
+  const [userFilter, setUserFilter] = useState('');
+  const [entityFilter, setEntityFilter] = useState<ActivityEntity | ''>('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const { activities, loading, error, reload } = useActivityLog({
+    userId: userFilter || undefined,
+    entity: entityFilter || undefined,
+    from: startOfDayIso(fromDate),
+    to: endOfDayIso(toDate),
+    limit: 500,
+  });
+
+  const inputClass =
+    'border-2 border-gray-200 rounded-xl px-4 py-3 focus:ring-4 focus:ring-blue-200 focus:border-blue-500 transition-all duration-300 text-gray-700 font-medium';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600 mt-1">Every change made to records, who made it and what changed</p>
+        </div>
+        <button
+          onClick={reload}
+          disabled={loading}
+          className="mt-4 sm:mt-0 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-2xl shadow-lg border-2 border-gray-100 p-6">
+        <div className="flex flex-col lg:flex-row gap-4 lg:items-center">
+          <div className="bg-gray-100 p-2 rounded-lg self-start lg:self-auto">
+            <Filter className="w-5 h-5 text-gray-600" />
+          </div>
+          <select value={userFilter} onChange={(e) => setUserFilter(e.target.value)} className={inputClass}>
+            <option value="">All Users</option>
+            {users.map(user => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+          <select
+            value={entityFilter}
+            onChange={(e) => setEntityFilter(e.target.value as ActivityEntity | '')}
+            className={inputClass}
+          >
+            <option value="">All Records</option>
+            {(Object.keys(ACTIVITY_ENTITY_LABELS) as ActivityEntity[]).map(entity => (
+              <option key={entity} value={entity}>{ACTIVITY_ENTITY_LABELS[entity]}</option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>From</span>
+            <input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <span>To</span>
+            <input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className={inputClass} />
+          </label>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        {!isConnected ? (
+          <p className="p-6 text-sm text-gray-500 text-center">The audit log is only available while connected to the server.</p>
+        ) : error ? (
+          <p className="p-6 text-sm text-red-600 text-center">{error}</p>
+        ) : activities.length === 0 ? (
+          <div className="p-12 text-center">
+            <History className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">{loading ? 'Loading activity...' : 'No activity matches these filters'}</p>
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {activities.map(activity => (
+              <li key={activity.id} className="p-4 sm:px-6">
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${actionColors[activity.action]}`}>
+                        {ACTIVITY_ACTION_LABELS[activity.action]}
+                      </span>
+                      <span className="text-xs text-gray-500">{ACTIVITY_ENTITY_LABELS[activity.entity]}</span>
+                    </div>
+                    <p className="text-sm text-gray-900 mt-1">
+                      {activity.documentId ? (
+                        <button
+                          onClick={() => navigate(`/documents/${activity.documentId}`)}
+                          className="text-left hover:text-blue-600 hover:underline"
+                        >
+                          {activity.details}
+                        </button>
+                      ) : (
+                        activity.details
+                      )}
+                    </p>
+                    {activity.action !== 'created' && <ActivityChanges changes={activity.changes} />}
+                  </div>
+                  <div className="text-xs text-gray-500 sm:text-right flex-shrink-0">
+                    <p>{format(activity.timestamp, 'MMM dd, yyyy HH:mm')}</p>
+                    <p className="flex items-center sm:justify-end mt-1">
+                      <User className="w-3 h-3 mr-1" />
+                      {activity.userName}
+                    </p>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -22,7 +22,7 @@ import { EditBuilderModal } from '../components/Modals/EditBuilderModal';
 import { CreateBuilderModal } from '../components/Modals/CreateBuilderModal';
 
 export function Builders() {
-  const { hasPermission } = useAuth();
+  const { can } = useAuth();
   const { builders } = useBuilders();
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -37,8 +37,8 @@ export function Builders() {
     builder.registrationNumber?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const canCreateBuilder = hasPermission('builders', 'create');
-  const canEditBuilder = hasPermission('builders', 'update');
+  const canCreateBuilder = can('builders', 'create');
+  const canEditBuilder = can('builders', 'update');
 
   const handleEditBuilder = (builder: Builder) => {
     setSelectedBuilder(builder);
@@ -29,10 +29,14 @@ import { useAuth } from '../hooks/useAuth.tsx';
 import { useChallans } from '../hooks/useChallans.tsx';
 import { useDocuments } from '../hooks/useDocuments.tsx';
 import { useTasks } from '../hooks/useTasks.tsx';
-import { Challan } from '../types';
+import { Challan, ChallanReviewDecision } from '../types';
 import { format } from 'date-fns';
 import { CreateChallanModal } from '../components/Modals/CreateChallanModal';
 import { EditChallanModal } from '../components/Modals/EditChallanModal';
+import { GrasExport } from '../components/Challans/GrasExport';
+import { ChallanHistory } from '../components/Challans/ChallanHistory';
+import { ChallanReviewModal } from '../components/Challans/ChallanReviewModal';
+import { rejectionOf } from '../services/challanReview';
 
 const statusColors = {
   'draft': 'bg-gray-100 text-gray-800 border-gray-300',
@@ -49,8 +53,8 @@ const statusIcons = {
 };
 
 export function Challans() {
-  const { hasPermission, user } = useAuth();
-  const { challans, loading, submitChallan, approveChallan, rejectChallan } = useChallans();
+  const { can, user } = useAuth();
+  const { challans, loading, submitChallan } = useChallans();
   const { documents } = useDocuments();
   const { tasks, updateTaskStatus } = useTasks();
   const [searchTerm, setSearchTerm] = useState('');
@@ -59,6 +63,7 @@ export function Challans() {
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedChallan, setSelectedChallan] = useState<Challan | null>(null);
+  const [reviewing, setReviewing] = useState<{ challan: Challan; decision: ChallanReviewDecision } | null>(null);
 
   const handleTaskStatusChange = async (taskId: string, newStatus: any) => {
     try {
@@ -85,9 +90,9 @@ export function Challans() {
     return matchesSearch && matchesFilter;
   });
 
-  const canCreateChallan = hasPermission('challans', 'create') || user?.role === 'challan_staff';
-  const canEditChallan = hasPermission('challans', 'update') || user?.role === 'challan_staff';
-  const canApproveChallan = user?.role === 'main_admin' || user?.role === 'staff_admin';
+  const canCreateChallan = can('challans', 'create');
+  const canEditChallan = can('challans', 'update');
+  const canApproveChallan = can('challans', 'approve');
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-IN', {
@@ -141,21 +146,6 @@ export function Challans() {
     }
   };
 
-  const handleApproveChallan = async (challanId: string) => {
-    try {
-      await approveChallan(challanId);
-    } catch (error) {
-      console.error('Error approving challan:', error);
-    }
-  };
-
-  const handleRejectChallan = async (challanId: string) => {
-    try {
-      await rejectChallan(challanId);
-    } catch (error) {
-      console.error('Error rejecting challan:', error);
-    }
-  };
 
   const getDocumentDetails = (documentId: string) => {
     return documents.find(doc => doc.id === documentId);
@@ -342,6 +332,7 @@ export function Challans() {
         {filteredChallans.map((challan) => {
           const StatusIcon = statusIcons[challan.status];
           const documentDetails = getDocumentDetails(challan.documentId);
+          const rejection = rejectionOf(challan);
           
           return (
             <div key={challan.id} className="bg-white rounded-xl shadow-md border border-gray-200 hover:shadow-lg hover:scale-102 transition-all duration-300 overflow-hidden">
@@ -428,6 +419,19 @@ export function Challans() {
                   </div>
                 </div>
 
+                {/* Review outcome */}
+                {rejection && (
+                  <div className="mb-4 p-2 bg-red-50 border border-red-100 rounded-lg text-xs text-red-800">
+                    <p className="font-semibold">Rejected by {rejection.reviewedByName ?? 'a reviewer'}:</p>
+                    <p className="line-clamp-2">{rejection.comment}</p>
+                  </div>
+                )}
+                {challan.status === 'approved' && challan.approvedByName && challan.approvedAt && (
+                  <p className="mb-4 text-xs text-green-700 font-medium">
+                    Approved by {challan.approvedByName} on {format(challan.approvedAt, 'MMM dd')}
+                  </p>
+                )}
+
                 {/* Notes */}
                 {challan.notes && (
                   <div className="mb-4">
@@ -474,16 +478,17 @@ export function Challans() {
                       </button>
                     )}
                     
-                    {challan.status === 'submitted' && canApproveChallan && (
+                    {challan.status === 'submitted' && canApproveChallan && challan.filledById !== user?.id &&
+                      challan.versions[challan.versions.length - 1]?.submittedBy !== user?.id && (
                       <>
                         <button
-                          onClick={() => handleApproveChallan(challan.id)}
+                          onClick={() => setReviewing({ challan, decision: 'approved' })}
                           className="bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white px-2 py-1 rounded-lg text-xs font-bold transition-all duration-300 flex items-center shadow-md hover:shadow-lg"
                         >
                           <Check className="w-3 h-3" />
                         </button>
                         <button
-                          onClick={() => handleRejectChallan(challan.id)}
+                          onClick={() => setReviewing({ challan, decision: 'rejected' })}
                           className="bg-gradient-to-r from-red-600 to-red-700 hover:from-red-700 hover:to-red-800 text-white px-2 py-1 rounded-lg text-xs font-bold transition-all duration-300 flex items-center shadow-md hover:shadow-lg"
                         >
                           <X className="w-3 h-3" />
@@ -541,7 +546,7 @@ export function Challans() {
       )}
 
       {/* Role-based Access Notice */}
-      {user?.role === 'challan_staff' && (
+      {canCreateChallan && !canApproveChallan && (
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200 rounded-2xl p-6 shadow-lg">
           <div className="flex items-start space-x-3">
             <div className="bg-blue-500 p-2 rounded-lg">
@@ -553,7 +558,8 @@ export function Challans() {
                 <p>• Create challans for documents that require DHC payment</p>
                 <p>• Fill in accurate challan amounts based on consideration value</p>
                 <p>• Submit challans for admin approval after completion</p>
-                <p>• You can edit draft and rejected challans</p>
+                <p>• You can edit draft and rejected challans; a rejected challan shows the reviewer's reason</p>
+                <p>• Resubmitting a revised challan keeps the earlier version, so the reviewer sees what changed</p>
                 <p>• Approved challans cannot be modified</p>
               </div>
             </div>
@@ -579,6 +585,14 @@ export function Challans() {
         />
       )}
 
+      {reviewing && (
+        <ChallanReviewModal
+          challan={reviewing.challan}
+          decision={reviewing.decision}
+          onClose={() => setReviewing(null)}
+        />
+      )}
+
       {/* Challan Detail Modal */}
       {selectedChallan && (
         <div className={`fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm flex items-center justify-center z-50 p-4 ${showDetailModal ? '' : 'hidden'}`}>
@@ -652,6 +666,13 @@ export function Challans() {
                       <span className="text-gray-600 font-semibold">Date Filled:</span>
                       <p className="font-bold text-lg text-gray-900">{format(selectedChallan.filledAt, 'MMM dd, yyyy HH:mm')}</p>
                     </div>
+                    {selectedChallan.approvedByName && selectedChallan.approvedAt && (
+                      <div>
+                        <span className="text-gray-600 font-semibold">Approved By:</span>
+                        <p className="font-bold text-lg text-gray-900">{selectedChallan.approvedByName}</p>
+                        <p className="text-sm text-gray-600">{format(selectedChallan.approvedAt, 'MMM dd, yyyy HH:mm')}</p>
+                      </div>
+                    )}
                     {selectedChallan.notes && (
                       <div>
                         <span className="text-gray-600 font-semibold">Notes:</span>
@@ -694,6 +715,20 @@ export function Challans() {
                 </div>
               )}
 
+              {/* Submissions and reviews */}
+              {selectedChallan.versions.length > 0 && (
+                <div className="mt-8 pt-6 border-t-2 border-gray-200">
+                  <ChallanHistory challan={selectedChallan} />
+                </div>
+              )}
+
+              {/* E-challan form */}
+              {selectedChallan.gras && (
+                <div className="mt-8 pt-6 border-t-2 border-gray-200">
+                  <GrasExport challan={{ ...selectedChallan, gras: selectedChallan.gras }} />
+                </div>
+              )}
+
               {/* Actions */}
               <div className="flex justify-end space-x-4 mt-8 pt-6 border-t-2 border-gray-200">
                 <button
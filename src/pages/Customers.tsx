@@ -20,7 +20,7 @@ import { EditCustomerModal } from '../components/Modals/EditCustomerModal';
 import { CreateCustomerModal } from '../components/Modals/CreateCustomerModal';
 
 export function Customers() {
-  const { hasPermission } = useAuth();
+  const { can } = useAuth();
   const { customers } = useCustomers();
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -34,8 +34,8 @@ export function Customers() {
     customer.address.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const canCreateCustomer = hasPermission('customers', 'create');
-  const canEditCustomer = hasPermission('customers', 'update');
+  const canCreateCustomer = can('customers', 'create');
+  const canEditCustomer = can('customers', 'update');
 
   const handleEditCustomer = (customer: Customer) => {
     setSelectedCustomer(customer);
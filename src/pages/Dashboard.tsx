@@ -7,13 +7,23 @@ import {
   Clock,
   CheckCircle,
   AlertCircle,
-  DollarSign
+  AlertTriangle,
+  DollarSign,
+  Undo2
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { useDocuments } from '../hooks/useDocuments.tsx';
 import { usePayments } from '../hooks/usePayments.tsx';
 import { useChallans } from '../hooks/useChallans.tsx';
+import { useActivityLog } from '../hooks/useActivityLog.tsx';
 import { DatabaseStatus } from '../components/Layout/DatabaseStatus';
+import { ACTIVITY_ACTION_LABELS } from '../services/activityLabels';
+import { SlaBadge } from '../components/Documents/SlaBadge';
+import { slaAlert } from '../services/documentSla';
+import { stageLabel } from '../services/documentWorkflow';
+import { revenueTotals } from '../services/paymentLedger';
+import { AGING_BUCKET_LABELS, AGING_BUCKETS, agingReport } from '../services/receivablesAging';
 import { format } from 'date-fns';
 import { MobileDashboard } from '../components/Mobile/MobileDashboard';
 
@@ -35,13 +45,13 @@ function useIsMobile() {
   return isMobile;
 }
 
-const mockActivities: any[] = [];
-
 export function Dashboard() {
-  const { user } = useAuth();
-  const { documents } = useDocuments();
+  const { user, can } = useAuth();
+  const navigate = useNavigate();
+  const { documents, slaConfig } = useDocuments();
   const { payments } = usePayments();
   const { challans } = useChallans();
+  const { activities } = useActivityLog({ limit: 10 });
 
   const isMobile = useIsMobile();
 
@@ -62,14 +72,21 @@ export function Dashboard() {
   };
 
   const getPaymentStats = () => {
-    const totalPayments = payments.reduce((sum, p) => sum + p.totalAmount, 0);
-    const pendingPayments = payments.reduce((sum, p) => sum + p.pendingAmount, 0);
+    const totals = revenueTotals(payments);
+    const refundCount = payments.flatMap(p => p.refunds).filter(r => r.status === 'paid').length;
 
-    return { totalPayments, pendingPayments };
+    return { totalPayments: totals.billed, pendingPayments: totals.pending, refunded: totals.refunded, refundCount };
   };
 
+  // Documents whose next SLA is at risk or already missed, most urgent first
+  const slaAlerts = documents
+    .map(document => ({ document, alert: slaAlert(document, slaConfig) }))
+    .filter((entry): entry is { document: typeof entry.document; alert: NonNullable<typeof entry.alert> } => !!entry.alert)
+    .sort((a, b) => a.alert.dueAt.getTime() - b.alert.dueAt.getTime());
+
   const docStats = getDocumentStats();
   const paymentStats = getPaymentStats();
+  const aging = agingReport(payments, documents, 'customer');
 
   const statCards = [
     {
@@ -123,6 +140,14 @@ export function Dashboard() {
       change: '-10%',
       changeType: 'positive',
     },
+    {
+      title: 'Refunded',
+      value: `₹${(paymentStats.refunded / 100000).toFixed(1)}L`,
+      icon: Undo2,
+      color: 'bg-gray-500',
+      change: `${paymentStats.refundCount} paid out`,
+      changeType: 'negative',
+    },
   ];
 
   return (
@@ -170,10 +195,43 @@ export function Dashboard() {
         </div>
       </div>
 
+      {/* SLA Alerts */}
+      {slaAlerts.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <AlertTriangle className="w-5 h-5 mr-2 text-red-600" />
+              SLA Alerts
+            </h2>
+            <span className="text-sm text-gray-600">
+              {slaAlerts.filter(({ alert }) => alert.state === 'breached').length} breached,{' '}
+              {slaAlerts.filter(({ alert }) => alert.state === 'breaching').length} at risk
+            </span>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {slaAlerts.slice(0, 10).map(({ document, alert }) => (
+              <button
+                key={document.id}
+                onClick={() => navigate(`/documents/${document.id}`)}
+                className="w-full text-left px-6 py-4 hover:bg-gray-50 transition-colors flex items-center justify-between gap-4"
+              >
+                <div>
+                  <p className="font-medium text-gray-900">{document.documentNumber}</p>
+                  <p className="text-sm text-gray-500">
+                    {document.customerName} &middot; {stageLabel(alert.rule.to)} due {format(alert.dueAt, 'MMM dd, yyyy')}
+                  </p>
+                </div>
+                <SlaBadge document={document} />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Payment Statistics */}
       <div>
         <h2 className="text-lg font-semibold text-gray-900 mb-4">Payment Overview</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           {paymentCards.map((card, index) => {
             const Icon = card.icon;
             return (
@@ -198,6 +256,29 @@ export function Dashboard() {
             );
           })}
         </div>
+
+        {/* How long the pending amount has been owed */}
+        {aging.total > 0 && can('payments', 'read') && (
+          <button
+            onClick={() => navigate('/receivables')}
+            className="w-full mt-6 bg-white rounded-xl shadow-sm border border-gray-200 p-6 hover:shadow-md transition-shadow text-left"
+          >
+            <div className="flex items-center justify-between mb-4">
+              <p className="font-medium text-gray-900">Outstanding by Age</p>
+              <span className="text-sm text-blue-600">View report &rarr;</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {AGING_BUCKETS.map(bucket => (
+                <div key={bucket}>
+                  <p className="text-sm text-gray-600">{AGING_BUCKET_LABELS[bucket]}</p>
+                  <p className={`text-lg font-bold ${bucket === 'over90' && aging.amounts[bucket] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    ₹{aging.amounts[bucket].toLocaleString('en-IN')}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </button>
+        )}
       </div>
 
       {/* Recent Activities */}
@@ -207,15 +288,24 @@ export function Dashboard() {
         </div>
         <div className="p-6">
           <div className="space-y-4">
-            {mockActivities.map((activity) => (
-              <div key={activity.id} className="flex items-start space-x-3 p-4 bg-gray-50 rounded-lg">
+            {activities.length === 0 && (
+              <p className="text-sm text-gray-500 text-center">No recent activity</p>
+            )}
+            {activities.map((activity) => (
+              <div
+                key={activity.id}
+                onClick={() => activity.documentId && navigate(`/documents/${activity.documentId}`)}
+                className={`flex items-start space-x-3 p-4 bg-gray-50 rounded-lg ${
+                  activity.documentId ? 'cursor-pointer hover:bg-gray-100 transition-colors' : ''
+                }`}
+              >
                 <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center flex-shrink-0">
                   <TrendingUp className="w-4 h-4 text-blue-600" />
                 </div>
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between">
                     <h4 className="text-sm font-medium text-gray-900">
-                      {activity.action}
+                      {ACTIVITY_ACTION_LABELS[activity.action]}
                     </h4>
                     <span className="text-xs text-gray-500">
                       {format(activity.timestamp, 'MMM dd, HH:mm')}
@@ -225,7 +315,7 @@ export function Dashboard() {
                     {activity.details}
                   </p>
                   <p className="text-xs text-gray-500 mt-1">
-                    by {activity.userName} • Document ID: {activity.documentId}
+                    by {activity.userName}
                   </p>
                 </div>
               </div>
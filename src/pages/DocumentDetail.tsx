@@ -18,14 +18,29 @@ import {
   Trash2,
   Plus,
   Activity,
-  AlertCircle
+  AlertCircle,
+  Flag
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { useDocuments } from '../hooks/useDocuments.tsx';
-import { DocumentStatus, ActivityLog } from '../types';
+import { usePayments } from '../hooks/usePayments.tsx';
+import { useChallans } from '../hooks/useChallans.tsx';
+import { DOCUMENT_STAGES, nextStatuses, stageDateField, stageLabel } from '../services/documentWorkflow';
+import { evaluateSlas, SLA_START_LABELS, SlaState } from '../services/documentSla';
+import { SlaBadge } from '../components/Documents/SlaBadge';
+import { useActivityLog } from '../hooks/useActivityLog.tsx';
+import { ActivityChanges } from '../components/Activity/ActivityChanges';
+import { ACTIVITY_ACTION_LABELS } from '../services/activityLabels';
+import { DocumentStatus } from '../types';
 import { format } from 'date-fns';
 
-const mockActivities: ActivityLog[] = [];
+const slaStateStyles: Record<SlaState, { label: string; className: string }> = {
+  on_track: { label: 'On track', className: 'bg-blue-100 text-blue-800' },
+  breaching: { label: 'At risk', className: 'bg-amber-100 text-amber-800' },
+  breached: { label: 'Breached', className: 'bg-red-100 text-red-800' },
+  met: { label: 'Met', className: 'bg-green-100 text-green-800' },
+  missed: { label: 'Missed', className: 'bg-gray-100 text-gray-800' },
+};
 
 const statusColors: Record<DocumentStatus, string> = {
   'pending_collection': 'bg-gray-100 text-gray-800 border-gray-300',
@@ -41,13 +56,17 @@ const statusColors: Record<DocumentStatus, string> = {
 export function DocumentDetail() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { user, hasPermission } = useAuth();
-  const { getDocument, updateDocument, addNote } = useDocuments();
+  const { user, can } = useAuth();
+  const { getDocument, updateStatus, addNote, flagDocument, slaConfig } = useDocuments();
+  const { getPaymentsByDocument } = usePayments();
+  const { getChallansByDocument } = useChallans();
   const [document, setDocument] = useState(getDocument(id!));
-  const [activities] = useState<ActivityLog[]>(mockActivities);
+  const { activities, reload: reloadActivities } = useActivityLog({ documentId: id });
   const [isEditing, setIsEditing] = useState(false);
   const [newNote, setNewNote] = useState('');
   const [showAddNote, setShowAddNote] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [flagError, setFlagError] = useState<string | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -56,8 +75,14 @@ export function DocumentDetail() {
     }
   }, [id, getDocument]);
 
-  const canEdit = hasPermission('documents', 'update');
-  const canViewFiles = hasPermission('documents', 'read');
+  // Pick up the entries for changes made from this page
+  const lastUpdated = document?.updatedAt?.getTime();
+  useEffect(() => {
+    reloadActivities();
+  }, [lastUpdated, reloadActivities]);
+
+  const canEdit = can('documents', 'update');
+  const canViewFiles = can('documents', 'read');
 
   if (!document) {
     return (
@@ -77,12 +102,21 @@ export function DocumentDetail() {
     );
   }
 
+  const workflowContext = {
+    challans: getChallansByDocument(document.id),
+    payments: getPaymentsByDocument(document.id),
+  };
+  const nextSteps = nextStatuses(user, document.status, workflowContext);
+  const slas = evaluateSlas(document, slaConfig);
+
   const handleStatusChange = async (newStatus: DocumentStatus) => {
+    setStatusError(null);
     try {
-      await updateDocument(document.id, { status: newStatus });
+      await updateStatus(document.id, newStatus, workflowContext);
       setDocument(prev => prev ? { ...prev, status: newStatus, updatedAt: new Date() } : null);
     } catch (error) {
       console.error('Error updating status:', error);
+      setStatusError(error instanceof Error ? error.message : 'Failed to update status');
     }
   };
 
@@ -103,6 +137,15 @@ export function DocumentDetail() {
     }
   };
 
+  const handleClearFlag = async () => {
+    setFlagError(null);
+    try {
+      await flagDocument(document.id, null);
+    } catch (error) {
+      setFlagError(error instanceof Error ? error.message : 'Failed to clear the flag');
+    }
+  };
+
   const getStatusBadge = (status: DocumentStatus) => {
     return (
       <span className={`inline-flex px-3 py-1 text-sm font-medium rounded-full border ${statusColors[status]}`}>
@@ -111,18 +154,7 @@ export function DocumentDetail() {
     );
   };
 
-  const statusWorkflow: { status: DocumentStatus; label: string; description: string }[] = [
-    { status: 'pending_collection', label: 'Pending Collection', description: 'Waiting for field collection' },
-    { status: 'collected', label: 'Collected', description: 'Documents collected from field' },
-    { status: 'data_entry_pending', label: 'Data Entry Pending', description: 'Awaiting data entry' },
-    { status: 'data_entry_completed', label: 'Data Entry Completed', description: 'Data entry completed' },
-    { status: 'registration_pending', label: 'Registration Pending', description: 'Awaiting registration' },
-    { status: 'registered', label: 'Registered', description: 'Document registered successfully' },
-    { status: 'ready_for_delivery', label: 'Ready for Delivery', description: 'Ready for delivery to client' },
-    { status: 'delivered', label: 'Delivered', description: 'Document delivered to client' },
-  ];
-
-  const currentStatusIndex = statusWorkflow.findIndex(s => s.status === document.status);
+  const currentStatusIndex = DOCUMENT_STAGES.findIndex(s => s.status === document.status);
 
   return (
     <div className="space-y-6">
@@ -141,6 +173,7 @@ export function DocumentDetail() {
           </div>
         </div>
         <div className="flex items-center space-x-3">
+          <SlaBadge document={document} />
           {getStatusBadge(document.status)}
           {canEdit && (
             <button
@@ -154,6 +187,29 @@ export function DocumentDetail() {
         </div>
       </div>
 
+      {document.flagReason && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-start justify-between gap-4">
+          <div className="flex items-start space-x-3">
+            <Flag className="w-5 h-5 text-red-600 mt-0.5" />
+            <div>
+              <h3 className="text-sm font-medium text-red-800">
+                Flagged{document.flaggedAt && ` on ${format(document.flaggedAt, 'MMM dd, yyyy')}`}
+              </h3>
+              <p className="text-sm text-red-700 mt-1">{document.flagReason}</p>
+              {flagError && <p className="text-xs text-red-600 mt-1">{flagError}</p>}
+            </div>
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleClearFlag}
+              className="text-sm font-medium text-red-700 hover:text-red-900 whitespace-nowrap"
+            >
+              Clear Flag
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main Content */}
         <div className="lg:col-span-2 space-y-6">
@@ -327,10 +383,12 @@ export function DocumentDetail() {
             </div>
             <div className="p-6">
               <div className="space-y-4">
-                {statusWorkflow.map((item, index) => {
+                {DOCUMENT_STAGES.map((item, index) => {
                   const isCompleted = index < currentStatusIndex;
                   const isCurrent = index === currentStatusIndex;
                   const isPending = index > currentStatusIndex;
+                  const dateField = stageDateField(item.status);
+                  const reachedAt = dateField ? document[dateField] : undefined;
 
                   return (
                     <div key={item.status} className="flex items-start space-x-3">
@@ -354,14 +412,73 @@ export function DocumentDetail() {
                           {item.label}
                         </p>
                         <p className="text-xs text-gray-500 mt-1">{item.description}</p>
+                        {reachedAt && (
+                          <p className="text-xs text-gray-400 mt-0.5">
+                            {format(reachedAt, 'MMM dd, yyyy HH:mm')}
+                          </p>
+                        )}
                       </div>
                     </div>
                   );
                 })}
               </div>
+
+              {nextSteps.length > 0 && (
+                <div className="mt-6 pt-4 border-t border-gray-200 space-y-3">
+                  <p className="text-sm font-medium text-gray-900">Next Step</p>
+                  {nextSteps.map(step => (
+                    <div key={step.status}>
+                      <button
+                        onClick={() => handleStatusChange(step.status)}
+                        disabled={!!step.blockedBy}
+                        className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                      >
+                        {step.label}
+                      </button>
+                      {step.blockedBy && (
+                        <p className="text-xs text-amber-700 mt-1 flex items-center">
+                          <AlertCircle className="w-3 h-3 mr-1 flex-shrink-0" />
+                          {step.blockedBy}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  {statusError && (
+                    <p className="text-xs text-red-600">{statusError}</p>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
+          {/* Service Levels */}
+          {slas.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+              <div className="bg-gradient-to-r from-rose-50 to-red-50 px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Service Levels</h2>
+              </div>
+              <div className="p-6 space-y-4">
+                {slas.map(sla => (
+                  <div key={`${sla.rule.from}-${sla.rule.to}`} className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">
+                        {SLA_START_LABELS[sla.rule.from]} → {stageLabel(sla.rule.to)} in {sla.rule.days} days
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {sla.completedAt
+                          ? `Reached ${format(sla.completedAt, 'MMM dd, yyyy')}, due ${format(sla.dueAt, 'MMM dd, yyyy')}`
+                          : `Due ${format(sla.dueAt, 'MMM dd, yyyy HH:mm')}`}
+                      </p>
+                    </div>
+                    <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full flex-shrink-0 ${slaStateStyles[sla.state].className}`}>
+                      {slaStateStyles[sla.state].label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
             <div className="bg-gradient-to-r from-amber-50 to-yellow-50 px-6 py-4 border-b border-gray-200">
@@ -432,6 +549,9 @@ export function DocumentDetail() {
             </div>
             <div className="p-6">
               <div className="space-y-4">
+                {activities.length === 0 && (
+                  <p className="text-gray-500 text-sm text-center">No activity recorded yet</p>
+                )}
                 {activities.map((activity) => (
                   <div key={activity.id} className="flex items-start space-x-3">
                     <div className="w-8 h-8 bg-teal-100 rounded-full flex items-center justify-center flex-shrink-0">
@@ -439,12 +559,13 @@ export function DocumentDetail() {
                     </div>
                     <div className="flex-1">
                       <div className="flex items-center justify-between">
-                        <p className="text-sm font-medium text-gray-900">{activity.action}</p>
+                        <p className="text-sm font-medium text-gray-900">{ACTIVITY_ACTION_LABELS[activity.action]}</p>
                         <span className="text-xs text-gray-500">
                           {format(activity.timestamp, 'MMM dd, HH:mm')}
                         </span>
                       </div>
                       <p className="text-sm text-gray-600 mt-1">{activity.details}</p>
+                      <ActivityChanges changes={activity.action === 'created' ? [] : activity.changes} />
                       <p className="text-xs text-gray-500 mt-1">by {activity.userName}</p>
                     </div>
                   </div>
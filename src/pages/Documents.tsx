@@ -19,6 +19,8 @@ import { format } from 'date-fns';
 import { CreateDocumentModal } from '../components/Modals/CreateDocumentModal';
 import { EditDocumentModal } from '../components/Modals/EditDocumentModal';
 import { MobileDocumentList } from '../components/Mobile/MobileDocumentList';
+import { SlaBadge } from '../components/Documents/SlaBadge';
+import { FlagBadge } from '../components/Documents/FlagBadge';
 
 // Hook to detect mobile
 function useIsMobile() {
@@ -51,7 +53,7 @@ const statusColors: Record<DocumentStatus, string> = {
 
 export function Documents() {
   const navigate = useNavigate();
-  const { hasPermission } = useAuth();
+  const { can } = useAuth();
   const { documents, loading } = useDocuments();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<DocumentStatus | 'all'>('all');
@@ -99,8 +101,8 @@ export function Documents() {
     return matchesSearch && matchesFilter;
   });
 
-  const canCreateDocument = hasPermission('documents', 'create');
-  const canEditDocument = hasPermission('documents', 'update');
+  const canCreateDocument = can('documents', 'create');
+  const canEditDocument = can('documents', 'update');
 
   const handleViewDocument = (id: string) => {
     navigate(`/documents/${id}`);
@@ -282,9 +284,13 @@ export function Documents() {
                       </div>
                     </td>
                     <td className="px-6 py-4">
-                      <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${statusColors[document.status]}`}>
-                        {document.status.replace('_', ' ').toUpperCase()}
-                      </span>
+                      <div className="flex flex-col items-start gap-1">
+                        <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${statusColors[document.status]}`}>
+                          {document.status.replace('_', ' ').toUpperCase()}
+                        </span>
+                        <SlaBadge document={document} />
+                        <FlagBadge document={document} />
+                      </div>
                     </td>
                     <td className="px-6 py-4">
                       <div className="flex items-center space-x-2">
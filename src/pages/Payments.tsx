@@ -10,14 +10,19 @@ import {
   CreditCard,
   CheckCircle,
   AlertCircle,
-  Clock
+  Clock,
+  Undo2
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { usePayments } from '../hooks/usePayments.tsx';
 import { PaymentStatus } from '../types';
+import { revenueTotals } from '../services/paymentLedger';
 import { format } from 'date-fns';
 import { CreatePaymentModal } from '../components/Modals/CreatePaymentModal';
 import { EditPaymentModal } from '../components/Modals/EditPaymentModal';
+import { PaymentDetailModal } from '../components/Modals/PaymentDetailModal';
+import { ChequeRegister } from '../components/Payments/ChequeRegister';
+import { PAYMENT_METHOD_LABELS } from '../services/paymentLedger';
 
 const statusColors: Record<PaymentStatus, string> = {
   'pending': 'bg-gray-100 text-gray-800',
@@ -34,13 +39,15 @@ const statusIcons: Record<PaymentStatus, React.ComponentType<any>> = {
 };
 
 export function Payments() {
-  const { hasPermission, user } = useAuth();
+  const { can, user } = useAuth();
   const { payments, loading } = usePayments();
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<PaymentStatus | 'all'>('all');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [selectedPayment, setSelectedPayment] = useState<any>(null);
+  const [detailPaymentId, setDetailPaymentId] = useState<string | null>(null);
+  const [view, setView] = useState<'payments' | 'register'>('payments');
 
   const filteredPayments = payments.filter(payment => {
     const matchesSearch = 
@@ -53,8 +60,8 @@ export function Payments() {
     return matchesSearch && matchesFilter;
   });
 
-  const canCreatePayment = hasPermission('payments', 'create');
-  const canEditPayment = hasPermission('payments', 'update');
+  const canCreatePayment = can('payments', 'create');
+  const canEditPayment = can('payments', 'update');
   const canEditAmounts = user?.role === 'main_admin';
 
   const formatCurrency = (amount: number) => {
@@ -67,12 +74,16 @@ export function Payments() {
   };
 
   const getPaymentStats = () => {
-    const totalPayments = payments.reduce((sum, p) => sum + p.totalAmount, 0);
-    const paidAmount = payments.reduce((sum, p) => sum + p.paidAmount, 0);
-    const pendingAmount = payments.reduce((sum, p) => sum + p.pendingAmount, 0);
+    const totals = revenueTotals(payments);
     const completedCount = payments.filter(p => p.paymentStatus === 'completed').length;
 
-    return { totalPayments, paidAmount, pendingAmount, completedCount };
+    return {
+      totalPayments: totals.billed,
+      paidAmount: totals.net,
+      pendingAmount: totals.pending,
+      refundedAmount: totals.refunded,
+      completedCount,
+    };
   };
 
   const stats = getPaymentStats();
@@ -101,224 +112,273 @@ export function Payments() {
         )}
       </div>
 
-      {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Total Payments</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(stats.totalPayments)}
-              </p>
-            </div>
-            <div className="bg-green-100 p-3 rounded-lg">
-              <DollarSign className="w-6 h-6 text-green-600" />
+      {/* Views */}
+      <div className="border-b border-gray-200">
+        <nav className="flex space-x-6">
+          {([['payments', 'All Payments'], ['register', 'Cheque Register']] as const).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setView(id)}
+              className={`py-3 px-1 border-b-2 text-sm font-medium transition-colors ${
+                view === id
+                  ? 'border-blue-600 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {view === 'register' ? (
+        <ChequeRegister onOpenPayment={setDetailPaymentId} />
+      ) : (
+        <>
+        {/* Summary Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Total Payments</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(stats.totalPayments)}
+                </p>
+              </div>
+              <div className="bg-green-100 p-3 rounded-lg">
+                <DollarSign className="w-6 h-6 text-green-600" />
+              </div>
             </div>
           </div>
-        </div>
         
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Paid Amount</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(stats.paidAmount)}
-              </p>
-            </div>
-            <div className="bg-blue-100 p-3 rounded-lg">
-              <CheckCircle className="w-6 h-6 text-blue-600" />
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Net Collected</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(stats.paidAmount)}
+                </p>
+              </div>
+              <div className="bg-blue-100 p-3 rounded-lg">
+                <CheckCircle className="w-6 h-6 text-blue-600" />
+              </div>
             </div>
           </div>
-        </div>
         
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Pending Amount</p>
-              <p className="text-2xl font-bold text-gray-900">
-                {formatCurrency(stats.pendingAmount)}
-              </p>
-            </div>
-            <div className="bg-orange-100 p-3 rounded-lg">
-              <Clock className="w-6 h-6 text-orange-600" />
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Pending Amount</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(stats.pendingAmount)}
+                </p>
+              </div>
+              <div className="bg-orange-100 p-3 rounded-lg">
+                <Clock className="w-6 h-6 text-orange-600" />
+              </div>
             </div>
           </div>
-        </div>
         
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-          <div className="flex items-center justify-between">
-            <div>
-              <p className="text-sm text-gray-600">Completed</p>
-              <p className="text-2xl font-bold text-gray-900">{stats.completedCount}</p>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Refunded</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {formatCurrency(stats.refundedAmount)}
+                </p>
+              </div>
+              <div className="bg-red-100 p-3 rounded-lg">
+                <Undo2 className="w-6 h-6 text-red-600" />
+              </div>
             </div>
-            <div className="bg-emerald-100 p-3 rounded-lg">
-              <CheckCircle className="w-6 h-6 text-emerald-600" />
+          </div>
+        
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-600">Completed</p>
+                <p className="text-2xl font-bold text-gray-900">{stats.completedCount}</p>
+              </div>
+              <div className="bg-emerald-100 p-3 rounded-lg">
+                <CheckCircle className="w-6 h-6 text-emerald-600" />
+              </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Search and Filters */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-        <div className="flex flex-col sm:flex-row gap-4">
-          <div className="flex-1">
-            <div className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
-              <input
-                type="text"
-                placeholder="Search by payment ID, document ID, or challan number..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              />
+        {/* Search and Filters */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="text"
+                  placeholder="Search by payment ID, document ID, or challan number..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Filter className="w-5 h-5 text-gray-400" />
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as PaymentStatus | 'all')}
+                className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="all">All Status</option>
+                <option value="pending">Pending</option>
+                <option value="partial">Partial</option>
+                <option value="completed">Completed</option>
+                <option value="refunded">Refunded</option>
+              </select>
             </div>
-          </div>
-          <div className="flex items-center space-x-3">
-            <Filter className="w-5 h-5 text-gray-400" />
-            <select
-              value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as PaymentStatus | 'all')}
-              className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            >
-              <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="partial">Partial</option>
-              <option value="completed">Completed</option>
-              <option value="refunded">Refunded</option>
-            </select>
           </div>
         </div>
-      </div>
 
-      {/* Payments List */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
-        {loading ? (
-          <div className="flex items-center justify-center py-12">
-            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-          </div>
-        ) : (
-          <div className="overflow-x-auto">
-            <table className="w-full">
-              <thead className="bg-gray-50 border-b border-gray-200">
-                <tr>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Payment ID</th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Document</th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Amount Details</th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Status</th>
-                  <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Payment Date</th>
-                  <th className="text-right px-6 py-4 text-sm font-medium text-gray-900">Actions</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-gray-200">
-                {filteredPayments.map((payment) => {
-                  const StatusIcon = statusIcons[payment.paymentStatus];
-                  return (
-                    <tr key={payment.id} className="hover:bg-gray-50 transition-colors">
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-3">
-                          <div className="w-10 h-10 bg-emerald-100 rounded-lg flex items-center justify-center">
-                            <CreditCard className="w-5 h-5 text-emerald-600" />
-                          </div>
-                          <div>
-                            <p className="font-medium text-gray-900">{payment.id}</p>
-                            <p className="text-sm text-gray-500">
-                              Challan: {payment.challanNumber || 'N/A'}
-                            </p>
-                          </div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <p className="font-medium text-gray-900">{payment.documentId}</p>
-                        <p className="text-sm text-gray-500 capitalize">
-                          {payment.paymentMethod || 'N/A'}
-                        </p>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="space-y-1">
-                          <div className="flex justify-between text-sm">
-                            <span className="text-gray-600">Total:</span>
-                            <span className="font-medium">{formatCurrency(payment.totalAmount)}</span>
-                          </div>
-                          <div className="flex justify-between text-sm">
-                            <span className="text-gray-600">Paid:</span>
-                            <span className="font-medium text-green-600">{formatCurrency(payment.paidAmount)}</span>
+        {/* Payments List */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Payment ID</th>
+                    <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Document</th>
+                    <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Amount Details</th>
+                    <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Status</th>
+                    <th className="text-left px-6 py-4 text-sm font-medium text-gray-900">Payment Date</th>
+                    <th className="text-right px-6 py-4 text-sm font-medium text-gray-900">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {filteredPayments.map((payment) => {
+                    const StatusIcon = statusIcons[payment.paymentStatus];
+                    return (
+                      <tr key={payment.id} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-6 py-4">
+                          <div className="flex items-center space-x-3">
+                            <div className="w-10 h-10 bg-emerald-100 rounded-lg flex items-center justify-center">
+                              <CreditCard className="w-5 h-5 text-emerald-600" />
+                            </div>
+                            <div>
+                              <p className="font-medium text-gray-900">{payment.id}</p>
+                              <p className="text-sm text-gray-500">
+                                Challan: {payment.challanNumber || 'N/A'}
+                              </p>
+                            </div>
                           </div>
-                          {payment.pendingAmount > 0 && (
+                        </td>
+                        <td className="px-6 py-4">
+                          <p className="font-medium text-gray-900">{payment.documentId}</p>
+                          <p className="text-sm text-gray-500">
+                            {payment.paymentMethod ? PAYMENT_METHOD_LABELS[payment.paymentMethod] : 'N/A'}
+                          </p>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="space-y-1">
                             <div className="flex justify-between text-sm">
-                              <span className="text-gray-600">Pending:</span>
-                              <span className="font-medium text-orange-600">{formatCurrency(payment.pendingAmount)}</span>
+                              <span className="text-gray-600">Total:</span>
+                              <span className="font-medium">{formatCurrency(payment.totalAmount)}</span>
                             </div>
-                          )}
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          <StatusIcon className="w-4 h-4" />
-                          <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${statusColors[payment.paymentStatus]}`}>
-                            {payment.paymentStatus.toUpperCase()}
-                          </span>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4">
-                        {payment.paymentDate && (
+                            <div className="flex justify-between text-sm">
+                              <span className="text-gray-600">Paid:</span>
+                              <span className="font-medium text-green-600">{formatCurrency(payment.paidAmount)}</span>
+                            </div>
+                            {payment.pendingAmount > 0 && (
+                              <div className="flex justify-between text-sm">
+                                <span className="text-gray-600">Pending:</span>
+                                <span className="font-medium text-orange-600">{formatCurrency(payment.pendingAmount)}</span>
+                              </div>
+                            )}
+                            {payment.transactions.length > 0 && (
+                              <p className="text-xs text-gray-500">
+                                {payment.transactions.length} transaction{payment.transactions.length === 1 ? '' : 's'}
+                                {payment.transactions.some(t => t.clearanceStatus === 'pending') && ', awaiting clearance'}
+                              </p>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-6 py-4">
                           <div className="flex items-center space-x-2">
-                            <Calendar className="w-4 h-4 text-gray-400" />
-                            <span className="text-sm text-gray-600">
-                              {format(payment.paymentDate, 'MMM dd, yyyy')}
+                            <StatusIcon className="w-4 h-4" />
+                            <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${statusColors[payment.paymentStatus]}`}>
+                              {payment.paymentStatus.toUpperCase()}
                             </span>
                           </div>
-                        )}
-                      </td>
-                      <td className="px-6 py-4">
-                        <div className="flex items-center justify-end space-x-2">
-                          <button className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors">
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          {canEditPayment && (
-                            <button 
-                              onClick={() => handleEditPayment(payment)}
-                              className="p-2 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                        </td>
+                        <td className="px-6 py-4">
+                          {payment.paymentDate && (
+                            <div className="flex items-center space-x-2">
+                              <Calendar className="w-4 h-4 text-gray-400" />
+                              <span className="text-sm text-gray-600">
+                                {format(payment.paymentDate, 'MMM dd, yyyy')}
+                              </span>
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="flex items-center justify-end space-x-2">
+                            <button
+                              onClick={() => setDetailPaymentId(payment.id)}
+                              className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Transactions"
                             >
-                              <Edit className="w-4 h-4" />
+                              <Eye className="w-4 h-4" />
                             </button>
-                          )}
-                        </div>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
-        )}
-
-        {!loading && filteredPayments.length === 0 && (
-          <div className="text-center py-12">
-            <CreditCard className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <h3 className="text-lg font-medium text-gray-900 mb-2">No payments found</h3>
-            <p className="text-gray-500">
-              {searchTerm || statusFilter !== 'all' 
-                ? 'Try adjusting your search or filter criteria'
-                : 'Get started by creating your first payment record'
-              }
-            </p>
-          </div>
-        )}
-      </div>
+                            {canEditPayment && (
+                              <button 
+                                onClick={() => handleEditPayment(payment)}
+                                className="p-2 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                              >
+                                <Edit className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
 
-      {/* Role-based Payment Editing Notice */}
-      {!canEditAmounts && canEditPayment && (
-        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
-          <div className="flex items-start space-x-3">
-            <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5" />
-            <div>
-              <h3 className="text-sm font-medium text-amber-800">Limited Edit Access</h3>
-              <p className="text-sm text-amber-700 mt-1">
-                You can update payment status and add notes, but Agreement Value and Consideration Amount can only be modified by the Main Admin.
+          {!loading && filteredPayments.length === 0 && (
+            <div className="text-center py-12">
+              <CreditCard className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-lg font-medium text-gray-900 mb-2">No payments found</h3>
+              <p className="text-gray-500">
+                {searchTerm || statusFilter !== 'all' 
+                  ? 'Try adjusting your search or filter criteria'
+                  : 'Get started by creating your first payment record'
+                }
               </p>
             </div>
-          </div>
+          )}
         </div>
+
+        {/* Role-based Payment Editing Notice */}
+        {!canEditAmounts && canEditPayment && (
+          <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-amber-600 mt-0.5" />
+              <div>
+                <h3 className="text-sm font-medium text-amber-800">Limited Edit Access</h3>
+                <p className="text-sm text-amber-700 mt-1">
+                  You can record money received and update payment details, but Agreement Value and Consideration Amount can only be modified by the Main Admin.
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+        </>
       )}
 
       {/* Create Payment Modal */}
@@ -327,6 +387,15 @@ export function Payments() {
         onClose={() => setShowCreateModal(false)}
       />
 
+      {/* Payment Detail Modal */}
+      {detailPaymentId && (
+        <PaymentDetailModal
+          isOpen={true}
+          onClose={() => setDetailPaymentId(null)}
+          paymentId={detailPaymentId}
+        />
+      )}
+
       {/* Edit Payment Modal */}
       {selectedPayment && (
         <EditPaymentModal 
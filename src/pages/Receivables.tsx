@@ -0,0 +1,202 @@
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Download, FileSpreadsheet, Hourglass } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { usePayments } from '../hooks/usePayments.tsx';
+import { useDocuments } from '../hooks/useDocuments.tsx';
+import {
+  AGING_BUCKET_LABELS,
+  AGING_BUCKETS,
+  AgingBucket,
+  AgingGrouping,
+  agingReport,
+  agingRows,
+} from '../services/receivablesAging';
+import { downloadSpreadsheet } from '../services/spreadsheet';
+
+const bucketColors: Record<AgingBucket, string> = {
+  current: 'text-green-700',
+  days31to60: 'text-yellow-700',
+  days61to90: 'text-orange-700',
+  over90: 'text-red-700',
+};
+
+const bucketCardColors: Record<AgingBucket, string> = {
+  current: 'bg-green-50 border-green-200',
+  days31to60: 'bg-yellow-50 border-yellow-200',
+  days61to90: 'bg-orange-50 border-orange-200',
+  over90: 'bg-red-50 border-red-200',
+};
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Outstanding payments aged 0–30/31–60/61–90/90+ days, by customer or builder
+export function Receivables() {
+  const navigate = useNavigate();
+  const { payments } = usePayments();
+  const { documents } = useDocuments();
+  const [grouping, setGrouping] = useState<AgingGrouping>('customer');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const report = useMemo(() => agingReport(payments, documents, grouping), [payments, documents, grouping]);
+
+  const toggle = (name: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) {
+        next.delete(name);
+      } else {
+        next.add(name);
+      }
+      return next;
+    });
+  };
+
+  const handleGrouping = (next: AgingGrouping) => {
+    setGrouping(next);
+    setExpanded(new Set());
+  };
+
+  const handleExport = (type: 'csv' | 'xlsx') => {
+    downloadSpreadsheet(
+      `receivables-aging-by-${grouping}-${format(new Date(), 'yyyy-MM-dd')}`,
+      `Aging by ${grouping}`,
+      agingRows(report, grouping),
+      type
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 flex items-center">
+            <Hourglass className="w-6 h-6 mr-2 text-red-600" />
+            Receivables Aging
+          </h1>
+          <p className="text-gray-600 mt-1">
+            Pending amounts by how long ago the payment was raised, as of {format(new Date(), 'MMM dd, yyyy')}
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={report.groups.length === 0}
+            className="bg-gray-100 hover:bg-gray-200 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </button>
+          <button
+            onClick={() => handleExport('xlsx')}
+            disabled={report.groups.length === 0}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+          >
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Excel
+          </button>
+        </div>
+      </div>
+
+      {/* Totals per bucket */}
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className={`rounded-xl border p-4 ${bucketCardColors[bucket]}`}>
+            <p className="text-sm text-gray-600">{AGING_BUCKET_LABELS[bucket]}</p>
+            <p className={`text-xl font-bold ${bucketColors[bucket]}`}>{formatCurrency(report.amounts[bucket])}</p>
+          </div>
+        ))}
+        <div className="rounded-xl border border-gray-200 bg-white p-4">
+          <p className="text-sm text-gray-600">Total Outstanding</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(report.total)}</p>
+        </div>
+      </div>
+
+      {/* Report */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="p-4 border-b border-gray-200 flex items-center space-x-2">
+          <span className="text-sm text-gray-600 mr-2">Group by</span>
+          {(['customer', 'builder'] as AgingGrouping[]).map(option => (
+            <button
+              key={option}
+              onClick={() => handleGrouping(option)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium capitalize transition-colors ${
+                grouping === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+
+        {report.groups.length === 0 ? (
+          <p className="p-8 text-center text-gray-500">Nothing is outstanding.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="px-4 py-3 font-medium capitalize">{grouping}</th>
+                  {AGING_BUCKETS.map(bucket => (
+                    <th key={bucket} className="px-4 py-3 font-medium text-right">{AGING_BUCKET_LABELS[bucket]}</th>
+                  ))}
+                  <th className="px-4 py-3 font-medium text-right">Total</th>
+                  <th className="px-4 py-3 font-medium text-right">Oldest</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {report.groups.map(group => {
+                  const open = expanded.has(group.name);
+                  return (
+                    <Fragment key={group.name}>
+                      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => toggle(group.name)}>
+                        <td className="px-4 py-3 font-medium text-gray-900">
+                          <span className="flex items-center">
+                            {open ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                            {group.name}
+                            <span className="ml-2 text-xs text-gray-500 font-normal">
+                              {group.documents.length} {group.documents.length === 1 ? 'document' : 'documents'}
+                            </span>
+                          </span>
+                        </td>
+                        {AGING_BUCKETS.map(bucket => (
+                          <td key={bucket} className={`px-4 py-3 text-right ${group.amounts[bucket] > 0 ? bucketColors[bucket] : 'text-gray-300'}`}>
+                            {formatCurrency(group.amounts[bucket])}
+                          </td>
+                        ))}
+                        <td className="px-4 py-3 text-right font-semibold text-gray-900">{formatCurrency(group.total)}</td>
+                        <td className="px-4 py-3 text-right text-gray-600">{group.oldestDays} days</td>
+                      </tr>
+                      {open && group.documents.map(document => (
+                        <tr
+                          key={document.documentId}
+                          className="bg-gray-50/50 hover:bg-blue-50 cursor-pointer"
+                          onClick={() => navigate(`/documents/${document.documentId}`)}
+                        >
+                          <td className="pl-10 pr-4 py-2">
+                            <p className="text-blue-700">{document.documentNumber}</p>
+                            <p className="text-xs text-gray-500">
+                              {grouping === 'customer' ? document.builderName : document.customerName}
+                            </p>
+                          </td>
+                          {AGING_BUCKETS.map(bucket => (
+                            <td key={bucket} className={`px-4 py-2 text-right ${document.amounts[bucket] > 0 ? bucketColors[bucket] : 'text-gray-300'}`}>
+                              {formatCurrency(document.amounts[bucket])}
+                            </td>
+                          ))}
+                          <td className="px-4 py-2 text-right text-gray-900">{formatCurrency(document.total)}</td>
+                          <td className="px-4 py-2 text-right text-gray-600">{document.oldestDays} days</td>
+                        </tr>
+                      ))}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
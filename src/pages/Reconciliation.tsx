@@ -0,0 +1,343 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ArrowDownLeft, ArrowUpRight, Check, CheckCircle, FileUp, Landmark, Trash2, Undo2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../hooks/useAuth.tsx';
+import { useReconciliation } from '../hooks/useReconciliation.tsx';
+import { usePayments } from '../hooks/usePayments.tsx';
+import { useChallans } from '../hooks/useChallans.tsx';
+import { useDocuments } from '../hooks/useDocuments.tsx';
+import { BankStatementLine } from '../types';
+import { STATEMENT_FORMAT_LABELS } from '../services/bankStatement';
+import {
+  candidateKey,
+  MATCH_STATUS_LABELS,
+  matchCandidates,
+  matchedKeys,
+  matchScore,
+  reconcileDocuments,
+} from '../services/reconciliation';
+import { isLocalId } from '../services/offlineStore';
+import { LineDecision } from '../services/databaseService';
+
+const statusColors: Record<BankStatementLine['matchStatus'], string> = {
+  unmatched: 'bg-red-100 text-red-800',
+  suggested: 'bg-yellow-100 text-yellow-800',
+  confirmed: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-600',
+};
+
+const formatCurrency = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+export function Reconciliation() {
+  const { can } = useAuth();
+  const { statements, loading, importStatement, decideLine, deleteStatement } = useReconciliation();
+  const { payments } = usePayments();
+  const { challans } = useChallans();
+  const { getDocument } = useDocuments();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [statementFilter, setStatementFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | BankStatementLine['matchStatus']>('all');
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const candidates = useMemo(() => matchCandidates(payments, challans), [payments, challans]);
+  const documents = useMemo(
+    () => reconcileDocuments(payments, challans, statements).filter(result => result.problems.length > 0),
+    [payments, challans, statements]
+  );
+
+  const lines = statements
+    .filter(statement => statementFilter === 'all' || statement.id === statementFilter)
+    .flatMap(statement => statement.lines)
+    .filter(line => statusFilter === 'all' || line.matchStatus === statusFilter)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+  const allLines = statements.flatMap(statement => statement.lines);
+  const count = (status: BankStatementLine['matchStatus']) => allLines.filter(line => line.matchStatus === status).length;
+
+  const candidateLabel = (line: BankStatementLine) => {
+    if (!line.matchKind || !line.matchId) return null;
+    const candidate = candidates.find(c => c.kind === line.matchKind && c.id === line.matchId);
+    if (!candidate) return `${line.matchKind} ${line.matchId}`;
+    return `${candidate.label} · ${getDocument(candidate.documentId)?.documentNumber ?? candidate.documentId}`;
+  };
+
+  // What a line could be matched to instead, closest first
+  const alternativesFor = (line: BankStatementLine) => {
+    const taken = matchedKeys(statements, line.id);
+    return candidates
+      .filter(c => c.direction === line.direction && !taken.has(candidateKey(c.kind, c.id)))
+      .map(c => ({ candidate: c, score: matchScore(line, c) }))
+      .sort((a, b) => b.score - a.score || Math.abs(a.candidate.amount - line.amount) - Math.abs(b.candidate.amount - line.amount))
+      .slice(0, 20);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    setNotice(null);
+    try {
+      const statement = await importStatement(file);
+      const suggested = statement.lines.filter(line => line.matchStatus === 'suggested').length;
+      setNotice(`Imported ${statement.lines.length} entries from ${file.name}; ${suggested} have a suggested match`);
+      setStatementFilter(statement.id);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : 'Could not import the statement');
+    }
+  };
+
+  const decide = async (line: BankStatementLine, decision: LineDecision) => {
+    setError(null);
+    try {
+      await decideLine(line.statementId, line.id, decision);
+    } catch (decisionError) {
+      setError(decisionError instanceof Error ? decisionError.message : 'Could not update the line');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this statement and every match made on it?')) return;
+    setError(null);
+    try {
+      await deleteStatement(id);
+      setStatementFilter('all');
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : 'Could not delete the statement');
+    }
+  };
+
+  const selectedStatement = statements.find(statement => statement.id === statementFilter);
+  const canReconcile = can('payments', 'reconcile');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Bank Reconciliation</h1>
+          <p className="text-gray-600 mt-1">Match bank statements to payments received and challans paid</p>
+        </div>
+        {canReconcile && (
+          <>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,.ofx,.qfx,.sta,.940,.txt"
+              onChange={handleFile}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInput.current?.click()}
+              disabled={loading}
+              className="mt-4 sm:mt-0 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center transition-colors"
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              Import Statement
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>}
+      {notice && <div className="bg-green-50 border border-green-200 text-green-700 rounded-lg p-3 text-sm">{notice}</div>}
+
+      {/* Statistics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {(['confirmed', 'suggested', 'unmatched', 'ignored'] as const).map(status => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(current => (current === status ? 'all' : status))}
+            className={`bg-white rounded-xl shadow-sm border p-4 text-left transition-colors ${
+              statusFilter === status ? 'border-blue-400 ring-2 ring-blue-100' : 'border-gray-200 hover:border-gray-300'
+            }`}
+          >
+            <p className="text-sm text-gray-600">{MATCH_STATUS_LABELS[status]}</p>
+            <p className="text-2xl font-bold text-gray-900">{count(status)}</p>
+          </button>
+        ))}
+      </div>
+
+      {/* Per-document discrepancies */}
+      {documents.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-amber-200 p-6">
+          <div className="flex items-center mb-4">
+            <AlertTriangle className="w-5 h-5 text-amber-600 mr-2" />
+            <h2 className="text-lg font-bold text-gray-900">Documents that do not reconcile</h2>
+          </div>
+          <div className="divide-y divide-gray-100">
+            {documents.map(result => (
+              <div key={result.documentId} className="py-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <p className="font-medium text-gray-900">
+                    {getDocument(result.documentId)?.documentNumber ?? result.documentId}
+                    <span className="text-gray-500 font-normal"> · {getDocument(result.documentId)?.customerName}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Banked {formatCurrency(result.confirmedCredits)} of {formatCurrency(result.expectedCredits)} ·
+                    Challans {formatCurrency(result.confirmedDebits)} of {formatCurrency(result.challanTotal)}
+                  </p>
+                </div>
+                <ul className="mt-1 text-sm text-amber-800 list-disc list-inside">
+                  {result.problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Statement lines */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-4 border-b border-gray-200">
+          <div className="flex items-center space-x-2">
+            <Landmark className="w-5 h-5 text-gray-500" />
+            <select
+              value={statementFilter}
+              onChange={(e) => setStatementFilter(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="all">All statements</option>
+              {statements.map(statement => (
+                <option key={statement.id} value={statement.id}>
+                  {statement.fileName} ({STATEMENT_FORMAT_LABELS[statement.format]}, {format(statement.importedAt, 'MMM dd, yyyy')})
+                </option>
+              ))}
+            </select>
+          </div>
+          {selectedStatement && (
+            <div className="flex items-center space-x-3 text-sm text-gray-500">
+              {selectedStatement.accountNumber && <span>A/c {selectedStatement.accountNumber}</span>}
+              {selectedStatement.importedByName && <span>Imported by {selectedStatement.importedByName}</span>}
+              {canReconcile && (
+                <button
+                  onClick={() => handleDelete(selectedStatement.id)}
+                  className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Delete statement"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {lines.length === 0 ? (
+          <div className="p-12 text-center text-gray-500">
+            {statements.length === 0
+              ? 'Import a CSV, OFX or MT940 statement exported from net banking to start'
+              : 'No entries match this filter'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium">Date</th>
+                  <th className="text-left px-4 py-3 font-medium">Narration</th>
+                  <th className="text-right px-4 py-3 font-medium">Amount</th>
+                  <th className="text-left px-4 py-3 font-medium">Matched To</th>
+                  <th className="text-left px-4 py-3 font-medium">Status</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {lines.map(line => {
+                  const pendingUpload = isLocalId(line.statementId);
+                  return (
+                    <tr key={line.id} className="align-top">
+                      <td className="px-4 py-3 whitespace-nowrap text-gray-900">{format(line.date, 'MMM dd, yyyy')}</td>
+                      <td className="px-4 py-3 text-gray-700 max-w-xs">
+                        <p className="break-words">{line.description || '—'}</p>
+                        {line.reference && <p className="text-xs text-gray-500 font-mono">{line.reference}</p>}
+                      </td>
+                      <td className={`px-4 py-3 text-right whitespace-nowrap font-medium ${
+                        line.direction === 'credit' ? 'text-green-700' : 'text-red-700'
+                      }`}>
+                        <span className="inline-flex items-center">
+                          {line.direction === 'credit'
+                            ? <ArrowDownLeft className="w-4 h-4 mr-1" />
+                            : <ArrowUpRight className="w-4 h-4 mr-1" />}
+                          {formatCurrency(line.amount)}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {candidateLabel(line) ?? <span className="text-gray-400">—</span>}
+                        {canReconcile && !pendingUpload && line.matchStatus !== 'ignored' && (
+                          <select
+                            value=""
+                            onChange={(e) => {
+                              const [kind, id] = e.target.value.split(':');
+                              decide(line, { matchStatus: 'confirmed', matchKind: kind as 'transaction' | 'challan', matchId: id });
+                            }}
+                            className="block mt-1 border border-gray-300 rounded px-2 py-1 text-xs max-w-xs"
+                          >
+                            <option value="">{line.matchId ? 'Match to something else…' : 'Match to…'}</option>
+                            {alternativesFor(line).map(({ candidate }) => (
+                              <option key={candidateKey(candidate.kind, candidate.id)} value={candidateKey(candidate.kind, candidate.id)}>
+                                {formatCurrency(candidate.amount)} · {candidate.label} · {format(candidate.date, 'dd MMM')}
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        {line.decidedByName && line.decidedAt && (
+                          <p className="text-xs text-gray-400 mt-1">
+                            {line.decidedByName}, {format(line.decidedAt, 'MMM dd, yyyy')}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${statusColors[line.matchStatus]}`}>
+                          {MATCH_STATUS_LABELS[line.matchStatus]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {canReconcile && !pendingUpload && (
+                          <div className="flex items-center justify-end space-x-1">
+                            {line.matchStatus === 'suggested' && line.matchKind && line.matchId && (
+                              <button
+                                onClick={() => decide(line, { matchStatus: 'confirmed', matchKind: line.matchKind!, matchId: line.matchId! })}
+                                className="p-1.5 text-green-600 hover:bg-green-50 rounded transition-colors"
+                                title="Confirm match"
+                              >
+                                <Check className="w-4 h-4" />
+                              </button>
+                            )}
+                            {line.matchStatus !== 'ignored' && line.matchStatus !== 'confirmed' && (
+                              <button
+                                onClick={() => decide(line, { matchStatus: 'ignored' })}
+                                className="p-1.5 text-gray-500 hover:bg-gray-100 rounded transition-colors"
+                                title="Ignore (not related to any document)"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                            {line.matchStatus !== 'unmatched' && (
+                              <button
+                                onClick={() => decide(line, { matchStatus: 'unmatched' })}
+                                className="p-1.5 text-gray-500 hover:bg-gray-100 rounded transition-colors"
+                                title="Clear match"
+                              >
+                                <Undo2 className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                        )}
+                        {pendingUpload && (
+                          <span className="text-xs text-gray-400 flex items-center justify-end">
+                            <CheckCircle className="w-3 h-3 mr-1" />
+                            Waiting to upload
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
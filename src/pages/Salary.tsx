@@ -56,7 +56,7 @@ const paymentMethodIcons: Record<PaymentMethod, React.ComponentType<any>> = {
 };
 
 export function Salary() {
-  const { user, hasPermission } = useAuth();
+  const { can } = useAuth();
   const { users } = useUsers();
   const { 
     salaryRecords, 
@@ -79,14 +79,13 @@ export function Salary() {
   const [selectedRecord, setSelectedRecord] = useState<any>(null);
   const [selectedUser, setSelectedUser] = useState<any>(null);
 
-  const isAdmin = user?.role === 'main_admin' || user?.role === 'staff_admin';
-  const canManageSalary = hasPermission('salary', 'manage') || isAdmin;
-  const canApproveSalary = user?.role === 'main_admin';
+  const canManageSalary = can('salary', 'manage');
 
   const filteredRecords = salaryRecords.filter(record => {
     const matchesSearch = 
       record.userName.toLowerCase().includes(searchTerm.toLowerCase()) ||
       record.id.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      record.salaryNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       record.userRole.toLowerCase().includes(searchTerm.toLowerCase());
 
     const matchesStatus = statusFilter === 'all' || record.status === statusFilter;
@@ -387,6 +386,9 @@ export function Salary() {
                             <p className="text-sm text-gray-500 capitalize">
                               {record.userRole.replace('_', ' ')}
                             </p>
+                            {record.salaryNumber && (
+                              <p className="text-xs text-gray-400">{record.salaryNumber}</p>
+                            )}
                           </div>
                         </div>
                       </td>
@@ -450,7 +452,7 @@ export function Salary() {
                             </button>
                           )}
 
-                          {canApproveSalary && record.status === 'pending_approval' && (
+                          {canManageSalary && record.status === 'pending_approval' && (
                             <button
                               onClick={() => handleApprove(record.id)}
                               className="p-2 text-gray-500 hover:text-green-600 hover:bg-green-50 rounded-lg transition-colors"
@@ -15,11 +15,20 @@ import {
   AlertCircle,
   Edit,
   Send,
-  MoreVertical
+  MoreVertical,
+  Lock,
+  Shuffle,
+  ListChecks
 } from 'lucide-react';
 import { useTasks } from '../hooks/useTasks';
 import { useAuth } from '../hooks/useAuth';
+import { useTaskChain } from '../hooks/useTaskChain';
 import { TaskStatus } from '../types/task';
+import { dependencyBlock } from '../services/taskDependencies';
+import { checklistBlock } from '../services/taskChecklist';
+import { stageLabel } from '../services/documentWorkflow';
+import { TaskDependencyChain } from '../components/Tasks/TaskDependencyChain';
+import { TaskChecklist } from '../components/Tasks/TaskChecklist';
 import { format } from 'date-fns';
 
 const statusColors: Record<TaskStatus, string> = {
@@ -50,11 +59,13 @@ const statusIcons: Record<TaskStatus, React.ComponentType<any>> = {
 export function TaskDetail() {
   const { id } = useParams();
   const navigate = useNavigate();
-  const { tasks, updateTaskStatus, addTaskComment, loading } = useTasks();
-  const { user } = useAuth();
+  const { tasks, taskTemplates, updateTaskStatus, setTaskDependencies, setChecklistItem, addTaskComment, loading } = useTasks();
+  const { user, can } = useAuth();
   const [task, setTask] = useState(tasks.find(t => t.id === id));
   const [newComment, setNewComment] = useState('');
   const [isInternal, setIsInternal] = useState(false);
+  const [statusError, setStatusError] = useState('');
+  const chainLinks = useTaskChain(id);
 
   useEffect(() => {
     const foundTask = tasks.find(t => t.id === id);
@@ -62,8 +73,7 @@ export function TaskDetail() {
   }, [id, tasks]);
 
   const isAssigned = task?.assignedTo === user?.id;
-  const isAdmin = user?.role === 'main_admin' || user?.role === 'staff_admin';
-  const canEdit = isAssigned || isAdmin;
+  const canEdit = isAssigned || can('tasks', 'update');
 
   const isOverdue = task?.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'completed';
 
@@ -85,12 +95,19 @@ export function TaskDetail() {
     );
   }
 
+  // Starting and completing need every prerequisite completed first
+  const blockedReason = dependencyBlock(task, 'in_progress', chainLinks);
+  // Completing also needs the required checklist items ticked off
+  const completeBlockedReason = blockedReason ?? checklistBlock(task, 'completed');
+
   const handleStatusChange = async (newStatus: TaskStatus) => {
+    setStatusError('');
     try {
       await updateTaskStatus(task.id, newStatus);
       setTask(prev => prev ? { ...prev, status: newStatus, updatedAt: new Date() } : null);
     } catch (error) {
       console.error('Error updating task status:', error);
+      setStatusError(error instanceof Error ? error.message : 'Failed to update task status');
     }
   };
 
@@ -138,7 +155,9 @@ export function TaskDetail() {
           </button>
           <div>
             <h1 className="text-2xl font-bold text-gray-900">{task.title}</h1>
-            <p className="text-gray-600 capitalize">{getTaskTypeLabel(task.type)} Task</p>
+            <p className="text-gray-600 capitalize">
+              {getTaskTypeLabel(task.type)} Task{task.taskNumber && <span className="normal-case"> &middot; {task.taskNumber}</span>}
+            </p>
           </div>
         </div>
         <div className="flex items-center space-x-3">
@@ -148,6 +167,12 @@ export function TaskDetail() {
               {isOverdue ? 'OVERDUE' : task.status.replace('_', ' ').toUpperCase()}
             </span>
           </div>
+          {blockedReason && task.status !== 'completed' && task.status !== 'cancelled' && (
+            <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+              <Lock className="w-3 h-3 mr-1" />
+              BLOCKED
+            </span>
+          )}
           <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${priorityColors[task.priority]}`}>
             {task.priority.toUpperCase()}
           </span>
@@ -166,15 +191,37 @@ export function TaskDetail() {
             <p className="text-gray-700 leading-relaxed">{task.description}</p>
           </div>
 
+          {/* Checklist */}
+          {task.checklist.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <ListChecks className="w-5 h-5 mr-2" />
+                Checklist
+              </h2>
+              <TaskChecklist
+                task={task}
+                canTick={canEdit}
+                onToggle={(itemId, isCompleted) => setChecklistItem(task.id, itemId, isCompleted)}
+              />
+            </div>
+          )}
+
           {/* Task Actions */}
           {canEdit && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <h2 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h2>
+              {blockedReason && task.status !== 'completed' && task.status !== 'cancelled' && (
+                <p className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 flex items-center">
+                  <Lock className="w-4 h-4 mr-2 shrink-0" />
+                  {blockedReason}
+                </p>
+              )}
               <div className="flex items-center space-x-3">
                 {task.status === 'pending' && (
                   <button
                     onClick={() => handleStatusChange('in_progress')}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+                    disabled={Boolean(blockedReason)}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
                   >
                     <Play className="w-4 h-4 mr-1" />
                     Start Task
@@ -192,7 +239,9 @@ export function TaskDetail() {
                     </button>
                     <button
                       onClick={() => handleStatusChange('completed')}
-                      className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+                      disabled={Boolean(completeBlockedReason)}
+                      title={completeBlockedReason}
+                      className="bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
                     >
                       <CheckCircle className="w-4 h-4 mr-1" />
                       Complete
@@ -203,16 +252,29 @@ export function TaskDetail() {
                 {task.status === 'on_hold' && (
                   <button
                     onClick={() => handleStatusChange('in_progress')}
-                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
+                    disabled={Boolean(blockedReason)}
+                    className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center"
                   >
                     <Play className="w-4 h-4 mr-1" />
                     Resume
                   </button>
                 )}
               </div>
+              {!blockedReason && completeBlockedReason && task.status === 'in_progress' && (
+                <p className="mt-3 text-sm text-gray-600">{completeBlockedReason}</p>
+              )}
+              {statusError && <p className="mt-3 text-sm text-red-600">{statusError}</p>}
             </div>
           )}
 
+          <TaskDependencyChain
+            task={task}
+            links={chainLinks}
+            candidates={tasks}
+            canManage={can('tasks', 'update')}
+            onSave={(dependencies) => setTaskDependencies(task.id, dependencies)}
+          />
+
           {/* Comments Section */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200">
             <div className="p-6 border-b border-gray-200">
@@ -304,6 +366,23 @@ export function TaskDetail() {
                 <span className="text-sm text-gray-600">Created by:</span>
                 <p className="font-medium">{task.assignedBy}</p>
               </div>
+
+              {task.templateId && (
+                <div>
+                  <span className="text-sm text-gray-600">Template:</span>
+                  <p className="font-medium">
+                    {taskTemplates.find(t => t.id === task.templateId)?.name ?? task.templateId}
+                    {task.templateVersion && <span className="text-gray-500 font-normal"> v{task.templateVersion}</span>}
+                  </p>
+                </div>
+              )}
+
+              {task.closesOnStatus && (
+                <div>
+                  <span className="text-sm text-gray-600">Closes automatically:</span>
+                  <p className="font-medium">When the document reaches {stageLabel(task.closesOnStatus)}</p>
+                </div>
+              )}
               
               {task.dueDate && (
                 <div>
@@ -333,6 +412,34 @@ export function TaskDetail() {
             </div>
           </div>
 
+          {/* Automatic assignment */}
+          {task.assignment && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+                <Shuffle className="w-5 h-5 mr-2" />
+                Assigned Automatically
+              </h3>
+              <p className="text-sm text-gray-700">{task.assignment.reason}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {task.assignment.workload === 'least_busy' ? 'Fewest open tasks' : 'Balanced by estimated hours'}
+                {' '}&middot; {format(task.assignment.decidedAt, 'MMM dd, yyyy HH:mm')}
+              </p>
+              <ul className="mt-4 space-y-2">
+                {task.assignment.candidates.map(candidate => (
+                  <li key={candidate.userId} className="text-sm">
+                    <span className={`font-medium ${candidate.skipped ? 'text-gray-400' : 'text-gray-900'}`}>
+                      {candidate.userName}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {candidate.skipped
+                        ?? `${candidate.openTasks} open, ${Math.round(candidate.openHours * 10) / 10}h estimated, ${candidate.assignedToday} given today`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Tags */}
           {task.tags.length > 0 && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
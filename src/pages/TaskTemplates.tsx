@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Archive, ArchiveRestore, ClipboardList, Copy, Edit, History, Plus, Shuffle } from 'lucide-react';
+import { useTasks } from '../hooks/useTasks';
+import { useDatabase } from '../hooks/useDatabase';
+import { useTaskPipeline } from '../hooks/useTaskPipeline';
+import { TaskTemplate } from '../types/task';
+import { requiredFieldLabel } from '../services/taskChecklist';
+import { TaskTemplateModal } from '../components/Modals/TaskTemplateModal';
+import { TaskPipelineRules } from '../components/Tasks/TaskPipelineRules';
+
+const label = (value: string) => value.replace(/_/g, ' ');
+
+function TemplateHistory({ template }: { template: TaskTemplate }) {
+  return (
+    <ol className="mt-4 border-t border-gray-100 pt-4 space-y-2">
+      {[...template.versions].reverse().map(version => (
+        <li key={version.version} className="text-sm flex flex-wrap items-baseline gap-x-2">
+          <span className="font-medium text-gray-900">v{version.version}</span>
+          <span className="text-gray-700">{version.name}</span>
+          <span className="text-gray-500">
+            &middot; {version.checklist.length} checklist items &middot; {version.estimatedHours}h
+            &middot; {version.savedByName ?? 'System'}, {format(version.savedAt, 'MMM dd, yyyy HH:mm')}
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+export function TaskTemplates() {
+  const { taskTemplates, cloneTemplate, setTemplateArchived } = useTasks();
+  const { isConnected } = useDatabase();
+  const { rules, saveRule, deleteRule } = useTaskPipeline();
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<TaskTemplate | undefined>();
+  const [showModal, setShowModal] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const archivedCount = taskTemplates.filter(t => t.isArchived).length;
+  const shown = taskTemplates.filter(t => showArchived || !t.isArchived);
+
+  const openEditor = (template?: TaskTemplate) => {
+    setEditing(template);
+    setShowModal(true);
+  };
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : failure);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Task Templates</h1>
+          <p className="text-gray-600 mt-1">The checklists, required fields and assignment rules new tasks start from</p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          disabled={!isConnected}
+          className="mt-4 sm:mt-0 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white px-4 py-2 rounded-lg flex items-center transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Template
+        </button>
+      </div>
+
+      {!isConnected && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg p-3 text-sm">
+          Templates can only be changed while connected to the server.
+        </div>
+      )}
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 text-sm">{error}</div>}
+
+      {archivedCount > 0 && (
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showArchived}
+            onChange={(e) => setShowArchived(e.target.checked)}
+            className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+          />
+          <span>Show {archivedCount} archived</span>
+        </label>
+      )}
+
+      <div className="space-y-4">
+        {shown.map(template => (
+          <div
+            key={template.id}
+            className={`bg-white rounded-xl shadow-sm border border-gray-200 p-6 ${template.isArchived ? 'opacity-75' : ''}`}
+          >
+            <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h2 className="text-lg font-semibold text-gray-900">{template.name}</h2>
+                  <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded-full">v{template.version}</span>
+                  {template.isArchived && (
+                    <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 text-xs rounded-full">Archived</span>
+                  )}
+                </div>
+                {template.description && <p className="text-sm text-gray-600 mt-1">{template.description}</p>}
+                <p className="text-sm text-gray-500 mt-2 capitalize">
+                  {label(template.type)} &middot; {template.defaultPriority} priority &middot; {template.estimatedHours}h
+                </p>
+                {template.clonedFrom && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Copied from {taskTemplates.find(t => t.id === template.clonedFrom)?.name ?? 'a deleted template'}
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2 shrink-0">
+                <button
+                  onClick={() => openEditor(template)}
+                  disabled={!isConnected || template.isArchived}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+                >
+                  <Edit className="w-4 h-4 mr-1" />
+                  Edit
+                </button>
+                <button
+                  onClick={() => run(() => cloneTemplate(template.id), 'Failed to copy template')}
+                  disabled={!isConnected}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+                >
+                  <Copy className="w-4 h-4 mr-1" />
+                  Clone
+                </button>
+                <button
+                  onClick={() => run(
+                    () => setTemplateArchived(template.id, !template.isArchived),
+                    template.isArchived ? 'Failed to restore template' : 'Failed to archive template'
+                  )}
+                  disabled={!isConnected}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+                >
+                  {template.isArchived
+                    ? <><ArchiveRestore className="w-4 h-4 mr-1" />Restore</>
+                    : <><Archive className="w-4 h-4 mr-1" />Archive</>}
+                </button>
+                <button
+                  onClick={() => setExpanded(current => (current === template.id ? null : template.id))}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center"
+                >
+                  <History className="w-4 h-4 mr-1" />
+                  {template.versions.length} {template.versions.length === 1 ? 'version' : 'versions'}
+                </button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 text-sm">
+              <div>
+                <p className="text-gray-600 flex items-center mb-1">
+                  <ClipboardList className="w-4 h-4 mr-1" />
+                  Checklist
+                </p>
+                {template.checklist.length === 0 ? (
+                  <p className="text-gray-500">None</p>
+                ) : (
+                  <ul className="space-y-0.5">
+                    {template.checklist.map(item => (
+                      <li key={item.id} className="text-gray-900">
+                        {item.title}
+                        {item.isRequired && <span className="ml-1 text-xs text-red-700">(required)</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-600 mb-1">Required fields</p>
+                <p className="text-gray-900">
+                  {template.requiredFields.length > 0 ? template.requiredFields.map(requiredFieldLabel).join(', ') : 'None'}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-600 flex items-center mb-1">
+                  <Shuffle className="w-4 h-4 mr-1" />
+                  Automatic assignment
+                </p>
+                <p className="text-gray-900 capitalize">
+                  {template.autoAssignmentRules
+                    ? `${label(template.autoAssignmentRules.role ?? 'any staff')}, ${
+                      template.autoAssignmentRules.workload === 'least_busy' ? 'fewest open tasks' : 'least open work'
+                    }`
+                    : 'Off'}
+                </p>
+              </div>
+            </div>
+
+            {expanded === template.id && <TemplateHistory template={template} />}
+          </div>
+        ))}
+
+        {shown.length === 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+            <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-500">No task templates yet</p>
+          </div>
+        )}
+      </div>
+
+      <TaskPipelineRules
+        rules={rules}
+        templates={taskTemplates}
+        canEdit={isConnected}
+        onSave={saveRule}
+        onDelete={deleteRule}
+      />
+
+      <TaskTemplateModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        template={editing}
+      />
+    </div>
+  );
+}
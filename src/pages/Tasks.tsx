@@ -85,12 +85,11 @@ const statusIcons: Record<TaskStatus, React.ComponentType<any>> = {
 
 export function Tasks() {
   const navigate = useNavigate();
-  const { user, hasPermission } = useAuth();
+  const { user, can } = useAuth();
   const { 
     tasks, 
     getTasksByUser, 
     getTaskStats, 
-    hasTaskPermission, 
     updateTaskStatus,
     getTaskRedirectUrl,
     loading 
@@ -120,22 +119,19 @@ export function Tasks() {
     );
   }
 
-  const isMainAdmin = user?.role === 'main_admin';
-  const isStaffAdmin = user?.role === 'staff_admin';
-  const canCreateTasks = isMainAdmin || isStaffAdmin || hasPermission('tasks', 'create');
+  const canViewAllTasks = can('tasks', 'read_all');
+  const canEditAnyTask = can('tasks', 'update');
+  const canCreateTasks = can('tasks', 'create');
 
   // Filter tasks based on user permissions and filters
   const filteredTasks = tasks.filter(task => {
     // Permission check - users can only see tasks they have permission for
-    if (!isMainAdmin && !isStaffAdmin) {
-      const hasPermission = hasTaskPermission(task.type, 'canView');
-      const isAssigned = task.assignedTo === user?.id;
-      if (!hasPermission && !isAssigned) return false;
-    }
+    if (!canViewAllTasks && task.assignedTo !== user?.id) return false;
 
     // Search filter
     const matchesSearch = 
       task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      task.taskNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       task.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
       task.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()));
 
@@ -264,7 +260,7 @@ export function Tasks() {
       </div>
 
       {/* My Tasks Summary */}
-      {!isMainAdmin && !isStaffAdmin && (
+      {!canViewAllTasks && (
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-6 border border-blue-200">
           <h3 className="text-lg font-semibold text-blue-900 mb-4">My Tasks Summary</h3>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -458,7 +454,7 @@ export function Tasks() {
                         <Eye className="w-4 h-4" />
                       </button>
                       
-                      {(task.assignedTo === user?.id || isMainAdmin || isStaffAdmin) && (
+                      {(task.assignedTo === user?.id || canEditAnyTask) && (
                         <>
                           {task.status === 'pending' && (
                             <button
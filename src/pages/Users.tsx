@@ -12,8 +12,7 @@ import {
   CheckCircle,
   XCircle,
   Clock,
-  Settings,
-  CheckSquare
+  Settings
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth.tsx';
 import { useUsers } from '../hooks/useUsers.tsx';
@@ -22,8 +21,6 @@ import { format } from 'date-fns';
 import { CreateUserModal } from '../components/Modals/CreateUserModal';
 import { EditUserModal } from '../components/Modals/EditUserModal';
 import { UserPermissionsModal } from '../components/Modals/UserPermissionsModal';
-import { TaskPermissionsModal } from '../components/Modals/TaskPermissionsModal';
-import { useTasks } from '../hooks/useTasks';
 
 const roleColors: Record<UserRole, string> = {
   'main_admin': 'bg-red-100 text-red-800',
@@ -44,7 +41,7 @@ const roleLabels: Record<UserRole, string> = {
 };
 
 export function Users() {
-  const { hasPermission, user: currentUser } = useAuth();
+  const { can, user: currentUser } = useAuth();
   const { users, createUser, updateUser, updateUserPermissions, toggleUserStatus } = useUsers();
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState<UserRole | 'all'>('all');
@@ -52,9 +49,7 @@ export function Users() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showPermissionsModal, setShowPermissionsModal] = useState(false);
-  const [showTaskPermissionsModal, setShowTaskPermissionsModal] = useState(false);
   const [selectedUser, setSelectedUser] = useState<UserType | null>(null);
-  const { getUserTaskPermissions, updateTaskPermissions } = useTasks();
 
   const filteredUsers = users.filter(user => {
     const matchesSearch = 
@@ -69,9 +64,9 @@ export function Users() {
     return matchesSearch && matchesRole && matchesStatus;
   });
 
-  const canCreateUser = hasPermission('users', 'create');
-  const canEditUser = hasPermission('users', 'update');
-  const canManagePermissions = currentUser?.role === 'main_admin';
+  const canCreateUser = can('users', 'create');
+  const canEditUser = can('users', 'update');
+  const canManagePermissions = can('users', 'update');
 
   const handleCreateUser = async (userData: any) => {
     await createUser(userData);
@@ -91,19 +86,10 @@ export function Users() {
     setShowPermissionsModal(true);
   };
 
-  const handleManageTaskPermissions = (user: UserType) => {
-    setSelectedUser(user);
-    setShowTaskPermissionsModal(true);
-  };
-
   const handleUpdatePermissions = async (userId: string, permissions: any[]) => {
     await updateUserPermissions(userId, permissions);
   };
 
-  const handleUpdateTaskPermissions = async (userId: string, permissions: any[]) => {
-    await updateTaskPermissions(userId, permissions);
-  };
-
   const handleToggleStatus = async (userId: string) => {
     await toggleUserStatus(userId);
   };
@@ -321,7 +307,7 @@ export function Users() {
                           <Edit className="w-4 h-4" />
                         </button>
                       )}
-                      {canManagePermissions && (
+                      {canManagePermissions && user.role !== 'main_admin' && user.id !== currentUser?.id && (
                         <button 
                           onClick={() => handleManagePermissions(user)}
                           className="p-2 text-gray-500 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
@@ -330,15 +316,6 @@ export function Users() {
                           <Settings className="w-4 h-4" />
                         </button>
                       )}
-                      {canManagePermissions && (
-                        <button 
-                          onClick={() => handleManageTaskPermissions(user)}
-                          className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
-                          title="Manage Task Permissions"
-                        >
-                          <CheckSquare className="w-4 h-4" />
-                        </button>
-                      )}
                       {canEditUser && user.role !== 'main_admin' && user.id !== currentUser?.id && (
                         <button 
                           onClick={() => handleToggleStatus(user.id)}
@@ -383,7 +360,7 @@ export function Users() {
               <h3 className="text-lg font-medium text-blue-900 mb-2">Permission Management</h3>
               <div className="text-sm text-blue-800 space-y-1">
                 <p>• <strong>Main Admin:</strong> Full system access - cannot be modified</p>
-                <p>• <strong>Staff Admin:</strong> Permissions dynamically assigned by Main Admin</p>
+                <p>• <strong>Staff Admin:</strong> Manages records and users; per-user permissions extend or restrict any role</p>
                 <p>• <strong>Challan Staff:</strong> Can fill challan details but cannot modify agreement values</p>
                 <p>• <strong>Field Collection Staff:</strong> Limited to collection status updates and file uploads</p>
                 <p>• <strong>Data Entry Staff:</strong> Limited to data entry tasks for assigned documents</p>
@@ -427,20 +404,6 @@ export function Users() {
           onUpdatePermissions={handleUpdatePermissions}
         />
       )}
-
-      {/* Task Permissions Modal */}
-      {selectedUser && (
-        <TaskPermissionsModal 
-          isOpen={showTaskPermissionsModal}
-          onClose={() => {
-            setShowTaskPermissionsModal(false);
-            setSelectedUser(null);
-          }}
-          user={selectedUser}
-          onUpdatePermissions={handleUpdateTaskPermissions}
-          currentPermissions={getUserTaskPermissions(selectedUser.id)}
-        />
-      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,209 @@
+// Role-based access policy shared by the app and the API server. The server
+// enforces it on every route; the UI only uses it to hide what would be refused.
+import { Permission, UserRole } from '../types';
+
+export const PERMISSION_MODULES = [
+  {
+    module: 'documents',
+    label: 'Documents',
+    description: 'Manage document records and workflow',
+    actions: [
+      { action: 'create', label: 'Create Documents' },
+      { action: 'read', label: 'View Documents' },
+      { action: 'update', label: 'Edit Documents' },
+      { action: 'delete', label: 'Delete Documents' },
+      { action: 'collect', label: 'Collect Documents' },
+      { action: 'data_entry', label: 'Enter Document Data' },
+      { action: 'deliver', label: 'Deliver Documents' },
+    ]
+  },
+  {
+    module: 'payments',
+    label: 'Payments',
+    description: 'Manage payment records and transactions',
+    actions: [
+      { action: 'create', label: 'Create Payments' },
+      { action: 'read', label: 'View Payments' },
+      { action: 'update', label: 'Edit Payments' },
+      { action: 'delete', label: 'Delete Payments' },
+      { action: 'approve_refund', label: 'Approve Refunds' },
+      { action: 'reconcile', label: 'Reconcile Bank Statements' },
+    ]
+  },
+  {
+    module: 'challans',
+    label: 'Challans',
+    description: 'Manage challan forms and submissions',
+    actions: [
+      { action: 'create', label: 'Create Challans' },
+      { action: 'read', label: 'View Challans' },
+      { action: 'update', label: 'Edit Challans' },
+      { action: 'approve', label: 'Approve Challans' },
+      { action: 'delete', label: 'Delete Challans' },
+    ]
+  },
+  {
+    module: 'customers',
+    label: 'Customers',
+    description: 'Manage customer information',
+    actions: [
+      { action: 'create', label: 'Create Customers' },
+      { action: 'read', label: 'View Customers' },
+      { action: 'update', label: 'Edit Customers' },
+      { action: 'delete', label: 'Delete Customers' },
+    ]
+  },
+  {
+    module: 'builders',
+    label: 'Builders',
+    description: 'Manage builder information',
+    actions: [
+      { action: 'create', label: 'Create Builders' },
+      { action: 'read', label: 'View Builders' },
+      { action: 'update', label: 'Edit Builders' },
+      { action: 'delete', label: 'Delete Builders' },
+    ]
+  },
+  {
+    module: 'tasks',
+    label: 'Tasks',
+    description: 'Create, assign and track staff tasks',
+    actions: [
+      { action: 'create', label: 'Create Tasks' },
+      { action: 'read', label: 'View Own Tasks' },
+      { action: 'read_all', label: 'View All Tasks' },
+      { action: 'update', label: 'Edit Any Task' },
+      { action: 'delete', label: 'Delete Tasks' },
+      { action: 'manage_templates', label: 'Manage Task Templates' },
+    ]
+  },
+  {
+    module: 'attendance',
+    label: 'Attendance',
+    description: 'Clock in/out and review attendance',
+    actions: [
+      { action: 'read', label: 'View Own Attendance' },
+      { action: 'manage', label: 'Manage All Attendance' },
+    ]
+  },
+  {
+    module: 'salary',
+    label: 'Salary',
+    description: 'Salary records and staff pay configuration',
+    actions: [
+      { action: 'read', label: 'View Salary Records' },
+      { action: 'manage', label: 'Manage Salaries' },
+    ]
+  },
+  {
+    module: 'users',
+    label: 'Users',
+    description: 'Manage system users and their sessions',
+    actions: [
+      { action: 'create', label: 'Create Users' },
+      { action: 'read', label: 'View Users' },
+      { action: 'update', label: 'Edit Users' },
+      { action: 'delete', label: 'Delete Users' },
+    ]
+  },
+  {
+    module: 'audit',
+    label: 'Audit Log',
+    description: 'Review the history of changes made by all users',
+    actions: [
+      { action: 'read', label: 'View Audit Log' },
+    ]
+  },
+  {
+    module: 'settings',
+    label: 'Settings',
+    description: 'System settings and schema migrations',
+    actions: [
+      { action: 'manage', label: 'Manage Settings' },
+    ]
+  },
+] as const;
+
+type ModuleDefinition = typeof PERMISSION_MODULES[number];
+
+export type PermissionModule = ModuleDefinition['module'];
+
+export type PermissionAction<M extends PermissionModule = PermissionModule> =
+  Extract<ModuleDefinition, { module: M }>['actions'][number]['action'];
+
+export interface PermissionCheck {
+  module: PermissionModule;
+  action: PermissionAction;
+}
+
+type ModulePolicy = { [M in PermissionModule]?: PermissionAction<M>[] };
+
+// What each role may do before per-user overrides from user_permissions
+export const ROLE_POLICY: Record<UserRole, ModulePolicy> = {
+  main_admin: Object.fromEntries(
+    PERMISSION_MODULES.map(({ module, actions }) => [module, actions.map(({ action }) => action)])
+  ) as ModulePolicy,
+  staff_admin: {
+    documents: ['create', 'read', 'update', 'delete', 'collect', 'data_entry', 'deliver'],
+    payments: ['create', 'read', 'update', 'delete', 'approve_refund', 'reconcile'],
+    challans: ['create', 'read', 'update', 'approve', 'delete'],
+    customers: ['create', 'read', 'update', 'delete'],
+    builders: ['create', 'read', 'update', 'delete'],
+    tasks: ['create', 'read', 'read_all', 'update', 'delete', 'manage_templates'],
+    attendance: ['read', 'manage'],
+    salary: ['read'],
+    users: ['create', 'read', 'update'],
+    audit: ['read'],
+  },
+  challan_staff: {
+    documents: ['read'],
+    payments: ['read'],
+    challans: ['create', 'read', 'update'],
+    customers: ['read'],
+    builders: ['read'],
+    tasks: ['read'],
+    attendance: ['read'],
+  },
+  field_collection_staff: {
+    documents: ['read', 'update', 'collect'],
+    customers: ['read'],
+    builders: ['read'],
+    tasks: ['read'],
+    attendance: ['read'],
+  },
+  data_entry_staff: {
+    documents: ['create', 'read', 'update', 'data_entry'],
+    customers: ['create', 'read', 'update'],
+    builders: ['create', 'read', 'update'],
+    tasks: ['read'],
+    attendance: ['read'],
+  },
+  document_delivery_staff: {
+    documents: ['read', 'update', 'deliver'],
+    customers: ['read'],
+    builders: ['read'],
+    tasks: ['read'],
+    attendance: ['read'],
+  },
+};
+
+export interface PolicySubject {
+  role: UserRole;
+  permissions: Pick<Permission, 'module' | 'action' | 'granted'>[];
+}
+
+export const roleAllows = (role: UserRole, module: PermissionModule, action: PermissionAction): boolean =>
+  (ROLE_POLICY[role][module] as string[] | undefined)?.includes(action) ?? false;
+
+export const isKnownPermission = (module: string, action: string): boolean =>
+  PERMISSION_MODULES.some(m => m.module === module && m.actions.some(a => a.action === action));
+
+// A user_permissions row grants or revokes one action on top of the role's
+// defaults. The main admin cannot be locked out by an override.
+export function can(subject: PolicySubject | null | undefined, module: PermissionModule, action: PermissionAction): boolean {
+  if (!subject) return false;
+  if (subject.role === 'main_admin') return true;
+
+  const override = subject.permissions.find(p => p.module === module && p.action === action);
+  return override ? override.granted : roleAllows(subject.role, module, action);
+}
@@ -0,0 +1,24 @@
+// Display names for activity log entries
+import { ActivityAction, ActivityEntity } from '../types';
+
+export const ACTIVITY_ACTION_LABELS: Record<ActivityAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  status_changed: 'Status Changed',
+  deleted: 'Deleted',
+};
+
+export const ACTIVITY_ENTITY_LABELS: Record<ActivityEntity, string> = {
+  documents: 'Documents',
+  payments: 'Payments',
+  challans: 'Challans',
+  customers: 'Customers',
+  builders: 'Builders',
+  tasks: 'Tasks',
+  users: 'Users',
+  salary_records: 'Salary Records',
+  staff_configs: 'Salary Configurations',
+  bank_statements: 'Bank Statements',
+  task_templates: 'Task Templates',
+  task_pipeline_rules: 'Task Pipeline Rules',
+};
@@ -0,0 +1,43 @@
+// Rupee amounts written out the way Indian receipts and cheques do:
+// crore, lakh and thousand rather than million and billion.
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen',
+];
+
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+const SCALES: [number, string][] = [
+  [10000000, 'Crore'],
+  [100000, 'Lakh'],
+  [1000, 'Thousand'],
+  [100, 'Hundred'],
+];
+
+function belowHundred(n: number): string {
+  if (n < 20) return ONES[n];
+  return [TENS[Math.floor(n / 10)], ONES[n % 10]].filter(Boolean).join(' ');
+}
+
+// Whole numbers only; crores above 99 repeat the scale, e.g. "One Hundred Crore"
+export function numberInWords(value: number): string {
+  let n = Math.floor(Math.abs(value));
+  if (n === 0) return 'Zero';
+
+  const parts: string[] = [];
+  for (const [size, name] of SCALES) {
+    if (n >= size) {
+      parts.push(`${numberInWords(Math.floor(n / size))} ${name}`);
+      n %= size;
+    }
+  }
+  if (n > 0) parts.push(belowHundred(n));
+  return parts.join(' ');
+}
+
+export function amountInWords(amount: number): string {
+  const paise = Math.round(Math.abs(amount) * 100) % 100;
+  const rupees = numberInWords(Math.abs(amount));
+  return `Rupees ${rupees}${paise > 0 ? ` and ${numberInWords(paise)} Paise` : ''} Only`;
+}
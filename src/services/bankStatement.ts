@@ -0,0 +1,230 @@
+// Reads bank statements exported from net banking: CSV, OFX or SWIFT MT940.
+// Everything happens in the browser on the chosen file, so a statement can be
+// read and matched without a connection.
+import { BankStatementLine, StatementFormat } from '../types';
+
+export type ParsedLine = Pick<BankStatementLine, 'date' | 'amount' | 'direction' | 'reference' | 'description'>;
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountNumber?: string;
+  lines: ParsedLine[];
+}
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX',
+  mt940: 'MT940',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Dates are kept as UTC midnight, like every other date-only value in the app
+function utcDate(year: number, month: number, day: number): Date | undefined {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : undefined;
+}
+
+// Indian banks write day first: 05/10/2026, 05-10-26, 05-Oct-2026, 05 Oct 2026; some use 2026-10-05
+export function parseStatementDate(value: string): Date | undefined {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return utcDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) return utcDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  match = text.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[a-z]*[\s/-](\d{2}|\d{4})$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month > 0 ? utcDate(Number(match[3]), month, Number(match[1])) : undefined;
+  }
+  return undefined;
+}
+
+const parseAmount = (value: string): number => {
+  const number = parseFloat(value.replace(/[₹,\s]/g, '').replace(/(cr|dr)$/i, ''));
+  return Number.isFinite(number) ? number : 0;
+};
+
+// Splits CSV text into rows, honouring quoted fields with commas and newlines
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+}
+
+const COLUMN_NAMES: Record<string, RegExp> = {
+  date: /^(txn |transaction |value |posting )?date$/,
+  description: /narration|description|particulars|remarks|details/,
+  reference: /ref|chq|cheque|utr/,
+  debit: /debit|withdrawal|dr\b/,
+  credit: /credit|deposit|cr\b/,
+  amount: /^amount/,
+  type: /^(dr\s*\/\s*cr|cr\s*\/\s*dr|type)$/,
+};
+
+// Bank CSVs put a few lines of account details above the header row, so the
+// header is the first row that names a date column and an amount column
+export function parseCsv(text: string): ParsedStatement {
+  const rows = csvRows(text);
+  const headerIndex = rows.findIndex(row => {
+    const names = row.map(cell => cell.toLowerCase());
+    return names.some(name => COLUMN_NAMES.date.test(name))
+      && names.some(name => COLUMN_NAMES.amount.test(name) || COLUMN_NAMES.credit.test(name));
+  });
+  if (headerIndex === -1) {
+    throw new Error('Could not find the header row; the file needs Date and Amount (or Debit/Credit) columns');
+  }
+
+  const header = rows[headerIndex].map(cell => cell.toLowerCase());
+  // A "Dr/Cr" column would otherwise pass for the debit or credit amounts
+  const typeColumn = header.findIndex(cell => COLUMN_NAMES.type.test(cell));
+  const column = (name: string) => header.findIndex((cell, i) => i !== typeColumn && COLUMN_NAMES[name].test(cell));
+  const columns = {
+    date: column('date'),
+    description: column('description'),
+    reference: column('reference'),
+    debit: column('debit'),
+    credit: column('credit'),
+    amount: column('amount'),
+    type: typeColumn,
+  };
+  const accountRow = rows.slice(0, headerIndex).find(row => /account\s*(no|number)/i.test(row[0] ?? ''));
+
+  const lines = rows.slice(headerIndex + 1).flatMap((row): ParsedLine[] => {
+    const date = parseStatementDate(row[columns.date] ?? '');
+    if (!date) return [];
+
+    let amount: number;
+    let direction: ParsedLine['direction'];
+    if (columns.debit !== -1 && columns.credit !== -1) {
+      const credit = parseAmount(row[columns.credit] ?? '');
+      amount = credit > 0 ? credit : parseAmount(row[columns.debit] ?? '');
+      direction = credit > 0 ? 'credit' : 'debit';
+    } else {
+      const raw = row[columns.amount] ?? '';
+      const signed = parseAmount(raw);
+      const type = (columns.type !== -1 ? row[columns.type] : raw).toLowerCase();
+      amount = Math.abs(signed);
+      direction = signed < 0 || /dr|debit/.test(type) ? 'debit' : 'credit';
+    }
+    if (amount <= 0) return [];
+
+    return [{
+      date,
+      amount,
+      direction,
+      reference: (columns.reference !== -1 ? row[columns.reference] : '') || undefined,
+      description: columns.description !== -1 ? row[columns.description] ?? '' : '',
+    }];
+  });
+
+  return { format: 'csv', accountNumber: accountRow?.slice(1).find(Boolean), lines };
+}
+
+// OFX 1.x is SGML, so closing tags are optional; read each field up to the next tag
+const ofxField = (block: string, tag: string): string | undefined =>
+  block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'))?.[1].trim() || undefined;
+
+export function parseOfx(text: string): ParsedStatement {
+  const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  const lines = blocks.flatMap((block): ParsedLine[] => {
+    const posted = ofxField(block, 'DTPOSTED')?.match(/^(\d{4})(\d{2})(\d{2})/);
+    const date = posted ? utcDate(Number(posted[1]), Number(posted[2]), Number(posted[3])) : undefined;
+    const signed = parseAmount(ofxField(block, 'TRNAMT') ?? '');
+    if (!date || signed === 0) return [];
+    return [{
+      date,
+      amount: Math.abs(signed),
+      direction: signed < 0 ? 'debit' : 'credit',
+      reference: ofxField(block, 'CHECKNUM') ?? ofxField(block, 'REFNUM') ?? ofxField(block, 'FITID'),
+      description: [ofxField(block, 'NAME'), ofxField(block, 'MEMO')].filter(Boolean).join(' '),
+    }];
+  });
+  return { format: 'ofx', accountNumber: ofxField(text, 'ACCTID'), lines };
+}
+
+// :61: is the entry itself (date, credit/debit mark, amount, type, reference)
+// and the :86: after it carries the narration
+const MT940_ENTRY = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)[A-Z]\w{3}([^/]*)(?:\/\/(.*))?/;
+
+export function parseMt940(text: string): ParsedStatement {
+  const fields: { tag: string; value: string }[] = [];
+  text.split(/\r?\n/).forEach(line => {
+    const tagged = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tagged) {
+      fields.push({ tag: tagged[1], value: tagged[2] });
+    } else if (fields.length > 0 && line.trim() !== '-' && line.trim() !== '') {
+      fields[fields.length - 1].value += ` ${line.trim()}`;
+    }
+  });
+
+  const lines: ParsedLine[] = [];
+  fields.forEach(({ tag, value }) => {
+    if (tag === '61') {
+      const entry = value.match(MT940_ENTRY);
+      const date = entry ? utcDate(Number(entry[1]), Number(entry[2]), Number(entry[3])) : undefined;
+      if (!entry || !date) return;
+      const reference = [entry[7], entry[8]].map(part => part?.trim()).find(part => part && part !== 'NONREF');
+      lines.push({
+        date,
+        amount: parseAmount(entry[6].replace(',', '.')),
+        // RC and RD reverse an earlier debit or credit
+        direction: entry[5] === 'C' || entry[5] === 'RD' ? 'credit' : 'debit',
+        reference,
+        description: '',
+      });
+    } else if (tag === '86' && lines.length > 0 && !lines[lines.length - 1].description) {
+      lines[lines.length - 1].description = value.trim();
+    }
+  });
+
+  return { format: 'mt940', accountNumber: fields.find(field => field.tag === '25')?.value.trim(), lines };
+}
+
+export function detectFormat(fileName: string, text: string): StatementFormat {
+  if (/<OFX>/i.test(text) || /\.(ofx|qfx)$/i.test(fileName)) return 'ofx';
+  if (/^:20:/m.test(text) && /^:61:/m.test(text)) return 'mt940';
+  return 'csv';
+}
+
+export function parseStatement(fileName: string, text: string): ParsedStatement {
+  const format = detectFormat(fileName, text);
+  const statement = format === 'ofx' ? parseOfx(text) : format === 'mt940' ? parseMt940(text) : parseCsv(text);
+  if (statement.lines.length === 0) {
+    throw new Error(`No entries were found in this ${STATEMENT_FORMAT_LABELS[format]} statement`);
+  }
+  return statement;
+}
@@ -0,0 +1,43 @@
+// What changed between two submissions of a challan, so a reviewer sees what
+// was fixed after a rejection rather than reading the whole form again
+import { Challan, ChallanReview, ChallanVersion } from '../types';
+import { grasFields } from './grasChallan';
+
+export interface VersionChange {
+  field: string;
+  before?: string;
+  after?: string;
+}
+
+// The fields of a version as the reviewer reads them; the e-challan form
+// contributes one field per line of the portal's layout
+function versionFields(version: ChallanVersion): Map<string, string> {
+  const fields = new Map<string, string>([
+    ['Challan Number', version.challanNumber],
+    ['Amount', String(version.amount)],
+  ]);
+  if (version.notes) fields.set('Notes', version.notes);
+  if (version.gras) {
+    grasFields(version.gras)
+      .filter(field => field.label !== 'Total' && field.label !== 'Amount in Words')
+      .forEach(field => fields.set(field.label, field.value));
+  }
+  return fields;
+}
+
+export function versionChanges(previous: ChallanVersion, next: ChallanVersion): VersionChange[] {
+  const before = versionFields(previous);
+  const after = versionFields(next);
+  return [...new Set([...before.keys(), ...after.keys()])]
+    .filter(field => before.get(field) !== after.get(field))
+    .map(field => ({ field, before: before.get(field), after: after.get(field) }));
+}
+
+export const latestReview = (challan: Challan): ChallanReview | undefined =>
+  challan.reviews[challan.reviews.length - 1];
+
+// The reason the challan came back, while it is waiting to be revised
+export const rejectionOf = (challan: Challan): ChallanReview | undefined => {
+  const review = latestReview(challan);
+  return challan.status === 'rejected' && review?.decision === 'rejected' ? review : undefined;
+};
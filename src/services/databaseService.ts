@@ -1,59 +1,160 @@
-// Database service for real MySQL integration
-export interface DatabaseConfig {
-  host: string;
-  port: number;
-  database: string;
-  username: string;
-  password: string;
-  ssl: string;
-}
-
-export interface QueryResult {
+// Database service for real MySQL integration via the Om Services API server.
+// Credentials live on the server (see .env.example); the browser never sees them.
+import {
+  ActivityEntity,
+  ActivityLog,
+  AppNotification,
+  BankStatement,
+  BankStatementLine,
+  Builder,
+  Challan,
+  ChallanReviewDecision,
+  Customer,
+  Document,
+  InvoiceLine,
+  NumberCounter,
+  Payment,
+  PaymentRefund,
+  PaymentTransaction,
+  Permission,
+  User,
+} from '../types';
+import { PendingChange } from './offlineStore';
+import { NumberFormats } from './numberSequences';
+import { AttendanceRecord } from '../types/attendance';
+import { SalaryRecord, StaffSalaryConfig } from '../types/salary';
+import { Task, TaskLink, TaskPermission, TaskPipelineRule, TaskStatus, TaskTemplate, TaskTemplateInput } from '../types/task';
+
+export interface ApiResult<T> {
   success: boolean;
-  data?: any[];
+  data?: T;
   error?: string;
-  affectedRows?: number;
+  // HTTP status of the response; absent when the server could not be reached
+  status?: number;
+}
+
+export interface ConnectionInfo {
+  driver: 'mysql' | 'memory';
+  serverInfo: string;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: Date;
+}
+
+export interface NumberSequences {
+  formats: NumberFormats;
+  counters: NumberCounter[];
+}
+
+export interface SalaryRecordFilters {
+  userId?: string;
+  month?: number;
+  year?: number;
+  status?: SalaryRecord['status'];
+}
+
+export interface TaskFilters {
+  assignedTo?: string;
+  status?: TaskStatus;
+  type?: Task['type'];
 }
 
+export interface ActivityFilters {
+  userId?: string;
+  entity?: ActivityEntity;
+  recordId?: string;
+  documentId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// A transaction as recorded; the server fills in who received it and the
+// clearance state when they are left out
+export type TransactionInput = Pick<PaymentTransaction, 'amount' | 'method' | 'transactionDate'> &
+  Partial<Pick<
+    PaymentTransaction,
+    'referenceNumber' | 'bankName' | 'instrumentDate' | 'depositDate' | 'receivedBy' | 'clearanceStatus' | 'notes'
+  >>;
+
+// Changes to a transaction; a bounce can say why the bank returned it
+export type TransactionUpdate = Partial<Omit<TransactionInput, 'receivedBy'>> &
+  Partial<Pick<PaymentTransaction, 'bounceReason'>>;
+
+// A null flag reason clears the document's flag
+export type DocumentUpdate = Omit<Partial<Document>, 'flagReason'> & { flagReason?: string | null };
+
+export type PaymentInput = Omit<Partial<Payment>, 'transactions' | 'receipts' | 'refunds'> & {
+  transactions?: TransactionInput[];
+};
+
+export type RefundInput = Pick<PaymentRefund, 'amount' | 'reason' | 'transactionIds'>;
+
+// Admins approve or reject a request; an approved refund is then paid out
+export type RefundDecision =
+  | { status: 'approved'; decisionNote?: string }
+  | { status: 'rejected'; decisionNote: string }
+  | { status: 'paid'; payoutMethod: PaymentTransaction['method']; payoutReference?: string; paidAt?: Date };
+
+// Receipts come with each transaction; this asks for one for an older
+// transaction, or for an invoice of service charges
+export type ReceiptInput = { kind: 'receipt'; transactionId: string } | { kind: 'invoice'; lines: InvoiceLine[] };
+
+// A rejection needs a comment; an approval may carry one
+export type ChallanReviewInput = { decision: ChallanReviewDecision; comment?: string };
+
+// A statement read in the browser, each line carrying the match suggested for it
+export type StatementImport = Pick<BankStatement, 'fileName' | 'format' | 'accountNumber'> & {
+  lines: Pick<BankStatementLine, 'date' | 'amount' | 'direction' | 'reference' | 'description' | 'matchKind' | 'matchId'>[];
+};
+
+// Confirming (or overriding) names the match; ignoring or unmatching clears it
+export type LineDecision =
+  | { matchStatus: 'confirmed'; matchKind: NonNullable<BankStatementLine['matchKind']>; matchId: string }
+  | { matchStatus: 'ignored' | 'unmatched' };
+
+export type PipelineRuleInput = Pick<TaskPipelineRule, 'documentStatus' | 'templateId' | 'closesOn' | 'isActive'>;
+
+type Query = Record<string, string | number | undefined>;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// The API serializes every Date as an ISO string; turn them back into Dates
+const reviveDates = (_key: string, value: unknown) =>
+  typeof value === 'string' && ISO_DATE.test(value) ? new Date(value) : value;
+
 class DatabaseService {
-  private config: DatabaseConfig | null = null;
-  private isConnected = false;
+  private connected = false;
+  private connectionInfo: ConnectionInfo | null = null;
 
   async initialize(): Promise<boolean> {
     try {
-      // Load configuration from localStorage
-      const savedConfig = localStorage.getItem('apiConfig');
-      if (savedConfig) {
-        const config = JSON.parse(savedConfig);
-        if (config.mysql?.enabled && config.mysql?.config) {
-          this.config = config.mysql.config;
-          // Test connection
-          const testResult = await this.testConnection();
-          this.isConnected = testResult;
-          return testResult;
-        }
-      }
-      return false;
+      this.connected = await this.testConnection();
+      return this.connected;
     } catch (error) {
       console.error('Database initialization error:', error);
+      this.connected = false;
       return false;
     }
   }
 
   async testConnection(): Promise<boolean> {
-    if (!this.config) return false;
-
     try {
-      const response = await fetch('/api/test-db-connection.php', {
+      const response = await fetch('/api/test-db-connection', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(this.config),
       });
 
       if (response.ok) {
         const result = await response.json();
+        if (result.success) {
+          this.connectionInfo = { driver: result.driver, serverInfo: result.serverInfo };
+        }
         return result.success;
       }
       return false;
@@ -63,37 +164,64 @@ class DatabaseService {
     }
   }
 
-  async query(sql: string, params: any[] = []): Promise<QueryResult> {
-    if (!this.isConnected || !this.config) {
+  private async request<T>(method: string, path: string, body?: unknown, query: Query = {}): Promise<ApiResult<T>> {
+    if (!this.connected) {
       return {
         success: false,
         error: 'Database not connected'
       };
     }
+    return this.send<T>(method, path, body, query);
+  }
+
+  // The session travels in an httpOnly cookie, so no credentials are handled here
+  private async send<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    query: Query = {},
+    headers: Record<string, string> = {}
+  ): Promise<ApiResult<T>> {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.set(key, String(value));
+      }
+    });
+    const search = params.toString();
 
     try {
-      const response = await fetch('/api/db-query.php', {
-        method: 'POST',
+      const response = await fetch(`/api${path}${search ? `?${search}` : ''}`, {
+        method,
         headers: {
           'Content-Type': 'application/json',
+          ...headers,
         },
-        body: JSON.stringify({
-          config: this.config,
-          sql,
-          params
-        }),
+        credentials: 'same-origin',
+        body: body === undefined ? undefined : JSON.stringify(body),
       });
 
-      if (response.ok) {
-        return await response.json();
-      } else {
-        const error = await response.text();
+      // Let the auth context sign the user out when their session has ended
+      if (response.status === 401 && !path.startsWith('/auth/')) {
+        window.dispatchEvent(new CustomEvent('sessionExpired'));
+      }
+
+      const text = await response.text();
+      try {
+        return { ...JSON.parse(text, reviveDates), status: response.status };
+      } catch {
         return {
           success: false,
-          error: `Query failed: ${error}`
+          error: `Request failed: ${response.status} ${response.statusText}`,
+          status: response.status
         };
       }
     } catch (error) {
+      // The server is unreachable; let the app switch to working offline
+      if (this.connected) {
+        this.connected = false;
+        window.dispatchEvent(new CustomEvent('connectionLost'));
+      }
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown database error'
@@ -101,475 +229,348 @@ class DatabaseService {
     }
   }
 
+  // Authentication
+  async login(email: string, password: string): Promise<ApiResult<User>> {
+    return this.send('POST', '/auth/login', { email, password });
+  }
+
+  async logout(): Promise<ApiResult<void>> {
+    return this.send('POST', '/auth/logout');
+  }
+
+  async getCurrentUser(): Promise<ApiResult<User>> {
+    return this.send('GET', '/auth/me');
+  }
+
   // User operations
-  async getUsers(): Promise<QueryResult> {
-    const sql = `
-      SELECT id, email, name, role, is_active as isActive, 
-             created_at as createdAt, last_login as lastLogin
-      FROM users 
-      ORDER BY created_at DESC
-    `;
-    return this.query(sql);
-  }
-
-  async createUser(userData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO users (email, name, role, password_hash, is_active, created_at)
-      VALUES (?, ?, ?, ?, ?, NOW())
-    `;
-    return this.query(sql, [
-      userData.email,
-      userData.name,
-      userData.role,
-      userData.passwordHash || '$2b$10$defaulthash', // In real app, hash the password
-      userData.isActive ? 1 : 0
-    ]);
-  }
-
-  async updateUser(userId: string, userData: any): Promise<QueryResult> {
-    const sql = `
-      UPDATE users 
-      SET name = ?, role = ?, is_active = ?, updated_at = NOW()
-      WHERE id = ?
-    `;
-    return this.query(sql, [
-      userData.name,
-      userData.role,
-      userData.isActive ? 1 : 0,
-      userId
-    ]);
+  async getUsers(): Promise<ApiResult<User[]>> {
+    return this.request('GET', '/users');
+  }
+
+  async createUser(userData: Pick<User, 'email' | 'name' | 'role' | 'isActive'> & { password: string }): Promise<ApiResult<User>> {
+    return this.request('POST', '/users', userData);
+  }
+
+  async updateUser(userId: string, userData: Partial<Pick<User, 'name' | 'role' | 'isActive'>> & { password?: string }): Promise<ApiResult<User>> {
+    return this.request('PUT', `/users/${userId}`, userData);
+  }
+
+  // Sends the user's full effective permission set; the server stores the overrides
+  async updateUserPermissions(userId: string, permissions: Pick<Permission, 'module' | 'action' | 'granted'>[]): Promise<ApiResult<User>> {
+    return this.request('PUT', `/users/${userId}/permissions`, { permissions });
   }
 
   // Customer operations
-  async getCustomers(): Promise<QueryResult> {
-    const sql = `
-      SELECT c.*, 
-             GROUP_CONCAT(d.document_number) as documents
-      FROM customers c
-      LEFT JOIN documents d ON d.customer_phone = c.phone
-      GROUP BY c.id
-      ORDER BY c.created_at DESC
-    `;
-    return this.query(sql);
-  }
-
-  async createCustomer(customerData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO customers (name, phone, email, address, created_at)
-      VALUES (?, ?, ?, ?, NOW())
-    `;
-    return this.query(sql, [
-      customerData.name,
-      customerData.phone,
-      customerData.email,
-      customerData.address
-    ]);
-  }
-
-  async updateCustomer(customerId: string, customerData: any): Promise<QueryResult> {
-    const sql = `
-      UPDATE customers 
-      SET name = ?, phone = ?, email = ?, address = ?
-      WHERE id = ?
-    `;
-    return this.query(sql, [
-      customerData.name,
-      customerData.phone,
-      customerData.email,
-      customerData.address,
-      customerId
-    ]);
+  async getCustomers(): Promise<ApiResult<Customer[]>> {
+    return this.request('GET', '/customers');
+  }
+
+  async createCustomer(customerData: Pick<Customer, 'name' | 'phone' | 'email' | 'address'>): Promise<ApiResult<Customer>> {
+    return this.request('POST', '/customers', customerData);
+  }
+
+  async updateCustomer(customerId: string, customerData: Partial<Customer>): Promise<ApiResult<Customer>> {
+    return this.request('PUT', `/customers/${customerId}`, customerData);
   }
 
   // Builder operations
-  async getBuilders(): Promise<QueryResult> {
-    const sql = `
-      SELECT b.*, 
-             GROUP_CONCAT(d.document_number) as documents
-      FROM builders b
-      LEFT JOIN documents d ON d.builder_name = b.name
-      GROUP BY b.id
-      ORDER BY b.created_at DESC
-    `;
-    return this.query(sql);
-  }
-
-  async createBuilder(builderData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO builders (name, contact_person, phone, email, address, registration_number, created_at)
-      VALUES (?, ?, ?, ?, ?, ?, NOW())
-    `;
-    return this.query(sql, [
-      builderData.name,
-      builderData.contactPerson,
-      builderData.phone,
-      builderData.email,
-      builderData.address,
-      builderData.registrationNumber
-    ]);
-  }
-
-  async updateBuilder(builderId: string, builderData: any): Promise<QueryResult> {
-    const sql = `
-      UPDATE builders 
-      SET name = ?, contact_person = ?, phone = ?, email = ?, address = ?, registration_number = ?
-      WHERE id = ?
-    `;
-    return this.query(sql, [
-      builderData.name,
-      builderData.contactPerson,
-      builderData.phone,
-      builderData.email,
-      builderData.address,
-      builderData.registrationNumber,
-      builderId
-    ]);
+  async getBuilders(): Promise<ApiResult<Builder[]>> {
+    return this.request('GET', '/builders');
   }
 
-  // Document operations
-  async getDocuments(): Promise<QueryResult> {
-    const sql = `
-      SELECT * FROM documents 
-      ORDER BY created_at DESC
-    `;
-    return this.query(sql);
-  }
-
-  async createDocument(documentData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO documents (
-        document_number, customer_name, customer_phone, customer_email,
-        builder_name, property_details, document_type, status,
-        assigned_to, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
-    `;
-    return this.query(sql, [
-      documentData.documentNumber,
-      documentData.customerName,
-      documentData.customerPhone,
-      documentData.customerEmail,
-      documentData.builderName,
-      documentData.propertyDetails,
-      documentData.documentType,
-      documentData.status || 'pending_collection',
-      documentData.assignedTo
-    ]);
-  }
-
-  async updateDocument(documentId: string, documentData: any): Promise<QueryResult> {
-    const fields = [];
-    const values = [];
-
-    Object.keys(documentData).forEach(key => {
-      if (documentData[key] !== undefined) {
-        fields.push(`${key} = ?`);
-        values.push(documentData[key]);
-      }
-    });
+  async createBuilder(builderData: Omit<Builder, 'id' | 'documents' | 'createdAt'>): Promise<ApiResult<Builder>> {
+    return this.request('POST', '/builders', builderData);
+  }
 
-    if (fields.length === 0) {
-      return { success: false, error: 'No fields to update' };
-    }
+  async updateBuilder(builderId: string, builderData: Partial<Builder>): Promise<ApiResult<Builder>> {
+    return this.request('PUT', `/builders/${builderId}`, builderData);
+  }
 
-    fields.push('updated_at = NOW()');
-    values.push(documentId);
+  // Document operations
+  async getDocuments(): Promise<ApiResult<Document[]>> {
+    return this.request('GET', '/documents');
+  }
 
-    const sql = `UPDATE documents SET ${fields.join(', ')} WHERE id = ?`;
-    return this.query(sql, values);
+  async createDocument(documentData: Partial<Document>): Promise<ApiResult<Document>> {
+    return this.request('POST', '/documents', documentData);
+  }
+
+  async updateDocument(documentId: string, documentData: DocumentUpdate): Promise<ApiResult<Document>> {
+    return this.request('PATCH', `/documents/${documentId}`, documentData);
   }
 
   // Payment operations
-  async getPayments(): Promise<QueryResult> {
-    const sql = `
-      SELECT * FROM payments 
-      ORDER BY created_at DESC
-    `;
-    return this.query(sql);
-  }
-
-  async createPayment(paymentData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO payments (
-        document_id, agreement_value, consideration_amount, dhc_amount,
-        total_amount, paid_amount, pending_amount, payment_status,
-        payment_method, payment_date, challan_number, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
-    `;
-    return this.query(sql, [
-      paymentData.documentId,
-      paymentData.agreementValue,
-      paymentData.considerationAmount,
-      paymentData.dhcAmount,
-      paymentData.totalAmount,
-      paymentData.paidAmount,
-      paymentData.pendingAmount,
-      paymentData.paymentStatus,
-      paymentData.paymentMethod,
-      paymentData.paymentDate,
-      paymentData.challanNumber
-    ]);
+  async getPayments(): Promise<ApiResult<Payment[]>> {
+    return this.request('GET', '/payments');
+  }
+
+  async createPayment(paymentData: PaymentInput): Promise<ApiResult<Payment>> {
+    return this.request('POST', '/payments', paymentData);
+  }
+
+  async updatePayment(paymentId: string, paymentData: Partial<Payment>): Promise<ApiResult<Payment>> {
+    return this.request('PATCH', `/payments/${paymentId}`, paymentData);
+  }
+
+  async deletePayment(paymentId: string): Promise<ApiResult<void>> {
+    return this.request('DELETE', `/payments/${paymentId}`);
+  }
+
+  // Transaction ledger; each call returns the payment with its updated totals
+  async addPaymentTransaction(paymentId: string, transaction: TransactionInput): Promise<ApiResult<Payment>> {
+    return this.request('POST', `/payments/${paymentId}/transactions`, transaction);
+  }
+
+  async updatePaymentTransaction(
+    paymentId: string,
+    transactionId: string,
+    transaction: TransactionUpdate
+  ): Promise<ApiResult<Payment>> {
+    return this.request('PATCH', `/payments/${paymentId}/transactions/${transactionId}`, transaction);
+  }
+
+  async deletePaymentTransaction(paymentId: string, transactionId: string): Promise<ApiResult<Payment>> {
+    return this.request('DELETE', `/payments/${paymentId}/transactions/${transactionId}`);
+  }
+
+  async issueReceipt(paymentId: string, receipt: ReceiptInput): Promise<ApiResult<Payment>> {
+    return this.request('POST', `/payments/${paymentId}/receipts`, receipt);
+  }
+
+  async requestRefund(paymentId: string, refund: RefundInput): Promise<ApiResult<Payment>> {
+    return this.request('POST', `/payments/${paymentId}/refunds`, refund);
+  }
+
+  async decideRefund(paymentId: string, refundId: string, decision: RefundDecision): Promise<ApiResult<Payment>> {
+    return this.request('PATCH', `/payments/${paymentId}/refunds/${refundId}`, decision);
   }
 
   // Challan operations
-  async getChallans(): Promise<QueryResult> {
-    const sql = `
-      SELECT * FROM challans 
-      ORDER BY created_at DESC
-    `;
-    return this.query(sql);
-  }
-
-  async createChallan(challanData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO challans (
-        document_id, challan_number, amount, filled_by, filled_at,
-        status, notes, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, NOW(), ?, ?, NOW(), NOW())
-    `;
-    return this.query(sql, [
-      challanData.documentId,
-      challanData.challanNumber,
-      challanData.amount,
-      challanData.filledBy,
-      challanData.status || 'draft',
-      challanData.notes
-    ]);
+  async getChallans(): Promise<ApiResult<Challan[]>> {
+    return this.request('GET', '/challans');
+  }
+
+  async createChallan(challanData: Partial<Challan>): Promise<ApiResult<Challan>> {
+    return this.request('POST', '/challans', challanData);
+  }
+
+  async updateChallan(challanId: string, challanData: Partial<Challan>): Promise<ApiResult<Challan>> {
+    return this.request('PATCH', `/challans/${challanId}`, challanData);
+  }
+
+  async deleteChallan(challanId: string): Promise<ApiResult<void>> {
+    return this.request('DELETE', `/challans/${challanId}`);
+  }
+
+  async submitChallan(challanId: string): Promise<ApiResult<Challan>> {
+    return this.request('POST', `/challans/${challanId}/submit`);
+  }
+
+  async reviewChallan(challanId: string, review: ChallanReviewInput): Promise<ApiResult<Challan>> {
+    return this.request('POST', `/challans/${challanId}/review`, review);
+  }
+
+  // Notifications for the signed-in user
+  async getNotifications(): Promise<ApiResult<AppNotification[]>> {
+    return this.request('GET', '/notifications');
+  }
+
+  async markNotificationRead(notificationId: string): Promise<ApiResult<AppNotification>> {
+    return this.request('POST', `/notifications/${notificationId}/read`);
+  }
+
+  async markAllNotificationsRead(): Promise<ApiResult<void>> {
+    return this.request('POST', '/notifications/read-all');
+  }
+
+  // Bank reconciliation
+  async getBankStatements(): Promise<ApiResult<BankStatement[]>> {
+    return this.request('GET', '/reconciliation/statements');
+  }
+
+  async importBankStatement(statement: StatementImport): Promise<ApiResult<BankStatement>> {
+    return this.request('POST', '/reconciliation/statements', statement);
+  }
+
+  async decideStatementLine(statementId: string, lineId: string, decision: LineDecision): Promise<ApiResult<BankStatement>> {
+    return this.request('PATCH', `/reconciliation/statements/${statementId}/lines/${lineId}`, decision);
+  }
+
+  async deleteBankStatement(statementId: string): Promise<ApiResult<void>> {
+    return this.request('DELETE', `/reconciliation/statements/${statementId}`);
+  }
+
+  // Replays a change queued while offline. Edits carry the updatedAt they were
+  // made against, so the server can refuse them if the record moved on.
+  async replayChange<T>(change: PendingChange): Promise<ApiResult<T>> {
+    const headers: Record<string, string> = change.baseUpdatedAt
+      ? { 'If-Unmodified-Since': change.baseUpdatedAt.toUTCString() }
+      : {};
+    return this.send<T>(change.method, change.path, change.body, {}, headers);
   }
 
   isConnected(): boolean {
-    return this.isConnected;
-  }
-
-  // Salary management queries
-  async createSalaryRecord(salaryData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO salary_records (
-        user_id, user_name, user_role, base_salary, allowances, deductions,
-        overtime, bonus, gross_salary, net_salary, pay_period_month, pay_period_year,
-        pay_date, status, payment_method, bank_details, notes, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
-    `;
-    return this.query(sql, [
-      salaryData.userId,
-      salaryData.userName,
-      salaryData.userRole,
-      salaryData.baseSalary,
-      JSON.stringify(salaryData.allowances),
-      JSON.stringify(salaryData.deductions),
-      JSON.stringify(salaryData.overtime),
-      salaryData.bonus,
-      salaryData.grossSalary,
-      salaryData.netSalary,
-      salaryData.payPeriod.month,
-      salaryData.payPeriod.year,
-      salaryData.payDate,
-      salaryData.status,
-      salaryData.paymentMethod,
-      JSON.stringify(salaryData.bankDetails),
-      salaryData.notes
-    ]);
-  }
-
-  async getSalaryRecords(filters: any = {}): Promise<QueryResult> {
-    let sql = 'SELECT * FROM salary_records WHERE 1=1';
-    const params: any[] = [];
-
-    if (filters.userId) {
-      sql += ' AND user_id = ?';
-      params.push(filters.userId);
-    }
+    return this.connected;
+  }
 
-    if (filters.month && filters.year) {
-      sql += ' AND pay_period_month = ? AND pay_period_year = ?';
-      params.push(filters.month, filters.year);
-    }
+  // Attendance operations; the server always clocks in/out the signed-in user
+  async getAttendance(filters: { userId?: string; from?: string; to?: string } = {}): Promise<ApiResult<AttendanceRecord[]>> {
+    return this.request('GET', '/attendance', undefined, filters);
+  }
 
-    if (filters.status) {
-      sql += ' AND status = ?';
-      params.push(filters.status);
-    }
+  async clockIn(location?: string, notes?: string): Promise<ApiResult<AttendanceRecord>> {
+    return this.request('POST', '/attendance/clock-in', { location, notes });
+  }
 
-    sql += ' ORDER BY created_at DESC';
-    return this.query(sql, params);
-  }
-
-  async updateSalaryRecord(recordId: string, salaryData: any): Promise<QueryResult> {
-    const fields = [];
-    const values = [];
-
-    Object.keys(salaryData).forEach(key => {
-      if (salaryData[key] !== undefined) {
-        if (key === 'allowances' || key === 'deductions' || key === 'overtime' || key === 'bankDetails') {
-          fields.push(`${key} = ?`);
-          values.push(JSON.stringify(salaryData[key]));
-        } else if (key === 'payPeriod') {
-          fields.push('pay_period_month = ?', 'pay_period_year = ?');
-          values.push(salaryData[key].month, salaryData[key].year);
-        } else {
-          fields.push(`${key} = ?`);
-          values.push(salaryData[key]);
-        }
-      }
-    });
+  async clockOut(notes?: string): Promise<ApiResult<AttendanceRecord>> {
+    return this.request('POST', '/attendance/clock-out', { notes });
+  }
 
-    if (fields.length === 0) {
-      return { success: false, error: 'No fields to update' };
-    }
+  // Salary management
+  async createSalaryRecord(salaryData: Partial<SalaryRecord>): Promise<ApiResult<SalaryRecord>> {
+    return this.request('POST', '/salary-records', salaryData);
+  }
 
-    fields.push('updated_at = NOW()');
-    values.push(recordId);
-
-    const sql = `UPDATE salary_records SET ${fields.join(', ')} WHERE id = ?`;
-    return this.query(sql, values);
-  }
-
-  async createStaffConfig(configData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO staff_salary_configs (
-        user_id, base_salary, allowances, deductions, overtime_rate,
-        payment_method, bank_details, is_active, effective_from, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
-    `;
-    return this.query(sql, [
-      configData.userId,
-      configData.baseSalary,
-      JSON.stringify(configData.allowances),
-      JSON.stringify(configData.deductions),
-      configData.overtimeRate,
-      configData.paymentMethod,
-      JSON.stringify(configData.bankDetails),
-      configData.isActive ? 1 : 0,
-      configData.effectiveFrom
-    ]);
-  }
-
-  async getStaffConfigs(): Promise<QueryResult> {
-    const sql = 'SELECT * FROM staff_salary_configs WHERE is_active = 1 ORDER BY created_at DESC';
-    return this.query(sql);
-  }
-
-  async updateStaffConfig(configId: string, configData: any): Promise<QueryResult> {
-    const fields = [];
-    const values = [];
-
-    Object.keys(configData).forEach(key => {
-      if (configData[key] !== undefined) {
-        if (key === 'allowances' || key === 'deductions' || key === 'bankDetails') {
-          fields.push(`${key} = ?`);
-          values.push(JSON.stringify(configData[key]));
-        } else if (key === 'isActive') {
-          fields.push(`is_active = ?`);
-          values.push(configData[key] ? 1 : 0);
-        } else {
-          fields.push(`${key} = ?`);
-          values.push(configData[key]);
-        }
-      }
-    });
+  async getSalaryRecords(filters: SalaryRecordFilters = {}): Promise<ApiResult<SalaryRecord[]>> {
+    return this.request('GET', '/salary-records', undefined, { ...filters });
+  }
 
-    if (fields.length === 0) {
-      return { success: false, error: 'No fields to update' };
-    }
+  async updateSalaryRecord(recordId: string, salaryData: Partial<SalaryRecord>): Promise<ApiResult<SalaryRecord>> {
+    return this.request('PATCH', `/salary-records/${recordId}`, salaryData);
+  }
 
-    fields.push('updated_at = NOW()');
-    values.push(configId);
-
-    const sql = `UPDATE staff_salary_configs SET ${fields.join(', ')} WHERE id = ?`;
-    return this.query(sql, values);
-  }
-
-  // Settings management queries
-  async saveSettings(settingsData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO app_settings (setting_key, setting_value, updated_at)
-      VALUES (?, ?, NOW())
-      ON DUPLICATE KEY UPDATE setting_value = VALUES(setting_value), updated_at = NOW()
-    `;
-    return this.query(sql, [settingsData.key, JSON.stringify(settingsData.value)]);
-  }
-
-  async getSettings(): Promise<QueryResult> {
-    const sql = 'SELECT * FROM app_settings ORDER BY setting_key';
-    return this.query(sql);
-  }
-
-  // Task management queries
-  async createTask(taskData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO tasks (
-        title, description, type, priority, status, assigned_to, assigned_by,
-        document_id, customer_id, builder_id, due_date, estimated_hours,
-        tags, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NOW(), NOW())
-    `;
-    return this.query(sql, [
-      taskData.title,
-      taskData.description,
-      taskData.type,
-      taskData.priority,
-      taskData.status,
-      taskData.assignedTo,
-      taskData.assignedBy,
-      taskData.documentId,
-      taskData.customerId,
-      taskData.builderId,
-      taskData.dueDate,
-      taskData.estimatedHours,
-      JSON.stringify(taskData.tags)
-    ]);
-  }
-
-  async getTasks(filters: any = {}): Promise<QueryResult> {
-    let sql = 'SELECT * FROM tasks WHERE 1=1';
-    const params: any[] = [];
-
-    if (filters.assignedTo) {
-      sql += ' AND assigned_to = ?';
-      params.push(filters.assignedTo);
-    }
+  async createStaffConfig(configData: Partial<StaffSalaryConfig>): Promise<ApiResult<StaffSalaryConfig>> {
+    return this.request('POST', '/staff-configs', configData);
+  }
 
-    if (filters.status) {
-      sql += ' AND status = ?';
-      params.push(filters.status);
-    }
+  async getStaffConfigs(): Promise<ApiResult<StaffSalaryConfig[]>> {
+    return this.request('GET', '/staff-configs');
+  }
 
-    if (filters.type) {
-      sql += ' AND type = ?';
-      params.push(filters.type);
-    }
+  async updateStaffConfig(configId: string, configData: Partial<StaffSalaryConfig>): Promise<ApiResult<StaffSalaryConfig>> {
+    return this.request('PATCH', `/staff-configs/${configId}`, configData);
+  }
+
+  // Settings management
+  async saveSettings(settingsData: { key: string; value: unknown }): Promise<ApiResult<{ key: string; value: unknown }>> {
+    return this.request('PUT', `/settings/${encodeURIComponent(settingsData.key)}`, { value: settingsData.value });
+  }
+
+  async getSettings(): Promise<ApiResult<Record<string, unknown>>> {
+    return this.request('GET', '/settings');
+  }
+
+  async getSetting<T>(key: string): Promise<ApiResult<T | null>> {
+    return this.request('GET', `/settings/${encodeURIComponent(key)}`);
+  }
+
+  // Document, challan, task and salary slip numbering
+  async getNumberSequences(): Promise<ApiResult<NumberSequences>> {
+    return this.request('GET', '/sequences');
+  }
+
+  async saveNumberFormats(formats: NumberFormats): Promise<ApiResult<NumberFormats>> {
+    return this.request('PUT', '/sequences/formats', formats);
+  }
+
+  // Task management
+  async createTask(taskData: Partial<Task>): Promise<ApiResult<Task>> {
+    return this.request('POST', '/tasks', taskData);
+  }
+
+  async getTasks(filters: TaskFilters = {}): Promise<ApiResult<Task[]>> {
+    return this.request('GET', '/tasks', undefined, { ...filters });
+  }
+
+  async updateTaskStatus(taskId: string, status: TaskStatus): Promise<ApiResult<Task>> {
+    return this.request('PATCH', `/tasks/${taskId}/status`, { status });
+  }
+
+  async setTaskDependencies(taskId: string, dependencies: string[]): Promise<ApiResult<Task>> {
+    return this.request('PUT', `/tasks/${taskId}/dependencies`, { dependencies });
+  }
+
+  async setChecklistItem(taskId: string, itemId: string, isCompleted: boolean): Promise<ApiResult<Task>> {
+    return this.request('PATCH', `/tasks/${taskId}/checklist/${itemId}`, { isCompleted });
+  }
+
+  async getTaskPermissions(): Promise<ApiResult<TaskPermission[]>> {
+    return this.request('GET', '/tasks/permissions');
+  }
+
+  // Every task upstream and downstream of this one
+  async getTaskChain(taskId: string): Promise<ApiResult<TaskLink[]>> {
+    return this.request('GET', `/tasks/${taskId}/chain`);
+  }
+
+  async addTaskComment(taskId: string, content: string, isInternal = false): Promise<ApiResult<Task>> {
+    return this.request('POST', `/tasks/${taskId}/comments`, { content, isInternal });
+  }
+
+  // Task templates, archived ones included, each with its versions
+  async getTaskTemplates(): Promise<ApiResult<TaskTemplate[]>> {
+    return this.request('GET', '/task-templates');
+  }
+
+  async createTaskTemplate(data: TaskTemplateInput): Promise<ApiResult<TaskTemplate>> {
+    return this.request('POST', '/task-templates', data);
+  }
+
+  // Saves the changes as the template's next version
+  async updateTaskTemplate(id: string, data: TaskTemplateInput): Promise<ApiResult<TaskTemplate>> {
+    return this.request('PUT', `/task-templates/${id}`, data);
+  }
+
+  async cloneTaskTemplate(id: string): Promise<ApiResult<TaskTemplate>> {
+    return this.request('POST', `/task-templates/${id}/clone`);
+  }
+
+  async setTaskTemplateArchived(id: string, isArchived: boolean): Promise<ApiResult<TaskTemplate>> {
+    return this.request('PATCH', `/task-templates/${id}/archive`, { isArchived });
+  }
+
+  // Which document stages open and close tasks
+  async getPipelineRules(): Promise<ApiResult<TaskPipelineRule[]>> {
+    return this.request('GET', '/task-pipeline');
+  }
+
+  async createPipelineRule(data: PipelineRuleInput): Promise<ApiResult<TaskPipelineRule>> {
+    return this.request('POST', '/task-pipeline', data);
+  }
+
+  async updatePipelineRule(id: string, data: PipelineRuleInput): Promise<ApiResult<TaskPipelineRule>> {
+    return this.request('PUT', `/task-pipeline/${id}`, data);
+  }
+
+  async deletePipelineRule(id: string): Promise<ApiResult<void>> {
+    return this.request('DELETE', `/task-pipeline/${id}`);
+  }
+
+  // Audit trail; the server only returns history the caller may see
+  async getActivity(filters: ActivityFilters = {}): Promise<ApiResult<ActivityLog[]>> {
+    return this.request('GET', '/activity', undefined, { ...filters });
+  }
+
+  // Schema migrations
+  async getMigrationStatus(): Promise<ApiResult<MigrationStatus[]>> {
+    return this.request('GET', '/migrations');
+  }
 
-    sql += ' ORDER BY created_at DESC';
-    return this.query(sql, params);
+  async runMigrations(version?: number): Promise<ApiResult<MigrationStatus[]>> {
+    return this.request('POST', '/migrations/up', { version });
   }
 
-  async updateTaskStatus(taskId: string, status: string): Promise<QueryResult> {
-    const sql = `
-      UPDATE tasks 
-      SET status = ?, updated_at = NOW()
-      ${status === 'completed' ? ', completed_at = NOW()' : ''}
-      WHERE id = ?
-    `;
-    return this.query(sql, [status, taskId]);
+  async rollbackMigration(steps = 1): Promise<ApiResult<MigrationStatus[]>> {
+    return this.request('POST', '/migrations/down', { steps });
   }
 
-  async addTaskComment(commentData: any): Promise<QueryResult> {
-    const sql = `
-      INSERT INTO task_comments (
-        task_id, content, author_id, author_name, is_internal, created_at
-      ) VALUES (?, ?, ?, ?, ?, NOW())
-    `;
-    return this.query(sql, [
-      commentData.taskId,
-      commentData.content,
-      commentData.authorId,
-      commentData.authorName,
-      commentData.isInternal ? 1 : 0
-    ]);
+  async getSchemaSql(): Promise<ApiResult<string>> {
+    return this.request('GET', '/migrations/schema');
   }
 
-  getConfig(): DatabaseConfig | null {
-    return this.config;
+  getConnectionInfo(): ConnectionInfo | null {
+    return this.connectionInfo;
   }
 }
 
-export const databaseService = new DatabaseService();
\ No newline at end of file
+export const databaseService = new DatabaseService();
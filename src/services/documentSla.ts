@@ -0,0 +1,92 @@
+// Service levels per document type: how many days a document may take from one
+// stage to another. Rules are stored in app settings and evaluated in the app.
+import { addDays } from 'date-fns';
+import { Document, DocumentStatus, DocumentType } from '../types';
+import { DOCUMENT_STAGES, STAGE_DATE_FIELDS, StampedStatus } from './documentWorkflow';
+
+export const SLA_SETTING_KEY = 'document_slas';
+
+// SLAs warn once less than this share of the allowed time is left
+const WARNING_SHARE = 0.2;
+
+export type SlaStart = 'created' | StampedStatus;
+
+export interface SlaRule {
+  from: SlaStart;
+  to: StampedStatus;
+  days: number;
+}
+
+export type DocumentSlaConfig = Record<DocumentType, SlaRule[]>;
+
+export type SlaState = 'on_track' | 'breaching' | 'breached' | 'met' | 'missed';
+
+export interface SlaResult {
+  rule: SlaRule;
+  state: SlaState;
+  dueAt: Date;
+  completedAt?: Date;
+}
+
+const standardRules = (registrationDays: number, deliveryDays: number): SlaRule[] => [
+  { from: 'created', to: 'collected', days: 3 },
+  { from: 'collected', to: 'registered', days: registrationDays },
+  { from: 'registered', to: 'delivered', days: deliveryDays },
+];
+
+export const DEFAULT_DOCUMENT_SLAS: DocumentSlaConfig = {
+  agreement: standardRules(7, 3),
+  lease_deed: standardRules(7, 3),
+  sale_deed: standardRules(10, 5),
+  mutation: standardRules(15, 5),
+  partition_deed: standardRules(10, 5),
+  gift_deed: standardRules(10, 5),
+};
+
+export const SLA_START_LABELS: Record<SlaStart, string> = {
+  created: 'Created',
+  collected: 'Collected',
+  data_entry_completed: 'Data Entry Completed',
+  registered: 'Registered',
+  delivered: 'Delivered',
+};
+
+const stageIndex = (status: DocumentStatus) => DOCUMENT_STAGES.findIndex(stage => stage.status === status);
+
+const stageDate = (document: Document, stage: SlaStart): Date | undefined =>
+  stage === 'created' ? document.createdAt : document[STAGE_DATE_FIELDS[stage]];
+
+// Settings saved before a document type had rules fall back to the defaults
+export const withDefaultSlas = (saved: Partial<DocumentSlaConfig> | null | undefined): DocumentSlaConfig => ({
+  ...DEFAULT_DOCUMENT_SLAS,
+  ...(saved ?? {}),
+});
+
+export function evaluateSlaRule(document: Document, rule: SlaRule, now = new Date()): SlaResult | null {
+  const startedAt = stageDate(document, rule.from);
+  if (!startedAt) return null;
+
+  const dueAt = addDays(startedAt, rule.days);
+
+  if (stageIndex(document.status) >= stageIndex(rule.to)) {
+    const completedAt = stageDate(document, rule.to);
+    return { rule, dueAt, completedAt, state: completedAt && completedAt > dueAt ? 'missed' : 'met' };
+  }
+
+  const remaining = dueAt.getTime() - now.getTime();
+  const allowed = dueAt.getTime() - startedAt.getTime();
+  const state: SlaState = remaining < 0 ? 'breached' : remaining < allowed * WARNING_SHARE ? 'breaching' : 'on_track';
+  return { rule, dueAt, state };
+}
+
+export function evaluateSlas(document: Document, config: DocumentSlaConfig, now = new Date()): SlaResult[] {
+  return (config[document.documentType] ?? [])
+    .map(rule => evaluateSlaRule(document, rule, now))
+    .filter((result): result is SlaResult => result !== null);
+}
+
+// The open SLA closest to (or furthest past) its deadline, if any is at risk
+export function slaAlert(document: Document, config: DocumentSlaConfig, now = new Date()): SlaResult | undefined {
+  const open = evaluateSlas(document, config, now).filter(result => result.state === 'breached' || result.state === 'breaching');
+  return open.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime())[0];
+}
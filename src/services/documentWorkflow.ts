@@ -0,0 +1,185 @@
+// Document lifecycle shared by the app and the API server: which status moves
+// are allowed, who may make them and what must be true first. The server
+// enforces it on every status change; the UI only offers what it allows.
+import { Challan, DocumentStatus, Payment } from '../types';
+import { can, PermissionCheck, PolicySubject } from './accessPolicy';
+
+export const INITIAL_DOCUMENT_STATUS: DocumentStatus = 'pending_collection';
+
+export const DOCUMENT_STAGES: { status: DocumentStatus; label: string; description: string }[] = [
+  { status: 'pending_collection', label: 'Pending Collection', description: 'Waiting for field collection' },
+  { status: 'collected', label: 'Collected', description: 'Documents collected from field' },
+  { status: 'data_entry_pending', label: 'Data Entry Pending', description: 'Awaiting data entry' },
+  { status: 'data_entry_completed', label: 'Data Entry Completed', description: 'Data entry completed' },
+  { status: 'registration_pending', label: 'Registration Pending', description: 'Awaiting registration' },
+  { status: 'registered', label: 'Registered', description: 'Document registered successfully' },
+  { status: 'ready_for_delivery', label: 'Ready for Delivery', description: 'Ready for delivery to client' },
+  { status: 'delivered', label: 'Delivered', description: 'Document delivered to client' },
+];
+
+export type StampedStatus = 'collected' | 'data_entry_completed' | 'registered' | 'delivered';
+
+// Reaching one of these stages records when it happened on the document
+export type StageDateField = 'collectionDate' | 'dataEntryDate' | 'registrationDate' | 'deliveryDate';
+
+export const STAGE_DATE_FIELDS: Record<StampedStatus, StageDateField> = {
+  collected: 'collectionDate',
+  data_entry_completed: 'dataEntryDate',
+  registered: 'registrationDate',
+  delivered: 'deliveryDate',
+};
+
+export const stageDateField = (status: DocumentStatus): StageDateField | undefined =>
+  STAGE_DATE_FIELDS[status as StampedStatus];
+
+// What the guards look at: the document's challans and payments
+export interface WorkflowContext {
+  challans: Pick<Challan, 'status'>[];
+  payments: Pick<Payment, 'pendingAmount'>[];
+}
+
+interface DocumentGuard {
+  check: (context: WorkflowContext) => boolean;
+  message: string;
+}
+
+const GUARDS = {
+  approvedChallan: {
+    check: ({ challans }) => challans.some(challan => challan.status === 'approved'),
+    message: 'An approved challan is required before registration',
+  },
+  paymentSettled: {
+    check: ({ payments }) => payments.every(payment => payment.pendingAmount <= 0),
+    message: 'All payments must be settled before delivery',
+  },
+} satisfies Record<string, DocumentGuard>;
+
+interface DocumentTransition {
+  from: DocumentStatus;
+  to: DocumentStatus;
+  label: string;
+  permission: PermissionCheck;
+  guards?: DocumentGuard[];
+}
+
+const TRANSITIONS: DocumentTransition[] = [
+  {
+    from: 'pending_collection',
+    to: 'collected',
+    label: 'Mark Collected',
+    permission: { module: 'documents', action: 'collect' },
+  },
+  {
+    from: 'collected',
+    to: 'data_entry_pending',
+    label: 'Send to Data Entry',
+    permission: { module: 'documents', action: 'update' },
+  },
+  {
+    from: 'data_entry_pending',
+    to: 'data_entry_completed',
+    label: 'Complete Data Entry',
+    permission: { module: 'documents', action: 'data_entry' },
+  },
+  {
+    from: 'data_entry_completed',
+    to: 'data_entry_pending',
+    label: 'Reopen Data Entry',
+    permission: { module: 'documents', action: 'data_entry' },
+  },
+  {
+    from: 'data_entry_completed',
+    to: 'registration_pending',
+    label: 'Send for Registration',
+    permission: { module: 'documents', action: 'update' },
+  },
+  {
+    from: 'registration_pending',
+    to: 'data_entry_pending',
+    label: 'Return to Data Entry',
+    permission: { module: 'documents', action: 'update' },
+  },
+  {
+    from: 'registration_pending',
+    to: 'registered',
+    label: 'Mark Registered',
+    permission: { module: 'documents', action: 'update' },
+    guards: [GUARDS.approvedChallan],
+  },
+  {
+    from: 'registered',
+    to: 'ready_for_delivery',
+    label: 'Ready for Delivery',
+    permission: { module: 'documents', action: 'update' },
+  },
+  {
+    from: 'ready_for_delivery',
+    to: 'delivered',
+    label: 'Mark Delivered',
+    permission: { module: 'documents', action: 'deliver' },
+    guards: [GUARDS.paymentSettled],
+  },
+];
+
+export const stageLabel = (status: DocumentStatus): string =>
+  DOCUMENT_STAGES.find(stage => stage.status === status)?.label ?? status;
+
+export type TransitionCheck =
+  | { allowed: true }
+  | { allowed: false; reason: 'invalid' | 'forbidden' | 'blocked'; message: string };
+
+export function checkTransition(
+  subject: PolicySubject | null | undefined,
+  from: DocumentStatus,
+  to: DocumentStatus,
+  context: WorkflowContext
+): TransitionCheck {
+  const transition = TRANSITIONS.find(t => t.from === from && t.to === to);
+  if (!transition) {
+    return {
+      allowed: false,
+      reason: 'invalid',
+      message: `A document cannot move from ${stageLabel(from)} to ${stageLabel(to)}`,
+    };
+  }
+
+  if (!can(subject, transition.permission.module, transition.permission.action)) {
+    return {
+      allowed: false,
+      reason: 'forbidden',
+      message: `You do not have permission to move documents to ${stageLabel(to)}`,
+    };
+  }
+
+  const failed = transition.guards?.find(guard => !guard.check(context));
+  if (failed) {
+    return { allowed: false, reason: 'blocked', message: failed.message };
+  }
+
+  return { allowed: true };
+}
+
+export interface NextStatus {
+  status: DocumentStatus;
+  label: string;
+  // Set when the move is allowed for this user but a precondition is not met yet
+  blockedBy?: string;
+}
+
+// The moves this user may make from the current status. Ones held back by a
+// guard are included with the reason, so the UI can explain what is missing.
+export function nextStatuses(
+  subject: PolicySubject | null | undefined,
+  from: DocumentStatus,
+  context: WorkflowContext
+): NextStatus[] {
+  return TRANSITIONS
+    .filter(t => t.from === from)
+    .map(t => ({ transition: t, result: checkTransition(subject, from, t.to, context) }))
+    .filter(({ result }) => result.allowed || result.reason === 'blocked')
+    .map(({ transition, result }) => ({
+      status: transition.to,
+      label: transition.label,
+      blockedBy: result.allowed ? undefined : result.message,
+    }));
+}
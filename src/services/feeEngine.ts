@@ -0,0 +1,181 @@
+// Government fees charged on a document: stamp duty, registration fee, DHC,
+// metro cess and LBT. Rates are stored in app settings and edited by admins;
+// a rate applies from its effective date until a newer one replaces it.
+import { DocumentType, FeeComponent, FeeLine } from '../types';
+
+export const FEE_RATES_SETTING_KEY = 'fee_rates';
+
+export const FEE_COMPONENT_LABELS: Record<FeeComponent, string> = {
+  stamp_duty: 'Stamp Duty',
+  registration_fee: 'Registration Fee',
+  dhc: 'DHC',
+  metro_cess: 'Metro Cess',
+  lbt: 'LBT',
+};
+
+export type FeeBasis = 'agreement_value' | 'market_value' | 'higher_value' | 'consideration';
+
+export const FEE_BASIS_LABELS: Record<FeeBasis, string> = {
+  agreement_value: 'agreement value',
+  market_value: 'market value',
+  higher_value: 'higher of agreement and market value',
+  consideration: 'consideration amount',
+};
+
+// Matches every document type or jurisdiction
+export const ANY = 'all';
+
+export interface FeeRate {
+  id: string;
+  component: FeeComponent;
+  documentType: DocumentType | typeof ANY;
+  jurisdiction: string;
+  basis: FeeBasis;
+  percent: number;
+  fixedAmount: number;
+  minAmount?: number;
+  maxAmount?: number;
+  // YYYY-MM-DD
+  effectiveFrom: string;
+}
+
+export interface FeeInput {
+  documentType: DocumentType;
+  jurisdiction?: string;
+  agreementValue: number;
+  marketValue?: number;
+  considerationAmount: number;
+  on?: Date;
+}
+
+const CONVEYANCES: DocumentType[] = ['sale_deed', 'agreement'];
+
+const rate = (id: string, values: Omit<FeeRate, 'id' | 'fixedAmount' | 'effectiveFrom'> & Partial<FeeRate>): FeeRate => ({
+  id,
+  fixedAmount: 0,
+  effectiveFrom: '2020-04-01',
+  ...values,
+});
+
+export const DEFAULT_FEE_RATES: FeeRate[] = [
+  ...CONVEYANCES.map(type =>
+    rate(`stamp-${type}`, { component: 'stamp_duty', documentType: type, jurisdiction: ANY, basis: 'higher_value', percent: 5 })
+  ),
+  rate('stamp-gift_deed', { component: 'stamp_duty', documentType: 'gift_deed', jurisdiction: ANY, basis: 'higher_value', percent: 3 }),
+  rate('stamp-partition_deed', { component: 'stamp_duty', documentType: 'partition_deed', jurisdiction: ANY, basis: 'higher_value', percent: 1 }),
+  rate('stamp-lease_deed', { component: 'stamp_duty', documentType: 'lease_deed', jurisdiction: ANY, basis: 'agreement_value', percent: 0.25 }),
+  rate('registration', {
+    component: 'registration_fee',
+    documentType: ANY,
+    jurisdiction: ANY,
+    basis: 'higher_value',
+    percent: 1,
+    maxAmount: 30000,
+  }),
+  rate('dhc', { component: 'dhc', documentType: ANY, jurisdiction: ANY, basis: 'consideration', percent: 5 }),
+  ...['Mumbai', 'Pune'].flatMap(jurisdiction =>
+    CONVEYANCES.map(type =>
+      rate(`metro-${jurisdiction.toLowerCase()}-${type}`, {
+        component: 'metro_cess',
+        documentType: type,
+        jurisdiction,
+        basis: 'higher_value',
+        percent: 1,
+      })
+    )
+  ),
+  ...CONVEYANCES.map(type =>
+    rate(`lbt-pune-${type}`, { component: 'lbt', documentType: type, jurisdiction: 'Pune', basis: 'higher_value', percent: 1 })
+  ),
+];
+
+// Saved settings replace the defaults entirely, so admins can remove a rate
+export const withDefaultFeeRates = (saved: FeeRate[] | null | undefined): FeeRate[] =>
+  Array.isArray(saved) ? saved : DEFAULT_FEE_RATES;
+
+// The jurisdictions that have rates of their own, for pickers
+export const feeJurisdictions = (rates: FeeRate[]): string[] =>
+  [...new Set(rates.map(r => r.jurisdiction).filter(j => j && j !== ANY))].sort();
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+const toDay = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+function baseAmount(basis: FeeBasis, input: FeeInput): number {
+  switch (basis) {
+    case 'agreement_value':
+      return input.agreementValue;
+    case 'market_value':
+      return input.marketValue ?? 0;
+    case 'higher_value':
+      return Math.max(input.agreementValue, input.marketValue ?? 0);
+    case 'consideration':
+      return input.considerationAmount;
+  }
+}
+
+// The rate in force for a component: one for this exact document type and
+// jurisdiction beats a general one, and a later effective date beats an earlier one
+export function applicableRate(rates: FeeRate[], component: FeeComponent, input: FeeInput): FeeRate | undefined {
+  const day = toDay(input.on ?? new Date());
+  const specificity = (r: FeeRate) => (r.documentType === ANY ? 0 : 2) + (r.jurisdiction === ANY ? 0 : 1);
+
+  return rates
+    .filter(r =>
+      r.component === component &&
+      (r.documentType === ANY || r.documentType === input.documentType) &&
+      (r.jurisdiction === ANY || r.jurisdiction === input.jurisdiction) &&
+      r.effectiveFrom <= day
+    )
+    .sort((a, b) => specificity(b) - specificity(a) || b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+}
+
+export function calculateFeeLine(feeRate: FeeRate, input: FeeInput): FeeLine {
+  const base = baseAmount(feeRate.basis, input);
+  const calculated = Math.round((base * feeRate.percent) / 100 + feeRate.fixedAmount);
+  let amount = calculated;
+  const parts: string[] = [];
+
+  if (feeRate.percent > 0) {
+    parts.push(`${feeRate.percent}% of ${FEE_BASIS_LABELS[feeRate.basis]} (${rupees(base)})`);
+  }
+  if (feeRate.fixedAmount > 0) {
+    parts.push(parts.length > 0 ? `plus ${rupees(feeRate.fixedAmount)}` : `Flat ${rupees(feeRate.fixedAmount)}`);
+  }
+  if (feeRate.maxAmount !== undefined && amount > feeRate.maxAmount) {
+    amount = feeRate.maxAmount;
+    parts.push(`capped at ${rupees(feeRate.maxAmount)}`);
+  }
+  if (feeRate.minAmount !== undefined && amount < feeRate.minAmount) {
+    amount = feeRate.minAmount;
+    parts.push(`minimum ${rupees(feeRate.minAmount)}`);
+  }
+
+  const scope = feeRate.jurisdiction === ANY ? '' : ` in ${feeRate.jurisdiction}`;
+  return {
+    component: feeRate.component,
+    label: FEE_COMPONENT_LABELS[feeRate.component],
+    amount,
+    explanation: `${parts.join(', ')}${scope}; rate effective ${feeRate.effectiveFrom}`,
+  };
+}
+
+// Every fee that applies to the document, in component order
+export function calculateFees(rates: FeeRate[], input: FeeInput): FeeLine[] {
+  return (Object.keys(FEE_COMPONENT_LABELS) as FeeComponent[])
+    .map(component => applicableRate(rates, component, input))
+    .filter((r): r is FeeRate => r !== undefined)
+    .map(r => calculateFeeLine(r, input))
+    .filter(line => line.amount > 0);
+}
+
+export const dhcAmountOf = (fees: FeeLine[]): number =>
+  fees.filter(line => line.component === 'dhc').reduce((sum, line) => sum + line.amount, 0);
+
+// Consideration plus every fee. DHC is kept in its own column (payments from
+// before itemised fees only have that), so it is taken from there.
+export const paymentTotal = (considerationAmount: number, dhcAmount: number, fees: FeeLine[]): number =>
+  considerationAmount + dhcAmount + fees.filter(line => line.component !== 'dhc').reduce((sum, line) => sum + line.amount, 0);
@@ -0,0 +1,8 @@
+// Indian financial years run from April to March, written 2026-27
+export const financialYearStart = (date: Date): number =>
+  date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+
+export function financialYearOf(date: Date): string {
+  const start = financialYearStart(date);
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
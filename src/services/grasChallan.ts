@@ -0,0 +1,148 @@
+// The government e-challan (GRAS) for stamp duty and registration fees.
+// Challan staff fill it in here from the document and its payment, then copy
+// it into the portal. Shared by the API and the app.
+import { ChallanHead, Customer, Document, FeeComponent, FeeLine, GrasForm, Payment } from '../types';
+import { amountInWords } from './amountInWords';
+import { financialYearOf } from './financialYear';
+
+export const GRAS_DEPARTMENT = 'Inspector General of Registration';
+
+export const GRAS_PAYMENT_TYPES = [
+  'Stamp Duty and Registration Fee',
+  'Stamp Duty',
+  'Registration Fee',
+] as const;
+
+type HeadKey = 'stamp_duty' | 'registration_fee';
+
+export const HEADS_OF_ACCOUNT: Record<HeadKey, Omit<ChallanHead, 'amount'>> = {
+  stamp_duty: { code: '0030046401', label: 'Sale of Non Judicial Stamps' },
+  registration_fee: { code: '0030063301', label: 'Registration Fees' },
+};
+
+// Metro cess and LBT are levied as additional stamp duty and paid under its
+// head; DHC is not part of the e-challan
+const HEAD_FOR_FEE: Partial<Record<FeeComponent, HeadKey>> = {
+  stamp_duty: 'stamp_duty',
+  metro_cess: 'stamp_duty',
+  lbt: 'stamp_duty',
+  registration_fee: 'registration_fee',
+};
+
+export const PAN_PATTERN = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+export const HEAD_CODE_PATTERN = /^[0-9]{10}$/;
+export const MOBILE_PATTERN = /^[6-9][0-9]{9}$/;
+export const PINCODE_PATTERN = /^[1-9][0-9]{5}$/;
+
+export const grasTotal = (heads: Pick<ChallanHead, 'amount'>[]): number =>
+  heads.reduce((sum, head) => sum + head.amount, 0);
+
+export function headsFromFees(fees: FeeLine[]): ChallanHead[] {
+  return (Object.keys(HEADS_OF_ACCOUNT) as HeadKey[])
+    .map(key => ({
+      ...HEADS_OF_ACCOUNT[key],
+      amount: grasTotal(fees.filter(line => HEAD_FOR_FEE[line.component] === key)),
+    }))
+    .filter(head => head.amount > 0);
+}
+
+function paymentTypeFor(heads: ChallanHead[]): string {
+  const codes = heads.map(head => head.code);
+  if (!codes.includes(HEADS_OF_ACCOUNT.stamp_duty.code)) return 'Registration Fee';
+  if (!codes.includes(HEADS_OF_ACCOUNT.registration_fee.code)) return 'Stamp Duty';
+  return 'Stamp Duty and Registration Fee';
+}
+
+export interface GrasSource {
+  document: Document;
+  payment?: Payment;
+  customer?: Customer;
+  on?: Date;
+}
+
+// Everything the documents and payments already know; the office and any
+// PANs are left for the staff member to fill in
+export function prefillGras({ document, payment, customer, on = new Date() }: GrasSource): GrasForm {
+  const heads = payment ? headsFromFees(payment.fees) : [];
+  return {
+    department: GRAS_DEPARTMENT,
+    paymentType: heads.length > 0 ? paymentTypeFor(heads) : GRAS_PAYMENT_TYPES[0],
+    district: payment?.jurisdiction ?? '',
+    office: '',
+    financialYear: financialYearOf(on),
+    partyName: document.customerName,
+    partyMobile: document.customerPhone,
+    partyAddress: customer?.address ?? '',
+    otherPartyName: document.builderName,
+    propertyDescription: document.propertyDetails,
+    considerationAmount: payment?.considerationAmount,
+    heads: heads.length > 0 ? heads : Object.values(HEADS_OF_ACCOUNT).map(head => ({ ...head, amount: 0 })),
+  };
+}
+
+// Field by field, for the form editor; empty means the form can be saved
+export function grasErrors(form: GrasForm): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const required: [keyof GrasForm, string][] = [
+    ['department', 'Department'],
+    ['district', 'District'],
+    ['office', 'Office'],
+    ['partyName', 'Party name'],
+    ['partyAddress', 'Address'],
+    ['propertyDescription', 'Property details'],
+  ];
+  required.forEach(([field, label]) => {
+    if (!String(form[field] ?? '').trim()) errors[field] = `${label} is required`;
+  });
+
+  if (form.partyPan && !PAN_PATTERN.test(form.partyPan)) errors.partyPan = 'PAN should look like ABCDE1234F';
+  if (form.otherPartyPan && !PAN_PATTERN.test(form.otherPartyPan)) errors.otherPartyPan = 'PAN should look like ABCDE1234F';
+  if (form.partyMobile && !MOBILE_PATTERN.test(form.partyMobile)) errors.partyMobile = 'Enter a 10-digit mobile number';
+  if (form.partyPincode && !PINCODE_PATTERN.test(form.partyPincode)) errors.partyPincode = 'Enter a 6-digit PIN code';
+
+  if (form.heads.some(head => !HEAD_CODE_PATTERN.test(head.code))) {
+    errors.heads = 'Every head of account needs its 10-digit code';
+  } else if (form.heads.some(head => head.amount < 0) || grasTotal(form.heads) <= 0) {
+    errors.heads = 'Enter the amount paid under each head';
+  }
+  return errors;
+}
+
+export interface GrasField {
+  label: string;
+  value: string;
+}
+
+// In the order the portal asks for them, skipping anything left blank
+export function grasFields(form: GrasForm): GrasField[] {
+  const total = grasTotal(form.heads);
+  const remarks = [
+    form.otherPartyName && `Second party: ${form.otherPartyName}`,
+    form.otherPartyPan && `Second party PAN: ${form.otherPartyPan}`,
+    form.considerationAmount !== undefined && `Consideration: ${form.considerationAmount}`,
+    `Property: ${form.propertyDescription}`,
+  ].filter(Boolean).join('; ');
+
+  return [
+    { label: 'Department', value: form.department },
+    { label: 'Type of Payment', value: form.paymentType },
+    { label: 'District', value: form.district },
+    { label: 'Office Name', value: form.office },
+    { label: 'Year', value: form.financialYear },
+    ...form.heads.map(head => ({ label: `${head.code} ${head.label}`, value: String(head.amount) })),
+    { label: 'Total', value: String(total) },
+    { label: 'Amount in Words', value: amountInWords(total) },
+    { label: 'PAN', value: form.partyPan ?? '' },
+    { label: 'Full Name', value: form.partyName },
+    { label: 'Address', value: form.partyAddress },
+    { label: 'PIN', value: form.partyPincode ?? '' },
+    { label: 'Mobile', value: form.partyMobile ?? '' },
+    { label: 'Remarks', value: remarks },
+  ].filter(field => field.value !== '');
+}
+
+export const grasCopyText = (form: GrasForm): string =>
+  grasFields(form).map(field => `${field.label}: ${field.value}`).join('\n');
+
+export const grasJson = (form: GrasForm): string =>
+  JSON.stringify({ ...form, total: grasTotal(form.heads), totalInWords: amountInWords(grasTotal(form.heads)) }, null, 2);
@@ -0,0 +1,111 @@
+// Formats for the numbers the server gives documents, challans, tasks and
+// salary slips. Counters restart every April, so every format has to name the
+// financial year. Formats are stored in app settings. Shared by the API and
+// the app.
+import { DocumentType, NumberSeries } from '../types';
+import { financialYearOf, financialYearStart } from './financialYear';
+
+export const NUMBER_FORMATS_SETTING_KEY = 'number_formats';
+
+export type NumberFormats = Record<NumberSeries, string>;
+
+export const NUMBER_SERIES: NumberSeries[] = ['document', 'challan', 'task', 'salary'];
+
+export const NUMBER_SERIES_LABELS: Record<NumberSeries, string> = {
+  document: 'Documents',
+  challan: 'Challans',
+  task: 'Tasks',
+  salary: 'Salary Slips',
+};
+
+// What {PREFIX} stands for; documents use their type instead
+const SERIES_PREFIXES: Record<NumberSeries, string> = {
+  document: 'DOC',
+  challan: 'CHALLAN',
+  task: 'TASK',
+  salary: 'SAL',
+};
+
+export const DEFAULT_NUMBER_FORMATS: NumberFormats = {
+  document: '{PREFIX}/{FY}/{SEQ:3}',
+  challan: '{PREFIX}/{FY}/{SEQ:3}',
+  task: '{PREFIX}/{FY}/{SEQ:4}',
+  salary: '{PREFIX}/{FY}/{SEQ:4}',
+};
+
+export const NUMBER_FORMAT_TOKENS: { token: string; meaning: string }[] = [
+  { token: '{PREFIX}', meaning: 'Document type (SALEDEED) or CHALLAN, TASK, SAL' },
+  { token: '{FY}', meaning: 'Financial year, 2026-27' },
+  { token: '{YEAR}', meaning: 'Year the financial year starts, 2026' },
+  { token: '{SEQ:3}', meaning: 'Running number padded to 3 digits' },
+];
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+const KNOWN_TOKENS = ['PREFIX', 'FY', 'YEAR', 'SEQ'];
+const MAX_FORMAT_LENGTH = 60;
+
+export interface NumberParts {
+  prefix: string;
+  date: Date;
+  sequence: number;
+}
+
+// sale_deed numbers start with SALEDEED
+export const numberPrefix = (series: NumberSeries, documentType?: DocumentType): string =>
+  series === 'document' && documentType
+    ? documentType.toUpperCase().replace(/_/g, '')
+    : SERIES_PREFIXES[series];
+
+export function numberFormatError(format: string): string | undefined {
+  if (!format.trim()) return 'Enter a format';
+  if (format.length > MAX_FORMAT_LENGTH) return `Keep the format under ${MAX_FORMAT_LENGTH} characters`;
+
+  const tokens = [...format.matchAll(TOKEN_PATTERN)];
+  const unknown = tokens.find(([, name]) => !KNOWN_TOKENS.includes(name));
+  if (unknown) return `Unknown placeholder ${unknown[0]}`;
+
+  const sequences = tokens.filter(([, name]) => name === 'SEQ');
+  if (sequences.length !== 1) return 'Use {SEQ} exactly once for the running number';
+  const width = sequences[0][2];
+  if (width !== undefined && (Number(width) < 1 || Number(width) > 9)) {
+    return 'Pad the running number to between 1 and 9 digits';
+  }
+  if (!tokens.some(([, name]) => name === 'FY' || name === 'YEAR')) {
+    return 'Numbers restart every April, so include {FY} or {YEAR}';
+  }
+  return undefined;
+}
+
+// Saved formats that no longer pass validation fall back to the default
+export function withDefaultNumberFormats(saved: Partial<NumberFormats> | null | undefined): NumberFormats {
+  const formats = { ...DEFAULT_NUMBER_FORMATS };
+  NUMBER_SERIES.forEach(series => {
+    const format = saved?.[series];
+    if (typeof format === 'string' && !numberFormatError(format)) {
+      formats[series] = format;
+    }
+  });
+  return formats;
+}
+
+const render = (format: string, parts: Omit<NumberParts, 'sequence'>, sequence: (width: number) => string): string =>
+  format.replace(TOKEN_PATTERN, (_match, name: string, width?: string) => {
+    switch (name) {
+      case 'PREFIX': return parts.prefix;
+      case 'FY': return financialYearOf(parts.date);
+      case 'YEAR': return String(financialYearStart(parts.date));
+      default: return sequence(width ? Number(width) : 1);
+    }
+  });
+
+export const renderNumber = (format: string, parts: NumberParts): string =>
+  render(format, parts, width => String(parts.sequence).padStart(width, '0'));
+
+// The number with the running part blanked out. Each distinct scope has its
+// own counter, so types, years and changed formats never share one.
+export const numberScope = (format: string, parts: Omit<NumberParts, 'sequence'>): string =>
+  render(format, parts, () => '#');
+
+// Records made offline show this until the server gives them their number
+export const provisionalNumber = (localId: string): string =>
+  `PENDING-${localId.slice(-6).toUpperCase()}`;
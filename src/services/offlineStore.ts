@@ -0,0 +1,286 @@
+// Local copy of API data in IndexedDB so the app keeps working without a
+// connection, plus an outbox of mutations that is replayed once it returns.
+import { User } from '../types';
+
+const DB_NAME = 'om-services';
+const DB_VERSION = 3;
+
+export const ENTITY_STORES = [
+  'users',
+  'customers',
+  'builders',
+  'documents',
+  'payments',
+  'challans',
+  'tasks',
+  'attendance',
+  'salaryRecords',
+  'staffConfigs',
+  'bankStatements',
+  'taskTemplates',
+] as const;
+
+export type EntityStore = typeof ENTITY_STORES[number];
+
+const OUTBOX = 'outbox';
+const CONFLICTS = 'conflicts';
+const SESSION = 'session';
+
+export interface PendingChange {
+  id: number;
+  userId: string;
+  entity: EntityStore;
+  recordId: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  body?: unknown;
+  // The record's updatedAt when it was edited offline; sent as If-Unmodified-Since
+  baseUpdatedAt?: Date;
+  description: string;
+  queuedAt: Date;
+}
+
+export interface SyncConflict extends PendingChange {
+  error: string;
+  detectedAt: Date;
+}
+
+export type NewPendingChange = Omit<PendingChange, 'id' | 'userId' | 'queuedAt'>;
+
+interface StoredRecord {
+  id: string;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+// Changes are tagged with the signed-in user so they are only ever replayed
+// under that user's session
+let currentUserId: string | null = null;
+
+export const setOfflineUser = (userId: string | null) => {
+  currentUserId = userId;
+};
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      ENTITY_STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+      if (!db.objectStoreNames.contains(OUTBOX)) {
+        db.createObjectStore(OUTBOX, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(CONFLICTS)) {
+        db.createObjectStore(CONFLICTS, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SESSION)) {
+        db.createObjectStore(SESSION);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+}
+
+// Runs one transaction and resolves with the result of the request the body
+// returns, once the transaction has committed
+async function transact<T>(
+  stores: string | string[],
+  mode: IDBTransactionMode,
+  body: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    const request = body(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// The offline copy is best effort: the app must keep working when IndexedDB
+// is unavailable (private browsing) or a write fails
+async function safely<T>(operation: () => Promise<T>, fallback: T): Promise<T> {
+  try {
+    return await operation();
+  } catch (error) {
+    console.error('Offline store error:', error);
+    return fallback;
+  }
+}
+
+export const createLocalId = (): string => `local-${crypto.randomUUID()}`;
+
+export const isLocalId = (id: string): boolean => id.startsWith('local-');
+
+// Cached records
+
+export function readRecords<T>(entity: EntityStore): Promise<T[]> {
+  return safely(() => transact<T[]>(entity, 'readonly', tx => tx.objectStore(entity).getAll()), []);
+}
+
+// Replaces the cache with fresh server data, keeping records that were
+// created offline and have not been synced yet
+export function cacheRecords<T extends StoredRecord>(entity: EntityStore, records: T[]): Promise<void> {
+  return safely(async () => {
+    const unsynced = (await readRecords<StoredRecord>(entity)).filter(record => isLocalId(record.id));
+    await transact(entity, 'readwrite', tx => {
+      const store = tx.objectStore(entity);
+      store.clear();
+      [...records, ...unsynced].forEach(record => store.put(record));
+    });
+  }, undefined);
+}
+
+export function putRecord<T extends StoredRecord>(entity: EntityStore, record: T): Promise<void> {
+  return safely(() => transact(entity, 'readwrite', tx => {
+    tx.objectStore(entity).put(record);
+  }), undefined);
+}
+
+export function deleteRecord(entity: EntityStore, id: string): Promise<void> {
+  return safely(() => transact(entity, 'readwrite', tx => {
+    tx.objectStore(entity).delete(id);
+  }), undefined);
+}
+
+// Outbox
+
+// Saves the offline copy of a record and queues the API call that makes the
+// same change on the server
+export function queueChange<T extends StoredRecord>(change: NewPendingChange, record?: T): Promise<void> {
+  if (!currentUserId) return Promise.resolve();
+  const userId = currentUserId;
+
+  return safely(async () => {
+    await transact([OUTBOX, change.entity], 'readwrite', tx => {
+      tx.objectStore(OUTBOX).add({ ...change, userId, queuedAt: new Date() });
+      // A DELETE that comes with the record removed something inside it
+      if (record) {
+        tx.objectStore(change.entity).put(record);
+      } else if (change.method === 'DELETE') {
+        tx.objectStore(change.entity).delete(change.recordId);
+      }
+    });
+    window.dispatchEvent(new CustomEvent('offlineChangesUpdated'));
+  }, undefined);
+}
+
+export async function listPendingChanges(userId: string): Promise<PendingChange[]> {
+  const changes = await safely(() => transact<PendingChange[]>(OUTBOX, 'readonly', tx => tx.objectStore(OUTBOX).getAll()), []);
+  return changes.filter(change => change.userId === userId).sort((a, b) => a.id - b.id);
+}
+
+export function removePendingChange(id: number): Promise<void> {
+  return safely(() => transact(OUTBOX, 'readwrite', tx => {
+    tx.objectStore(OUTBOX).delete(id);
+  }), undefined);
+}
+
+const replaceId = <T>(value: T, from: string, to: string): T => {
+  if (value === from) return to as T;
+  if (Array.isArray(value)) return value.map(item => replaceId(item, from, to)) as T;
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceId(item, from, to)])
+    ) as T;
+  }
+  return value;
+};
+
+// Once a record created offline is saved, the server's id replaces the local
+// one everywhere it was used: later queued changes and related records
+export function remapLocalId(entity: EntityStore, localId: string, saved: StoredRecord): Promise<void> {
+  return safely(() => transact([OUTBOX, ...ENTITY_STORES], 'readwrite', tx => {
+    const outbox = tx.objectStore(OUTBOX);
+    outbox.openCursor().onsuccess = event => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+      if (!cursor) return;
+      const change = cursor.value as PendingChange;
+      cursor.update({
+        ...change,
+        recordId: change.recordId === localId ? saved.id : change.recordId,
+        path: change.path.split('/').map(segment => (segment === localId ? saved.id : segment)).join('/'),
+        body: replaceId(change.body, localId, saved.id),
+      });
+      cursor.continue();
+    };
+
+    ENTITY_STORES.forEach(name => {
+      const store = tx.objectStore(name);
+      if (name === entity) {
+        store.delete(localId);
+        store.put(saved);
+      }
+      store.openCursor().onsuccess = event => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+        if ((cursor.value as StoredRecord).id !== localId) {
+          cursor.update(replaceId(cursor.value, localId, saved.id));
+        }
+        cursor.continue();
+      };
+    });
+  }), undefined);
+}
+
+// Conflicts: changes the server refused on replay, kept for the user to resolve
+
+export function addConflict(change: PendingChange, error: string): Promise<void> {
+  return safely(() => transact([OUTBOX, CONFLICTS], 'readwrite', tx => {
+    tx.objectStore(OUTBOX).delete(change.id);
+    tx.objectStore(CONFLICTS).put({ ...change, error, detectedAt: new Date() });
+  }), undefined);
+}
+
+export async function listConflicts(userId: string): Promise<SyncConflict[]> {
+  const conflicts = await safely(() => transact<SyncConflict[]>(CONFLICTS, 'readonly', tx => tx.objectStore(CONFLICTS).getAll()), []);
+  return conflicts.filter(conflict => conflict.userId === userId);
+}
+
+// Keeping a change re-queues it without the precondition, so it overwrites
+// the server's version; otherwise it is dropped
+export function resolveConflict(conflict: SyncConflict, keepMine: boolean): Promise<void> {
+  return safely(() => transact([OUTBOX, CONFLICTS], 'readwrite', tx => {
+    tx.objectStore(CONFLICTS).delete(conflict.id);
+    if (keepMine) {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id, error, detectedAt, baseUpdatedAt, ...change } = conflict;
+      tx.objectStore(OUTBOX).add({ ...change, queuedAt: new Date() });
+    }
+  }), undefined);
+}
+
+// Session
+
+export function cacheSignedInUser(user: User): Promise<void> {
+  return safely(() => transact(SESSION, 'readwrite', tx => {
+    tx.objectStore(SESSION).put(user, 'user');
+  }), undefined);
+}
+
+export function readSignedInUser(): Promise<User | null> {
+  return safely(async () => (await transact<User | undefined>(SESSION, 'readonly', tx => tx.objectStore(SESSION).get('user'))) ?? null, null);
+}
+
+// Drops cached data on sign-out. Queued changes are kept: they belong to the
+// user who made them and are replayed the next time that user signs in.
+export function clearOfflineData(): Promise<void> {
+  return safely(() => transact([SESSION, ...ENTITY_STORES], 'readwrite', tx => {
+    tx.objectStore(SESSION).clear();
+    ENTITY_STORES.forEach(name => tx.objectStore(name).clear());
+  }), undefined);
+}
@@ -0,0 +1,126 @@
+// A payment's paid and pending amounts, status, method and date all follow
+// from its transactions. Shared by the API and the offline copy in the app.
+import { endOfDay } from 'date-fns';
+import { ClearanceStatus, Payment, PaymentRefund, PaymentTransaction, RefundStatus } from '../types';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentTransaction['method'], string> = {
+  cash: 'Cash',
+  cheque: 'Cheque',
+  online: 'Online Transfer',
+  dd: 'Demand Draft',
+};
+
+export const CLEARANCE_STATUS_LABELS: Record<ClearanceStatus, string> = {
+  pending: 'Awaiting Clearance',
+  cleared: 'Cleared',
+  bounced: 'Bounced',
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  requested: 'Awaiting Approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  paid: 'Paid Out',
+};
+
+// A request is decided by an admin; only an approved refund is paid out
+export const REFUND_TRANSITIONS: Record<RefundStatus, RefundStatus[]> = {
+  requested: ['approved', 'rejected'],
+  approved: ['paid'],
+  rejected: [],
+  paid: [],
+};
+
+// Cheques and DDs are instruments the bank has yet to honour
+export const isInstrument = (method: PaymentTransaction['method']): boolean =>
+  method === 'cheque' || method === 'dd';
+
+// Cash and transfers are already in the account; cheques and DDs wait for the bank
+export const initialClearance = (method: PaymentTransaction['method']): ClearanceStatus =>
+  isInstrument(method) ? 'pending' : 'cleared';
+
+// Dated after today, so it cannot be deposited yet
+export const isPostDated = (transaction: Pick<PaymentTransaction, 'instrumentDate'>, today = new Date()): boolean =>
+  !!transaction.instrumentDate && transaction.instrumentDate > endOfDay(today);
+
+// e.g. "Cheque no. 123456, HDFC Bank"
+export const describeInstrument = (
+  transaction: Pick<PaymentTransaction, 'method' | 'referenceNumber' | 'bankName'>
+): string =>
+  [
+    `${PAYMENT_METHOD_LABELS[transaction.method]}${transaction.referenceNumber ? ` no. ${transaction.referenceNumber}` : ''}`,
+    transaction.bankName,
+  ].filter(Boolean).join(', ');
+
+// Money counts towards the payment once it is in the account; a cheque or DD
+// still with the bank, post-dated or not, counts only when it clears
+export const countsTowardsPaid = (transaction: Pick<PaymentTransaction, 'clearanceStatus'>): boolean =>
+  transaction.clearanceStatus === 'cleared';
+
+export const statusFor = (totalAmount: number, paidAmount: number): Payment['paymentStatus'] =>
+  paidAmount >= totalAmount && totalAmount > 0 ? 'completed' : paidAmount > 0 ? 'partial' : 'pending';
+
+// Refunds still to be decided or paid hold their amount back, so two
+// requests cannot between them return more than was received
+export const committedRefunds = (refunds: Pick<PaymentRefund, 'amount' | 'status'>[]): number =>
+  refunds.filter(refund => refund.status !== 'rejected').reduce((sum, refund) => sum + refund.amount, 0);
+
+export const refundableAmount = (payment: Pick<Payment, 'paidAmount' | 'refunds'>): number =>
+  Math.max(payment.paidAmount - committedRefunds(payment.refunds), 0);
+
+export type LedgerTotals = Pick<
+  Payment,
+  'paidAmount' | 'pendingAmount' | 'refundedAmount' | 'paymentStatus' | 'paymentMethod' | 'paymentDate'
+>;
+
+// Once everything received has been paid back the registration is off, so
+// nothing more is pending and the payment counts as refunded. A partial refund
+// only takes its amount off what has been paid.
+export function ledgerTotals(
+  totalAmount: number,
+  transactions: Pick<PaymentTransaction, 'amount' | 'method' | 'transactionDate' | 'clearanceStatus'>[],
+  refunds: Pick<PaymentRefund, 'amount' | 'status'>[] = []
+): LedgerTotals {
+  const counted = transactions.filter(countsTowardsPaid);
+  const paidAmount = counted.reduce((sum, t) => sum + t.amount, 0);
+  const refundedAmount = refunds.filter(refund => refund.status === 'paid').reduce((sum, refund) => sum + refund.amount, 0);
+  const latest = [...counted].sort((a, b) => b.transactionDate.getTime() - a.transactionDate.getTime())[0];
+  const refunded = refundedAmount > 0 && refundedAmount >= paidAmount;
+  const keptAmount = paidAmount - refundedAmount;
+
+  return {
+    paidAmount,
+    pendingAmount: refunded ? 0 : Math.max(totalAmount - keptAmount, 0),
+    refundedAmount,
+    paymentStatus: refunded ? 'refunded' : statusFor(totalAmount, keptAmount),
+    paymentMethod: latest?.method,
+    paymentDate: latest?.transactionDate,
+  };
+}
+
+export interface RevenueTotals {
+  // Billed on payments that are still going ahead
+  billed: number;
+  received: number;
+  refunded: number;
+  // What was received less what went back out
+  net: number;
+  pending: number;
+}
+
+// Refunds are reported on their own and never netted into what was billed
+export function revenueTotals(
+  payments: Pick<Payment, 'totalAmount' | 'paidAmount' | 'pendingAmount' | 'refundedAmount' | 'paymentStatus'>[]
+): RevenueTotals {
+  const sum = (amount: (payment: typeof payments[number]) => number) =>
+    payments.reduce((total, payment) => total + amount(payment), 0);
+  const received = sum(p => p.paidAmount);
+  const refunded = sum(p => p.refundedAmount);
+  return {
+    billed: sum(p => (p.paymentStatus === 'refunded' ? 0 : p.totalAmount)),
+    received,
+    refunded,
+    net: received - refunded,
+    pending: sum(p => p.pendingAmount),
+  };
+}
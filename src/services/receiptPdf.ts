@@ -0,0 +1,230 @@
+// Receipts and invoices as PDFs, drawn entirely in the browser so they can be
+// printed without a connection. The built-in PDF fonts have no rupee sign,
+// so amounts are written with "Rs.".
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+import { Document, Payment, PaymentReceipt } from '../types';
+import { OM_SERVICES_LOGO_SRC } from '../components/Logo/OmServicesLogo';
+import { amountInWords } from './amountInWords';
+import { isLocalId } from './offlineStore';
+import { describeInstrument, isInstrument } from './paymentLedger';
+
+export interface ReceiptContext {
+  receipt: PaymentReceipt;
+  payment: Payment;
+  document?: Document;
+}
+
+const PAGE_WIDTH = 210;
+const MARGIN = 15;
+const RIGHT = PAGE_WIDTH - MARGIN;
+
+const money = (amount: number) =>
+  `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const titleCase = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, first => first.toUpperCase());
+
+// The logo as a data URL, or null when it cannot be loaded (e.g. not cached offline)
+async function loadLogo(): Promise<string | null> {
+  try {
+    const response = await fetch(OM_SERVICES_LOGO_SRC);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(String(reader.result));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+}
+
+function drawHeader(pdf: jsPDF, logo: string | null, title: string, receipt: PaymentReceipt): number {
+  if (logo) {
+    pdf.addImage(logo, 'PNG', MARGIN, 12, 18, 18);
+  } else {
+    // Same fallback badge the app shows when the logo image is missing
+    pdf.setFillColor(234, 88, 12);
+    pdf.roundedRect(MARGIN, 12, 18, 18, 3, 3, 'F');
+    pdf.setTextColor(255, 255, 255);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(11);
+    pdf.text('OM', MARGIN + 9, 22.5, { align: 'center' });
+  }
+
+  pdf.setTextColor(17, 24, 39);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(18);
+  pdf.text('Om Services', MARGIN + 23, 20);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.setTextColor(107, 114, 128);
+  pdf.text('Property Document & Registration Services', MARGIN + 23, 26);
+
+  pdf.setTextColor(17, 24, 39);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(14);
+  pdf.text(title, RIGHT, 17, { align: 'right' });
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(9);
+  pdf.text(`No. ${receipt.receiptNumber}`, RIGHT, 23, { align: 'right' });
+  pdf.text(`Date: ${format(receipt.issuedAt, 'dd MMM yyyy')}`, RIGHT, 28, { align: 'right' });
+
+  let y = 36;
+  if (isLocalId(receipt.id)) {
+    pdf.setTextColor(185, 28, 28);
+    pdf.text('PROVISIONAL - the final number is assigned once this device syncs', RIGHT, y, { align: 'right' });
+    y += 5;
+  }
+
+  pdf.setDrawColor(229, 231, 235);
+  pdf.line(MARGIN, y, RIGHT, y);
+  return y + 8;
+}
+
+function drawParties(pdf: jsPDF, y: number, heading: string, { payment, document }: ReceiptContext): number {
+  const rows: [string, string][] = [
+    [heading, document ? `${document.customerName} (${document.customerPhone})` : '-'],
+    ['Builder', document?.builderName ?? '-'],
+    ['Document', document ? `${document.documentNumber} - ${titleCase(document.documentType)}` : payment.documentId],
+    ['Payment', `#${payment.id}${payment.challanNumber ? `, challan ${payment.challanNumber}` : ''}`],
+  ];
+
+  pdf.setFontSize(10);
+  rows.forEach(([label, value]) => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(75, 85, 99);
+    pdf.text(label, MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setTextColor(17, 24, 39);
+    pdf.text(value, MARGIN + 35, y);
+    y += 6;
+  });
+  return y + 4;
+}
+
+// Two-column table of description and amount; the last row is the total
+function drawTable(pdf: jsPDF, y: number, heading: string, rows: [string, number][], totalLabel: string): number {
+  pdf.setFillColor(243, 244, 246);
+  pdf.rect(MARGIN, y - 5, RIGHT - MARGIN, 8, 'F');
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(10);
+  pdf.setTextColor(17, 24, 39);
+  pdf.text(heading, MARGIN + 2, y);
+  pdf.text('Amount', RIGHT - 2, y, { align: 'right' });
+  y += 8;
+
+  pdf.setFont('helvetica', 'normal');
+  rows.forEach(([description, amount]) => {
+    const lines = pdf.splitTextToSize(description, 130) as string[];
+    pdf.text(lines, MARGIN + 2, y);
+    pdf.text(money(amount), RIGHT - 2, y, { align: 'right' });
+    y += lines.length * 5 + 2;
+  });
+
+  pdf.setDrawColor(209, 213, 219);
+  pdf.line(MARGIN, y - 3, RIGHT, y - 3);
+  pdf.setFont('helvetica', 'bold');
+  pdf.text(totalLabel, MARGIN + 2, y + 2);
+  pdf.text(money(rows.reduce((sum, [, amount]) => sum + amount, 0)), RIGHT - 2, y + 2, { align: 'right' });
+  return y + 12;
+}
+
+function drawAmountInWords(pdf: jsPDF, y: number, amount: number): number {
+  pdf.setFont('helvetica', 'italic');
+  pdf.setFontSize(10);
+  pdf.setTextColor(17, 24, 39);
+  const lines = pdf.splitTextToSize(amountInWords(amount), RIGHT - MARGIN) as string[];
+  pdf.text(lines, MARGIN, y);
+  return y + lines.length * 5 + 6;
+}
+
+function drawFooter(pdf: jsPDF, notes: string[], signatory: string) {
+  let y = 250;
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(8);
+  pdf.setTextColor(107, 114, 128);
+  notes.forEach(note => {
+    pdf.text(note, MARGIN, y);
+    y += 4;
+  });
+
+  pdf.setFontSize(9);
+  pdf.setTextColor(17, 24, 39);
+  pdf.line(RIGHT - 55, 270, RIGHT, 270);
+  pdf.text(signatory, RIGHT, 275, { align: 'right' });
+  pdf.setFontSize(8);
+  pdf.setTextColor(107, 114, 128);
+  pdf.text('This is a computer-generated document.', PAGE_WIDTH / 2, 287, { align: 'center' });
+}
+
+function drawReceipt(pdf: jsPDF, y: number, context: ReceiptContext) {
+  const { receipt, payment } = context;
+  const transaction = payment.transactions.find(t => t.id === receipt.transactionId);
+
+  const received = transaction
+    ? `${describeInstrument(transaction)} dated ${format(transaction.instrumentDate ?? transaction.transactionDate, 'dd MMM yyyy')}`
+    : 'Payment received';
+  y = drawTable(pdf, y, 'Received', [[received, receipt.amount]], 'Amount Received');
+  y = drawAmountInWords(pdf, y, receipt.amount);
+
+  // What the payment is for, and where it stands after this instalment
+  const breakdown: [string, number][] = [
+    ['Consideration amount', payment.considerationAmount],
+    ...payment.fees.map((line): [string, number] => [line.label, line.amount]),
+  ];
+  if (payment.fees.length === 0 && payment.dhcAmount > 0) {
+    breakdown.push(['DHC', payment.dhcAmount]);
+  }
+  y = drawTable(pdf, y, 'Payment Breakdown', breakdown, 'Total Payable');
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(10);
+  pdf.text(`Paid to date: ${money(payment.paidAmount)}`, MARGIN + 2, y);
+  pdf.text(`Balance due: ${money(payment.pendingAmount)}`, RIGHT - 2, y, { align: 'right' });
+
+  const notes: string[] = [];
+  if (transaction?.clearanceStatus === 'bounced') {
+    notes.push('VOID: this instrument was returned unpaid by the bank.');
+  } else if (transaction?.clearanceStatus === 'pending' && isInstrument(transaction.method)) {
+    notes.push(`Subject to realisation of the ${transaction.method === 'dd' ? 'demand draft' : 'cheque'}.`);
+  }
+  drawFooter(pdf, notes, `Received by ${transaction?.receivedByName ?? receipt.issuedByName ?? 'Om Services'}`);
+}
+
+function drawInvoice(pdf: jsPDF, y: number, { receipt }: ReceiptContext) {
+  y = drawTable(
+    pdf,
+    y,
+    'Service Charges',
+    receipt.lines.map((line): [string, number] => [line.description, line.amount]),
+    'Total Due'
+  );
+  drawAmountInWords(pdf, y, receipt.amount);
+  drawFooter(
+    pdf,
+    ['Government fees and stamp duty are paid on the customer\'s behalf and are not part of this invoice.'],
+    `For Om Services${receipt.issuedByName ? ` - ${receipt.issuedByName}` : ''}`
+  );
+}
+
+export async function buildReceiptPdf(context: ReceiptContext): Promise<jsPDF> {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const isInvoice = context.receipt.kind === 'invoice';
+
+  const y = drawHeader(pdf, await loadLogo(), isInvoice ? 'INVOICE' : 'PAYMENT RECEIPT', context.receipt);
+  const partiesEnd = drawParties(pdf, y, isInvoice ? 'Billed to' : 'Received from', context);
+  if (isInvoice) {
+    drawInvoice(pdf, partiesEnd, context);
+  } else {
+    drawReceipt(pdf, partiesEnd, context);
+  }
+  return pdf;
+}
+
+export async function downloadReceiptPdf(context: ReceiptContext): Promise<void> {
+  const pdf = await buildReceiptPdf(context);
+  pdf.save(`${context.receipt.receiptNumber.replace(/[^\w-]+/g, '-')}.pdf`);
+}
@@ -0,0 +1,144 @@
+// Who owes what and for how long. Each payment's pending amount is aged from
+// the day the payment was raised and grouped by the customer or builder named
+// on its document. Runs in the browser on the payments and documents it has.
+import { differenceInCalendarDays } from 'date-fns';
+import { Document, Payment } from '../types';
+
+export type AgingBucket = 'current' | 'days31to60' | 'days61to90' | 'over90';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days31to60', 'days61to90', 'over90'];
+
+export const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: '0–30 days',
+  days31to60: '31–60 days',
+  days61to90: '61–90 days',
+  over90: '90+ days',
+};
+
+export type AgingGrouping = 'customer' | 'builder';
+
+export type AgingAmounts = Record<AgingBucket, number>;
+
+// One document's outstanding amount; a document may have several payments
+export interface AgingDocument {
+  documentId: string;
+  documentNumber: string;
+  customerName: string;
+  builderName: string;
+  amounts: AgingAmounts;
+  total: number;
+  oldestDays: number;
+}
+
+export interface AgingGroup {
+  name: string;
+  amounts: AgingAmounts;
+  total: number;
+  oldestDays: number;
+  documents: AgingDocument[];
+}
+
+export interface AgingReport {
+  groups: AgingGroup[];
+  amounts: AgingAmounts;
+  total: number;
+}
+
+const emptyAmounts = (): AgingAmounts => ({ current: 0, days31to60: 0, days61to90: 0, over90: 0 });
+
+export function agingBucket(days: number): AgingBucket {
+  if (days <= 30) return 'current';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'over90';
+}
+
+const addAmounts = (into: AgingAmounts, from: AgingAmounts) =>
+  AGING_BUCKETS.forEach(bucket => { into[bucket] += from[bucket]; });
+
+// Payments still owed money, per document. Refunded payments are settled.
+export function agingDocuments(payments: Payment[], documents: Document[], asOf = new Date()): AgingDocument[] {
+  const byDocument = new Map<string, AgingDocument>();
+  payments
+    .filter(payment => payment.pendingAmount > 0 && payment.paymentStatus !== 'refunded')
+    .forEach(payment => {
+      const document = documents.find(d => d.id === payment.documentId);
+      let entry = byDocument.get(payment.documentId);
+      if (!entry) {
+        entry = {
+          documentId: payment.documentId,
+          documentNumber: document?.documentNumber ?? payment.documentId,
+          customerName: document?.customerName.trim() || 'Unknown customer',
+          builderName: document?.builderName.trim() || 'No builder',
+          amounts: emptyAmounts(),
+          total: 0,
+          oldestDays: 0,
+        };
+        byDocument.set(payment.documentId, entry);
+      }
+      const days = Math.max(0, differenceInCalendarDays(asOf, payment.createdAt));
+      entry.amounts[agingBucket(days)] += payment.pendingAmount;
+      entry.total += payment.pendingAmount;
+      entry.oldestDays = Math.max(entry.oldestDays, days);
+    });
+  return [...byDocument.values()];
+}
+
+// Largest debts first; documents within a group oldest first
+export function agingReport(
+  payments: Payment[],
+  documents: Document[],
+  grouping: AgingGrouping,
+  asOf = new Date()
+): AgingReport {
+  const groups = new Map<string, AgingGroup>();
+  const amounts = emptyAmounts();
+
+  agingDocuments(payments, documents, asOf).forEach(document => {
+    const name = grouping === 'customer' ? document.customerName : document.builderName;
+    // Names are typed by hand, so "Sharma " and "sharma" are the same party
+    const key = name.toLowerCase();
+    let group = groups.get(key);
+    if (!group) {
+      group = { name, amounts: emptyAmounts(), total: 0, oldestDays: 0, documents: [] };
+      groups.set(key, group);
+    }
+    addAmounts(group.amounts, document.amounts);
+    addAmounts(amounts, document.amounts);
+    group.total += document.total;
+    group.oldestDays = Math.max(group.oldestDays, document.oldestDays);
+    group.documents.push(document);
+  });
+
+  const sorted = [...groups.values()].sort((a, b) => b.total - a.total);
+  sorted.forEach(group => group.documents.sort((a, b) => b.oldestDays - a.oldestDays));
+  return { groups: sorted, amounts, total: AGING_BUCKETS.reduce((sum, bucket) => sum + amounts[bucket], 0) };
+}
+
+// The report as spreadsheet rows: one per document under its group, with a
+// subtotal per group and a grand total
+export function agingRows(report: AgingReport, grouping: AgingGrouping): (string | number)[][] {
+  const header = [
+    grouping === 'customer' ? 'Customer' : 'Builder',
+    'Document',
+    grouping === 'customer' ? 'Builder' : 'Customer',
+    ...AGING_BUCKETS.map(bucket => AGING_BUCKET_LABELS[bucket]),
+    'Total',
+    'Oldest (days)',
+  ];
+  const amountCells = (amounts: AgingAmounts, total: number) => [...AGING_BUCKETS.map(bucket => amounts[bucket]), total];
+
+  const rows: (string | number)[][] = [header];
+  report.groups.forEach(group => {
+    group.documents.forEach(document => rows.push([
+      group.name,
+      document.documentNumber,
+      grouping === 'customer' ? document.builderName : document.customerName,
+      ...amountCells(document.amounts, document.total),
+      document.oldestDays,
+    ]));
+    rows.push([`${group.name} total`, '', '', ...amountCells(group.amounts, group.total), group.oldestDays]);
+  });
+  rows.push(['Total', '', '', ...amountCells(report.amounts, report.total), '']);
+  return rows;
+}
@@ -0,0 +1,192 @@
+// Matches bank statement lines to the money the app expects to see there:
+// cheques, DDs and transfers received against payments come in, approved
+// challans go out. Runs in the browser, so matching works offline too.
+import { differenceInCalendarDays } from 'date-fns';
+import { BankStatement, BankStatementLine, Challan, MatchKind, MatchStatus, Payment } from '../types';
+import { ParsedLine } from './bankStatement';
+import { PAYMENT_METHOD_LABELS } from './paymentLedger';
+
+export const MATCH_STATUS_LABELS: Record<MatchStatus, string> = {
+  unmatched: 'Unmatched',
+  suggested: 'Suggested',
+  confirmed: 'Confirmed',
+  ignored: 'Ignored',
+};
+
+// Something a statement line can be matched to
+export interface MatchCandidate {
+  kind: MatchKind;
+  id: string;
+  documentId: string;
+  amount: number;
+  direction: BankStatementLine['direction'];
+  date: Date;
+  reference?: string;
+  label: string;
+}
+
+export const candidateKey = (kind: MatchKind, id: string) => `${kind}:${id}`;
+
+// Cash is banked in bulk, so single cash receipts never appear on a statement
+export function matchCandidates(payments: Payment[], challans: Challan[]): MatchCandidate[] {
+  const transactions = payments.flatMap(payment => payment.transactions
+    .filter(transaction => transaction.method !== 'cash' && transaction.clearanceStatus !== 'bounced')
+    .map((transaction): MatchCandidate => ({
+      kind: 'transaction',
+      id: transaction.id,
+      documentId: payment.documentId,
+      amount: transaction.amount,
+      direction: 'credit',
+      date: transaction.depositDate ?? transaction.instrumentDate ?? transaction.transactionDate,
+      reference: transaction.referenceNumber,
+      label: `${PAYMENT_METHOD_LABELS[transaction.method]}${
+        transaction.referenceNumber ? ` ${transaction.referenceNumber}` : ''
+      } on payment ${payment.id}`,
+    })));
+
+  const paidChallans = challans
+    .filter(challan => challan.status === 'approved')
+    .map((challan): MatchCandidate => ({
+      kind: 'challan',
+      id: challan.id,
+      documentId: challan.documentId,
+      amount: challan.amount,
+      direction: 'debit',
+      date: challan.filledAt,
+      reference: challan.challanNumber,
+      label: `Challan ${challan.challanNumber}`,
+    }));
+
+  return [...transactions, ...paidChallans];
+}
+
+const normalise = (text: string) => text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// How sure a match is, 0 to 100. The amount and direction must agree; a
+// reference found on the line is the strongest sign, then how close the dates are.
+export function matchScore(line: ParsedLine, candidate: MatchCandidate): number {
+  if (line.direction !== candidate.direction || Math.abs(line.amount - candidate.amount) >= 0.01) return 0;
+
+  const reference = candidate.reference ? normalise(candidate.reference) : '';
+  const referenced = reference.length >= 4 && normalise(`${line.reference ?? ''} ${line.description}`).includes(reference);
+  const days = Math.abs(differenceInCalendarDays(line.date, candidate.date));
+  if (!referenced && days > 15) return 0;
+
+  return 40 + (referenced ? 40 : 0) + Math.max(20 - days * 2, 0);
+}
+
+// Pairs lines with candidates, best scores first, each used at most once.
+// Candidates already confirmed against another line are passed in as taken.
+export function autoMatch(
+  lines: ParsedLine[],
+  candidates: MatchCandidate[],
+  taken: Set<string> = new Set()
+): (MatchCandidate | undefined)[] {
+  const pairs = lines.flatMap((line, index) => candidates
+    .filter(candidate => !taken.has(candidateKey(candidate.kind, candidate.id)))
+    .map(candidate => ({ index, candidate, score: matchScore(line, candidate) }))
+    .filter(pair => pair.score > 0))
+    .sort((a, b) => b.score - a.score);
+
+  const matches: (MatchCandidate | undefined)[] = lines.map(() => undefined);
+  const used = new Set(taken);
+  pairs.forEach(({ index, candidate }) => {
+    const key = candidateKey(candidate.kind, candidate.id);
+    if (matches[index] || used.has(key)) return;
+    matches[index] = candidate;
+    used.add(key);
+  });
+  return matches;
+}
+
+// Candidates spoken for by a line on any statement, other than the one given
+export function matchedKeys(statements: BankStatement[], exceptLineId?: string): Set<string> {
+  return new Set(statements
+    .flatMap(statement => statement.lines)
+    .filter(line => line.id !== exceptLineId && line.matchKind && line.matchId &&
+      (line.matchStatus === 'confirmed' || line.matchStatus === 'suggested'))
+    .map(line => candidateKey(line.matchKind!, line.matchId!)));
+}
+
+// The same entry shows up again when statements overlap
+export const sameLine = (a: ParsedLine, b: ParsedLine): boolean =>
+  a.date.getTime() === b.date.getTime() &&
+  a.direction === b.direction &&
+  Math.abs(a.amount - b.amount) < 0.01 &&
+  (a.reference ?? '') === (b.reference ?? '') &&
+  a.description === b.description;
+
+export interface DocumentReconciliation {
+  documentId: string;
+  // Received by cheque, DD or transfer, which should reach the bank
+  expectedCredits: number;
+  confirmedCredits: number;
+  challanTotal: number;
+  confirmedDebits: number;
+  governmentFees: number;
+  problems: string[];
+}
+
+const rupees = (amount: number) => `₹${amount.toLocaleString('en-IN')}`;
+
+// Per document: money received that the bank has not shown, challans not seen
+// leaving the account, challans that do not add up to the fees, and payments
+// naming a challan that does not exist
+export function reconcileDocuments(
+  payments: Payment[],
+  challans: Challan[],
+  statements: BankStatement[]
+): DocumentReconciliation[] {
+  const confirmed = new Map(statements
+    .flatMap(statement => statement.lines)
+    .filter(line => line.matchStatus === 'confirmed' && line.matchKind && line.matchId)
+    .map(line => [candidateKey(line.matchKind!, line.matchId!), line.amount]));
+  const candidates = matchCandidates(payments, challans);
+  const documentIds = [...new Set([...payments.map(p => p.documentId), ...challans.map(c => c.documentId)])];
+
+  return documentIds.map(documentId => {
+    const own = candidates.filter(candidate => candidate.documentId === documentId);
+    const total = (direction: MatchCandidate['direction'], onlyConfirmed: boolean) => own
+      .filter(candidate => candidate.direction === direction)
+      .reduce((sum, candidate) => {
+        const banked = confirmed.get(candidateKey(candidate.kind, candidate.id));
+        return sum + (onlyConfirmed ? banked ?? 0 : candidate.amount);
+      }, 0);
+
+    const documentPayments = payments.filter(payment => payment.documentId === documentId && payment.paymentStatus !== 'refunded');
+    const documentChallans = challans.filter(challan => challan.documentId === documentId);
+    const governmentFees = documentPayments
+      .flatMap(payment => payment.fees)
+      .filter(line => line.component !== 'dhc')
+      .reduce((sum, line) => sum + line.amount, 0);
+
+    const result: DocumentReconciliation = {
+      documentId,
+      expectedCredits: total('credit', false),
+      confirmedCredits: total('credit', true),
+      challanTotal: total('debit', false),
+      confirmedDebits: total('debit', true),
+      governmentFees,
+      problems: [],
+    };
+
+    if (result.confirmedCredits < result.expectedCredits) {
+      result.problems.push(
+        `${rupees(result.expectedCredits - result.confirmedCredits)} received by cheque, DD or transfer is not yet matched to the bank`
+      );
+    }
+    if (result.confirmedDebits < result.challanTotal) {
+      result.problems.push(`${rupees(result.challanTotal - result.confirmedDebits)} of approved challans is not yet matched to the bank`);
+    }
+    if (documentChallans.some(challan => challan.status === 'approved') && governmentFees > 0 &&
+      Math.abs(result.challanTotal - governmentFees) >= 1) {
+      result.problems.push(`Approved challans total ${rupees(result.challanTotal)} but the government fees are ${rupees(governmentFees)}`);
+    }
+    documentPayments
+      .filter(payment => payment.challanNumber && !documentChallans.some(c => c.challanNumber === payment.challanNumber))
+      .forEach(payment => {
+        result.problems.push(`Payment ${payment.id} names challan ${payment.challanNumber}, which is not on this document`);
+      });
+    return result;
+  });
+}
@@ -0,0 +1,46 @@
+// Replays changes queued while offline against the API, oldest first
+import { databaseService } from './databaseService';
+import { addConflict, isLocalId, listPendingChanges, remapLocalId, removePendingChange } from './offlineStore';
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  // Set when replay stopped early because the server could not be reached
+  interrupted: boolean;
+}
+
+export async function syncPendingChanges(userId: string): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, conflicts: 0, interrupted: false };
+
+  let pending = await listPendingChanges(userId);
+  while (pending.length > 0) {
+    const [change, ...rest] = pending;
+    pending = rest;
+    const response = await databaseService.replayChange(change);
+
+    if (response.success) {
+      if (change.method === 'POST' && isLocalId(change.recordId) && response.data) {
+        await remapLocalId(change.entity, change.recordId, response.data as { id: string });
+        // The rest of the queue was rewritten with the server's id; replaying
+        // the copies read earlier would still send the local one
+        pending = (await listPendingChanges(userId)).filter(later => later.id > change.id);
+      }
+      await removePendingChange(change.id);
+      result.synced++;
+      continue;
+    }
+
+    // Unreachable server or an ended session: keep the change for later
+    if (response.status === undefined || response.status === 401 || response.status >= 500) {
+      result.interrupted = true;
+      break;
+    }
+
+    // 412 means the record changed on the server since it was edited offline;
+    // any other refusal would fail again, so both wait for the user
+    await addConflict(change, response.error || 'The server rejected this change');
+    result.conflicts++;
+  }
+
+  return result;
+}
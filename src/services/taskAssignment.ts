@@ -0,0 +1,126 @@
+// Picks who gets a task made from a template with auto-assignment rules:
+// active users of the template's role who are at work today and under their
+// daily limit, weighed by the work they already have open. The app runs it
+// on the users, tasks and attendance it has to show who will get the task;
+// the server runs it again when saving, and its decision and the reasons for
+// it are saved on the task.
+import { endOfDay, isSameDay, startOfDay } from 'date-fns';
+import { User } from '../types';
+import { AttendanceRecord, AttendanceStatus, LeaveRequest } from '../types/attendance';
+import { AssignmentCandidate, Task, TaskAssignment, TaskPermission, TaskTemplate, TaskType } from '../types/task';
+
+// An open task without an estimate counts as this many hours
+export const DEFAULT_TASK_HOURS = 1;
+
+const CLOSED_STATUSES: Task['status'][] = ['completed', 'cancelled'];
+
+const AWAY_STATUSES: Partial<Record<AttendanceStatus, string>> = {
+  absent: 'Absent today',
+  on_leave: 'On leave today',
+  holiday: 'On holiday today',
+};
+
+export interface AssignmentContext {
+  users: User[];
+  tasks: Task[];
+  attendance: AttendanceRecord[];
+  leaveRequests: LeaveRequest[];
+  permissions: TaskPermission[];
+  today?: Date;
+}
+
+export interface AssignmentDecision {
+  // Unset when nobody could take the task
+  assignedTo?: string;
+  assignment: TaskAssignment;
+}
+
+const roleLabel = (role?: string) => (role ? role.replace(/_/g, ' ') : 'staff');
+
+const hours = (value: number) => `${Math.round(value * 10) / 10}h`;
+
+function weigh(user: User, taskType: TaskType, context: AssignmentContext, today: Date): AssignmentCandidate {
+  const theirs = context.tasks.filter(task => task.assignedTo === user.id);
+  const open = theirs.filter(task => !CLOSED_STATUSES.includes(task.status));
+  const assignedToday = theirs.filter(task => task.type === taskType && isSameDay(task.createdAt, today)).length;
+
+  const attendance = context.attendance.find(record => record.userId === user.id && isSameDay(record.date, today));
+  const onLeave = context.leaveRequests.some(request =>
+    request.userId === user.id
+    && request.status === 'approved'
+    && startOfDay(request.startDate) <= today
+    && today <= endOfDay(request.endDate)
+  );
+  const limit = context.permissions
+    .find(permission => permission.userId === user.id && permission.taskType === taskType)
+    ?.restrictions.maxTasksPerDay;
+
+  let skipped: string | undefined;
+  if (attendance && AWAY_STATUSES[attendance.status]) {
+    skipped = AWAY_STATUSES[attendance.status];
+  } else if (onLeave) {
+    skipped = 'On approved leave today';
+  } else if (limit !== undefined && assignedToday >= limit) {
+    skipped = `Already given ${assignedToday} of ${limit} such tasks today`;
+  }
+
+  return {
+    userId: user.id,
+    userName: user.name,
+    openTasks: open.length,
+    openHours: open.reduce((sum, task) => sum + (task.estimatedHours ?? DEFAULT_TASK_HOURS), 0),
+    assignedToday,
+    ...(skipped ? { skipped } : {}),
+  };
+}
+
+// least_busy goes by the number of open tasks, balanced by their estimated
+// hours; each falls back on the other, then on the name
+const byWorkload = (workload: TaskAssignment['workload']) => (a: AssignmentCandidate, b: AssignmentCandidate) => {
+  const [first, second] = workload === 'least_busy'
+    ? [a.openTasks - b.openTasks, a.openHours - b.openHours]
+    : [a.openHours - b.openHours, a.openTasks - b.openTasks];
+  return first || second || a.userName.localeCompare(b.userName);
+};
+
+export function autoAssign(
+  template: Pick<TaskTemplate, 'id' | 'type' | 'autoAssignmentRules'>,
+  context: AssignmentContext
+): AssignmentDecision {
+  const today = context.today ?? new Date();
+  const role = template.autoAssignmentRules?.role;
+  const workload = template.autoAssignmentRules?.workload ?? 'balanced';
+
+  const weighed = context.users
+    .filter(user => user.isActive && (!role || user.role === role))
+    .map(user => weigh(user, template.type, context, today))
+    .sort(byWorkload(workload));
+  const available = weighed.filter(candidate => !candidate.skipped);
+  // Recorded in order of preference, those passed over last
+  const candidates = [...available, ...weighed.filter(candidate => candidate.skipped)];
+  const chosen = available[0];
+
+  let reason: string;
+  if (!chosen) {
+    reason = candidates.length === 0
+      ? `There is no active ${roleLabel(role)}`
+      : `No ${roleLabel(role)} can take it today: ${candidates.map(c => `${c.userName} (${c.skipped})`).join(', ')}`;
+  } else if (workload === 'least_busy') {
+    reason = `${chosen.userName} has the fewest open tasks (${chosen.openTasks}) of the ${available.length} ${roleLabel(role)} available today`;
+  } else {
+    reason = `${chosen.userName} has the least open work (${hours(chosen.openHours)} over ${chosen.openTasks} tasks) of the ${available.length} ${roleLabel(role)} available today`;
+  }
+
+  return {
+    assignedTo: chosen?.userId,
+    assignment: { templateId: template.id, role, workload, reason, candidates, decidedAt: new Date() },
+  };
+}
+
+// A document says who it is with in free text; this is the active user it
+// names, by id or by name, if there is one
+export function userNamed(users: User[], name?: string): User | undefined {
+  const wanted = name?.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return users.find(user => user.isActive && (user.id === name || user.name.trim().toLowerCase() === wanted));
+}
@@ -0,0 +1,55 @@
+// Tasks made from a template carry a copy of its checklist. Required items
+// have to be ticked off before the task can be completed, and the fields a
+// template requires have to be filled in when the task is created. Shared by
+// the API and the app.
+import { Task, TaskChecklistItem, TaskStatus, TaskTemplate } from '../types/task';
+
+export const REQUIRED_FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  assignedTo: 'Assignee',
+  documentId: 'Document',
+  customerId: 'Customer',
+  builderId: 'Builder',
+  dueDate: 'Due date',
+  estimatedHours: 'Estimated hours',
+  tags: 'Tags',
+};
+
+export const requiredFieldLabel = (field: string): string => REQUIRED_FIELD_LABELS[field] ?? field;
+
+// The template's required fields that data leaves empty
+export function missingRequiredFields(
+  template: Pick<TaskTemplate, 'requiredFields'>,
+  data: object
+): string[] {
+  return template.requiredFields.filter(field => {
+    const value = (data as Record<string, unknown>)[field];
+    return value === undefined || value === null
+      || (typeof value === 'string' && !value.trim())
+      || (Array.isArray(value) && value.length === 0);
+  });
+}
+
+// A fresh copy of the template's items for a new task, nothing ticked
+export const checklistFromTemplate = (
+  items: Pick<TaskChecklistItem, 'title' | 'description' | 'isRequired'>[]
+): TaskChecklistItem[] =>
+  items.map((item, index) => ({
+    id: String(index),
+    title: item.title,
+    description: item.description,
+    isRequired: item.isRequired,
+    isCompleted: false,
+  }));
+
+export const openRequiredItems = (task: Pick<Task, 'checklist'>): TaskChecklistItem[] =>
+  task.checklist.filter(item => item.isRequired && !item.isCompleted);
+
+// Why the task cannot move to status yet, or undefined when it can
+export function checklistBlock(task: Pick<Task, 'checklist'>, status: TaskStatus): string | undefined {
+  if (status !== 'completed') return undefined;
+  const open = openRequiredItems(task);
+  if (open.length === 0) return undefined;
+  return `Tick off the required checklist ${open.length === 1 ? 'item' : 'items'} first: ${open.map(item => item.title).join(', ')}`;
+}
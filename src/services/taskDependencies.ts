@@ -0,0 +1,110 @@
+// Tasks can wait on other tasks. A task may not be started or completed while
+// any task it depends on is unfinished, and dependencies may never loop back
+// to the task itself. Shared by the API and the app.
+import { Task, TaskLink, TaskStatus } from '../types/task';
+
+// Moving a task to one of these needs every prerequisite completed
+export const DEPENDENT_STATUSES: TaskStatus[] = ['in_progress', 'completed'];
+
+type DependencyEdges = Pick<TaskLink, 'id' | 'dependencies'>;
+
+export const taskLabel = (task: Pick<TaskLink, 'taskNumber' | 'title'>): string =>
+  task.taskNumber ? `${task.taskNumber} ${task.title}` : task.title;
+
+// The loop that giving taskId these dependencies would make, as ids from
+// taskId back round to itself; undefined when there is none
+export function dependencyCycle(
+  taskId: string,
+  dependencies: string[],
+  tasks: DependencyEdges[]
+): string[] | undefined {
+  const edges = new Map(tasks.map(task => [task.id, task.dependencies]));
+  const seen = new Set<string>();
+
+  const walk = (id: string, path: string[]): string[] | undefined => {
+    if (id === taskId) return [...path, id];
+    if (seen.has(id)) return undefined;
+    seen.add(id);
+    for (const next of edges.get(id) ?? []) {
+      const cycle = walk(next, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return undefined;
+  };
+
+  for (const dependency of dependencies) {
+    const cycle = walk(dependency, [taskId]);
+    if (cycle) return cycle;
+  }
+  return undefined;
+}
+
+// Prerequisites still open. Ones this list does not hold (staff only see their
+// own tasks) are taken from what the server last said was blocking.
+export function unfinishedPrerequisites(task: Pick<Task, 'dependencies' | 'blockedBy'>, tasks: TaskLink[]): string[] {
+  return task.dependencies.filter(id => {
+    const prerequisite = tasks.find(t => t.id === id);
+    return prerequisite ? prerequisite.status !== 'completed' : Boolean(task.blockedBy?.includes(id));
+  });
+}
+
+// Why the task cannot move to status yet, or undefined when it can
+export function dependencyBlock(
+  task: Pick<Task, 'dependencies' | 'blockedBy'>,
+  status: TaskStatus,
+  tasks: TaskLink[]
+): string | undefined {
+  if (!DEPENDENT_STATUSES.includes(status)) return undefined;
+  const open = unfinishedPrerequisites(task, tasks);
+  if (open.length === 0) return undefined;
+  const labels = open.map(id => {
+    const prerequisite = tasks.find(t => t.id === id);
+    return prerequisite ? taskLabel(prerequisite) : `task ${id}`;
+  });
+  return `Waiting on ${labels.join(', ')} to be completed`;
+}
+
+export interface DependencyChain {
+  // Nearest first: upstream[0] are the task's own prerequisites
+  upstream: TaskLink[][];
+  // Nearest first: downstream[0] wait directly on the task
+  downstream: TaskLink[][];
+}
+
+// Tasks level by level in one direction; a task shows at the nearest level
+// it is reached
+function chainLevels(taskId: string, next: (id: string) => string[], byId: Map<string, TaskLink>): TaskLink[][] {
+  const levels: TaskLink[][] = [];
+  const seen = new Set([taskId]);
+  let frontier = [taskId];
+  while (frontier.length > 0) {
+    const level = [...new Set(frontier.flatMap(next))].filter(id => !seen.has(id) && byId.has(id));
+    level.forEach(id => seen.add(id));
+    if (level.length > 0) levels.push(level.map(id => byId.get(id)!));
+    frontier = level;
+  }
+  return levels;
+}
+
+export function dependencyChain(taskId: string, tasks: TaskLink[]): DependencyChain {
+  const byId = new Map(tasks.map(task => [task.id, task]));
+  return {
+    upstream: chainLevels(taskId, id => byId.get(id)?.dependencies ?? [], byId),
+    downstream: chainLevels(taskId, id => tasks.filter(task => task.dependencies.includes(id)).map(task => task.id), byId),
+  };
+}
+
+// The ids of every task upstream or downstream of taskId, itself included
+export function chainTaskIds(taskId: string, tasks: DependencyEdges[]): string[] {
+  const found = new Set([taskId]);
+  const reach = (next: (id: string) => string[]) => {
+    let frontier = [taskId];
+    while (frontier.length > 0) {
+      frontier = [...new Set(frontier.flatMap(next))].filter(id => !found.has(id));
+      frontier.forEach(id => found.add(id));
+    }
+  };
+  reach(id => tasks.find(task => task.id === id)?.dependencies ?? []);
+  reach(id => tasks.filter(task => task.dependencies.includes(id)).map(task => task.id));
+  return [...found];
+}
@@ -0,0 +1,36 @@
+// Documents moving through their stages open the task for the next piece of
+// work and close the ones that stage finishes. Each rule names the stage that
+// opens a task, the template it is made from and the stage that completes
+// it. The server applies the rules on every document status change. Shared by
+// the API and the app.
+import { DocumentStatus } from '../types';
+import { Task, TaskPipelineRule } from '../types/task';
+import { DOCUMENT_STAGES, stageLabel } from './documentWorkflow';
+
+const CLOSED_STATUSES: Task['status'][] = ['completed', 'cancelled'];
+
+export const stageIndex = (status: DocumentStatus): number =>
+  DOCUMENT_STAGES.findIndex(stage => stage.status === status);
+
+// Moves back, such as reopening data entry, close nothing
+export const isForwardMove = (from: DocumentStatus | undefined, to: DocumentStatus): boolean =>
+  from === undefined || stageIndex(to) > stageIndex(from);
+
+export const rulesOpenedBy = (rules: TaskPipelineRule[], status: DocumentStatus): TaskPipelineRule[] =>
+  rules.filter(rule => rule.isActive && rule.documentStatus === status);
+
+// The open pipeline tasks a document reaching status finishes
+export const tasksClosedBy = <T extends Pick<Task, 'status' | 'closesOnStatus'>>(tasks: T[], status: DocumentStatus): T[] =>
+  tasks.filter(task =>
+    task.closesOnStatus
+    && !CLOSED_STATUSES.includes(task.status)
+    && stageIndex(status) >= stageIndex(task.closesOnStatus)
+  );
+
+// Why a rule cannot be saved, or undefined when it can
+export function pipelineRuleProblem(rule: Pick<TaskPipelineRule, 'documentStatus' | 'closesOn'>): string | undefined {
+  if (stageIndex(rule.closesOn) <= stageIndex(rule.documentStatus)) {
+    return `A task opened at ${stageLabel(rule.documentStatus)} has to close at a later stage than that`;
+  }
+  return undefined;
+}
@@ -39,6 +39,9 @@ export interface Document {
   registrationDate?: Date;
   deliveryDate?: Date;
   assignedTo?: string;
+  // Set when something needs attention, such as a returned cheque
+  flagReason?: string;
+  flaggedAt?: Date;
   notes: string[];
   files: DocumentFile[];
   createdAt: Date;
@@ -72,25 +75,150 @@ export interface DocumentFile {
   uploadedAt: Date;
 }
 
+export type FeeComponent = 'stamp_duty' | 'registration_fee' | 'dhc' | 'metro_cess' | 'lbt';
+
+// One government fee on a payment, as calculated (or adjusted) when recorded
+export interface FeeLine {
+  component: FeeComponent;
+  label: string;
+  amount: number;
+  explanation: string;
+}
+
 export interface Payment {
   id: string;
   documentId: string;
   agreementValue: number;
+  marketValue?: number;
+  jurisdiction?: string;
   considerationAmount: number;
   dhcAmount: number;
+  fees: FeeLine[];
   totalAmount: number;
   paidAmount: number;
   pendingAmount: number;
+  // Paid back out; a payment with any refund paid is refunded
+  refundedAmount: number;
   paymentStatus: PaymentStatus;
-  paymentMethod?: 'cash' | 'cheque' | 'online' | 'dd';
+  // Method and date of the latest transaction
+  paymentMethod?: PaymentTransaction['method'];
   paymentDate?: Date;
   challanNumber?: string;
+  transactions: PaymentTransaction[];
+  receipts: PaymentReceipt[];
+  refunds: PaymentRefund[];
   createdAt: Date;
   updatedAt: Date;
 }
 
 export type PaymentStatus = 'pending' | 'partial' | 'completed' | 'refunded';
 
+export type ClearanceStatus = 'pending' | 'cleared' | 'bounced';
+
+// One instalment received against a payment
+export interface PaymentTransaction {
+  id: string;
+  paymentId: string;
+  amount: number;
+  method: 'cash' | 'cheque' | 'online' | 'dd';
+  referenceNumber?: string;
+  transactionDate: Date;
+  receivedBy?: string;
+  receivedByName?: string;
+  clearanceStatus: ClearanceStatus;
+  clearedAt?: Date;
+  // Cheques and DDs only; an instrument dated after today is post-dated
+  bankName?: string;
+  instrumentDate?: Date;
+  depositDate?: Date;
+  bouncedAt?: Date;
+  bounceReason?: string;
+  notes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type RefundStatus = 'requested' | 'approved' | 'rejected' | 'paid';
+
+// Money going back to the customer, e.g. when a registration is cancelled
+export interface PaymentRefund {
+  id: string;
+  paymentId: string;
+  amount: number;
+  reason: string;
+  // The transactions being refunded
+  transactionIds: string[];
+  status: RefundStatus;
+  requestedBy?: string;
+  requestedByName?: string;
+  requestedAt: Date;
+  decidedBy?: string;
+  decidedByName?: string;
+  decidedAt?: Date;
+  decisionNote?: string;
+  payoutMethod?: PaymentTransaction['method'];
+  payoutReference?: string;
+  paidAt?: Date;
+  updatedAt: Date;
+}
+
+export type ReceiptKind = 'receipt' | 'invoice';
+
+export interface InvoiceLine {
+  description: string;
+  amount: number;
+}
+
+// A numbered receipt for one transaction, or an invoice for service charges
+export interface PaymentReceipt {
+  id: string;
+  paymentId: string;
+  kind: ReceiptKind;
+  receiptNumber: string;
+  transactionId?: string;
+  amount: number;
+  lines: InvoiceLine[];
+  issuedBy?: string;
+  issuedByName?: string;
+  issuedAt: Date;
+}
+
+export type StatementFormat = 'csv' | 'ofx' | 'mt940';
+
+// Payment transactions are matched to money coming in, approved challans to money going out
+export type MatchKind = 'transaction' | 'challan';
+
+export type MatchStatus = 'unmatched' | 'suggested' | 'confirmed' | 'ignored';
+
+// One entry on an imported bank statement and what it was matched to
+export interface BankStatementLine {
+  id: string;
+  statementId: string;
+  date: Date;
+  amount: number;
+  direction: 'credit' | 'debit';
+  reference?: string;
+  description: string;
+  matchKind?: MatchKind;
+  matchId?: string;
+  matchStatus: MatchStatus;
+  decidedBy?: string;
+  decidedByName?: string;
+  decidedAt?: Date;
+}
+
+export interface BankStatement {
+  id: string;
+  fileName: string;
+  format: StatementFormat;
+  accountNumber?: string;
+  importedBy?: string;
+  importedByName?: string;
+  importedAt: Date;
+  lines: BankStatementLine[];
+  updatedAt: Date;
+}
+
 export interface Challan {
   id: string;
   documentId: string;
@@ -100,6 +228,70 @@ export interface Challan {
   filledAt: Date;
   status: 'draft' | 'submitted' | 'approved' | 'rejected';
   notes?: string;
+  // What goes into the government e-challan; older challans have none
+  gras?: GrasForm;
+  filledById?: string;
+  // When the latest version went for review
+  submittedAt?: Date;
+  approvedBy?: string;
+  approvedByName?: string;
+  approvedAt?: Date;
+  // Each submission, oldest first, and the reviews they received
+  versions: ChallanVersion[];
+  reviews: ChallanReview[];
+  updatedAt: Date;
+}
+
+// The challan as it was when submitted for review
+export interface ChallanVersion {
+  version: number;
+  challanNumber: string;
+  amount: number;
+  notes?: string;
+  gras?: GrasForm;
+  submittedBy?: string;
+  submittedByName?: string;
+  submittedAt: Date;
+}
+
+export type ChallanReviewDecision = 'approved' | 'rejected';
+
+// A reviewer's decision on one version; rejections always say why
+export interface ChallanReview {
+  id: string;
+  version: number;
+  decision: ChallanReviewDecision;
+  comment?: string;
+  reviewedBy?: string;
+  reviewedByName?: string;
+  reviewedAt: Date;
+}
+
+// One head of account on the e-challan and the amount paid under it
+export interface ChallanHead {
+  code: string;
+  label: string;
+  amount: number;
+}
+
+// The fields the government e-challan (GRAS) portal asks for
+export interface GrasForm {
+  department: string;
+  paymentType: string;
+  district: string;
+  office: string;
+  // e.g. 2026-27
+  financialYear: string;
+  partyName: string;
+  partyPan?: string;
+  partyMobile?: string;
+  partyAddress: string;
+  partyPincode?: string;
+  otherPartyName?: string;
+  otherPartyPan?: string;
+  propertyDescription: string;
+  considerationAmount?: number;
+  heads: ChallanHead[];
 }
 
 export interface Customer {
@@ -124,16 +316,67 @@ export interface Builder {
   createdAt: Date;
 }
 
+export type ActivityEntity =
+  | 'documents'
+  | 'payments'
+  | 'challans'
+  | 'customers'
+  | 'builders'
+  | 'tasks'
+  | 'users'
+  | 'salary_records'
+  | 'staff_configs'
+  | 'bank_statements'
+  | 'task_templates'
+  | 'task_pipeline_rules';
+
+export type ActivityAction = 'created' | 'updated' | 'status_changed' | 'deleted';
+
+export interface ActivityChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
 export interface ActivityLog {
   id: string;
-  documentId: string;
-  userId: string;
+  entity: ActivityEntity;
+  recordId: string;
+  // The document the record belongs to, so its timeline can include it
+  documentId?: string;
+  userId?: string;
   userName: string;
-  action: string;
+  action: ActivityAction;
   details: string;
+  changes: ActivityChange[];
   timestamp: Date;
 }
 
+// A message for one user, e.g. that a challan they filled was rejected
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  type: 'info' | 'success' | 'warning' | 'error';
+  isRead: boolean;
+  // Where the notification leads in the app
+  actionUrl?: string;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+// The kinds of record the server numbers
+export type NumberSeries = 'document' | 'challan' | 'task' | 'salary';
+
+// How far one numbering pattern has got, e.g. SALEDEED/2026-27/#
+export interface NumberCounter {
+  scope: string;
+  series: NumberSeries;
+  financialYear: string;
+  lastValue: number;
+  updatedAt: Date;
+}
+
 export interface DashboardStats {
   totalDocuments: number;
   pendingCollection: number;
@@ -1,5 +1,7 @@
 export interface SalaryRecord {
   id: string;
+  // Given by the server, e.g. SAL/2026-27/0004
+  salaryNumber?: string;
   userId: string;
   userName: string;
   userRole: string;
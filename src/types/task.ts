@@ -1,5 +1,9 @@
+import { DocumentStatus } from './index';
+
 export interface Task {
   id: string;
+  // Given by the server, e.g. TASK/2026-27/0012
+  taskNumber?: string;
   title: string;
   description: string;
   type: TaskType;
@@ -17,7 +21,19 @@ export interface Task {
   tags: string[];
   attachments: TaskAttachment[];
   comments: TaskComment[];
+  // Copied from the template the task was made from
+  checklist: TaskChecklistItem[];
   dependencies: string[]; // Task IDs that must be completed first
+  // The dependencies not completed yet; worked out by the server
+  blockedBy?: string[];
+  // Set when the task was given to someone automatically
+  assignment?: TaskAssignment;
+  // The template and the version of it the task was made from
+  templateId?: string;
+  templateVersion?: number;
+  // Set on tasks the document pipeline opened: the stage of their document
+  // that finishes them, at which they are completed automatically
+  closesOnStatus?: DocumentStatus;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -63,31 +79,8 @@ export interface TaskComment {
   isInternal: boolean;
 }
 
-export interface TaskPermission {
-  id: string;
-  userId: string;
-  taskType: TaskType;
-  permissions: {
-    canView: boolean;
-    canCreate: boolean;
-    canEdit: boolean;
-    canDelete: boolean;
-    canAssign: boolean;
-    canComment: boolean;
-    canChangeStatus: boolean;
-    canViewAllTasks: boolean; // Can see tasks assigned to others
-    canEditPriority: boolean;
-    canSetDueDate: boolean;
-    canAddAttachments: boolean;
-    canViewComments: boolean;
-  };
-  restrictions?: {
-    maxTasksPerDay?: number;
-    allowedStatuses?: TaskStatus[];
-    allowedPriorities?: TaskPriority[];
-    canOnlyViewOwnTasks?: boolean;
-  };
-}
+// Just enough of a task to draw the chain of tasks it waits on and unblocks
+export type TaskLink = Pick<Task, 'id' | 'taskNumber' | 'title' | 'status' | 'assignedTo' | 'dependencies'>;
 
 export interface TaskTemplate {
   id: string;
@@ -103,15 +96,89 @@ export interface TaskTemplate {
     department?: string;
     workload?: 'balanced' | 'least_busy';
   };
+  // Goes up by one on every save; tasks keep the version they were made from
+  version: number;
+  // Every saved version, the current one last
+  versions: TaskTemplateVersion[];
+  // The template this one was copied from
+  clonedFrom?: string;
+  // Archived templates are no longer offered for new tasks
+  isArchived: boolean;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What a template's fields were when one version was saved
+export interface TaskTemplateVersion extends Pick<
+  TaskTemplate,
+  'name' | 'description' | 'type' | 'defaultPriority' | 'estimatedHours' | 'checklist' | 'requiredFields' | 'autoAssignmentRules'
+> {
+  version: number;
+  savedBy?: string;
+  savedByName?: string;
+  savedAt: Date;
+}
+
+// The fields an admin edits; saving them makes a new version
+export type TaskTemplateInput = Omit<TaskTemplateVersion, 'version' | 'savedBy' | 'savedByName' | 'savedAt' | 'checklist'> & {
+  checklist: Pick<TaskChecklistItem, 'title' | 'description' | 'isRequired'>[];
+};
+
+// A document reaching documentStatus opens a task from the template, which is
+// completed once the document reaches closesOn
+export interface TaskPipelineRule {
+  id: string;
+  documentStatus: DocumentStatus;
+  templateId: string;
+  closesOn: DocumentStatus;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Limits on the tasks of one type a user may be given (task_permissions)
+export interface TaskPermission {
+  id: string;
+  userId: string;
+  taskType: TaskType;
+  permissions: string[];
+  restrictions: {
+    maxTasksPerDay?: number;
+  };
+}
+
+// One user the assignment engine weighed up for a task
+export interface AssignmentCandidate {
+  userId: string;
+  userName: string;
+  openTasks: number;
+  openHours: number;
+  // Tasks of the same type given to them today
+  assignedToday: number;
+  // Why they could not be given the task; unset for those who could
+  skipped?: string;
+}
+
+// How a task made from a template was given to someone automatically
+export interface TaskAssignment {
+  templateId: string;
+  role?: string;
+  workload: 'balanced' | 'least_busy';
+  reason: string;
+  candidates: AssignmentCandidate[];
+  decidedAt: Date;
 }
 
 export interface TaskChecklistItem {
+  // On a task, the item's place in its checklist
   id: string;
   title: string;
   description?: string;
   isRequired: boolean;
   isCompleted: boolean;
   completedBy?: string;
+  completedByName?: string;
   completedAt?: Date;
 }
 